@@ -0,0 +1,27 @@
+import { listAliases } from '../../lib/aliases';
+import { createHandler } from '../../lib/handler';
+import { requireAdmin } from '../../lib/identity';
+import { listAliasesQuerySchema } from '../../lib/schemas/unmatched-queries';
+import { validate } from '../../lib/validation';
+
+export default createHandler(
+  {
+    GET: async ({ req }) => {
+      const query = validate(listAliasesQuerySchema, req.query);
+
+      const { limit, offset } = query;
+      const { aliases, total } = await listAliases(query);
+
+      return {
+        aliases,
+        pagination: {
+          total,
+          limit,
+          offset,
+          has_more: offset + aliases.length < total,
+        },
+      };
+    },
+  },
+  { use: [requireAdmin], errorMessage: 'Failed to load wine aliases' }
+);
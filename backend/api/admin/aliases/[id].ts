@@ -0,0 +1,28 @@
+import type { VercelRequest } from '@vercel/node';
+import { deleteAlias } from '../../../lib/aliases';
+import { NotFoundError } from '../../../lib/errors';
+import { createHandler } from '../../../lib/handler';
+import { requireAdmin } from '../../../lib/identity';
+import { uuidSchema } from '../../../lib/schemas/common';
+
+// Deleting an alias sends its spelling back to search; a miss puts it back in the queue
+export default createHandler(
+  {
+    DELETE: async ({ req }) => {
+      const id = aliasId(req);
+      if (!(await deleteAlias(id))) {
+        throw new NotFoundError('Wine alias not found');
+      }
+      return { id, deleted: true };
+    },
+  },
+  { use: [requireAdmin], errorMessage: 'Failed to delete wine alias' }
+);
+
+function aliasId(req: VercelRequest): string {
+  const { id } = req.query;
+  if (!id || typeof id !== 'string' || !uuidSchema.safeParse(id).success) {
+    throw new NotFoundError('Wine alias not found');
+  }
+  return id;
+}
@@ -0,0 +1,15 @@
+import { rollupScanStats } from '../../../lib/analytics';
+import { createHandler, type RouteHandler } from '../../../lib/handler';
+import { requireAdminOrCron } from '../../../lib/identity';
+import { rollupQuerySchema } from '../../../lib/schemas/analytics';
+import { validate } from '../../../lib/validation';
+
+// Rebuilds the daily scan rollups. Vercel Cron calls it hourly (GET); POST with ?days= backfills.
+const rollup: RouteHandler = async ({ req }) => {
+  return rollupScanStats(validate(rollupQuerySchema, req.query));
+};
+
+export default createHandler(
+  { GET: rollup, POST: rollup },
+  { use: [requireAdminOrCron], errorMessage: 'Scan rollup failed' }
+);
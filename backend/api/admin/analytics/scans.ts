@@ -0,0 +1,14 @@
+import { getScanReport } from '../../../lib/analytics';
+import { createHandler } from '../../../lib/handler';
+import { requireAdmin } from '../../../lib/identity';
+import { scanReportQuerySchema } from '../../../lib/schemas/analytics';
+import { validate } from '../../../lib/validation';
+
+export default createHandler(
+  {
+    GET: async ({ req }) => {
+      return getScanReport(validate(scanReportQuerySchema, req.query));
+    },
+  },
+  { use: [requireAdmin], errorMessage: 'Failed to build scan report' }
+);
@@ -0,0 +1,22 @@
+import { issueApiKey, listApiKeys } from '../../lib/api-keys';
+import { createHandler, created } from '../../lib/handler';
+import { requireAdmin } from '../../lib/identity';
+import { issueApiKeyRequestSchema, listApiKeysQuerySchema } from '../../lib/schemas/api-keys';
+import { validate } from '../../lib/validation';
+
+export default createHandler(
+  {
+    GET: async ({ req }) => {
+      const apiKeys = await listApiKeys(validate(listApiKeysQuerySchema, req.query));
+      return { api_keys: apiKeys };
+    },
+
+    POST: async ({ req }) => {
+      const { key, api_key } = await issueApiKey(validate(issueApiKeyRequestSchema, req.body));
+
+      // The plaintext key is only ever returned here
+      return created({ key, api_key });
+    },
+  },
+  { use: [requireAdmin], errorMessage: 'Failed to process API key request' }
+);
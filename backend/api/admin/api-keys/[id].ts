@@ -0,0 +1,35 @@
+import type { VercelRequest } from '@vercel/node';
+import { getApiKey, revokeApiKey } from '../../../lib/api-keys';
+import { NotFoundError } from '../../../lib/errors';
+import { createHandler } from '../../../lib/handler';
+import { requireAdmin } from '../../../lib/identity';
+import { uuidSchema } from '../../../lib/schemas/common';
+
+export default createHandler(
+  {
+    GET: async ({ req }) => {
+      const apiKey = await getApiKey(apiKeyId(req));
+      if (!apiKey) {
+        throw new NotFoundError('API key not found');
+      }
+      return { api_key: apiKey };
+    },
+
+    DELETE: async ({ req }) => {
+      const apiKey = await revokeApiKey(apiKeyId(req));
+      if (!apiKey) {
+        throw new NotFoundError('API key not found or already revoked');
+      }
+      return { api_key: apiKey };
+    },
+  },
+  { use: [requireAdmin], errorMessage: 'Failed to process API key request' }
+);
+
+function apiKeyId(req: VercelRequest): string {
+  const { id } = req.query;
+  if (!id || typeof id !== 'string' || !uuidSchema.safeParse(id).success) {
+    throw new NotFoundError('API key not found');
+  }
+  return id;
+}
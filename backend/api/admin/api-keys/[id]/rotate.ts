@@ -0,0 +1,29 @@
+import { rotateApiKey } from '../../../../lib/api-keys';
+import { NotFoundError } from '../../../../lib/errors';
+import { createHandler, created } from '../../../../lib/handler';
+import { requireAdmin } from '../../../../lib/identity';
+import { rotateApiKeyRequestSchema } from '../../../../lib/schemas/api-keys';
+import { uuidSchema } from '../../../../lib/schemas/common';
+import { validate } from '../../../../lib/validation';
+
+export default createHandler(
+  {
+    POST: async ({ req }) => {
+      const { id } = req.query;
+      if (!id || typeof id !== 'string' || !uuidSchema.safeParse(id).success) {
+        throw new NotFoundError('API key not found');
+      }
+
+      const { grace_period_seconds } = validate(rotateApiKeyRequestSchema, req.body ?? undefined);
+
+      const rotated = await rotateApiKey(id, grace_period_seconds);
+      if (!rotated) {
+        throw new NotFoundError('API key not found or revoked');
+      }
+
+      // The plaintext key is only ever returned here
+      return created({ key: rotated.key, api_key: rotated.api_key });
+    },
+  },
+  { use: [requireAdmin], errorMessage: 'Failed to rotate API key' }
+);
@@ -0,0 +1,19 @@
+import { createBusinessAccount, listBusinessAccounts } from '../../lib/business-accounts';
+import { createHandler, created } from '../../lib/handler';
+import { requireAdmin } from '../../lib/identity';
+import { createBusinessAccountRequestSchema } from '../../lib/schemas/business-accounts';
+import { validate } from '../../lib/validation';
+
+export default createHandler(
+  {
+    GET: async () => {
+      return { accounts: await listBusinessAccounts() };
+    },
+
+    POST: async ({ req }) => {
+      const account = await createBusinessAccount(validate(createBusinessAccountRequestSchema, req.body));
+      return created({ account });
+    },
+  },
+  { use: [requireAdmin], errorMessage: 'Failed to process business account request' }
+);
@@ -0,0 +1,38 @@
+import type { VercelRequest } from '@vercel/node';
+import { getBusinessAccount, updateBusinessAccount } from '../../../lib/business-accounts';
+import { NotFoundError } from '../../../lib/errors';
+import { createHandler } from '../../../lib/handler';
+import { requireAdmin } from '../../../lib/identity';
+import { updateBusinessAccountRequestSchema } from '../../../lib/schemas/business-accounts';
+import { uuidSchema } from '../../../lib/schemas/common';
+import { validate } from '../../../lib/validation';
+
+export default createHandler(
+  {
+    GET: async ({ req }) => {
+      const account = await getBusinessAccount(accountId(req));
+      if (!account) {
+        throw new NotFoundError('Business account not found');
+      }
+      return { account };
+    },
+
+    PATCH: async ({ req }) => {
+      const id = accountId(req);
+      const account = await updateBusinessAccount(id, validate(updateBusinessAccountRequestSchema, req.body));
+      if (!account) {
+        throw new NotFoundError('Business account not found');
+      }
+      return { account };
+    },
+  },
+  { use: [requireAdmin], errorMessage: 'Failed to process business account request' }
+);
+
+function accountId(req: VercelRequest): string {
+  const { id } = req.query;
+  if (!id || typeof id !== 'string' || !uuidSchema.safeParse(id).success) {
+    throw new NotFoundError('Business account not found');
+  }
+  return id;
+}
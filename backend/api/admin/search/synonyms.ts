@@ -0,0 +1,33 @@
+import { createHandler, created } from '../../../lib/handler';
+import { requireAdmin } from '../../../lib/identity';
+import { createSearchSynonymRequestSchema, listSearchSynonymsQuerySchema } from '../../../lib/schemas/search-synonyms';
+import { createSearchSynonym, listSearchSynonyms } from '../../../lib/search-synonyms';
+import { validate } from '../../../lib/validation';
+
+// Changes reach the search provider on the next sync (POST /api/admin/search/synonyms/sync)
+export default createHandler(
+  {
+    GET: async ({ req }) => {
+      const query = validate(listSearchSynonymsQuerySchema, req.query);
+
+      const { limit, offset } = query;
+      const { synonyms, total } = await listSearchSynonyms(query);
+
+      return {
+        synonyms,
+        pagination: {
+          total,
+          limit,
+          offset,
+          has_more: offset + synonyms.length < total,
+        },
+      };
+    },
+
+    POST: async ({ req }) => {
+      const synonym = await createSearchSynonym(validate(createSearchSynonymRequestSchema, req.body));
+      return created({ synonym });
+    },
+  },
+  { use: [requireAdmin], errorMessage: 'Failed to process search synonym request' }
+);
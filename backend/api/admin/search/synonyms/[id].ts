@@ -0,0 +1,46 @@
+import type { VercelRequest } from '@vercel/node';
+import { NotFoundError } from '../../../../lib/errors';
+import { createHandler } from '../../../../lib/handler';
+import { requireAdmin } from '../../../../lib/identity';
+import { uuidSchema } from '../../../../lib/schemas/common';
+import { updateSearchSynonymRequestSchema } from '../../../../lib/schemas/search-synonyms';
+import { deleteSearchSynonym, getSearchSynonym, updateSearchSynonym } from '../../../../lib/search-synonyms';
+import { validate } from '../../../../lib/validation';
+
+export default createHandler(
+  {
+    GET: async ({ req }) => {
+      const synonym = await getSearchSynonym(synonymId(req));
+      if (!synonym) {
+        throw new NotFoundError('Search synonym not found');
+      }
+      return { synonym };
+    },
+
+    PATCH: async ({ req }) => {
+      const id = synonymId(req);
+      const synonym = await updateSearchSynonym(id, validate(updateSearchSynonymRequestSchema, req.body));
+      if (!synonym) {
+        throw new NotFoundError('Search synonym not found');
+      }
+      return { synonym };
+    },
+
+    DELETE: async ({ req }) => {
+      const id = synonymId(req);
+      if (!(await deleteSearchSynonym(id))) {
+        throw new NotFoundError('Search synonym not found');
+      }
+      return { id, deleted: true };
+    },
+  },
+  { use: [requireAdmin], errorMessage: 'Failed to process search synonym request' }
+);
+
+function synonymId(req: VercelRequest): string {
+  const { id } = req.query;
+  if (!id || typeof id !== 'string' || !uuidSchema.safeParse(id).success) {
+    throw new NotFoundError('Search synonym not found');
+  }
+  return id;
+}
@@ -0,0 +1,15 @@
+import { createHandler, type RouteHandler } from '../../../../lib/handler';
+import { requireAdminOrCron } from '../../../../lib/identity';
+import { getSearchService } from '../../../../lib/search-provider';
+import { syncSynonyms } from '../../../../lib/search-synonyms';
+
+// Pushes search_synonyms and the index settings to the active search provider. Vercel Cron
+// calls it every 15 minutes (GET); admins POST it to apply changes right away.
+const sync: RouteHandler = async () => {
+  return syncSynonyms(getSearchService());
+};
+
+export default createHandler(
+  { GET: sync, POST: sync },
+  { use: [requireAdminOrCron], errorMessage: 'Search synonym sync failed' }
+);
@@ -0,0 +1,28 @@
+import { createHandler } from '../../lib/handler';
+import { requireAdmin } from '../../lib/identity';
+import { listUnmatchedQueriesQuerySchema } from '../../lib/schemas/unmatched-queries';
+import { listUnmatchedClusters } from '../../lib/unmatched-queries';
+import { validate } from '../../lib/validation';
+
+// The open queue of unmatched queries, clustered by similarity and ranked by frequency
+export default createHandler(
+  {
+    GET: async ({ req }) => {
+      const query = validate(listUnmatchedQueriesQuerySchema, req.query);
+
+      const { limit, offset } = query;
+      const { clusters, total } = await listUnmatchedClusters(query);
+
+      return {
+        clusters,
+        pagination: {
+          total,
+          limit,
+          offset,
+          has_more: offset + clusters.length < total,
+        },
+      };
+    },
+  },
+  { use: [requireAdmin], errorMessage: 'Failed to load unmatched queries' }
+);
@@ -0,0 +1,15 @@
+import { createHandler } from '../../../lib/handler';
+import { requireAdmin } from '../../../lib/identity';
+import { ignoreUnmatchedQueriesRequestSchema } from '../../../lib/schemas/unmatched-queries';
+import { ignoreUnmatchedQueries } from '../../../lib/unmatched-queries';
+import { validate } from '../../../lib/validation';
+
+export default createHandler(
+  {
+    POST: async ({ req }) => {
+      const { query_ids } = validate(ignoreUnmatchedQueriesRequestSchema, req.body);
+      return { ignored: await ignoreUnmatchedQueries(query_ids) };
+    },
+  },
+  { use: [requireAdmin], errorMessage: 'Failed to ignore unmatched queries' }
+);
@@ -0,0 +1,16 @@
+import { createHandler } from '../../../lib/handler';
+import { requireAdmin } from '../../../lib/identity';
+import { resolveUnmatchedQueriesRequestSchema } from '../../../lib/schemas/unmatched-queries';
+import { resolveUnmatchedQueries } from '../../../lib/unmatched-queries';
+import { validate } from '../../../lib/validation';
+
+// Links unmatched queries to a wine; each becomes an alias the matcher answers without searching
+export default createHandler(
+  {
+    POST: async ({ req }) => {
+      const { query_ids, wine_id } = validate(resolveUnmatchedQueriesRequestSchema, req.body);
+      return resolveUnmatchedQueries(query_ids, wine_id);
+    },
+  },
+  { use: [requireAdmin], errorMessage: 'Failed to resolve unmatched queries' }
+);
@@ -0,0 +1,15 @@
+import { createHandler, type RouteHandler } from '../../../lib/handler';
+import { requireAdminOrCron } from '../../../lib/identity';
+import { dispatchWebhooksQuerySchema } from '../../../lib/schemas/webhooks';
+import { validate } from '../../../lib/validation';
+import { dispatchDueDeliveries } from '../../../lib/webhooks';
+
+// Sends due webhook deliveries. Vercel Cron calls it every minute (GET); POST runs it by hand.
+const dispatch: RouteHandler = async ({ req }) => {
+  return dispatchDueDeliveries(validate(dispatchWebhooksQuerySchema, req.query));
+};
+
+export default createHandler(
+  { GET: dispatch, POST: dispatch },
+  { use: [requireAdminOrCron], errorMessage: 'Webhook dispatch failed' }
+);
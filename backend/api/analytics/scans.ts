@@ -0,0 +1,16 @@
+import { recordScanEvents } from '../../lib/analytics';
+import { createHandler } from '../../lib/handler';
+import { authorize, resolveCaller } from '../../lib/identity';
+import { rateLimit } from '../../lib/rate-limit';
+import { scanEventsRequestSchema } from '../../lib/schemas/analytics';
+import { validate } from '../../lib/validation';
+
+export default createHandler(
+  {
+    POST: async ({ req }) => {
+      const { events } = validate(scanEventsRequestSchema, req.body);
+      return recordScanEvents(events, await resolveCaller(req));
+    },
+  },
+  { use: [authorize(), rateLimit()], errorMessage: 'Failed to record scan events' }
+);
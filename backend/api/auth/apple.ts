@@ -0,0 +1,164 @@
+import type { z } from 'zod';
+import type { User } from '../../types';
+import {
+  AppleTokenError,
+  createRemoteJwks,
+  resolveAppleAudience,
+  verifyAppleIdentityToken,
+  type AppleIdentityClaims,
+  type JwksSource,
+} from '../../lib/apple-auth';
+import { generateTokens, USER_COLUMNS } from '../../lib/auth';
+import { ConflictError, UnauthorizedError, ValidationError } from '../../lib/errors';
+import { createHandler } from '../../lib/handler';
+import { rateLimit } from '../../lib/rate-limit';
+import { appleSignInRequestSchema } from '../../lib/schemas/auth';
+import { supabaseAdmin } from '../../lib/supabase';
+import { validate } from '../../lib/validation';
+
+type AppleSignInBody = z.infer<typeof appleSignInRequestSchema>;
+
+export interface AppleSignInDependencies {
+  jwks?: JwksSource;
+  audience?: string[];
+}
+
+export function createAppleSignInHandler({ jwks = createRemoteJwks(), audience }: AppleSignInDependencies = {}) {
+  return createHandler(
+    {
+      POST: async ({ req }) => {
+        const body = validate(appleSignInRequestSchema, req.body);
+
+        let claims: AppleIdentityClaims;
+        try {
+          claims = await verifyAppleIdentityToken(body.identity_token, {
+            jwks,
+            audience: audience ?? resolveAppleAudience(),
+            nonce: body.nonce,
+          });
+        } catch (err) {
+          if (err instanceof AppleTokenError) {
+            throw new UnauthorizedError(`Invalid Apple identity token: ${err.message}`);
+          }
+          throw err;
+        }
+
+        const result = await findOrCreateAppleUser(claims, body);
+        if (!result) {
+          throw new ValidationError('An email address is required the first time you sign in with Apple');
+        }
+
+        const tokens = await generateTokens(result.user);
+
+        return { user: result.user, tokens, is_new_user: result.created };
+      },
+    },
+    { use: [rateLimit()], errorMessage: 'Sign in with Apple failed' }
+  );
+}
+
+export default createAppleSignInHandler();
+
+async function findOrCreateAppleUser(
+  claims: AppleIdentityClaims,
+  body: AppleSignInBody
+): Promise<{ user: User; created: boolean } | null> {
+  const firstName = body.user?.name?.firstName || null;
+  const lastName = body.user?.name?.lastName || null;
+
+  const { data: existing, error } = await supabaseAdmin
+    .from('users')
+    .select(USER_COLUMNS)
+    .eq('apple_user_id', claims.sub)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to look up Apple user: ${error.message}`);
+  }
+
+  if (existing) {
+    const user = existing as User;
+    // Fill in a name that was missed on the first sign-in, never overwrite one
+    if ((firstName && !user.first_name) || (lastName && !user.last_name)) {
+      return { user: await updateUser(user.id, { first_name: user.first_name ?? firstName, last_name: user.last_name ?? lastName }), created: false };
+    }
+    return { user, created: false };
+  }
+
+  // The token's email is authoritative. The body's (sent on first authorization only) is
+  // unverified, so it's only used when the token has none and nobody has the address yet.
+  const email = claims.email ?? body.user?.email?.toLowerCase() ?? null;
+  if (!email) {
+    return null;
+  }
+  if (!claims.email && (await emailTaken(email))) {
+    throw new ConflictError('An account with this email already exists');
+  }
+
+  // Link an existing email/password account, but only on a verified, real address:
+  // private relay addresses are unique per app and can't belong to another account
+  if (claims.email && claims.email_verified && !claims.is_private_email) {
+    const { data: byEmail } = await supabaseAdmin
+      .from('users')
+      .select(USER_COLUMNS)
+      .eq('email', claims.email)
+      .is('apple_user_id', null)
+      .maybeSingle();
+
+    if (byEmail) {
+      const user = byEmail as User;
+      return {
+        user: await updateUser(user.id, {
+          apple_user_id: claims.sub,
+          first_name: user.first_name ?? firstName,
+          last_name: user.last_name ?? lastName,
+        }),
+        created: false,
+      };
+    }
+  }
+
+  const { data: created, error: createError } = await supabaseAdmin
+    .from('users')
+    .insert({
+      email,
+      apple_user_id: claims.sub,
+      first_name: firstName,
+      last_name: lastName,
+    })
+    .select(USER_COLUMNS)
+    .single();
+
+  if (createError?.code === '23505') {
+    throw new ConflictError('An account with this email already exists');
+  }
+  if (createError || !created) {
+    throw new Error(`Failed to create Apple user: ${createError?.message}`);
+  }
+
+  return { user: created as User, created: true };
+}
+
+async function emailTaken(email: string): Promise<boolean> {
+  const { data, error } = await supabaseAdmin.from('users').select('id').eq('email', email).limit(1);
+
+  if (error) {
+    throw new Error(`Failed to look up user email: ${error.message}`);
+  }
+  return (data ?? []).length > 0;
+}
+
+async function updateUser(id: string, fields: Record<string, string | null>): Promise<User> {
+  const { data, error } = await supabaseAdmin
+    .from('users')
+    .update(fields)
+    .eq('id', id)
+    .select(USER_COLUMNS)
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Failed to update user: ${error?.message}`);
+  }
+
+  return data as User;
+}
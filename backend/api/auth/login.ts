@@ -0,0 +1,41 @@
+import type { User } from '../../types';
+import { generateTokens, USER_COLUMNS } from '../../lib/auth';
+import { UnauthorizedError } from '../../lib/errors';
+import { createHandler } from '../../lib/handler';
+import { DUMMY_PASSWORD_HASH, verifyPassword } from '../../lib/password';
+import { rateLimit } from '../../lib/rate-limit';
+import { loginRequestSchema } from '../../lib/schemas/auth';
+import { supabaseAdmin } from '../../lib/supabase';
+import { validate } from '../../lib/validation';
+
+export default createHandler(
+  {
+    POST: async ({ req }) => {
+      const { email, password } = validate(loginRequestSchema, req.body);
+
+      const { data: account, error } = await supabaseAdmin
+        .from('users')
+        .select(`${USER_COLUMNS}, password_hash`)
+        .eq('email', email)
+        .maybeSingle();
+
+      if (error) {
+        throw new Error(`Failed to look up user: ${error.message}`);
+      }
+
+      // Always run the hash so unknown emails and wrong passwords take the same time;
+      // accounts created through Sign in with Apple have no password
+      const { password_hash, ...user } = (account ?? {}) as User & { password_hash?: string | null };
+      const valid = await verifyPassword(password, password_hash || DUMMY_PASSWORD_HASH);
+
+      if (!account || !password_hash || !valid) {
+        throw new UnauthorizedError('Invalid email or password');
+      }
+
+      const tokens = await generateTokens(user as User);
+
+      return { user, tokens };
+    },
+  },
+  { use: [rateLimit()], errorMessage: 'Login failed' }
+);
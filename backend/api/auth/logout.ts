@@ -0,0 +1,23 @@
+import { requireUser, revokeAllRefreshTokens, revokeRefreshToken } from '../../lib/auth';
+import { createHandler } from '../../lib/handler';
+import { rateLimit } from '../../lib/rate-limit';
+import { logoutRequestSchema } from '../../lib/schemas/auth';
+import { validate } from '../../lib/validation';
+
+export default createHandler(
+  {
+    POST: async ({ req }) => {
+      const body = validate(logoutRequestSchema, req.body);
+
+      if ('refresh_token' in body) {
+        await revokeRefreshToken(body.refresh_token);
+      } else {
+        const user = await requireUser(req);
+        await revokeAllRefreshTokens(user.id);
+      }
+
+      return { logged_out: true };
+    },
+  },
+  { use: [rateLimit()], errorMessage: 'Logout failed' }
+);
@@ -0,0 +1,32 @@
+import { rotateRefreshToken } from '../../lib/auth';
+import { UnauthorizedError } from '../../lib/errors';
+import { createHandler } from '../../lib/handler';
+import { rateLimit } from '../../lib/rate-limit';
+import { refreshRequestSchema } from '../../lib/schemas/auth';
+import { validate } from '../../lib/validation';
+
+const FAILURE_MESSAGES = {
+  invalid: 'Invalid refresh token',
+  expired: 'Refresh token expired',
+  reused: 'Refresh token already used; please sign in again',
+};
+
+export default createHandler(
+  {
+    POST: async ({ req }) => {
+      const { refresh_token } = validate(refreshRequestSchema, req.body);
+
+      const result = await rotateRefreshToken(refresh_token);
+
+      if (result.status !== 'rotated') {
+        if (result.status === 'reused') {
+          console.warn('Refresh token reuse detected; token family revoked');
+        }
+        throw new UnauthorizedError(FAILURE_MESSAGES[result.status]);
+      }
+
+      return { user: result.user, tokens: result.tokens };
+    },
+  },
+  { use: [rateLimit()], errorMessage: 'Token refresh failed' }
+);
@@ -0,0 +1,42 @@
+import type { User } from '../../types';
+import { generateTokens, USER_COLUMNS } from '../../lib/auth';
+import { ConflictError } from '../../lib/errors';
+import { createHandler, created } from '../../lib/handler';
+import { hashPassword } from '../../lib/password';
+import { rateLimit } from '../../lib/rate-limit';
+import { registerRequestSchema } from '../../lib/schemas/auth';
+import { supabaseAdmin } from '../../lib/supabase';
+import { validate } from '../../lib/validation';
+
+export default createHandler(
+  {
+    POST: async ({ req }) => {
+      const { email, password, first_name, last_name, marketing_consent } = validate(registerRequestSchema, req.body);
+
+      const { data: user, error } = await supabaseAdmin
+        .from('users')
+        .insert({
+          email,
+          password_hash: await hashPassword(password),
+          first_name: first_name || null,
+          last_name: last_name || null,
+          marketing_consent: marketing_consent ?? false,
+        })
+        .select(USER_COLUMNS)
+        .single();
+
+      // Unique violation on users.email
+      if (error?.code === '23505') {
+        throw new ConflictError('An account with this email already exists');
+      }
+      if (error || !user) {
+        throw new Error(`Failed to create user: ${error?.message}`);
+      }
+
+      const tokens = await generateTokens(user as User);
+
+      return created({ user, tokens });
+    },
+  },
+  { use: [rateLimit()], errorMessage: 'Registration failed' }
+);
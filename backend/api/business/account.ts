@@ -0,0 +1,14 @@
+import { countMembers, requireBusinessAccess, requireBusinessAccount } from '../../lib/business-accounts';
+import { createHandler } from '../../lib/handler';
+import { rateLimit } from '../../lib/rate-limit';
+
+// The account named in X-Business-Account, readable while its subscription is lapsed
+export default createHandler(
+  {
+    GET: async ({ req }) => {
+      const { account, role } = await requireBusinessAccess(req);
+      return { account, role, seats_used: await countMembers(account.id) };
+    },
+  },
+  { use: [requireBusinessAccount({ allowInactive: true }), rateLimit()], errorMessage: 'Failed to load business account' }
+);
@@ -0,0 +1,31 @@
+import { addMember, listMembers, manageableRoles, requireBusinessAccess, requireBusinessAccount } from '../../../lib/business-accounts';
+import { ForbiddenError } from '../../../lib/errors';
+import { createHandler, created } from '../../../lib/handler';
+import { rateLimit } from '../../../lib/rate-limit';
+import { addMemberRequestSchema } from '../../../lib/schemas/business-accounts';
+import { validate } from '../../../lib/validation';
+
+// Members can be managed while the subscription is lapsed, so seats can be freed up
+export default createHandler(
+  {
+    GET: async ({ req }) => {
+      const { account } = await requireBusinessAccess(req);
+      return { members: await listMembers(account.id) };
+    },
+
+    POST: {
+      use: [requireBusinessAccount({ role: 'manager', allowInactive: true })],
+      handle: async ({ req }) => {
+        const { account, role: actorRole } = await requireBusinessAccess(req);
+        const { email, role } = validate(addMemberRequestSchema, req.body);
+
+        if (!manageableRoles(actorRole).includes(role)) {
+          throw new ForbiddenError(`A ${actorRole} cannot add a ${role}`);
+        }
+
+        return created({ member: await addMember(account, email, role) });
+      },
+    },
+  },
+  { use: [requireBusinessAccount({ allowInactive: true }), rateLimit()], errorMessage: 'Failed to process member request' }
+);
@@ -0,0 +1,68 @@
+import type { VercelRequest } from '@vercel/node';
+import {
+  changeMember,
+  listMembers,
+  manageableRoles,
+  requireBusinessAccess,
+  requireBusinessAccount,
+} from '../../../../lib/business-accounts';
+import { ForbiddenError, NotFoundError } from '../../../../lib/errors';
+import { createHandler } from '../../../../lib/handler';
+import { rateLimit } from '../../../../lib/rate-limit';
+import { updateMemberRequestSchema } from '../../../../lib/schemas/business-accounts';
+import { uuidSchema } from '../../../../lib/schemas/common';
+import { validate } from '../../../../lib/validation';
+
+// A member by user ID. Changing roles is for owners; owners remove anyone, managers remove
+// staff, and every member can remove themselves (leave the account).
+export default createHandler(
+  {
+    PATCH: {
+      use: [requireBusinessAccount({ role: 'owner', allowInactive: true })],
+      handle: async ({ req }) => {
+        const { account } = await requireBusinessAccess(req);
+        const userId = memberId(req);
+        const { role } = validate(updateMemberRequestSchema, req.body);
+
+        if (!(await changeMember(account.id, userId, role))) {
+          throw new NotFoundError('Member not found');
+        }
+
+        const member = (await listMembers(account.id)).find(entry => entry.user_id === userId);
+        if (!member) {
+          throw new NotFoundError('Member not found');
+        }
+        return { member };
+      },
+    },
+
+    DELETE: async ({ req }) => {
+      const { account, role: actorRole, user_id: actorId } = await requireBusinessAccess(req);
+      const userId = memberId(req);
+
+      if (userId !== actorId) {
+        const target = (await listMembers(account.id)).find(entry => entry.user_id === userId);
+        if (!target) {
+          throw new NotFoundError('Member not found');
+        }
+        if (!manageableRoles(actorRole).includes(target.role)) {
+          throw new ForbiddenError(`A ${actorRole} cannot remove a ${target.role}`);
+        }
+      }
+
+      if (!(await changeMember(account.id, userId, null))) {
+        throw new NotFoundError('Member not found');
+      }
+      return { user_id: userId, removed: true };
+    },
+  },
+  { use: [requireBusinessAccount({ allowInactive: true }), rateLimit()], errorMessage: 'Failed to process member request' }
+);
+
+function memberId(req: VercelRequest): string {
+  const { id } = req.query;
+  if (!id || typeof id !== 'string' || !uuidSchema.safeParse(id).success) {
+    throw new NotFoundError('Member not found');
+  }
+  return id;
+}
@@ -0,0 +1,24 @@
+import { requireBusinessAccess, requireBusinessAccount } from '../../../lib/business-accounts';
+import { NotFoundError } from '../../../lib/errors';
+import { createHandler } from '../../../lib/handler';
+import { getListAnalysis } from '../../../lib/list-analysis';
+import { rateLimit } from '../../../lib/rate-limit';
+import { uuidSchema } from '../../../lib/schemas/common';
+
+export default createHandler(
+  {
+    GET: async ({ req }) => {
+      const { account } = await requireBusinessAccess(req);
+
+      const { id } = req.query;
+      const analysis =
+        typeof id === 'string' && uuidSchema.safeParse(id).success ? await getListAnalysis(account.id, id) : null;
+      if (!analysis) {
+        throw new NotFoundError('List analysis not found');
+      }
+
+      return analysis;
+    },
+  },
+  { use: [requireBusinessAccount(), rateLimit()], errorMessage: 'Failed to load list analysis' }
+);
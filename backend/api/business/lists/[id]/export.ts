@@ -0,0 +1,27 @@
+import { requireBusinessAccess, requireBusinessAccount } from '../../../../lib/business-accounts';
+import { NotFoundError } from '../../../../lib/errors';
+import { createHandler } from '../../../../lib/handler';
+import { getListAnalysis, listAnalysisToCsv } from '../../../../lib/list-analysis';
+import { rateLimit } from '../../../../lib/rate-limit';
+import { uuidSchema } from '../../../../lib/schemas/common';
+
+// The per-wine rows of a stored analysis as a CSV download (no response envelope)
+export default createHandler(
+  {
+    GET: async ({ req, res }) => {
+      const { account } = await requireBusinessAccess(req);
+
+      const { id } = req.query;
+      const analysis =
+        typeof id === 'string' && uuidSchema.safeParse(id).success ? await getListAnalysis(account.id, id) : null;
+      if (!analysis) {
+        throw new NotFoundError('List analysis not found');
+      }
+
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="wine-list-analysis-${analysis.analysis_id}.csv"`);
+      res.status(200).send(listAnalysisToCsv(analysis));
+    },
+  },
+  { use: [requireBusinessAccount(), rateLimit()], errorMessage: 'Failed to export list analysis' }
+);
@@ -0,0 +1,40 @@
+import { requireBusinessAccess, requireBusinessAccount } from '../../../lib/business-accounts';
+import { ServiceUnavailableError } from '../../../lib/errors';
+import { createHandler, created } from '../../../lib/handler';
+import { analyzeList, saveListAnalysis } from '../../../lib/list-analysis';
+import { DEFAULT_CONFIDENCE_THRESHOLD, matchQueries } from '../../../lib/matcher';
+import { batchCost, enforceRateLimit } from '../../../lib/rate-limit';
+import { analyzeListRequestSchema } from '../../../lib/schemas/business';
+import { recordUnmatchedQueries } from '../../../lib/unmatched-queries';
+import { validate } from '../../../lib/validation';
+
+export default createHandler(
+  {
+    POST: async ({ req, res }) => {
+      const { account, user_id } = await requireBusinessAccess(req);
+      const { wines, restaurant_name, options } = validate(analyzeListRequestSchema, req.body);
+
+      await enforceRateLimit(req, res, { cost: batchCost(wines.length) });
+
+      const outcome = await matchQueries(
+        wines.map(wine => ({ query: wine.text, hints: wine.section ? { section: wine.section } : undefined })),
+        { confidenceThreshold: options.confidence_threshold ?? DEFAULT_CONFIDENCE_THRESHOLD }
+      );
+
+      if (outcome.unavailable) {
+        throw new ServiceUnavailableError('Search is temporarily unavailable');
+      }
+
+      await recordUnmatchedQueries(outcome.matches);
+
+      const report = analyzeList(wines, outcome.matches, {
+        include_markup_analysis: options.include_markup_analysis,
+        markup_range: options.markup_range,
+        include_drink_window_alerts: options.include_drink_window_alerts,
+      });
+
+      return created(await saveListAnalysis(account.id, user_id, restaurant_name ?? null, report));
+    },
+  },
+  { use: [requireBusinessAccount()], errorMessage: 'Wine list analysis failed' }
+);
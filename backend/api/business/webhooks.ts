@@ -0,0 +1,24 @@
+import { requireBusinessAccess, requireBusinessAccount } from '../../lib/business-accounts';
+import { createHandler, created } from '../../lib/handler';
+import { rateLimit } from '../../lib/rate-limit';
+import { createWebhookEndpointRequestSchema } from '../../lib/schemas/webhooks';
+import { validate } from '../../lib/validation';
+import { createWebhookEndpoint, listWebhookEndpoints } from '../../lib/webhooks';
+
+export default createHandler(
+  {
+    GET: async ({ req }) => {
+      const { account } = await requireBusinessAccess(req);
+      return { endpoints: await listWebhookEndpoints(account.id) };
+    },
+
+    POST: async ({ req }) => {
+      const { account } = await requireBusinessAccess(req);
+      const input = validate(createWebhookEndpointRequestSchema, req.body);
+
+      // The signing secret is only ever returned here
+      return created(await createWebhookEndpoint(account.id, input));
+    },
+  },
+  { use: [requireBusinessAccount({ role: 'manager' }), rateLimit()], errorMessage: 'Failed to process webhook request' }
+);
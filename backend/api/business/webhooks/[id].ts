@@ -0,0 +1,50 @@
+import type { VercelRequest } from '@vercel/node';
+import { requireBusinessAccess, requireBusinessAccount } from '../../../lib/business-accounts';
+import { NotFoundError } from '../../../lib/errors';
+import { createHandler } from '../../../lib/handler';
+import { rateLimit } from '../../../lib/rate-limit';
+import { uuidSchema } from '../../../lib/schemas/common';
+import { updateWebhookEndpointRequestSchema } from '../../../lib/schemas/webhooks';
+import { validate } from '../../../lib/validation';
+import { deleteWebhookEndpoint, getWebhookEndpoint, updateWebhookEndpoint } from '../../../lib/webhooks';
+
+export default createHandler(
+  {
+    GET: async ({ req }) => {
+      const { account } = await requireBusinessAccess(req);
+      const endpoint = await getWebhookEndpoint(account.id, endpointId(req));
+      if (!endpoint) {
+        throw new NotFoundError('Webhook endpoint not found');
+      }
+      return { endpoint };
+    },
+
+    PATCH: async ({ req }) => {
+      const { account } = await requireBusinessAccess(req);
+      const id = endpointId(req);
+      const endpoint = await updateWebhookEndpoint(account.id, id, validate(updateWebhookEndpointRequestSchema, req.body));
+      if (!endpoint) {
+        throw new NotFoundError('Webhook endpoint not found');
+      }
+      return { endpoint };
+    },
+
+    DELETE: async ({ req }) => {
+      const { account } = await requireBusinessAccess(req);
+      const id = endpointId(req);
+      if (!(await deleteWebhookEndpoint(account.id, id))) {
+        throw new NotFoundError('Webhook endpoint not found');
+      }
+      return { id, deleted: true };
+    },
+  },
+  { use: [requireBusinessAccount({ role: 'manager' }), rateLimit()], errorMessage: 'Failed to process webhook request' }
+);
+
+function endpointId(req: VercelRequest): string {
+  const { id } = req.query;
+  if (!id || typeof id !== 'string' || !uuidSchema.safeParse(id).success) {
+    throw new NotFoundError('Webhook endpoint not found');
+  }
+  return id;
+}
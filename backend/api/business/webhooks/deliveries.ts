@@ -0,0 +1,30 @@
+import { requireBusinessAccess, requireBusinessAccount } from '../../../lib/business-accounts';
+import { createHandler } from '../../../lib/handler';
+import { rateLimit } from '../../../lib/rate-limit';
+import { listDeliveriesQuerySchema } from '../../../lib/schemas/webhooks';
+import { validate } from '../../../lib/validation';
+import { listDeliveries } from '../../../lib/webhooks';
+
+// The account's webhook delivery log, newest first
+export default createHandler(
+  {
+    GET: async ({ req }) => {
+      const { account } = await requireBusinessAccess(req);
+      const query = validate(listDeliveriesQuerySchema, req.query);
+
+      const { limit, offset } = query;
+      const { deliveries, total } = await listDeliveries(account.id, query);
+
+      return {
+        deliveries,
+        pagination: {
+          total,
+          limit,
+          offset,
+          has_more: offset + deliveries.length < total,
+        },
+      };
+    },
+  },
+  { use: [requireBusinessAccount({ role: 'manager' }), rateLimit()], errorMessage: 'Failed to load webhook deliveries' }
+);
@@ -0,0 +1,23 @@
+import { requireBusinessAccess, requireBusinessAccount } from '../../../../lib/business-accounts';
+import { NotFoundError } from '../../../../lib/errors';
+import { createHandler } from '../../../../lib/handler';
+import { rateLimit } from '../../../../lib/rate-limit';
+import { uuidSchema } from '../../../../lib/schemas/common';
+import { getDelivery } from '../../../../lib/webhooks';
+
+export default createHandler(
+  {
+    GET: async ({ req }) => {
+      const { account } = await requireBusinessAccess(req);
+
+      const { id } = req.query;
+      const delivery = typeof id === 'string' && uuidSchema.safeParse(id).success ? await getDelivery(account.id, id) : null;
+      if (!delivery) {
+        throw new NotFoundError('Webhook delivery not found');
+      }
+
+      return { delivery };
+    },
+  },
+  { use: [requireBusinessAccount({ role: 'manager' }), rateLimit()], errorMessage: 'Failed to load webhook delivery' }
+);
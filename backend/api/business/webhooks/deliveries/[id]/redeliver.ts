@@ -0,0 +1,24 @@
+import { requireBusinessAccess, requireBusinessAccount } from '../../../../../lib/business-accounts';
+import { NotFoundError } from '../../../../../lib/errors';
+import { createHandler, created } from '../../../../../lib/handler';
+import { rateLimit } from '../../../../../lib/rate-limit';
+import { uuidSchema } from '../../../../../lib/schemas/common';
+import { redeliver } from '../../../../../lib/webhooks';
+
+// Queues the delivery's event to its endpoint again; the new delivery is sent on the next dispatch
+export default createHandler(
+  {
+    POST: async ({ req }) => {
+      const { account } = await requireBusinessAccess(req);
+
+      const { id } = req.query;
+      const delivery = typeof id === 'string' && uuidSchema.safeParse(id).success ? await redeliver(account.id, id) : null;
+      if (!delivery) {
+        throw new NotFoundError('Webhook delivery not found');
+      }
+
+      return created({ delivery });
+    },
+  },
+  { use: [requireBusinessAccount({ role: 'manager' }), rateLimit()], errorMessage: 'Failed to redeliver webhook' }
+);
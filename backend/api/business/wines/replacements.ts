@@ -0,0 +1,27 @@
+import { requireBusinessAccount } from '../../../lib/business-accounts';
+import { NotFoundError } from '../../../lib/errors';
+import { createHandler } from '../../../lib/handler';
+import { rateLimit } from '../../../lib/rate-limit';
+import { suggestReplacements } from '../../../lib/replacements';
+import { replacementsRequestSchema } from '../../../lib/schemas/business';
+import { validate } from '../../../lib/validation';
+import { getWineDetail } from '../../../lib/wines';
+
+export default createHandler(
+  {
+    POST: async ({ req }) => {
+      const { wine_id, constraints, limit } = validate(replacementsRequestSchema, req.body);
+
+      const original = await getWineDetail(wine_id);
+      if (!original) {
+        throw new NotFoundError('Wine not found');
+      }
+
+      return {
+        original_wine: original,
+        suggestions: await suggestReplacements(original, constraints, limit),
+      };
+    },
+  },
+  { use: [requireBusinessAccount(), rateLimit()], errorMessage: 'Failed to suggest replacements' }
+);
@@ -0,0 +1,16 @@
+import { createHandler } from '../lib/handler';
+import { buildOpenApiDocument } from '../lib/openapi';
+
+let document: ReturnType<typeof buildOpenApiDocument> | null = null;
+
+// Served as the bare document (no response envelope) so OpenAPI tooling can consume it
+export default createHandler(
+  {
+    GET: async ({ res }) => {
+      document ??= buildOpenApiDocument();
+      res.setHeader('Cache-Control', 'public, max-age=300');
+      res.status(200).json(document);
+    },
+  },
+  { errorMessage: 'Failed to build OpenAPI document' }
+);
@@ -0,0 +1,102 @@
+import type { SubscriptionTier } from '../../types';
+import {
+  AppStoreSignatureError,
+  createAppStoreVerifier,
+  deriveSubscriptionState,
+  resolveAppStoreBundleId,
+  resolveProductTiers,
+  verifyAppStorePayload,
+  type AppStoreNotification,
+  type AppStoreRenewalInfo,
+  type AppStoreTransaction,
+  type AppStoreVerifier,
+} from '../../lib/app-store';
+import { UnauthorizedError } from '../../lib/errors';
+import { createHandler } from '../../lib/handler';
+import { appStoreNotificationRequestSchema } from '../../lib/schemas/subscriptions';
+import {
+  applySubscriptionState,
+  findUserIdForTransaction,
+  isNotificationProcessed,
+  recordNotification,
+} from '../../lib/subscriptions';
+import { validate } from '../../lib/validation';
+
+// App Store Server Notifications v2. Renewals, expirations, billing retry and grace periods,
+// refunds and revocations all carry the latest signed transaction (and renewal info), which
+// the subscription state is derived from; the notification type itself is only recorded.
+// Apple retries anything but a 2xx, so notifications for unknown users or products are
+// acknowledged and ignored.
+
+export interface AppStoreNotificationDependencies {
+  verifier?: AppStoreVerifier;
+  bundleId?: string;
+  productTiers?: Record<string, SubscriptionTier>;
+}
+
+export function createAppStoreNotificationsHandler({
+  verifier = createAppStoreVerifier(),
+  bundleId,
+  productTiers,
+}: AppStoreNotificationDependencies = {}) {
+  return createHandler(
+    {
+      POST: async ({ req }) => {
+        const { signedPayload } = validate(appStoreNotificationRequestSchema, req.body);
+        const appBundleId = bundleId ?? resolveAppStoreBundleId();
+
+        let notification: AppStoreNotification;
+        let transaction: AppStoreTransaction | null = null;
+        let renewal: AppStoreRenewalInfo | undefined;
+        try {
+          notification = verifier.verify<AppStoreNotification>(signedPayload);
+          const data = notification.data;
+          if (data?.bundleId && data.bundleId !== appBundleId) {
+            throw new AppStoreSignatureError(`Signed for another app (${data.bundleId})`);
+          }
+          if (data?.signedTransactionInfo) {
+            transaction = verifyAppStorePayload<AppStoreTransaction>(verifier, data.signedTransactionInfo, appBundleId);
+          }
+          if (data?.signedRenewalInfo) {
+            renewal = verifyAppStorePayload<AppStoreRenewalInfo>(verifier, data.signedRenewalInfo, appBundleId);
+          }
+        } catch (err) {
+          if (err instanceof AppStoreSignatureError) {
+            throw new UnauthorizedError(`Invalid signed payload: ${err.message}`);
+          }
+          throw err;
+        }
+
+        if (await isNotificationProcessed(notification.notificationUUID)) {
+          return { received: true, duplicate: true };
+        }
+
+        let userId: string | null = null;
+        const tier = transaction ? (productTiers ?? resolveProductTiers())[transaction.productId] : undefined;
+        if (transaction && tier) {
+          userId = await findUserIdForTransaction(transaction);
+          if (userId) {
+            await applySubscriptionState(
+              userId,
+              deriveSubscriptionState(transaction, tier, {
+                renewal,
+                status: notification.data?.status,
+                signedDate: notification.signedDate,
+              })
+            );
+          }
+        }
+
+        await recordNotification(notification, {
+          originalTransactionId: transaction?.originalTransactionId ?? null,
+          userId,
+        });
+
+        return { received: true, duplicate: false };
+      },
+    },
+    { errorMessage: 'Failed to process App Store notification' }
+  );
+}
+
+export default createAppStoreNotificationsHandler();
@@ -0,0 +1,78 @@
+import type { SubscriptionTier } from '../../types';
+import {
+  AppStoreSignatureError,
+  createAppStoreVerifier,
+  deriveSubscriptionState,
+  resolveAppStoreBundleId,
+  resolveProductTiers,
+  verifyAppStorePayload,
+  type AppStoreTransaction,
+  type AppStoreVerifier,
+} from '../../lib/app-store';
+import { requireAuth, requireUser } from '../../lib/auth';
+import { ConflictError, ValidationError } from '../../lib/errors';
+import { createHandler } from '../../lib/handler';
+import { rateLimit } from '../../lib/rate-limit';
+import { verifySubscriptionRequestSchema } from '../../lib/schemas/subscriptions';
+import { applySubscriptionState } from '../../lib/subscriptions';
+import { validate } from '../../lib/validation';
+
+export interface VerifySubscriptionDependencies {
+  verifier?: AppStoreVerifier;
+  bundleId?: string;
+  productTiers?: Record<string, SubscriptionTier>;
+}
+
+export function createVerifySubscriptionHandler({
+  verifier = createAppStoreVerifier(),
+  bundleId,
+  productTiers,
+}: VerifySubscriptionDependencies = {}) {
+  return createHandler(
+    {
+      POST: async ({ req }) => {
+        const user = await requireUser(req);
+        const body = validate(verifySubscriptionRequestSchema, req.body);
+
+        let transaction: AppStoreTransaction;
+        try {
+          transaction = verifyAppStorePayload<AppStoreTransaction>(
+            verifier,
+            body.signed_transaction,
+            bundleId ?? resolveAppStoreBundleId()
+          );
+        } catch (err) {
+          if (err instanceof AppStoreSignatureError) {
+            throw new ValidationError(`Invalid signed transaction: ${err.message}`, [
+              { field: 'signed_transaction', message: err.message },
+            ]);
+          }
+          throw err;
+        }
+
+        if (body.transaction_id && body.transaction_id !== transaction.transactionId) {
+          throw new ValidationError('transaction_id does not match the signed transaction', [
+            { field: 'transaction_id', message: 'Does not match the signed transaction' },
+          ]);
+        }
+
+        const tier = (productTiers ?? resolveProductTiers())[transaction.productId];
+        if (!tier) {
+          throw new ValidationError(`Unknown subscription product: ${transaction.productId}`);
+        }
+
+        // The app sets appAccountToken to the signed-in user's ID when purchasing
+        if (transaction.appAccountToken && transaction.appAccountToken.toLowerCase() !== user.id) {
+          throw new ConflictError('This purchase was made by another account');
+        }
+
+        const subscription = await applySubscriptionState(user.id, deriveSubscriptionState(transaction, tier));
+
+        return { subscription };
+      },
+    },
+    { use: [rateLimit(), requireAuth], errorMessage: 'Subscription verification failed' }
+  );
+}
+
+export default createVerifySubscriptionHandler();
@@ -0,0 +1,15 @@
+import { requireAuth, requireUser } from '../../../lib/auth';
+import { listMemberships } from '../../../lib/business-accounts';
+import { createHandler } from '../../../lib/handler';
+import { rateLimit } from '../../../lib/rate-limit';
+
+// Business accounts the user belongs to, with the IDs to send as X-Business-Account
+export default createHandler(
+  {
+    GET: async ({ req }) => {
+      const user = await requireUser(req);
+      return { accounts: await listMemberships(user.id) };
+    },
+  },
+  { use: [rateLimit(), requireAuth], errorMessage: 'Failed to load business accounts' }
+);
@@ -0,0 +1,21 @@
+import { requireAuth, requireUser } from '../../../lib/auth';
+import { UnauthorizedError } from '../../../lib/errors';
+import { createHandler } from '../../../lib/handler';
+import { rateLimit } from '../../../lib/rate-limit';
+import { getScanUsage } from '../../../lib/scan-quota';
+
+export default createHandler(
+  {
+    GET: async ({ req }) => {
+      const user = await requireUser(req);
+
+      const scans = await getScanUsage(user.id);
+      if (!scans) {
+        throw new UnauthorizedError('Account not found');
+      }
+
+      return { scans };
+    },
+  },
+  { use: [rateLimit(), requireAuth], errorMessage: 'Failed to load usage' }
+);
@@ -0,0 +1,61 @@
+import { requireAuth, requireUser } from '../../../lib/auth';
+import { ConflictError, NotFoundError } from '../../../lib/errors';
+import { createHandler, created } from '../../../lib/handler';
+import { rateLimit } from '../../../lib/rate-limit';
+import { contextToColumns, getSavedWine, listSavedWines } from '../../../lib/saved-wines';
+import { listSavedWinesSchema, saveWineRequestSchema } from '../../../lib/schemas/saved-wines';
+import { supabaseAdmin } from '../../../lib/supabase';
+import { validate } from '../../../lib/validation';
+
+export default createHandler(
+  {
+    GET: async ({ req }) => {
+      const user = await requireUser(req);
+      const query = validate(listSavedWinesSchema, req.query);
+
+      const { limit, offset } = query;
+      const { wines, total } = await listSavedWines(user.id, query);
+
+      return {
+        wines,
+        pagination: {
+          total,
+          limit,
+          offset,
+          has_more: offset + wines.length < total,
+        },
+      };
+    },
+
+    POST: async ({ req }) => {
+      const user = await requireUser(req);
+      const { wine_id, notes, context } = validate(saveWineRequestSchema, req.body);
+
+      const { data: saved, error } = await supabaseAdmin
+        .from('saved_wines')
+        .insert({
+          user_id: user.id,
+          wine_id,
+          notes: notes ?? null,
+          ...contextToColumns(context),
+        })
+        .select('id')
+        .single();
+
+      // UNIQUE(user_id, wine_id)
+      if (error?.code === '23505') {
+        throw new ConflictError('Wine is already saved');
+      }
+      // Foreign key on wine_id
+      if (error?.code === '23503') {
+        throw new NotFoundError('Wine not found');
+      }
+      if (error || !saved) {
+        throw new Error(`Failed to save wine: ${error?.message}`);
+      }
+
+      return created({ saved_wine: await getSavedWine(user.id, saved.id) });
+    },
+  },
+  { use: [rateLimit(), requireAuth], errorMessage: 'Failed to process saved wines request' }
+);
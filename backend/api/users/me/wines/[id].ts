@@ -0,0 +1,85 @@
+import type { VercelRequest } from '@vercel/node';
+import { requireAuth, requireUser } from '../../../../lib/auth';
+import { NotFoundError, ValidationError } from '../../../../lib/errors';
+import { createHandler } from '../../../../lib/handler';
+import { rateLimit } from '../../../../lib/rate-limit';
+import { contextToColumns, getSavedWine } from '../../../../lib/saved-wines';
+import { uuidSchema } from '../../../../lib/schemas/common';
+import { updateSavedWineRequestSchema } from '../../../../lib/schemas/saved-wines';
+import { supabaseAdmin } from '../../../../lib/supabase';
+import { validate } from '../../../../lib/validation';
+
+export default createHandler(
+  {
+    GET: async ({ req }) => {
+      const user = await requireUser(req);
+      const savedWine = await getSavedWine(user.id, savedWineId(req));
+      if (!savedWine) {
+        throw new NotFoundError('Saved wine not found');
+      }
+
+      return { saved_wine: savedWine };
+    },
+
+    PATCH: async ({ req }) => {
+      const user = await requireUser(req);
+      const id = savedWineId(req);
+      const { notes, context } = validate(updateSavedWineRequestSchema, req.body);
+
+      const changes = {
+        ...(notes !== undefined ? { notes } : {}),
+        ...contextToColumns(context),
+      };
+
+      if (Object.keys(changes).length === 0) {
+        throw new ValidationError('Nothing to update: provide notes and/or context');
+      }
+
+      const { data: updated, error } = await supabaseAdmin
+        .from('saved_wines')
+        .update(changes)
+        .eq('id', id)
+        .eq('user_id', user.id)
+        .select('id');
+
+      if (error) {
+        throw new Error(`Failed to update saved wine: ${error.message}`);
+      }
+      if (!updated?.length) {
+        throw new NotFoundError('Saved wine not found');
+      }
+
+      return { saved_wine: await getSavedWine(user.id, id) };
+    },
+
+    DELETE: async ({ req }) => {
+      const user = await requireUser(req);
+      const id = savedWineId(req);
+
+      const { data: deleted, error } = await supabaseAdmin
+        .from('saved_wines')
+        .delete()
+        .eq('id', id)
+        .eq('user_id', user.id)
+        .select('id');
+
+      if (error) {
+        throw new Error(`Failed to delete saved wine: ${error.message}`);
+      }
+      if (!deleted?.length) {
+        throw new NotFoundError('Saved wine not found');
+      }
+
+      return { id, deleted: true };
+    },
+  },
+  { use: [rateLimit(), requireAuth], errorMessage: 'Failed to process saved wine request' }
+);
+
+function savedWineId(req: VercelRequest): string {
+  const { id } = req.query;
+  if (!id || typeof id !== 'string' || !uuidSchema.safeParse(id).success) {
+    throw new NotFoundError('Saved wine not found');
+  }
+  return id;
+}
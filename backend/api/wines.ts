@@ -0,0 +1,27 @@
+import { createHandler } from '../lib/handler';
+import { authorize } from '../lib/identity';
+import { rateLimit } from '../lib/rate-limit';
+import { browseWinesQuerySchema } from '../lib/schemas/wines';
+import { validate } from '../lib/validation';
+import { browseWines } from '../lib/wine-browse';
+
+export default createHandler(
+  {
+    GET: async ({ req }) => {
+      const query = validate(browseWinesQuerySchema, req.query);
+      const { wines, facets, total, next_cursor } = await browseWines(query);
+
+      return {
+        wines,
+        facets,
+        pagination: {
+          total,
+          limit: query.limit,
+          next_cursor,
+          has_more: next_cursor !== null,
+        },
+      };
+    },
+  },
+  { use: [authorize({ scope: 'search' }), rateLimit()], errorMessage: 'Failed to browse wines' }
+);
@@ -0,0 +1,46 @@
+import { createHandler } from '../../../lib/handler';
+import { NotFoundError } from '../../../lib/errors';
+import { authorize } from '../../../lib/identity';
+import { rateLimit } from '../../../lib/rate-limit';
+import { listWineReviews } from '../../../lib/reviews';
+import { uuidSchema } from '../../../lib/schemas/common';
+import { wineReviewsQuerySchema } from '../../../lib/schemas/wines';
+import { validate } from '../../../lib/validation';
+import { getWineDetail } from '../../../lib/wines';
+
+export default createHandler(
+  {
+    GET: async ({ req }) => {
+      const { id } = req.query;
+
+      if (!id || typeof id !== 'string' || !uuidSchema.safeParse(id).success) {
+        throw new NotFoundError('Wine not found');
+      }
+
+      const query = validate(wineReviewsQuerySchema, req.query);
+      const wine = await getWineDetail(id);
+      if (!wine) {
+        throw new NotFoundError('Wine not found');
+      }
+
+      const { limit, offset } = query;
+      const { reviews, total } = await listWineReviews(wine, {
+        include_other_vintages: query.include_other_vintages ?? false,
+        sort: query.sort,
+        limit,
+        offset,
+      });
+
+      return {
+        reviews,
+        pagination: {
+          total,
+          limit,
+          offset,
+          has_more: offset + reviews.length < total,
+        },
+      };
+    },
+  },
+  { use: [authorize({ scope: 'search' }), rateLimit()], errorMessage: 'Failed to fetch wine reviews' }
+);
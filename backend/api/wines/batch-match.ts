@@ -1,75 +1,96 @@
-import type { VercelRequest, VercelResponse } from '@vercel/node';
-import { algoliaSearch } from '../../lib/algolia';
-import { success, badRequest, serverError } from '../../lib/response';
-import type { BatchMatchResult } from '../../types';
+import { createHandler } from '../../lib/handler';
+import { ServiceUnavailableError, ValidationError } from '../../lib/errors';
+import { DEFAULT_AMBIGUITY_MARGIN, DEFAULT_CONFIDENCE_THRESHOLD, matchQueries, type BatchMatchOutcome } from '../../lib/matcher';
+import { authorize } from '../../lib/identity';
+import { batchCost, enforceRateLimit } from '../../lib/rate-limit';
+import { consumeScan } from '../../lib/scan-quota';
+import { batchMatchRequestSchema, MAX_BATCH_QUERIES } from '../../lib/schemas/wines';
+import { openEventStream, resolveStreamFormat } from '../../lib/stream';
+import { recordUnmatchedQueries } from '../../lib/unmatched-queries';
+import { validate } from '../../lib/validation';
 
-export default async function handler(req: VercelRequest, res: VercelResponse) {
-  if (req.method !== 'POST') {
-    return res.status(405).json({ error: 'Method not allowed' });
-  }
+export default createHandler(
+  {
+    POST: async ({ req, res, startedAt }) => {
+      const { queries, options } = validate(batchMatchRequestSchema, req.body);
 
-  try {
-    const { queries, options } = req.body as {
-      queries: string[];
-      options?: { fuzzy?: boolean; confidence_threshold?: number };
-    };
+      const format = resolveStreamFormat(req, options?.stream);
+      if (!format && queries.length > MAX_BATCH_QUERIES) {
+        throw new ValidationError(
+          `Maximum ${MAX_BATCH_QUERIES} queries per request (use streaming for longer lists)`,
+          [{ field: 'queries', message: `Array must contain at most ${MAX_BATCH_QUERIES} element(s)` }]
+        );
+      }
 
-    if (!queries || !Array.isArray(queries) || queries.length === 0) {
-      const response = badRequest('queries array is required');
-      return res.status(400).json(JSON.parse(await response.text()));
-    }
+      await enforceRateLimit(req, res, { cost: batchCost(queries.length) });
+      const scan = await consumeScan(req);
 
-    if (queries.length > 100) {
-      const response = badRequest('Maximum 100 queries per request');
-      return res.status(400).json(JSON.parse(await response.text()));
-    }
+      const matchOptions = {
+        confidenceThreshold: options?.confidence_threshold ?? DEFAULT_CONFIDENCE_THRESHOLD,
+        maxCandidates: options?.max_candidates ?? 0,
+        ambiguityMargin: options?.ambiguity_margin ?? DEFAULT_AMBIGUITY_MARGIN,
+      };
 
-    const confidenceThreshold = options?.confidence_threshold ?? 0.7;
+      if (format) {
+        // Headers go out now, so failures after this point are reported in the stream
+        const events = openEventStream(res, format);
 
-    // Process all queries in parallel
-    const matchPromises = queries.map(async (query): Promise<BatchMatchResult> => {
-      try {
-        const results = await algoliaSearch.search(query, { limit: 1 });
-        const bestMatch = results[0];
+        try {
+          const outcome = await matchQueries(queries, {
+            ...matchOptions,
+            onMatch: (match, index) => events.send('match', { index, ...match }),
+          });
+
+          events.send('summary', {
+            total: queries.length,
+            matched: outcome.matches.filter(m => m.matched).length,
+            match_rate: outcome.match_rate,
+            processing_time_ms: Date.now() - startedAt,
+            providers: outcome.providers,
+            degraded: outcome.degraded,
+            unavailable: outcome.unavailable,
+            unique_queries: outcome.stats.unique_queries,
+            search_requests: outcome.stats.search_requests,
+          });
 
-        if (bestMatch && bestMatch.match_confidence >= confidenceThreshold) {
-          return {
-            query,
-            matched: true,
-            wine: bestMatch.wine,
-            confidence: bestMatch.match_confidence,
-          };
+          if (outcome.unavailable) await scan?.release();
+          await recordUnmatchedQueries(outcome.matches);
+        } catch (err) {
+          await scan?.release();
+          events.send('error', { code: 'SERVER_ERROR', message: 'Batch matching failed' });
+          throw err;
+        } finally {
+          events.end();
         }
+        return;
+      }
 
-        return {
-          query,
-          matched: false,
-          wine: null,
-          confidence: bestMatch?.match_confidence ?? 0,
-        };
-      } catch {
-        return {
-          query,
-          matched: false,
-          wine: null,
-          confidence: 0,
-        };
+      let outcome: BatchMatchOutcome;
+      try {
+        outcome = await matchQueries(queries, matchOptions);
+      } catch (err) {
+        // A failed request isn't charged
+        await scan?.release();
+        throw err;
       }
-    });
 
-    const matches = await Promise.all(matchPromises);
-    const matchedCount = matches.filter(m => m.matched).length;
+      if (outcome.unavailable) {
+        await scan?.release();
+        throw new ServiceUnavailableError('Search is temporarily unavailable');
+      }
 
-    const response = success({
-      matches,
-      match_rate: matchedCount / queries.length,
-      processing_time_ms: 0, // Would measure actual time
-    });
+      await recordUnmatchedQueries(outcome.matches);
 
-    return res.status(200).json(JSON.parse(await response.text()));
-  } catch (err) {
-    console.error('Batch match error:', err);
-    const response = serverError('Batch matching failed');
-    return res.status(500).json(JSON.parse(await response.text()));
-  }
-}
+      return {
+        matches: outcome.matches,
+        match_rate: outcome.match_rate,
+        processing_time_ms: Date.now() - startedAt,
+        providers: outcome.providers,
+        degraded: outcome.degraded,
+        unique_queries: outcome.stats.unique_queries,
+        search_requests: outcome.stats.search_requests,
+      };
+    },
+  },
+  { use: [authorize({ scope: 'batch-match' })], errorMessage: 'Batch matching failed' }
+);
@@ -0,0 +1,82 @@
+import { createHandler } from '../../lib/handler';
+import { ServiceUnavailableError, ValidationError } from '../../lib/errors';
+import { parseWineList } from '../../lib/list-parser';
+import { DEFAULT_CONFIDENCE_THRESHOLD, matchQueries, type BatchMatchOutcome } from '../../lib/matcher';
+import { authorizeCaller } from '../../lib/identity';
+import { batchCost, enforceRateLimit } from '../../lib/rate-limit';
+import { consumeScan } from '../../lib/scan-quota';
+import { MAX_LIST_LINES, MAX_MATCHED_LIST_ENTRIES, parseListRequestSchema } from '../../lib/schemas/wines';
+import { recordUnmatchedQueries } from '../../lib/unmatched-queries';
+import { validate } from '../../lib/validation';
+
+export default createHandler(
+  {
+    POST: async ({ req, res }) => {
+      const { lines, text, options } = validate(parseListRequestSchema, req.body);
+
+      const input = lines ?? (text ?? '').split(/\r?\n/);
+      if (input.length > MAX_LIST_LINES) {
+        throw new ValidationError(`Maximum ${MAX_LIST_LINES} lines per request`, [
+          { field: 'text', message: `Text must contain at most ${MAX_LIST_LINES} lines` },
+        ]);
+      }
+
+      // Parsing alone needs no scope; matching is authorized and charged like batch-match.
+      // The base request is charged before parsing, so callers over their limit cost nothing.
+      await authorizeCaller(req, options?.match ? { scope: 'batch-match' } : {});
+      await enforceRateLimit(req, res);
+
+      const parsed = parseWineList(input);
+
+      if (!options?.match) {
+        return parsed;
+      }
+
+      // Feed the parsed queries straight into the batch matcher
+      if (parsed.entries.length > MAX_MATCHED_LIST_ENTRIES) {
+        throw new ValidationError(`Maximum ${MAX_MATCHED_LIST_ENTRIES} entries can be matched per request`);
+      }
+
+      // The rest of the batch cost, now that the number of entries is known
+      const extraCost = batchCost(parsed.entries.length) - 1;
+      if (extraCost > 0) {
+        await enforceRateLimit(req, res, { cost: extraCost });
+      }
+
+      const scan = await consumeScan(req);
+
+      // The section header a line sits under narrows the search (e.g. "Champagne" -> sparkling)
+      const queries = parsed.entries.map(entry => ({
+        query: entry.query,
+        hints: entry.section ? { section: entry.section } : undefined,
+      }));
+
+      let outcome: BatchMatchOutcome;
+      try {
+        outcome = await matchQueries(queries, {
+          confidenceThreshold: options.confidence_threshold ?? DEFAULT_CONFIDENCE_THRESHOLD,
+        });
+      } catch (err) {
+        // A failed request isn't charged
+        await scan?.release();
+        throw err;
+      }
+
+      if (outcome.unavailable) {
+        await scan?.release();
+        throw new ServiceUnavailableError('Search is temporarily unavailable');
+      }
+
+      await recordUnmatchedQueries(outcome.matches);
+
+      return {
+        ...parsed,
+        entries: parsed.entries.map((entry, index) => ({ ...entry, match: outcome.matches[index] })),
+        match_rate: outcome.match_rate,
+        providers: outcome.providers,
+        degraded: outcome.degraded,
+      };
+    },
+  },
+  { errorMessage: 'Failed to parse wine list' }
+);
@@ -1,73 +1,108 @@
 import algoliasearch from 'algoliasearch';
+import type { SearchClient, SearchIndex } from 'algoliasearch';
 import type { WineWithReview, SearchResult } from '../types';
+import { toSearchResult } from './confidence';
+import {
+  normalizeText,
+  wineFullName,
+  type MultiSearchRequest,
+  type SearchOptions,
+  type SearchService,
+  type SynonymGroup,
+} from './search';
+import { MIN_WORD_SIZE_FOR_1_TYPO, MIN_WORD_SIZE_FOR_2_TYPOS, WINE_INDEX_SETTINGS, WINE_SYNONYMS } from './search-settings';
+
+const WINE_INDEX_NAME = 'wines';
+
+let client: SearchClient | null = null;
+let wineIndex: SearchIndex | null = null;
+
+export function hasAlgoliaCredentials(): boolean {
+  return Boolean(process.env.ALGOLIA_APP_ID?.trim() && process.env.ALGOLIA_API_KEY?.trim());
+}
 
-const appId = process.env.ALGOLIA_APP_ID?.trim();
-const apiKey = process.env.ALGOLIA_API_KEY?.trim();
+// Created on first use so routes that never search can load without Algolia credentials
+function getClient(): SearchClient {
+  if (!client) {
+    const appId = process.env.ALGOLIA_APP_ID?.trim();
+    const apiKey = process.env.ALGOLIA_API_KEY?.trim();
 
-if (!appId || !apiKey) {
-  throw new Error('Missing Algolia credentials: ALGOLIA_APP_ID and ALGOLIA_API_KEY must be set');
-}
+    if (!appId || !apiKey) {
+      throw new Error('Missing Algolia credentials: ALGOLIA_APP_ID and ALGOLIA_API_KEY must be set');
+    }
 
-const client = algoliasearch(appId, apiKey);
-const wineIndex = client.initIndex('wines');
+    client = algoliasearch(appId, apiKey);
+  }
+  return client;
+}
 
-// Search interface - allows swapping to Elasticsearch later
-export interface SearchService {
-  search(query: string, options?: SearchOptions): Promise<SearchResult[]>;
-  indexWine(wine: WineWithReview): Promise<void>;
-  indexWines(wines: WineWithReview[]): Promise<void>;
-  deleteWine(wineId: string): Promise<void>;
+function getWineIndex(): SearchIndex {
+  if (!wineIndex) {
+    wineIndex = getClient().initIndex(WINE_INDEX_NAME);
+  }
+  return wineIndex;
 }
 
-export interface SearchOptions {
-  limit?: number;
-  filters?: {
-    color?: string;
-    country?: string;
-    min_score?: number;
-    vintage?: number;
+// Query parameters shared by single and multi-query searches
+function searchParams(options: SearchOptions = {}) {
+  const { limit = 10, filters } = options;
+
+  // Build filter string
+  const filterParts: string[] = [];
+  if (filters?.color) filterParts.push(`color:${filters.color}`);
+  if (filters?.country) filterParts.push(`country:"${filters.country}"`);
+  if (filters?.min_score) filterParts.push(`score >= ${filters.min_score}`);
+  if (filters?.vintage) filterParts.push(`vintage = ${filters.vintage}`);
+
+  return {
+    hitsPerPage: limit,
+    filters: filterParts.join(' AND '),
+    attributesToRetrieve: ['*'],
+    typoTolerance: true,
+    minWordSizefor1Typo: MIN_WORD_SIZE_FOR_1_TYPO,
+    minWordSizefor2Typos: MIN_WORD_SIZE_FOR_2_TYPOS,
   };
 }
 
 // Algolia implementation
 export const algoliaSearch: SearchService = {
+  name: 'algolia',
+
   async search(query: string, options: SearchOptions = {}): Promise<SearchResult[]> {
-    const { limit = 10, filters } = options;
-
-    // Build filter string
-    const filterParts: string[] = [];
-    if (filters?.color) filterParts.push(`color:${filters.color}`);
-    if (filters?.country) filterParts.push(`country:"${filters.country}"`);
-    if (filters?.min_score) filterParts.push(`score >= ${filters.min_score}`);
-    if (filters?.vintage) filterParts.push(`vintage = ${filters.vintage}`);
-
-    const results = await wineIndex.search<AlgoliaWineRecord>(query, {
-      hitsPerPage: limit,
-      filters: filterParts.join(' AND '),
-      attributesToRetrieve: ['*'],
-      typoTolerance: true,
-      minWordSizefor1Typo: 3,
-      minWordSizefor2Typos: 6,
-    });
-
-    return results.hits.map((hit) => ({
-      wine: algoliaHitToWine(hit),
-      match_confidence: calculateConfidence(query, hit),
-      match_type: 'fuzzy' as const,
-    }));
+    const results = await getWineIndex().search<AlgoliaWineRecord>(query, searchParams(options));
+
+    return results.hits.map((hit) => toSearchResult(query, algoliaHitToWine(hit)));
   },
 
+  async multiSearch(requests: MultiSearchRequest[]): Promise<SearchResult[][]> {
+    const { results } = await getClient().multipleQueries<AlgoliaWineRecord>(
+      requests.map(({ query, options }) => ({
+        indexName: WINE_INDEX_NAME,
+        query,
+        params: searchParams(options),
+      }))
+    );
+
+    return results.map((result, i) =>
+      'hits' in result
+        ? result.hits.map((hit) => toSearchResult(requests[i].query, algoliaHitToWine(hit)))
+        : []
+    );
+  },
+
+  configureIndex: (synonyms) => configureAlgoliaIndex(synonyms),
+
   async indexWine(wine: WineWithReview): Promise<void> {
-    await wineIndex.saveObject(wineToAlgoliaRecord(wine));
+    await getWineIndex().saveObject(wineToAlgoliaRecord(wine));
   },
 
   async indexWines(wines: WineWithReview[]): Promise<void> {
     const records = wines.map(wineToAlgoliaRecord);
-    await wineIndex.saveObjects(records);
+    await getWineIndex().saveObjects(records);
   },
 
   async deleteWine(wineId: string): Promise<void> {
-    await wineIndex.deleteObject(wineId);
+    await getWineIndex().deleteObject(wineId);
   },
 };
 
@@ -101,9 +136,7 @@ interface AlgoliaWineRecord {
 }
 
 function wineToAlgoliaRecord(wine: WineWithReview): AlgoliaWineRecord {
-  const fullName = wine.vintage
-    ? `${wine.producer} ${wine.name} ${wine.vintage}`
-    : `${wine.producer} ${wine.name}`;
+  const fullName = wineFullName(wine);
 
   return {
     objectID: wine.id,
@@ -161,70 +194,16 @@ function algoliaHitToWine(hit: AlgoliaWineRecord): WineWithReview {
   };
 }
 
-function normalizeText(text: string): string {
-  return text
-    .toLowerCase()
-    .normalize('NFD')
-    .replace(/[\u0300-\u036f]/g, '') // Remove diacritics
-    .replace(/[^a-z0-9\s]/g, ' ')    // Remove special chars
-    .replace(/\s+/g, ' ')             // Normalize spaces
-    .trim();
+// Applies the shared index settings and replaces every synonym with the given set
+export async function configureAlgoliaIndex(synonyms: SynonymGroup[] = WINE_SYNONYMS): Promise<void> {
+  await getWineIndex().setSettings(WINE_INDEX_SETTINGS);
+  await getWineIndex().saveSynonyms(toAlgoliaSynonyms(synonyms), { replaceExistingSynonyms: true });
 }
 
-function calculateConfidence(query: string, hit: AlgoliaWineRecord): number {
-  const normalizedQuery = normalizeText(query);
-  const normalizedHit = hit.searchable_text;
-
-  // Simple token overlap calculation
-  const queryTokens = new Set(normalizedQuery.split(' '));
-  const hitTokens = new Set(normalizedHit.split(' '));
-
-  let matches = 0;
-  for (const token of queryTokens) {
-    if (hitTokens.has(token)) matches++;
-  }
-
-  const baseConfidence = matches / queryTokens.size;
-
-  // Boost for vintage match
-  const vintageMatch = hit.vintage && query.includes(String(hit.vintage));
-
-  return Math.min(0.99, baseConfidence * 0.8 + (vintageMatch ? 0.15 : 0) + 0.05);
-}
-
-// Configure Algolia index settings (run once during setup)
-export async function configureAlgoliaIndex(): Promise<void> {
-  await wineIndex.setSettings({
-    searchableAttributes: [
-      'full_name',
-      'producer',
-      'name',
-      'producer_normalized',
-      'name_normalized',
-      'searchable_text',
-      'region',
-      'grape_varieties',
-    ],
-    attributesForFaceting: [
-      'filterOnly(color)',
-      'filterOnly(country)',
-      'filterOnly(vintage)',
-      'searchable(region)',
-      'score',
-    ],
-    customRanking: ['desc(score)'],
-    typoTolerance: true,
-    minWordSizefor1Typo: 3,
-    minWordSizefor2Typos: 6,
-  });
-
-  // Configure synonyms separately
-  await wineIndex.saveSynonyms([
-    { objectID: 'cab', type: 'synonym', synonyms: ['cabernet', 'cab', 'cabernet sauvignon', 'cs'] },
-    { objectID: 'chard', type: 'synonym', synonyms: ['chardonnay', 'chard'] },
-    { objectID: 'sauv', type: 'synonym', synonyms: ['sauvignon', 'sauv', 'sauvignon blanc', 'sb'] },
-    { objectID: 'pn', type: 'synonym', synonyms: ['pinot noir', 'pn', 'pinot'] },
-    { objectID: 'chateau', type: 'synonym', synonyms: ['chateau', 'ch', 'cht', 'château'] },
-    { objectID: 'domaine', type: 'synonym', synonyms: ['domaine', 'dom', 'domaine de'] },
-  ]);
+export function toAlgoliaSynonyms(synonyms: SynonymGroup[]) {
+  return synonyms.map(({ objectID, input, synonyms }) =>
+    input
+      ? { objectID, type: 'oneWaySynonym' as const, input, synonyms }
+      : { objectID, type: 'synonym' as const, synonyms }
+  );
 }
@@ -0,0 +1,66 @@
+import type { WineAlias, WineWithReview } from '../types';
+import { supabaseAdmin } from './supabase';
+import { getWinesByIds } from './wines';
+
+// Curated wine aliases: restaurant spellings linked to a wine from the unmatched query queue
+// (lib/unmatched-queries.ts). The matcher checks them before searching, keyed by normalizeText.
+
+const ALIAS_COLUMNS = 'id, alias, normalized_alias, wine_id, created_at';
+
+// Wines aliased by any of the normalized queries, keyed by normalized query
+export async function findAliasedWines(normalizedQueries: string[]): Promise<Map<string, WineWithReview>> {
+  const aliased = new Map<string, WineWithReview>();
+  if (!normalizedQueries.length) {
+    return aliased;
+  }
+
+  const { data, error } = await supabaseAdmin.rpc('find_wine_aliases', { p_normalized: normalizedQueries });
+  if (error) {
+    throw new Error(`Failed to look up wine aliases: ${error.message}`);
+  }
+
+  const aliases = (data ?? []) as { normalized_alias: string; wine_id: string }[];
+  if (!aliases.length) {
+    return aliased;
+  }
+
+  const wines = new Map(
+    (await getWinesByIds([...new Set(aliases.map(alias => alias.wine_id))])).map(
+      // Batch results carry the search index's wine shape
+      ({ issue_date: _issueDate, release_price_currency: _currency, ...wine }) => [wine.id, wine]
+    )
+  );
+
+  for (const alias of aliases) {
+    const wine = wines.get(alias.wine_id);
+    if (wine) aliased.set(alias.normalized_alias, wine);
+  }
+  return aliased;
+}
+
+export async function listAliases(filters: {
+  wine_id?: string;
+  limit: number;
+  offset: number;
+}): Promise<{ aliases: WineAlias[]; total: number }> {
+  let query = supabaseAdmin.from('wine_aliases').select(ALIAS_COLUMNS, { count: 'exact' });
+  if (filters.wine_id) query = query.eq('wine_id', filters.wine_id);
+
+  const { data, error, count } = await query
+    .order('created_at', { ascending: false })
+    .range(filters.offset, filters.offset + filters.limit - 1);
+
+  if (error) {
+    throw new Error(`Failed to list wine aliases: ${error.message}`);
+  }
+  return { aliases: (data ?? []) as WineAlias[], total: count ?? 0 };
+}
+
+export async function deleteAlias(id: string): Promise<boolean> {
+  const { data, error } = await supabaseAdmin.from('wine_aliases').delete().eq('id', id).select('id');
+
+  if (error) {
+    throw new Error(`Failed to delete wine alias: ${error.message}`);
+  }
+  return (data ?? []).length > 0;
+}
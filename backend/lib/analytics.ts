@@ -0,0 +1,300 @@
+import type { z } from 'zod';
+import type {
+  Caller,
+  FilterUsage,
+  LatencyPercentiles,
+  ScanGroupReport,
+  ScanReport,
+  ScanReportDimension,
+  ScanStats,
+  ScanTrendPoint,
+} from '../types';
+import { ValidationError } from './errors';
+import type { scanEventSchema } from './schemas/analytics';
+import { supabaseAdmin } from './supabase';
+
+// Scan analytics from the apps. Events are stored as received in scan_events (deduplicated by
+// the device's event ID), rolled up per UTC day by rollupScanStats(), and reported from the
+// rollups so a report never scans raw events.
+
+export type ScanEventInput = z.infer<typeof scanEventSchema>;
+
+// Events may arrive late (apps queue them offline); older ones would miss the rollup window
+export const MAX_EVENT_AGE_DAYS = 7;
+const MAX_CLOCK_SKEW_MS = 60 * 60_000;
+
+// Upper bounds (ms) of the processing time histogram buckets; a last bucket holds the rest.
+// Rollups store counts per bucket, so changing these needs the stats rolled up again.
+const LATENCY_BUCKETS_MS = [250, 500, 750, 1000, 1500, 2000, 3000, 4000, 5000, 7500, 10_000, 15_000, 20_000, 30_000, 60_000];
+
+const DAY_MS = 24 * 60 * 60_000;
+const MAX_REPORT_DAYS = 366;
+const DEFAULT_REPORT_DAYS = 30;
+const PAGE_SIZE = 1000;
+
+export interface IngestResult {
+  accepted: number;
+  duplicates: number;
+  rejected: number;
+}
+
+// Stores a batch in one insert. Events outside the accepted time window are dropped rather
+// than failing the batch, so an app doesn't keep resending them.
+export async function recordScanEvents(events: ScanEventInput[], caller: Caller, now = Date.now()): Promise<IngestResult> {
+  const unique = new Map<string, ScanEventInput>();
+  for (const event of events) {
+    unique.set(event.event_id, event);
+  }
+
+  const inWindow = [...unique.values()].filter(event => {
+    const occurredAt = Date.parse(event.timestamp);
+    return occurredAt >= now - MAX_EVENT_AGE_DAYS * DAY_MS && occurredAt <= now + MAX_CLOCK_SKEW_MS;
+  });
+  const rejected = unique.size - inWindow.length;
+
+  if (!inWindow.length) {
+    return { accepted: 0, duplicates: events.length - unique.size, rejected };
+  }
+
+  const rows = inWindow.map(({ event_id, event_type, timestamp, data }) => ({
+    client_event_id: event_id,
+    event_type,
+    occurred_at: timestamp,
+    user_id: caller.type === 'user' ? caller.id : null,
+    api_key_id: caller.type === 'api_key' ? caller.id : null,
+    platform: data.platform ?? (data.ios_version ? 'ios' : null),
+    app_version: data.app_version ?? null,
+    os_version: data.os_version ?? data.ios_version ?? null,
+    device_model: data.device_model ?? null,
+    wines_detected: data.wines_detected,
+    wines_matched: data.wines_matched,
+    processing_time_ms: data.processing_time_ms,
+    filters_used: [...new Set(data.filters_used)],
+  }));
+
+  // Only newly inserted rows come back, so the rest were already stored
+  const { data, error } = await supabaseAdmin
+    .from('scan_events')
+    .upsert(rows, { onConflict: 'client_event_id', ignoreDuplicates: true })
+    .select('id');
+
+  if (error) {
+    throw new Error(`Failed to store scan events: ${error.message}`);
+  }
+
+  const accepted = data?.length ?? 0;
+  return { accepted, duplicates: events.length - rejected - accepted, rejected };
+}
+
+// Rebuilds the daily rollups for the last `days` UTC days, today included. The default covers
+// every day a late event can still land in.
+export async function rollupScanStats(
+  { days = MAX_EVENT_AGE_DAYS + 1 }: { days?: number } = {},
+  now = Date.now()
+): Promise<{ from: string; to: string; events: number }> {
+  const to = utcDay(now);
+  const from = addDays(to, -(days - 1));
+
+  const { data, error } = await supabaseAdmin.rpc('rollup_scan_events', {
+    p_from: from,
+    p_to: to,
+    p_latency_bounds: LATENCY_BUCKETS_MS,
+  });
+  if (error) {
+    throw new Error(`Failed to roll up scan events: ${error.message}`);
+  }
+
+  return { from, to, events: (data as number | null) ?? 0 };
+}
+
+export interface ScanReportQuery {
+  from?: string;
+  to?: string;
+  group_by: ScanReportDimension;
+  platform?: string;
+  app_version?: string;
+  limit: number;
+}
+
+interface DailyStatsRow {
+  day: string;
+  platform: string;
+  app_version: string;
+  device_model: string;
+  scans: number;
+  wines_detected: number;
+  wines_matched: number;
+  latency_histogram: number[];
+}
+
+interface FilterStatsRow {
+  day: string;
+  filter: string;
+  scans: number;
+}
+
+const DAILY_STATS_COLUMNS = 'day, platform, app_version, device_model, scans, wines_detected, wines_matched, latency_histogram';
+
+export async function getScanReport(query: ScanReportQuery, now = Date.now()): Promise<ScanReport> {
+  const to = query.to ?? utcDay(now);
+  const from = query.from ?? addDays(to, -(DEFAULT_REPORT_DAYS - 1));
+
+  if (from > to) {
+    throw new ValidationError('from must not be after to', [{ field: 'from', message: 'Must not be after to' }]);
+  }
+  if (daysBetween(from, to) >= MAX_REPORT_DAYS) {
+    throw new ValidationError(`A report covers at most ${MAX_REPORT_DAYS} days`, [
+      { field: 'from', message: `Must be within ${MAX_REPORT_DAYS} days of to` },
+    ]);
+  }
+
+  const [stats, filters] = await Promise.all([
+    loadAll<DailyStatsRow>('scan_daily_stats', DAILY_STATS_COLUMNS, from, to, query),
+    loadAll<FilterStatsRow>('scan_filter_daily_stats', 'day, filter, scans', from, to, query),
+  ]);
+
+  const summary = combine(stats);
+  const groups = [...groupBy(stats, row => row[query.group_by])]
+    .map(([key, rows]): ScanGroupReport => ({ key, ...combine(rows), trend: trend(rows) }))
+    .sort((a, b) => b.scans - a.scans)
+    .slice(0, query.limit);
+
+  return {
+    from,
+    to,
+    group_by: query.group_by,
+    summary,
+    trend: trend(stats),
+    groups,
+    filters: filterUsage(filters, stats, summary.scans).slice(0, query.limit),
+  };
+}
+
+// Rollup rows for the range, a page at a time (PostgREST caps a response at 1000 rows)
+async function loadAll<T>(
+  table: string,
+  columns: string,
+  from: string,
+  to: string,
+  { platform, app_version }: Pick<ScanReportQuery, 'platform' | 'app_version'>
+): Promise<T[]> {
+  const rows: T[] = [];
+
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    let request = supabaseAdmin.from(table).select(columns).gte('day', from).lte('day', to);
+    if (platform) request = request.eq('platform', platform);
+    if (app_version) request = request.eq('app_version', app_version);
+
+    const { data, error } = await request.order('day').range(offset, offset + PAGE_SIZE - 1);
+    if (error) {
+      throw new Error(`Failed to load ${table}: ${error.message}`);
+    }
+
+    rows.push(...((data ?? []) as unknown as T[]));
+    if (!data || data.length < PAGE_SIZE) {
+      return rows;
+    }
+  }
+}
+
+function combine(rows: DailyStatsRow[]): ScanStats {
+  const histogram = new Array<number>(LATENCY_BUCKETS_MS.length + 1).fill(0);
+  let scans = 0;
+  let detected = 0;
+  let matched = 0;
+
+  for (const row of rows) {
+    scans += row.scans;
+    detected += Number(row.wines_detected);
+    matched += Number(row.wines_matched);
+    row.latency_histogram.forEach((count, bucket) => {
+      if (bucket < histogram.length) histogram[bucket] += count;
+    });
+  }
+
+  return {
+    scans,
+    wines_detected: detected,
+    wines_matched: matched,
+    match_rate: detected ? round(matched / detected) : null,
+    latency_ms: scans
+      ? { p50: percentile(histogram, scans, 0.5), p90: percentile(histogram, scans, 0.9), p99: percentile(histogram, scans, 0.99) }
+      : null,
+  };
+}
+
+function trend(rows: DailyStatsRow[]): ScanTrendPoint[] {
+  return [...groupBy(rows, row => row.day)].map(([day, dayRows]) => ({ day, ...combine(dayRows) }));
+}
+
+function filterUsage(rows: FilterStatsRow[], stats: DailyStatsRow[], totalScans: number): FilterUsage[] {
+  const scansPerDay = new Map([...groupBy(stats, row => row.day)].map(([day, dayRows]) => [day, combine(dayRows).scans]));
+
+  return [...groupBy(rows, row => row.filter)]
+    .map(([filter, filterRows]) => {
+      const trend = [...groupBy(filterRows, row => row.day)].map(([day, dayRows]) => {
+        const scans = sum(dayRows.map(row => row.scans));
+        return { day, scans, share: ratio(scans, scansPerDay.get(day) ?? 0) };
+      });
+      const scans = sum(trend.map(point => point.scans));
+      return { filter, scans, share: ratio(scans, totalScans), trend };
+    })
+    .sort((a, b) => b.scans - a.scans);
+}
+
+// Estimates the q-quantile from bucket counts, interpolating linearly inside the bucket it
+// falls in. Times past the last bound are reported as that bound.
+function percentile(histogram: number[], total: number, q: number): number {
+  const rank = q * total;
+  let seen = 0;
+
+  for (let bucket = 0; bucket < histogram.length; bucket++) {
+    const count = histogram[bucket];
+    if (count && seen + count >= rank) {
+      if (bucket === LATENCY_BUCKETS_MS.length) {
+        return LATENCY_BUCKETS_MS[bucket - 1];
+      }
+      const lower = bucket === 0 ? 0 : LATENCY_BUCKETS_MS[bucket - 1];
+      const upper = LATENCY_BUCKETS_MS[bucket];
+      return Math.round(lower + ((upper - lower) * (rank - seen)) / count);
+    }
+    seen += count;
+  }
+  return LATENCY_BUCKETS_MS[LATENCY_BUCKETS_MS.length - 1];
+}
+
+// Insertion-ordered, so rows loaded by day give groups in day order
+function groupBy<T>(rows: T[], key: (row: T) => string): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  for (const row of rows) {
+    const value = key(row);
+    const group = groups.get(value);
+    if (group) group.push(row);
+    else groups.set(value, [row]);
+  }
+  return groups;
+}
+
+function sum(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0);
+}
+
+function ratio(part: number, whole: number): number {
+  return whole ? round(part / whole) : 0;
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+function utcDay(time: number): string {
+  return new Date(time).toISOString().slice(0, 10);
+}
+
+function addDays(day: string, days: number): string {
+  return utcDay(Date.parse(day) + days * DAY_MS);
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(to) - Date.parse(from)) / DAY_MS);
+}
@@ -0,0 +1,181 @@
+import { createHash, randomBytes } from 'crypto';
+import type { ApiKey, ApiKeyEnvironment, ApiKeyScope, SubscriptionTier } from '../types';
+import { NotFoundError } from './errors';
+import { supabaseAdmin } from './supabase';
+
+// Publishable API keys ("wla_pk_live_..." / "wla_pk_test_..."). Only a SHA-256 of the key is
+// stored; the plaintext is returned once, when the key is issued or rotated.
+
+const KEY_PREFIX = 'wla_pk_';
+const KEY_BYTES = 24;
+// Characters kept in clear (after the environment) so keys can be told apart in listings
+const VISIBLE_CHARS = 6;
+// last_used_at is only written when older than this, so busy keys don't write on every request
+const LAST_USED_RESOLUTION_MS = 60_000;
+
+const API_KEY_COLUMNS =
+  'id, name, prefix, environment, scopes, tier, owner_id, owner_name, account_id, last_used_at, expires_at, revoked_at, rotated_from, created_at';
+
+export interface IssueApiKeyInput {
+  name: string;
+  environment: ApiKeyEnvironment;
+  scopes: ApiKeyScope[];
+  tier?: SubscriptionTier;
+  owner_id?: string | null;
+  owner_name?: string | null;
+  account_id?: string | null;
+}
+
+export function isApiKeyFormat(value: string): boolean {
+  return /^wla_pk_(live|test)_[A-Za-z0-9_-]{20,}$/.test(value);
+}
+
+export function hashApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+export async function issueApiKey(input: IssueApiKeyInput, rotatedFrom: string | null = null): Promise<{ key: string; api_key: ApiKey }> {
+  const key = `${KEY_PREFIX}${input.environment}_${randomBytes(KEY_BYTES).toString('base64url')}`;
+
+  const { data, error } = await supabaseAdmin
+    .from('api_keys')
+    .insert({
+      name: input.name,
+      prefix: key.slice(0, KEY_PREFIX.length + input.environment.length + 1 + VISIBLE_CHARS),
+      key_hash: hashApiKey(key),
+      environment: input.environment,
+      scopes: [...new Set(input.scopes)],
+      tier: input.tier ?? 'free',
+      owner_id: input.owner_id ?? null,
+      owner_name: input.owner_name ?? null,
+      account_id: input.account_id ?? null,
+      rotated_from: rotatedFrom,
+    })
+    .select(API_KEY_COLUMNS)
+    .single();
+
+  if (error?.code === '23503') {
+    throw new NotFoundError('Owner or business account not found');
+  }
+  if (error || !data) {
+    throw new Error(`Failed to issue API key: ${error?.message}`);
+  }
+
+  return { key, api_key: data as ApiKey };
+}
+
+export async function listApiKeys(
+  filters: { owner_id?: string; account_id?: string; include_revoked?: boolean } = {}
+): Promise<ApiKey[]> {
+  let query = supabaseAdmin
+    .from('api_keys')
+    .select(API_KEY_COLUMNS)
+    .order('created_at', { ascending: false });
+
+  if (filters.owner_id) query = query.eq('owner_id', filters.owner_id);
+  if (filters.account_id) query = query.eq('account_id', filters.account_id);
+  if (!filters.include_revoked) query = query.is('revoked_at', null);
+
+  const { data, error } = await query;
+  if (error) {
+    throw new Error(`Failed to list API keys: ${error.message}`);
+  }
+  return (data ?? []) as ApiKey[];
+}
+
+export async function getApiKey(id: string): Promise<ApiKey | null> {
+  const { data, error } = await supabaseAdmin
+    .from('api_keys')
+    .select(API_KEY_COLUMNS)
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch API key: ${error.message}`);
+  }
+  return data as ApiKey | null;
+}
+
+// Issues a replacement with the same attributes. The old key keeps working for the grace
+// period so clients can be redeployed, then expires.
+export async function rotateApiKey(id: string, gracePeriodSeconds: number): Promise<{ key: string; api_key: ApiKey } | null> {
+  const existing = await getApiKey(id);
+  if (!existing || existing.revoked_at) {
+    return null;
+  }
+
+  const replacement = await issueApiKey(
+    {
+      name: existing.name,
+      environment: existing.environment,
+      scopes: existing.scopes,
+      tier: existing.tier,
+      owner_id: existing.owner_id,
+      owner_name: existing.owner_name,
+      account_id: existing.account_id,
+    },
+    existing.id
+  );
+
+  const expiresAt = new Date(Date.now() + gracePeriodSeconds * 1000).toISOString();
+  const { error } = await supabaseAdmin
+    .from('api_keys')
+    .update(gracePeriodSeconds > 0 ? { expires_at: expiresAt } : { revoked_at: expiresAt })
+    .eq('id', existing.id);
+
+  if (error) {
+    throw new Error(`Failed to retire rotated API key: ${error.message}`);
+  }
+
+  return replacement;
+}
+
+export async function revokeApiKey(id: string): Promise<ApiKey | null> {
+  const { data, error } = await supabaseAdmin
+    .from('api_keys')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('id', id)
+    .is('revoked_at', null)
+    .select(API_KEY_COLUMNS)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to revoke API key: ${error.message}`);
+  }
+  return data as ApiKey | null;
+}
+
+// Returns the key's record if it's active, null if unknown, revoked or expired
+export async function verifyApiKey(key: string): Promise<ApiKey | null> {
+  if (!isApiKeyFormat(key)) {
+    return null;
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('api_keys')
+    .select(API_KEY_COLUMNS)
+    .eq('key_hash', hashApiKey(key))
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to verify API key: ${error.message}`);
+  }
+
+  const apiKey = data as ApiKey | null;
+  if (!apiKey || apiKey.revoked_at || (apiKey.expires_at && new Date(apiKey.expires_at).getTime() <= Date.now())) {
+    return null;
+  }
+
+  if (!apiKey.last_used_at || Date.now() - new Date(apiKey.last_used_at).getTime() > LAST_USED_RESOLUTION_MS) {
+    // Bookkeeping only; never fail or slow down the request over it
+    void supabaseAdmin
+      .from('api_keys')
+      .update({ last_used_at: new Date().toISOString() })
+      .eq('id', apiKey.id)
+      .then(({ error: updateError }) => {
+        if (updateError) console.warn('Failed to record API key use:', updateError.message);
+      });
+  }
+
+  return apiKey;
+}
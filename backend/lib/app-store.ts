@@ -0,0 +1,258 @@
+import jwt from 'jsonwebtoken';
+import { X509Certificate } from 'crypto';
+import { readFileSync } from 'fs';
+import type { SubscriptionStatus, SubscriptionTier } from '../types';
+
+// StoreKit 2 / App Store Server API signed data (JWS with an x5c certificate chain). The chain
+// must end in a trusted root: Apple Root CA - G3 by default, or the certificates in
+// APP_STORE_ROOT_CERTS so tests can sign with a local CA.
+
+// SHA-256 fingerprint of Apple Root CA - G3 (https://www.apple.com/certificateauthority/)
+const APPLE_ROOT_CA_G3_FINGERPRINT =
+  '63:34:3A:BF:B8:9A:6A:03:EB:B5:7E:9B:3F:5F:A7:BE:7C:4F:5C:75:6F:30:17:B3:A8:C4:88:C3:65:3E:91:79';
+
+// DER-encoded marker extensions Apple puts on the signing certificates: 1.2.840.113635.100.6.11.1
+// on the leaf and 1.2.840.113635.100.6.2.1 on the intermediate (Apple's own libraries check them)
+const LEAF_MARKER_OID = Buffer.from('060a2a864886f76364060b01', 'hex');
+const INTERMEDIATE_MARKER_OID = Buffer.from('060a2a864886f76364060201', 'hex');
+
+const DEFAULT_PRODUCT_TIERS: Record<string, SubscriptionTier> = {
+  'com.winespec.winelens.premium.monthly': 'premium',
+  'com.winespec.winelens.premium.yearly': 'premium',
+};
+
+export type AppStoreEnvironment = 'Production' | 'Sandbox' | 'Xcode' | 'LocalTesting';
+
+// JWSTransactionDecodedPayload (fields used here; dates are milliseconds since the epoch)
+export interface AppStoreTransaction {
+  transactionId: string;
+  originalTransactionId: string;
+  bundleId: string;
+  productId: string;
+  type?: string;
+  purchaseDate?: number;
+  expiresDate?: number;
+  revocationDate?: number;
+  revocationReason?: number;
+  appAccountToken?: string;
+  environment?: AppStoreEnvironment;
+  signedDate: number;
+}
+
+// JWSRenewalInfoDecodedPayload
+export interface AppStoreRenewalInfo {
+  originalTransactionId: string;
+  autoRenewProductId?: string;
+  autoRenewStatus?: 0 | 1;
+  isInBillingRetryPeriod?: boolean;
+  gracePeriodExpiresDate?: number;
+  signedDate: number;
+}
+
+// App Store Server Notifications v2 responseBodyV2DecodedPayload
+export interface AppStoreNotification {
+  notificationType: string;
+  subtype?: string;
+  notificationUUID: string;
+  version?: string;
+  signedDate: number;
+  data?: {
+    bundleId?: string;
+    environment?: AppStoreEnvironment;
+    signedTransactionInfo?: string;
+    signedRenewalInfo?: string;
+    // 1 active, 2 expired, 3 billing retry, 4 billing grace period, 5 revoked
+    status?: number;
+  };
+}
+
+export interface AppStoreVerifier {
+  verify<T extends object>(jws: string): T;
+}
+
+export interface AppStoreVerifierOptions {
+  // Certificates (PEM or DER) the chain may end in; defaults to APP_STORE_ROOT_CERTS, else
+  // Apple Root CA - G3
+  rootCertificates?: Array<string | Buffer>;
+}
+
+export class AppStoreSignatureError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AppStoreSignatureError';
+  }
+}
+
+export function createAppStoreVerifier(options: AppStoreVerifierOptions = {}): AppStoreVerifier {
+  // Resolved on first use so a bad APP_STORE_ROOT_CERTS fails the request, not the module import
+  let trusted: Set<string> | null = null;
+  const trustedRoots = () => {
+    if (!trusted) {
+      const roots = options.rootCertificates ?? resolveAppStoreRoots();
+      trusted = new Set(
+        roots?.length ? roots.map(cert => new X509Certificate(cert).fingerprint256) : [APPLE_ROOT_CA_G3_FINGERPRINT]
+      );
+    }
+    return trusted;
+  };
+
+  return {
+    verify<T extends object>(jws: string): T {
+      const decoded = jwt.decode(jws, { complete: true });
+      if (!decoded || typeof decoded.payload === 'string') {
+        throw new AppStoreSignatureError('Malformed signed payload');
+      }
+
+      const chain = (decoded.header as jwt.JwtHeader & { x5c?: string[] }).x5c;
+      if (decoded.header.alg !== 'ES256' || !Array.isArray(chain) || chain.length !== 3) {
+        throw new AppStoreSignatureError('Signed payload must be ES256 with a three-certificate x5c chain');
+      }
+
+      let certificates: X509Certificate[];
+      try {
+        certificates = chain.map(cert => new X509Certificate(Buffer.from(cert, 'base64')));
+      } catch {
+        throw new AppStoreSignatureError('Invalid certificate in x5c chain');
+      }
+
+      const signedDate = (decoded.payload as { signedDate?: unknown }).signedDate;
+      verifyChain(certificates, trustedRoots(), typeof signedDate === 'number' ? new Date(signedDate) : new Date());
+
+      try {
+        // Apple's payloads carry no exp/nbf; the chain check above covers validity
+        return jwt.verify(jws, certificates[0].publicKey, { algorithms: ['ES256'] }) as T;
+      } catch (err) {
+        throw new AppStoreSignatureError(err instanceof Error ? err.message : 'Invalid signature');
+      }
+    },
+  };
+}
+
+// A signed transaction or renewal info for this app
+export function verifyAppStorePayload<T extends object>(verifier: AppStoreVerifier, jws: string, bundleId: string): T {
+  const payload = verifier.verify<T>(jws);
+  // Renewal info carries no bundleId; it's only accepted inside a verified notification
+  const signedFor = (payload as { bundleId?: unknown }).bundleId;
+  if (signedFor !== undefined && signedFor !== bundleId) {
+    throw new AppStoreSignatureError(`Signed for another app (${signedFor})`);
+  }
+  return payload;
+}
+
+function verifyChain([leaf, intermediate, root]: X509Certificate[], trusted: Set<string>, at: Date): void {
+  if (!trusted.has(root.fingerprint256)) {
+    throw new AppStoreSignatureError('Certificate chain does not end in a trusted root');
+  }
+  if (!intermediate.ca || !intermediate.checkIssued(root) || !intermediate.verify(root.publicKey)) {
+    throw new AppStoreSignatureError('Intermediate certificate is not issued by the root');
+  }
+  if (!leaf.checkIssued(intermediate) || !leaf.verify(intermediate.publicKey)) {
+    throw new AppStoreSignatureError('Signing certificate is not issued by the intermediate');
+  }
+  if (!leaf.raw.includes(LEAF_MARKER_OID) || !intermediate.raw.includes(INTERMEDIATE_MARKER_OID)) {
+    throw new AppStoreSignatureError('Certificates are not App Store signing certificates');
+  }
+  for (const cert of [leaf, intermediate, root]) {
+    if (at < new Date(cert.validFrom) || at > new Date(cert.validTo)) {
+      throw new AppStoreSignatureError('Certificate chain is not valid at the signing date');
+    }
+  }
+}
+
+// APP_STORE_ROOT_CERTS holds inline PEM certificates, or comma-separated paths to PEM/DER files
+export function resolveAppStoreRoots(): Buffer[] | undefined {
+  const configured = process.env.APP_STORE_ROOT_CERTS?.trim();
+  if (!configured) {
+    return undefined;
+  }
+
+  if (configured.includes('-----BEGIN')) {
+    const pems = configured.replace(/\\n/g, '\n').match(/-----BEGIN CERTIFICATE-----[\s\S]+?-----END CERTIFICATE-----/g);
+    return (pems ?? []).map(pem => Buffer.from(pem));
+  }
+
+  return configured
+    .split(',')
+    .map(path => path.trim())
+    .filter(Boolean)
+    .map(path => readFileSync(path));
+}
+
+// The app's bundle ID; transactions signed for any other app are rejected
+export function resolveAppStoreBundleId(): string {
+  const bundleId = process.env.APP_STORE_BUNDLE_ID?.trim();
+  if (!bundleId) {
+    throw new Error('No App Store bundle ID configured: set APP_STORE_BUNDLE_ID');
+  }
+  return bundleId;
+}
+
+// APP_STORE_PRODUCT_TIERS maps product IDs to tiers, e.g. "com.example.pro.monthly=business,..."
+export function resolveProductTiers(): Record<string, SubscriptionTier> {
+  const configured = process.env.APP_STORE_PRODUCT_TIERS?.trim();
+  if (!configured) {
+    return DEFAULT_PRODUCT_TIERS;
+  }
+
+  const tiers: Record<string, SubscriptionTier> = {};
+  for (const entry of configured.split(',')) {
+    const [productId, tier] = entry.split('=').map(part => part.trim());
+    if (productId && (tier === 'premium' || tier === 'business')) {
+      tiers[productId] = tier;
+    }
+  }
+  return tiers;
+}
+
+export interface SubscriptionState {
+  tier: SubscriptionTier;
+  status: SubscriptionStatus;
+  expires_at: string | null;
+  auto_renew: boolean;
+  product_id: string;
+  original_transaction_id: string;
+  environment: AppStoreEnvironment | null;
+  // signedDate of the newest data this state was derived from; older updates are ignored
+  signed_at: string;
+}
+
+// Entitlement from a transaction plus, when known, its renewal info and the notification status.
+// Billing grace periods keep access until the grace period ends; billing retry without grace
+// is reported as pending.
+export function deriveSubscriptionState(
+  transaction: AppStoreTransaction,
+  tier: SubscriptionTier,
+  { renewal, status, signedDate, now = Date.now() }: {
+    renewal?: AppStoreRenewalInfo;
+    status?: number;
+    signedDate?: number;
+    now?: number;
+  } = {}
+): SubscriptionState {
+  const graceEndsAt = renewal?.gracePeriodExpiresDate;
+  const inGrace = status === 4 || (graceEndsAt !== undefined && graceEndsAt > now);
+
+  let subscriptionStatus: SubscriptionStatus;
+  if (transaction.revocationDate || status === 5) {
+    subscriptionStatus = 'cancelled';
+  } else if (status === 1 || (status === undefined && (transaction.expiresDate ?? 0) > now) || inGrace) {
+    subscriptionStatus = 'active';
+  } else if (status === 3 || renewal?.isInBillingRetryPeriod) {
+    subscriptionStatus = 'pending';
+  } else {
+    subscriptionStatus = 'expired';
+  }
+
+  const expiresAt = inGrace && graceEndsAt ? graceEndsAt : transaction.expiresDate;
+
+  return {
+    tier,
+    status: subscriptionStatus,
+    expires_at: expiresAt ? new Date(expiresAt).toISOString() : null,
+    auto_renew: renewal ? renewal.autoRenewStatus === 1 : subscriptionStatus === 'active',
+    product_id: transaction.productId,
+    original_transaction_id: transaction.originalTransactionId,
+    environment: transaction.environment ?? null,
+    signed_at: new Date(Math.max(signedDate ?? 0, transaction.signedDate, renewal?.signedDate ?? 0)).toISOString(),
+  };
+}
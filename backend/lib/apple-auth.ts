@@ -0,0 +1,166 @@
+import jwt from 'jsonwebtoken';
+import { createHash, createPublicKey, type JsonWebKey, type KeyObject } from 'crypto';
+
+// Sign in with Apple identity token verification. Signing keys come from a JwksSource so
+// tests can use locally generated keys instead of Apple's published set.
+
+export const APPLE_ISSUER = 'https://appleid.apple.com';
+const APPLE_JWKS_URL = 'https://appleid.apple.com/auth/keys';
+const JWKS_CACHE_MS = 60 * 60 * 1000;
+// Unknown key ids force a refetch at most this often, so junk tokens can't make every request
+// call Apple
+const JWKS_MIN_REFRESH_MS = 60 * 1000;
+
+export interface AppleJwk extends JsonWebKey {
+  kid: string;
+  alg?: string;
+}
+
+export interface JwksSource {
+  // forceRefresh is set when a token names a key id that isn't in the current set (key rotation)
+  getKeys(forceRefresh?: boolean): Promise<AppleJwk[]>;
+}
+
+export interface AppleIdentityClaims {
+  sub: string;
+  email: string | null;
+  email_verified: boolean;
+  is_private_email: boolean;
+  nonce: string | null;
+}
+
+export interface AppleVerifyOptions {
+  jwks: JwksSource;
+  // Bundle ID(s) / Services ID(s) the token may be issued for
+  audience: string[];
+  // Raw nonce the client generated; the token must carry it or its SHA-256. Required when the
+  // token carries a nonce.
+  nonce?: string;
+}
+
+export class AppleTokenError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AppleTokenError';
+  }
+}
+
+export function createStaticJwks(keys: AppleJwk[]): JwksSource {
+  return { getKeys: async () => keys };
+}
+
+// Apple's published keys, cached and refetched when an unknown key id shows up (unless the
+// cached set is under a minute old)
+export function createRemoteJwks(url = process.env.APPLE_JWKS_URL?.trim() || APPLE_JWKS_URL): JwksSource {
+  let cached: { keys: AppleJwk[]; fetchedAt: number } | null = null;
+  // Concurrent requests share one fetch
+  let inFlight: Promise<AppleJwk[]> | null = null;
+
+  const fetchKeys = async (): Promise<AppleJwk[]> => {
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch Apple signing keys: HTTP ${response.status}`);
+    }
+
+    const { keys } = (await response.json()) as { keys: AppleJwk[] };
+    cached = { keys, fetchedAt: Date.now() };
+    return keys;
+  };
+
+  return {
+    async getKeys(forceRefresh = false) {
+      const age = cached ? Date.now() - cached.fetchedAt : Infinity;
+      if (cached && (forceRefresh ? age < JWKS_MIN_REFRESH_MS : age < JWKS_CACHE_MS)) {
+        return cached.keys;
+      }
+
+      inFlight ??= fetchKeys().finally(() => {
+        inFlight = null;
+      });
+      return inFlight;
+    },
+  };
+}
+
+export function resolveAppleAudience(): string[] {
+  return (process.env.APPLE_CLIENT_IDS ?? '')
+    .split(',')
+    .map(id => id.trim())
+    .filter(Boolean);
+}
+
+export async function verifyAppleIdentityToken(
+  identityToken: string,
+  options: AppleVerifyOptions
+): Promise<AppleIdentityClaims> {
+  if (!options.audience.length) {
+    throw new Error('No Apple client IDs configured: set APPLE_CLIENT_IDS');
+  }
+
+  const decoded = jwt.decode(identityToken, { complete: true });
+  if (!decoded || typeof decoded.payload === 'string') {
+    throw new AppleTokenError('Malformed identity token');
+  }
+
+  const { kid } = decoded.header;
+  if (!kid) {
+    throw new AppleTokenError('Identity token has no key id');
+  }
+
+  const key = await findSigningKey(options.jwks, kid);
+
+  let payload: jwt.JwtPayload;
+  try {
+    // Checks the signature, exp, iss and aud
+    payload = jwt.verify(identityToken, key, {
+      algorithms: ['RS256'],
+      issuer: APPLE_ISSUER,
+      audience: options.audience as [string, ...string[]],
+    }) as jwt.JwtPayload;
+  } catch (err) {
+    throw new AppleTokenError(err instanceof Error ? err.message : 'Invalid identity token');
+  }
+
+  if (!payload.sub) {
+    throw new AppleTokenError('Identity token has no subject');
+  }
+
+  // A token issued with a nonce is only accepted with it: a captured token replayed without
+  // the nonce must not get through
+  const nonce = typeof payload.nonce === 'string' ? payload.nonce : null;
+  if (nonce !== null && options.nonce === undefined) {
+    throw new AppleTokenError('Identity token has a nonce but the request has none');
+  }
+  if (options.nonce !== undefined && nonce !== options.nonce && nonce !== sha256(options.nonce)) {
+    throw new AppleTokenError('Identity token nonce mismatch');
+  }
+
+  return {
+    sub: payload.sub,
+    email: typeof payload.email === 'string' ? payload.email.toLowerCase() : null,
+    // Apple sends these as booleans or "true"/"false" strings
+    email_verified: isTrue(payload.email_verified),
+    is_private_email: isTrue(payload.is_private_email),
+    nonce,
+  };
+}
+
+async function findSigningKey(jwks: JwksSource, kid: string): Promise<KeyObject> {
+  let jwk = (await jwks.getKeys()).find(key => key.kid === kid);
+  if (!jwk) {
+    jwk = (await jwks.getKeys(true)).find(key => key.kid === kid);
+  }
+  if (!jwk) {
+    throw new AppleTokenError(`Unknown signing key: ${kid}`);
+  }
+
+  return createPublicKey({ key: jwk, format: 'jwk' });
+}
+
+function isTrue(value: unknown): boolean {
+  return value === true || value === 'true';
+}
+
+function sha256(value: string): string {
+  return createHash('sha256').update(value).digest('hex');
+}
@@ -1,13 +1,27 @@
 import jwt from 'jsonwebtoken';
+import { createHash, randomBytes, randomUUID } from 'crypto';
 import type { VercelRequest } from '@vercel/node';
-import type { JWTPayload, User } from '../types';
+import type { AuthTokens, JWTPayload, User } from '../types';
+import { SubscriptionRequiredError, UnauthorizedError } from './errors';
+import type { Middleware } from './handler';
 import { supabaseAdmin } from './supabase';
 
 const JWT_SECRET = process.env.JWT_SECRET!;
 const ACCESS_TOKEN_EXPIRY = '24h';
-const REFRESH_TOKEN_EXPIRY = '30d';
+const ACCESS_TOKEN_TTL_SECONDS = 86400; // 24 hours
+const REFRESH_TOKEN_TTL_SECONDS = 30 * 86400; // 30 days
 
-export function generateTokens(user: User): { accessToken: string; refreshToken: string; expiresIn: number } {
+// Public user columns; never select('*') from users, it holds the password hash
+export const USER_COLUMNS =
+  'id, email, first_name, last_name, subscription_tier, subscription_status, subscription_expires_at, created_at';
+
+export type RefreshResult =
+  | { status: 'rotated'; user: User; tokens: AuthTokens }
+  | { status: 'invalid' | 'expired' | 'reused' };
+
+// Issues an access token and a refresh token. The refresh token is opaque, stored hashed,
+// and belongs to a family (one sign-in session) that every rotation stays in.
+export async function generateTokens(user: User, options: { familyId?: string } = {}): Promise<AuthTokens> {
   const payload: Omit<JWTPayload, 'iat' | 'exp'> = {
     sub: user.id,
     email: user.email,
@@ -15,15 +29,132 @@ export function generateTokens(user: User): { accessToken: string; refreshToken:
   };
 
   const accessToken = jwt.sign(payload, JWT_SECRET, { expiresIn: ACCESS_TOKEN_EXPIRY });
-  const refreshToken = jwt.sign({ sub: user.id, type: 'refresh' }, JWT_SECRET, { expiresIn: REFRESH_TOKEN_EXPIRY });
+  const { token: refreshToken } = await issueRefreshToken(user.id, options.familyId ?? randomUUID());
 
   return {
-    accessToken,
-    refreshToken,
-    expiresIn: 86400, // 24 hours in seconds
+    access_token: accessToken,
+    refresh_token: refreshToken,
+    expires_in: ACCESS_TOKEN_TTL_SECONDS,
   };
 }
 
+// Exchanges a refresh token for a new pair. Each token is single-use: presenting one that
+// was already rotated means it leaked, so the whole family is revoked.
+export async function rotateRefreshToken(refreshToken: string): Promise<RefreshResult> {
+  const { data: stored, error } = await supabaseAdmin
+    .from('refresh_tokens')
+    .select('id, user_id, family_id, expires_at, revoked_at')
+    .eq('token_hash', hashRefreshToken(refreshToken))
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to look up refresh token: ${error.message}`);
+  }
+  if (!stored) {
+    return { status: 'invalid' };
+  }
+  if (stored.revoked_at) {
+    await revokeTokenFamily(stored.family_id);
+    return { status: 'reused' };
+  }
+  if (new Date(stored.expires_at).getTime() <= Date.now()) {
+    return { status: 'expired' };
+  }
+
+  // Claim the token; only one concurrent refresh can win
+  const { data: claimed, error: claimError } = await supabaseAdmin
+    .from('refresh_tokens')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('id', stored.id)
+    .is('revoked_at', null)
+    .select('id');
+
+  if (claimError) {
+    throw new Error(`Failed to rotate refresh token: ${claimError.message}`);
+  }
+  if (!claimed?.length) {
+    await revokeTokenFamily(stored.family_id);
+    return { status: 'reused' };
+  }
+
+  const { data: user } = await supabaseAdmin
+    .from('users')
+    .select(USER_COLUMNS)
+    .eq('id', stored.user_id)
+    .single();
+
+  if (!user) {
+    return { status: 'invalid' };
+  }
+
+  const tokens = await generateTokens(user as User, { familyId: stored.family_id });
+  await supabaseAdmin
+    .from('refresh_tokens')
+    .update({ replaced_by_hash: hashRefreshToken(tokens.refresh_token) })
+    .eq('id', stored.id);
+
+  return { status: 'rotated', user: user as User, tokens };
+}
+
+// Ends the session the refresh token belongs to. Unknown tokens are ignored so logout is idempotent.
+export async function revokeRefreshToken(refreshToken: string): Promise<void> {
+  const { data: stored } = await supabaseAdmin
+    .from('refresh_tokens')
+    .select('family_id')
+    .eq('token_hash', hashRefreshToken(refreshToken))
+    .maybeSingle();
+
+  if (stored) {
+    await revokeTokenFamily(stored.family_id);
+  }
+}
+
+// Ends every session of a user (sign out everywhere)
+export async function revokeAllRefreshTokens(userId: string): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('refresh_tokens')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('user_id', userId)
+    .is('revoked_at', null);
+
+  if (error) {
+    throw new Error(`Failed to revoke sessions: ${error.message}`);
+  }
+}
+
+async function revokeTokenFamily(familyId: string): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('refresh_tokens')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('family_id', familyId)
+    .is('revoked_at', null);
+
+  if (error) {
+    throw new Error(`Failed to revoke token family: ${error.message}`);
+  }
+}
+
+async function issueRefreshToken(userId: string, familyId: string): Promise<{ token: string }> {
+  const token = `rt_${randomBytes(32).toString('base64url')}`;
+
+  const { error } = await supabaseAdmin.from('refresh_tokens').insert({
+    user_id: userId,
+    family_id: familyId,
+    token_hash: hashRefreshToken(token),
+    expires_at: new Date(Date.now() + REFRESH_TOKEN_TTL_SECONDS * 1000).toISOString(),
+  });
+
+  if (error) {
+    throw new Error(`Failed to store refresh token: ${error.message}`);
+  }
+
+  return { token };
+}
+
+function hashRefreshToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
 export function verifyToken(token: string): JWTPayload | null {
   try {
     return jwt.verify(token, JWT_SECRET) as JWTPayload;
@@ -54,7 +185,7 @@ export async function authenticateRequest(req: VercelRequest): Promise<{ user: U
   // Fetch current user data
   const { data: user, error } = await supabaseAdmin
     .from('users')
-    .select('*')
+    .select(USER_COLUMNS)
     .eq('id', payload.sub)
     .single();
 
@@ -65,52 +196,33 @@ export async function authenticateRequest(req: VercelRequest): Promise<{ user: U
   return { user: user as User, payload };
 }
 
-export function requireAuth(handler: (req: VercelRequest, user: User) => Promise<Response>) {
-  return async (req: VercelRequest): Promise<Response> => {
-    const auth = await authenticateRequest(req);
-    if (!auth) {
-      return new Response(
-        JSON.stringify({
-          success: false,
-          error: { code: 'UNAUTHORIZED', message: 'Authentication required' },
-        }),
-        { status: 401, headers: { 'Content-Type': 'application/json' } }
-      );
-    }
-    return handler(req, auth.user);
-  };
+const authenticatedUsers = new WeakMap<VercelRequest, Promise<User>>();
+
+// The signed-in user, loaded once per request. Throws UnauthorizedError without a valid
+// access token or when the account no longer exists.
+export function requireUser(req: VercelRequest): Promise<User> {
+  let user = authenticatedUsers.get(req);
+  if (!user) {
+    user = authenticateRequest(req).then(auth => {
+      if (!auth) throw new UnauthorizedError();
+      return auth.user;
+    });
+    authenticatedUsers.set(req, user);
+  }
+  return user;
 }
 
-export function requireSubscription(tier: 'premium' | 'business') {
-  return (handler: (req: VercelRequest, user: User) => Promise<Response>) => {
-    return async (req: VercelRequest): Promise<Response> => {
-      const auth = await authenticateRequest(req);
-      if (!auth) {
-        return new Response(
-          JSON.stringify({
-            success: false,
-            error: { code: 'UNAUTHORIZED', message: 'Authentication required' },
-          }),
-          { status: 401, headers: { 'Content-Type': 'application/json' } }
-        );
-      }
-
-      const { user } = auth;
-      const tierLevel = { free: 0, premium: 1, business: 2 };
-      const requiredLevel = tierLevel[tier];
-      const userLevel = tierLevel[user.subscription_tier];
-
-      if (userLevel < requiredLevel || user.subscription_status !== 'active') {
-        return new Response(
-          JSON.stringify({
-            success: false,
-            error: { code: 'SUBSCRIPTION_REQUIRED', message: `${tier} subscription required` },
-          }),
-          { status: 402, headers: { 'Content-Type': 'application/json' } }
-        );
-      }
-
-      return handler(req, user);
-    };
+export const requireAuth: Middleware = async ({ req }) => {
+  await requireUser(req);
+};
+
+const TIER_LEVELS: Record<User['subscription_tier'], number> = { free: 0, premium: 1, business: 2 };
+
+export function requireSubscription(tier: 'premium' | 'business'): Middleware {
+  return async ({ req }) => {
+    const user = await requireUser(req);
+    if (TIER_LEVELS[user.subscription_tier] < TIER_LEVELS[tier] || user.subscription_status !== 'active') {
+      throw new SubscriptionRequiredError(`${tier} subscription required`);
+    }
   };
 }
@@ -0,0 +1,440 @@
+import type { VercelRequest } from '@vercel/node';
+import type {
+  BusinessAccount,
+  BusinessAccountLimits,
+  BusinessAccountMember,
+  BusinessMembership,
+  BusinessPlan,
+  BusinessRole,
+  SubscriptionStatus,
+} from '../types';
+import {
+  ConflictError,
+  ForbiddenError,
+  NotFoundError,
+  SubscriptionRequiredError,
+  UnauthorizedError,
+  ValidationError,
+} from './errors';
+import type { Middleware } from './handler';
+import { authorizeCaller, callerHasScope } from './identity';
+import { uuidSchema } from './schemas/common';
+
+// Business accounts: organizations whose members (owner, manager, staff) share business
+// features, stored analyses, API keys and plan limits. Every /business/* route resolves the
+// account from the X-Business-Account header (or the caller's API key) before it runs.
+// The Supabase client is imported lazily: rate limiting reads the resolved account.
+
+export const BUSINESS_ACCOUNT_HEADER = 'X-Business-Account';
+
+// Pro matches the Business Pro row of the spec's rate limit table; enterprise accounts
+// usually get their own limits on top
+export const PLAN_LIMITS: Record<BusinessPlan, BusinessAccountLimits> = {
+  pro: { seats: 5, requests_per_minute: 300, requests_per_day: 50_000 },
+  enterprise: { seats: 50, requests_per_minute: 1_000, requests_per_day: 250_000 },
+};
+
+const ROLE_LEVELS: Record<BusinessRole, number> = { staff: 0, manager: 1, owner: 2 };
+
+const ACCOUNT_COLUMNS =
+  'id, name, plan, subscription_status, subscription_expires_at, seat_limit, requests_per_minute, requests_per_day, created_at';
+
+const MEMBERSHIP_SELECT = `role, business_accounts!inner (${ACCOUNT_COLUMNS})` as const;
+
+interface BusinessAccountRow {
+  id: string;
+  name: string;
+  plan: BusinessPlan;
+  subscription_status: SubscriptionStatus;
+  subscription_expires_at: string | null;
+  seat_limit: number | null;
+  requests_per_minute: number | null;
+  requests_per_day: number | null;
+  created_at: string;
+}
+
+// Per-account overrides of the plan limits; null falls back to the plan
+export interface BusinessAccountLimitOverrides {
+  seat_limit?: number | null;
+  requests_per_minute?: number | null;
+  requests_per_day?: number | null;
+}
+
+export interface CreateBusinessAccountInput extends BusinessAccountLimitOverrides {
+  name: string;
+  plan: BusinessPlan;
+  owner_id: string;
+  subscription_status?: SubscriptionStatus;
+  subscription_expires_at?: string | null;
+}
+
+export type UpdateBusinessAccountInput = Partial<Omit<CreateBusinessAccountInput, 'owner_id'>>;
+
+// The account a request acts for and the caller's role in it. API keys act as staff.
+export interface BusinessAccess {
+  account: BusinessAccount;
+  role: BusinessRole;
+  // The signed-in member; null for an API key
+  user_id: string | null;
+}
+
+async function db() {
+  return (await import('./supabase')).supabaseAdmin;
+}
+
+// Accounts
+
+export async function createBusinessAccount(input: CreateBusinessAccountInput): Promise<BusinessAccount> {
+  const supabaseAdmin = await db();
+  const { owner_id, ...fields } = input;
+
+  const { data: owner, error: ownerError } = await supabaseAdmin.from('users').select('id').eq('id', owner_id).maybeSingle();
+  if (ownerError) {
+    throw new Error(`Failed to look up account owner: ${ownerError.message}`);
+  }
+  if (!owner) {
+    throw new NotFoundError('Owner user not found');
+  }
+
+  const { data, error } = await supabaseAdmin.from('business_accounts').insert(fields).select(ACCOUNT_COLUMNS).single();
+  if (error || !data) {
+    throw new Error(`Failed to create business account: ${error?.message}`);
+  }
+
+  const { error: memberError } = await supabaseAdmin
+    .from('business_account_members')
+    .insert({ account_id: data.id, user_id: owner_id, role: 'owner' });
+  if (memberError) {
+    // An account nobody can manage is useless; don't leave it behind
+    await supabaseAdmin.from('business_accounts').delete().eq('id', data.id);
+    throw new Error(`Failed to add account owner: ${memberError.message}`);
+  }
+
+  return toBusinessAccount(data as BusinessAccountRow);
+}
+
+export async function listBusinessAccounts(): Promise<BusinessAccount[]> {
+  const supabaseAdmin = await db();
+  const { data, error } = await supabaseAdmin
+    .from('business_accounts')
+    .select(ACCOUNT_COLUMNS)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to list business accounts: ${error.message}`);
+  }
+  return ((data ?? []) as BusinessAccountRow[]).map(toBusinessAccount);
+}
+
+export async function getBusinessAccount(id: string): Promise<BusinessAccount | null> {
+  const supabaseAdmin = await db();
+  const { data, error } = await supabaseAdmin.from('business_accounts').select(ACCOUNT_COLUMNS).eq('id', id).maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load business account: ${error.message}`);
+  }
+  return data ? toBusinessAccount(data as BusinessAccountRow) : null;
+}
+
+// Fields left undefined are unchanged; null limits go back to the plan's
+export async function updateBusinessAccount(id: string, input: UpdateBusinessAccountInput): Promise<BusinessAccount | null> {
+  const changes = Object.fromEntries(Object.entries(input).filter(([, value]) => value !== undefined));
+  if (!Object.keys(changes).length) {
+    return getBusinessAccount(id);
+  }
+
+  const supabaseAdmin = await db();
+  const { data, error } = await supabaseAdmin
+    .from('business_accounts')
+    .update(changes)
+    .eq('id', id)
+    .select(ACCOUNT_COLUMNS)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to update business account: ${error.message}`);
+  }
+  return data ? toBusinessAccount(data as BusinessAccountRow) : null;
+}
+
+// Accounts the user is a member of, oldest membership first
+export async function listMemberships(userId: string): Promise<BusinessMembership[]> {
+  const supabaseAdmin = await db();
+  const { data, error } = await supabaseAdmin
+    .from('business_account_members')
+    .select(MEMBERSHIP_SELECT)
+    .eq('user_id', userId)
+    .order('created_at');
+
+  if (error) {
+    throw new Error(`Failed to list business accounts: ${error.message}`);
+  }
+  return ((data ?? []) as unknown as MembershipRow[]).map(toMembership);
+}
+
+async function getMembership(accountId: string, userId: string): Promise<BusinessMembership | null> {
+  const supabaseAdmin = await db();
+  const { data, error } = await supabaseAdmin
+    .from('business_account_members')
+    .select(MEMBERSHIP_SELECT)
+    .eq('account_id', accountId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load business account membership: ${error.message}`);
+  }
+  return data ? toMembership(data as unknown as MembershipRow) : null;
+}
+
+interface MembershipRow {
+  role: BusinessRole;
+  business_accounts: BusinessAccountRow;
+}
+
+function toMembership(row: MembershipRow): BusinessMembership {
+  return { account: toBusinessAccount(row.business_accounts), role: row.role };
+}
+
+function toBusinessAccount(row: BusinessAccountRow): BusinessAccount {
+  const plan = PLAN_LIMITS[row.plan];
+  return {
+    id: row.id,
+    name: row.name,
+    plan: row.plan,
+    subscription_status: row.subscription_status,
+    subscription_expires_at: row.subscription_expires_at,
+    limits: {
+      seats: row.seat_limit ?? plan.seats,
+      requests_per_minute: row.requests_per_minute ?? plan.requests_per_minute,
+      requests_per_day: row.requests_per_day ?? plan.requests_per_day,
+    },
+    created_at: row.created_at,
+  };
+}
+
+function isActive(account: BusinessAccount, now = Date.now()): boolean {
+  return (
+    account.subscription_status === 'active' &&
+    (!account.subscription_expires_at || new Date(account.subscription_expires_at).getTime() > now)
+  );
+}
+
+// Members
+
+export async function listMembers(accountId: string): Promise<BusinessAccountMember[]> {
+  const supabaseAdmin = await db();
+  const { data, error } = await supabaseAdmin
+    .from('business_account_members')
+    .select('role, created_at, users!inner (id, email, first_name, last_name)')
+    .eq('account_id', accountId)
+    .order('created_at');
+
+  if (error) {
+    throw new Error(`Failed to list business account members: ${error.message}`);
+  }
+
+  const rows = (data ?? []) as unknown as {
+    role: BusinessRole;
+    created_at: string;
+    users: { id: string; email: string; first_name: string | null; last_name: string | null };
+  }[];
+
+  return rows.map(row => ({
+    user_id: row.users.id,
+    email: row.users.email,
+    first_name: row.users.first_name,
+    last_name: row.users.last_name,
+    role: row.role,
+    added_at: row.created_at,
+  }));
+}
+
+// Roles an actor may grant, and the roles of members it may change or remove
+export function manageableRoles(actor: BusinessRole): BusinessRole[] {
+  switch (actor) {
+    case 'owner':
+      return ['owner', 'manager', 'staff'];
+    case 'manager':
+      return ['staff'];
+    case 'staff':
+      return [];
+  }
+}
+
+// Adds an existing user by email. Throws SubscriptionRequiredError (402) with the seat
+// count in details when every seat is taken.
+export async function addMember(account: BusinessAccount, email: string, role: BusinessRole): Promise<BusinessAccountMember> {
+  const supabaseAdmin = await db();
+  const { data: user, error: userError } = await supabaseAdmin
+    .from('users')
+    .select('id, email, first_name, last_name')
+    .eq('email', email)
+    .maybeSingle();
+
+  if (userError) {
+    throw new Error(`Failed to look up user: ${userError.message}`);
+  }
+  if (!user) {
+    throw new NotFoundError('No user with this email; they need to create an account first');
+  }
+
+  const { data, error } = await supabaseAdmin.rpc('add_business_account_member', {
+    p_account_id: account.id,
+    p_user_id: user.id,
+    p_role: role,
+    p_seat_limit: account.limits.seats,
+  });
+  if (error) {
+    throw new Error(`Failed to add business account member: ${error.message}`);
+  }
+
+  const result = (data as { status: string; seats_used: number }[] | null)?.[0];
+  switch (result?.status) {
+    case 'added':
+      return { user_id: user.id, email: user.email, first_name: user.first_name, last_name: user.last_name, role, added_at: new Date().toISOString() };
+    case 'already_member':
+      throw new ConflictError('User is already a member of this account');
+    case 'seat_limit':
+      throw new SubscriptionRequiredError('Every seat on this account is taken', {
+        seats: account.limits.seats,
+        seats_used: result.seats_used,
+      });
+    default:
+      throw new NotFoundError('Business account not found');
+  }
+}
+
+// Changes a member's role, or removes the member when role is null. Returns false for a
+// user who isn't a member; throws ConflictError rather than leave the account without an owner.
+export async function changeMember(accountId: string, userId: string, role: BusinessRole | null): Promise<boolean> {
+  const supabaseAdmin = await db();
+  const { data, error } = await supabaseAdmin.rpc('change_business_account_member', {
+    p_account_id: accountId,
+    p_user_id: userId,
+    p_role: role,
+  });
+  if (error) {
+    throw new Error(`Failed to change business account member: ${error.message}`);
+  }
+
+  if (data === 'last_owner') {
+    throw new ConflictError('An account must keep at least one owner');
+  }
+  return data !== 'not_found';
+}
+
+export async function countMembers(accountId: string): Promise<number> {
+  const supabaseAdmin = await db();
+  const { count, error } = await supabaseAdmin
+    .from('business_account_members')
+    .select('user_id', { count: 'exact', head: true })
+    .eq('account_id', accountId);
+
+  if (error) {
+    throw new Error(`Failed to count business account members: ${error.message}`);
+  }
+  return count ?? 0;
+}
+
+// Request scoping
+
+const accessByRequest = new WeakMap<VercelRequest, Promise<BusinessAccess>>();
+const grantedAccess = new WeakMap<VercelRequest, BusinessAccess>();
+
+// The account this request acts for, resolved once per request. Signed-in users name it in
+// X-Business-Account and must be members; API keys need the business scope and act for the
+// account they were issued to (the header, if sent, must name that account).
+export function requireBusinessAccess(req: VercelRequest): Promise<BusinessAccess> {
+  let access = accessByRequest.get(req);
+  if (!access) {
+    access = resolveAccess(req);
+    accessByRequest.set(req, access);
+  }
+  return access;
+}
+
+async function resolveAccess(req: VercelRequest): Promise<BusinessAccess> {
+  const caller = await authorizeCaller(req);
+  const requested = accountHeader(req);
+
+  if (caller.type === 'anonymous') {
+    throw new UnauthorizedError();
+  }
+
+  if (caller.type === 'api_key') {
+    if (!callerHasScope(caller, 'business')) {
+      throw new ForbiddenError('This credential is not allowed to use business');
+    }
+    if (!caller.account_id) {
+      throw new ForbiddenError('API key is not assigned to a business account');
+    }
+    if (requested && requested !== caller.account_id) {
+      throw new ForbiddenError('API key belongs to another business account');
+    }
+
+    const account = await getBusinessAccount(caller.account_id);
+    if (!account) {
+      throw new ForbiddenError('API key is not assigned to a business account');
+    }
+    return { account, role: 'staff', user_id: null };
+  }
+
+  if (!requested) {
+    throw new ValidationError(`${BUSINESS_ACCOUNT_HEADER} header required`, [
+      { field: BUSINESS_ACCOUNT_HEADER, message: 'Required' },
+    ]);
+  }
+
+  // Unknown accounts and accounts the user isn't in are indistinguishable
+  const membership = uuidSchema.safeParse(requested).success ? await getMembership(requested, caller.id) : null;
+  if (!membership) {
+    throw new ForbiddenError('Not a member of this business account');
+  }
+  return { account: membership.account, role: membership.role, user_id: caller.id };
+}
+
+// Middleware for /business/* routes: the caller must belong to the account, hold at least
+// role, and (unless allowInactive, for account management) the account must be paid up
+export function requireBusinessAccount(
+  { role = 'staff', allowInactive = false }: { role?: BusinessRole; allowInactive?: boolean } = {}
+): Middleware {
+  return async ({ req }) => {
+    const access = await requireBusinessAccess(req);
+
+    if (ROLE_LEVELS[access.role] < ROLE_LEVELS[role]) {
+      throw new ForbiddenError(`Requires the ${role} role in this business account`);
+    }
+    if (!allowInactive && !isActive(access.account)) {
+      throw new SubscriptionRequiredError('Business account subscription is not active');
+    }
+
+    grantedAccess.set(req, access);
+  };
+}
+
+// The account access requireBusinessAccount granted this request, if any (rate limiting
+// charges the account instead of the caller)
+export function grantedBusinessAccess(req: VercelRequest): BusinessAccess | undefined {
+  return grantedAccess.get(req);
+}
+
+// Whether the request acts for an active business account: one requireBusinessAccount granted,
+// or the one a member names in X-Business-Account. Scans for such an account fall under its
+// plan instead of the member's free allowance (lib/scan-quota.ts). Naming an account the
+// caller doesn't belong to is still a 403.
+export async function actsForActiveBusinessAccount(req: VercelRequest): Promise<boolean> {
+  const granted = grantedAccess.get(req);
+  if (granted) {
+    return isActive(granted.account);
+  }
+  if (!accountHeader(req)) {
+    return false;
+  }
+  return isActive((await requireBusinessAccess(req)).account);
+}
+
+function accountHeader(req: VercelRequest): string | null {
+  const value = req.headers[BUSINESS_ACCOUNT_HEADER.toLowerCase()];
+  return (Array.isArray(value) ? value[0] : value)?.trim() || null;
+}
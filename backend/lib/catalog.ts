@@ -0,0 +1,203 @@
+import { readFileSync, readdirSync } from 'fs';
+import { join } from 'path';
+import type { Wine, WineColor, WineWithReview } from '../types';
+import { pickHeadlineReview } from './reviews';
+import { normalizeText } from './search';
+
+// Catalog snapshot used to build in-process search indexes
+export type CatalogSource = 'supabase' | 'file';
+
+const DATA_DIR = join(__dirname, '../data');
+const WINE_COLORS: WineColor[] = ['red', 'white', 'rose', 'sparkling', 'dessert', 'fortified'];
+
+// Shape of the Top 100 exports in data/*.json
+interface CatalogFileEntry {
+  id: string | number;
+  producer: string;
+  name: string;
+  vintage: number | string | null;
+  region: string;
+  sub_region?: string | null;
+  appellation?: string | null;
+  country: string;
+  color: string;
+  grape_varieties?: { name: string; percentage?: number | null }[];
+  alcohol?: number | null;
+  score: number;
+  tasting_note: string;
+  reviewer?: { initials: string; name: string | null };
+  reviewer_initials?: string;
+  reviewer_name?: string | null;
+  review_date?: string;
+  issue_date?: string;
+  drink_window_start?: number | null;
+  drink_window_end?: number | null;
+  release_price?: number | null;
+  label_url?: string | null;
+  top100_rank?: number | null;
+  top100_year?: number | null;
+  wine_type?: string;
+}
+
+export function resolveCatalogSource(): CatalogSource {
+  const configured = process.env.SEARCH_CATALOG_SOURCE?.trim().toLowerCase();
+  if (configured === 'supabase' || configured === 'file') {
+    return configured;
+  }
+  if (configured) {
+    throw new Error(`Unknown SEARCH_CATALOG_SOURCE "${configured}" (expected "supabase" or "file")`);
+  }
+  return process.env.SUPABASE_URL && process.env.SUPABASE_SERVICE_KEY ? 'supabase' : 'file';
+}
+
+export async function loadCatalog(source: CatalogSource = resolveCatalogSource()): Promise<WineWithReview[]> {
+  return source === 'supabase' ? loadCatalogFromSupabase() : loadCatalogFromFiles();
+}
+
+export async function loadCatalogFromSupabase(): Promise<WineWithReview[]> {
+  // Imported lazily: the Supabase client throws at import time without credentials
+  const { supabaseAdmin } = await import('./supabase');
+  const pageSize = 1000;
+  const wines: WineWithReview[] = [];
+
+  for (let from = 0; ; from += pageSize) {
+    const { data, error } = await supabaseAdmin
+      .from('wines')
+      .select(`
+        *,
+        reviews (
+          score,
+          tasting_note,
+          reviewer_initials,
+          reviewer_name,
+          review_date,
+          drink_window_start,
+          drink_window_end,
+          release_price
+        )
+      `)
+      .order('id')
+      .range(from, from + pageSize - 1);
+
+    if (error) {
+      throw new Error(`Failed to load wine catalog: ${error.message}`);
+    }
+
+    for (const row of data ?? []) {
+      // One entry per wine, carrying its headline review
+      const review = pickHeadlineReview<Omit<WineWithReview, keyof Wine>>(row.reviews ?? []);
+      if (!review) continue; // Unreviewed wines have nothing to show in results
+
+      wines.push({
+        id: row.id,
+        producer: row.producer,
+        name: row.name,
+        vintage: row.vintage,
+        region: row.region,
+        sub_region: row.sub_region,
+        appellation: row.appellation,
+        country: row.country,
+        color: row.color,
+        grape_varieties: row.grape_varieties ?? [],
+        alcohol: row.alcohol,
+        label_url: row.label_url || null,
+        top100_rank: row.top100_rank || null,
+        top100_year: row.top100_year || null,
+        score: review.score,
+        tasting_note: review.tasting_note,
+        reviewer_initials: review.reviewer_initials,
+        reviewer_name: review.reviewer_name,
+        review_date: review.review_date,
+        drink_window_start: review.drink_window_start,
+        drink_window_end: review.drink_window_end,
+        release_price: review.release_price,
+      });
+    }
+
+    if (!data || data.length < pageSize) break;
+  }
+
+  return wines;
+}
+
+export function loadCatalogFromFiles(dir: string = DATA_DIR): WineWithReview[] {
+  const files = readdirSync(dir).filter(file => file.endsWith('.json')).sort();
+  const wines = new Map<string, WineWithReview>();
+
+  for (const file of files) {
+    for (const wine of loadCatalogFile(join(dir, file))) {
+      wines.set(wine.id, wine);
+    }
+  }
+
+  return [...wines.values()];
+}
+
+export function loadCatalogFile(path: string): WineWithReview[] {
+  const entries: CatalogFileEntry[] = JSON.parse(readFileSync(path, 'utf-8'));
+  return entries.map(catalogEntryToWine);
+}
+
+function catalogEntryToWine(entry: CatalogFileEntry): WineWithReview {
+  const drinkWindow = parseDrinkWindow(entry.tasting_note);
+  const reviewDate = parseIssueDate(entry.review_date ?? entry.issue_date);
+
+  return {
+    id: String(entry.id),
+    producer: entry.producer,
+    name: entry.name,
+    vintage: typeof entry.vintage === 'number' ? entry.vintage : parseInt(String(entry.vintage)) || null,
+    region: entry.region,
+    sub_region: entry.sub_region ?? null,
+    appellation: entry.appellation ?? null,
+    country: entry.country,
+    color: normalizeColor(entry.color, entry.wine_type),
+    grape_varieties: (entry.grape_varieties ?? []).map(g => ({ name: g.name, percentage: g.percentage ?? null })),
+    alcohol: entry.alcohol ?? null,
+    label_url: entry.label_url || null,
+    top100_rank: entry.top100_rank || null,
+    top100_year: entry.top100_year || null,
+    score: entry.score,
+    tasting_note: entry.tasting_note,
+    reviewer_initials: entry.reviewer?.initials ?? entry.reviewer_initials ?? '',
+    reviewer_name: entry.reviewer?.name ?? entry.reviewer_name ?? null,
+    review_date: reviewDate ?? '',
+    drink_window_start: entry.drink_window_start ?? drinkWindow.start,
+    drink_window_end: entry.drink_window_end ?? drinkWindow.end,
+    release_price: entry.release_price ?? null,
+  };
+}
+
+function normalizeColor(color: string, wineType?: string): WineColor {
+  const normalized = normalizeText(color);
+
+  if (wineType === 'sparkling' || wineType === 'dessert' || wineType === 'fortified') return wineType;
+  return WINE_COLORS.find(c => normalized.includes(c)) ?? 'red';
+}
+
+// "Best from 2026 through 2040" / "Drink now through 2035"
+function parseDrinkWindow(note: string): { start: number | null; end: number | null } {
+  const range = note.match(/Best from (\d{4}) through (\d{4})/i);
+  if (range) return { start: parseInt(range[1]), end: parseInt(range[2]) };
+
+  const through = note.match(/Drink now through (\d{4})/i);
+  if (through) return { start: null, end: parseInt(through[1]) };
+
+  const from = note.match(/Best from (\d{4})/i);
+  if (from) return { start: parseInt(from[1]), end: null };
+
+  return { start: null, end: null };
+}
+
+// "May 31, 2024" -> "2024-05-31"
+function parseIssueDate(value?: string): string | null {
+  if (!value) return null;
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) return value;
+
+  const date = new Date(value);
+  if (isNaN(date.getTime())) return null;
+
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
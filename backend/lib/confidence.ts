@@ -0,0 +1,207 @@
+import type { MatchBreakdown, SearchResult, VintageMatchStatus, WineWithReview } from '../types';
+import { normalizeText } from './search';
+import { tokenSimilarity } from './text-similarity';
+
+// Field-weighted match confidence: producer, cuvée name, appellation and vintage are
+// scored separately so clients can explain a match and vintage mismatches are penalized.
+
+const WEIGHTS = {
+  producer: 0.4,
+  name: 0.3,
+  coverage: 0.15,
+  vintage: 0.15,
+};
+
+// Appellation is a bonus: most list lines don't mention it, so it never counts against a match
+const APPELLATION_BONUS = 0.05;
+
+const VINTAGE_MISMATCH_PENALTY = 0.7;
+const MIN_TOKEN_SIMILARITY = 0.7;
+const EXACT_FIELD_THRESHOLD = 0.95;
+
+// Wine-list abbreviations expanded on both sides before comparing (mirrors the iOS TextNormalizer)
+const ABBREVIATIONS: Record<string, string> = {
+  ch: 'chateau',
+  cht: 'chateau',
+  chat: 'chateau',
+  dom: 'domaine',
+  est: 'estate',
+  vyd: 'vineyard',
+  vnyd: 'vineyard',
+  vyds: 'vineyards',
+  st: 'saint',
+  ste: 'sainte',
+  mt: 'mount',
+  cab: 'cabernet',
+  sauv: 'sauvignon',
+  cs: 'cabernet sauvignon',
+  sb: 'sauvignon blanc',
+  chard: 'chardonnay',
+  pn: 'pinot noir',
+  pg: 'pinot grigio',
+  zin: 'zinfandel',
+  zinf: 'zinfandel',
+  shiraz: 'syrah',
+  res: 'reserve',
+  rsv: 'reserve',
+};
+
+// Generic words that shouldn't count towards (or against) a producer or name match
+const GENERIC_TOKENS = new Set([
+  'chateau', 'domaine', 'estate', 'estates', 'vineyard', 'vineyards', 'winery', 'wines', 'wine',
+  'cellars', 'vina', 'bodega', 'bodegas', 'tenuta', 'weingut', 'maison', 'the', 'de', 'du', 'des',
+  'la', 'le', 'les', 'di', 'del', 'della', 'and',
+]);
+
+export interface MatchScore {
+  confidence: number;
+  match_type: 'exact' | 'fuzzy';
+  breakdown: MatchBreakdown;
+}
+
+export function scoreMatch(query: string, wine: WineWithReview): MatchScore {
+  const queryVintage = extractQueryVintage(query);
+  const queryTokens = tokenize(query).filter(token => token !== 'nv' && !isYearToken(token) && !isPriceToken(token));
+
+  const producerTokens = tokenize(wine.producer);
+  const nameTokens = tokenize(wine.name);
+  const appellationTokens = tokenize(
+    [wine.appellation, wine.sub_region, wine.region].filter(Boolean).join(' ')
+  );
+
+  const producer = fieldRecall(producerTokens, queryTokens);
+
+  // Cuvée names are often long ("Cabernet Sauvignon Puente Alto Vineyard"), so a
+  // name also counts as matched when the query words left after the producer all hit it
+  const nonProducerQuery = queryTokens.filter(token => bestSimilarity(token, producerTokens) < MIN_TOKEN_SIMILARITY);
+  const nameRecall = fieldRecall(nameTokens, queryTokens);
+  const namePrecision = nonProducerQuery.length
+    ? nonProducerQuery.reduce((sum, token) => sum + bestSimilarity(token, nameTokens), 0) / nonProducerQuery.length
+    : 0;
+  const name = isSameText(wine.producer, wine.name) ? producer : Math.max(nameRecall, namePrecision);
+
+  const appellation = appellationTokens.length
+    ? Math.max(0, ...queryTokens.map(token => bestSimilarity(token, appellationTokens)))
+    : 0;
+
+  const wineTokens = [...producerTokens, ...nameTokens, ...appellationTokens, ...tokenize(wine.grape_varieties.map(g => g.name).join(' '))];
+  const coverage = queryTokens.length
+    ? queryTokens.reduce((sum, token) => sum + bestSimilarity(token, wineTokens), 0) / queryTokens.length
+    : 0;
+
+  const vintageStatus = compareVintage(queryVintage, wine.vintage, query);
+  const vintageScore = vintageStatus === 'match' || vintageStatus === 'non_vintage' ? 1
+    : vintageStatus === 'mismatch' ? 0
+    : 0.5;
+
+  let confidence =
+    WEIGHTS.producer * producer +
+    WEIGHTS.name * name +
+    WEIGHTS.coverage * coverage +
+    WEIGHTS.vintage * vintageScore +
+    APPELLATION_BONUS * appellation;
+
+  if (vintageStatus === 'mismatch') {
+    confidence *= VINTAGE_MISMATCH_PENALTY;
+  }
+
+  const isExact =
+    producer >= EXACT_FIELD_THRESHOLD &&
+    name >= EXACT_FIELD_THRESHOLD &&
+    coverage === 1 &&
+    (vintageStatus === 'match' || vintageStatus === 'non_vintage');
+
+  return {
+    confidence: round(Math.min(0.99, confidence)),
+    match_type: isExact ? 'exact' : 'fuzzy',
+    breakdown: {
+      producer: round(producer),
+      name: round(name),
+      appellation: round(appellation),
+      query_coverage: round(coverage),
+      vintage: {
+        query: queryVintage,
+        wine: wine.vintage,
+        status: vintageStatus,
+      },
+    },
+  };
+}
+
+export function toSearchResult(query: string, wine: WineWithReview): SearchResult {
+  const { confidence, match_type, breakdown } = scoreMatch(query, wine);
+  return {
+    wine,
+    match_confidence: confidence,
+    match_type,
+    match_breakdown: breakdown,
+  };
+}
+
+function tokenize(text: string): string[] {
+  return normalizeText(text)
+    .split(' ')
+    .filter(Boolean)
+    .flatMap(token => (ABBREVIATIONS[token] ?? token).split(' '));
+}
+
+// Average best similarity of each meaningful field token against the query
+function fieldRecall(fieldTokens: string[], queryTokens: string[]): number {
+  const meaningful = fieldTokens.filter(token => !GENERIC_TOKENS.has(token));
+  const tokens = meaningful.length ? meaningful : fieldTokens;
+  if (!tokens.length || !queryTokens.length) return 0;
+
+  return tokens.reduce((sum, token) => sum + bestSimilarity(token, queryTokens), 0) / tokens.length;
+}
+
+function bestSimilarity(token: string, candidates: string[]): number {
+  let best = 0;
+  for (const candidate of candidates) {
+    const similarity = tokenSimilarity(token, candidate);
+    if (similarity > best) best = similarity;
+    if (best === 1) break;
+  }
+  return best >= MIN_TOKEN_SIMILARITY ? best : 0;
+}
+
+function compareVintage(queryVintage: number | null, wineVintage: number | null, query: string): VintageMatchStatus {
+  const queryIsNonVintage = /\b(?:n\.?v\.?|non[-\s]?vintage)(?=\s|$|[,;)])/i.test(query);
+
+  if (!wineVintage) {
+    return queryVintage ? 'mismatch' : 'non_vintage';
+  }
+  if (queryVintage) {
+    return queryVintage === wineVintage ? 'match' : 'mismatch';
+  }
+  return queryIsNonVintage ? 'mismatch' : 'missing_in_query';
+}
+
+// "2019", or abbreviated "'19" (50+ is 1900s, under 50 is 2000s)
+function extractQueryVintage(query: string): number | null {
+  const full = query.match(/\b(19\d\d|20\d\d)\b/);
+  if (full) return parseInt(full[1]);
+
+  const short = query.match(/['’](\d{2})\b/);
+  if (short) {
+    const year = parseInt(short[1]);
+    return year >= 50 ? 1900 + year : 2000 + year;
+  }
+
+  return null;
+}
+
+function isYearToken(token: string): boolean {
+  return /^(19|20)\d\d$/.test(token);
+}
+
+function isPriceToken(token: string): boolean {
+  return /^\d+$/.test(token);
+}
+
+function isSameText(a: string, b: string): boolean {
+  return normalizeText(a) === normalizeText(b);
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,78 @@
+// Typed errors for request handling. Anything thrown from a route or middleware that extends
+// ApiError is sent as the standard error envelope with its code and status (see lib/handler.ts);
+// any other error becomes a 500 SERVER_ERROR.
+
+export class ApiError extends Error {
+  constructor(
+    readonly code: string,
+    message: string,
+    readonly status: number,
+    readonly details?: unknown
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+export class ValidationError extends ApiError {
+  constructor(message: string, details?: unknown) {
+    super('VALIDATION_ERROR', message, 400, details);
+    this.name = 'ValidationError';
+  }
+}
+
+export class UnauthorizedError extends ApiError {
+  constructor(message = 'Authentication required') {
+    super('UNAUTHORIZED', message, 401);
+    this.name = 'UnauthorizedError';
+  }
+}
+
+export class SubscriptionRequiredError extends ApiError {
+  constructor(message: string, details?: unknown) {
+    super('SUBSCRIPTION_REQUIRED', message, 402, details);
+    this.name = 'SubscriptionRequiredError';
+  }
+}
+
+export class ForbiddenError extends ApiError {
+  constructor(message = 'Insufficient permissions') {
+    super('FORBIDDEN', message, 403);
+    this.name = 'ForbiddenError';
+  }
+}
+
+export class NotFoundError extends ApiError {
+  constructor(message = 'Resource not found') {
+    super('NOT_FOUND', message, 404);
+    this.name = 'NotFoundError';
+  }
+}
+
+export class MethodNotAllowedError extends ApiError {
+  constructor(method: string | undefined, readonly allowed: string[]) {
+    super('METHOD_NOT_ALLOWED', `Method ${method ?? '(none)'} not allowed`, 405, { allowed });
+    this.name = 'MethodNotAllowedError';
+  }
+}
+
+export class ConflictError extends ApiError {
+  constructor(message: string) {
+    super('CONFLICT', message, 409);
+    this.name = 'ConflictError';
+  }
+}
+
+export class RateLimitedError extends ApiError {
+  constructor(message: string, details?: unknown) {
+    super('RATE_LIMITED', message, 429, details);
+    this.name = 'RateLimitedError';
+  }
+}
+
+export class ServiceUnavailableError extends ApiError {
+  constructor(message = 'Service temporarily unavailable') {
+    super('SERVICE_UNAVAILABLE', message, 503);
+    this.name = 'ServiceUnavailableError';
+  }
+}
@@ -0,0 +1,107 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { ApiError, MethodNotAllowedError } from './errors';
+import { generateRequestId, sendError, sendSuccess } from './response';
+
+// One pipeline for every route: method routing, a request ID (the client's X-Request-ID when it
+// sends a usable one), middleware, and mapping of returned data / thrown ApiErrors onto the
+// response envelope with measured processing time.
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+export interface RequestContext {
+  readonly req: VercelRequest;
+  readonly res: VercelResponse;
+  readonly requestId: string;
+  // Date.now() when the request entered the pipeline
+  readonly startedAt: number;
+}
+
+// Runs before the route; rejects the request by throwing an ApiError
+export type Middleware = (ctx: RequestContext) => Promise<void> | void;
+
+// Returns the response data (sent as 200), a Reply for another status, or nothing when the
+// route has written the response itself (e.g. a stream)
+export type RouteHandler = (ctx: RequestContext) => Promise<unknown>;
+
+export interface Route {
+  use?: Middleware[];
+  handle: RouteHandler;
+}
+
+export interface HandlerOptions {
+  // Middleware run for every method, before the route's own
+  use?: Middleware[];
+  // Message sent with unexpected (non-ApiError) failures
+  errorMessage?: string;
+}
+
+export class Reply<T = unknown> {
+  constructor(
+    readonly data: T,
+    readonly status: number
+  ) {}
+}
+
+export function created<T>(data: T): Reply<T> {
+  return new Reply(data, 201);
+}
+
+const REQUEST_ID_HEADER = 'X-Request-ID';
+const REQUEST_ID_PATTERN = /^[A-Za-z0-9._:-]{1,128}$/;
+
+export function createHandler(
+  routes: Partial<Record<HttpMethod, RouteHandler | Route>>,
+  { use = [], errorMessage = 'Internal server error' }: HandlerOptions = {}
+) {
+  const allowed = Object.keys(routes);
+
+  return async function handler(req: VercelRequest, res: VercelResponse): Promise<void> {
+    const ctx: RequestContext = { req, res, requestId: requestIdFor(req), startedAt: Date.now() };
+    const meta = { requestId: ctx.requestId, startedAt: ctx.startedAt };
+    res.setHeader(REQUEST_ID_HEADER, ctx.requestId);
+
+    try {
+      const route = routes[req.method as HttpMethod];
+      if (!route) {
+        res.setHeader('Allow', allowed.join(', '));
+        throw new MethodNotAllowedError(req.method, allowed);
+      }
+
+      const { use: routeUse = [], handle } = typeof route === 'function' ? { handle: route } : route;
+      for (const middleware of [...use, ...routeUse]) {
+        await middleware(ctx);
+      }
+
+      const result = await handle(ctx);
+      if (res.headersSent) return;
+
+      if (result instanceof Reply) {
+        sendSuccess(res, result.data, result.status, meta);
+      } else {
+        sendSuccess(res, result ?? null, 200, meta);
+      }
+    } catch (err) {
+      if (!(err instanceof ApiError) || err.status >= 500) {
+        console.error(`${req.method} ${req.url} failed [${ctx.requestId}]:`, err);
+      }
+
+      // A route that already started its response (a stream) reports failures in-band
+      if (res.headersSent) {
+        if (!res.writableEnded) res.end();
+        return;
+      }
+
+      if (err instanceof ApiError) {
+        sendError(res, err, meta);
+      } else {
+        sendError(res, { code: 'SERVER_ERROR', message: errorMessage, status: 500 }, meta);
+      }
+    }
+  };
+}
+
+function requestIdFor(req: VercelRequest): string {
+  const header = req.headers[REQUEST_ID_HEADER.toLowerCase()];
+  const provided = (Array.isArray(header) ? header[0] : header)?.trim();
+  return provided && REQUEST_ID_PATTERN.test(provided) ? provided : generateRequestId();
+}
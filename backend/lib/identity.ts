@@ -0,0 +1,140 @@
+import { createHash, timingSafeEqual } from 'crypto';
+import type { VercelRequest } from '@vercel/node';
+import type { ApiKeyScope, Caller } from '../types';
+import { ForbiddenError, UnauthorizedError } from './errors';
+import type { Middleware } from './handler';
+
+// Resolves the caller of a request once (Bearer JWT, X-API-Key, or anonymous by IP) so
+// rate limiting, scope checks and handlers all see the same identity.
+
+// Credentials were sent but aren't valid; callers must not be downgraded to anonymous
+export class InvalidCredentialsError extends UnauthorizedError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidCredentialsError';
+  }
+}
+
+const callers = new WeakMap<VercelRequest, Promise<Caller>>();
+
+export function resolveCaller(req: VercelRequest): Promise<Caller> {
+  let caller = callers.get(req);
+  if (!caller) {
+    caller = identify(req);
+    callers.set(req, caller);
+  }
+  return caller;
+}
+
+async function identify(req: VercelRequest): Promise<Caller> {
+  const authHeader = header(req, 'authorization');
+  if (authHeader?.startsWith('Bearer ')) {
+    // Imported lazily: auth pulls in the Supabase client
+    const { verifyToken } = await import('./auth');
+    const payload = verifyToken(authHeader.slice(7));
+    if (!payload) {
+      throw new InvalidCredentialsError('Invalid or expired access token');
+    }
+    return { type: 'user', id: payload.sub, tier: payload.tier, email: payload.email };
+  }
+
+  const key = header(req, 'x-api-key');
+  if (key) {
+    const { verifyApiKey } = await import('./api-keys');
+    const apiKey = await verifyApiKey(key);
+    if (!apiKey) {
+      throw new InvalidCredentialsError('Invalid, expired or revoked API key');
+    }
+    return {
+      type: 'api_key',
+      id: apiKey.id,
+      tier: apiKey.tier,
+      scopes: apiKey.scopes,
+      environment: apiKey.environment,
+      owner_id: apiKey.owner_id,
+      account_id: apiKey.account_id,
+    };
+  }
+
+  return { type: 'anonymous', ip: clientIp(req) };
+}
+
+// Signed-in users and anonymous callers get the consumer scopes; API keys only what they were issued
+export function callerHasScope(caller: Caller, scope: ApiKeyScope): boolean {
+  switch (caller.type) {
+    case 'api_key':
+      return caller.scopes.includes(scope);
+    case 'user':
+      return scope !== 'business' || caller.tier === 'business';
+    case 'anonymous':
+      return scope !== 'business';
+  }
+}
+
+// Resolves the caller and checks the scope. Throws UnauthorizedError for invalid credentials
+// and ForbiddenError when the caller lacks the scope.
+export async function authorizeCaller(req: VercelRequest, { scope }: { scope?: ApiKeyScope } = {}): Promise<Caller> {
+  const caller = await resolveCaller(req);
+  if (scope && !callerHasScope(caller, scope)) {
+    throw new ForbiddenError(`This credential is not allowed to use ${scope}`);
+  }
+  return caller;
+}
+
+export function authorize(options: { scope?: ApiKeyScope } = {}): Middleware {
+  return async ({ req }) => {
+    await authorizeCaller(req, options);
+  };
+}
+
+// Admin endpoints are authenticated with X-Admin-Key against ADMIN_API_KEY
+export function isAdminRequest(req: VercelRequest): boolean {
+  const expected = process.env.ADMIN_API_KEY?.trim();
+  const provided = header(req, 'x-admin-key');
+  if (!expected || !provided) {
+    return false;
+  }
+
+  return safeEqual(provided, expected);
+}
+
+export const requireAdmin: Middleware = ({ req }) => {
+  if (!isAdminRequest(req)) {
+    throw new UnauthorizedError('Admin key required');
+  }
+};
+
+// Vercel Cron calls scheduled routes with "Authorization: Bearer <CRON_SECRET>"
+export function isCronRequest(req: VercelRequest): boolean {
+  const expected = process.env.CRON_SECRET?.trim();
+  const provided = header(req, 'authorization');
+  if (!expected || !provided?.startsWith('Bearer ')) {
+    return false;
+  }
+  return safeEqual(provided.slice(7), expected);
+}
+
+// Scheduled jobs: run by Vercel Cron, or by hand with the admin key
+export const requireAdminOrCron: Middleware = ({ req }) => {
+  if (!isAdminRequest(req) && !isCronRequest(req)) {
+    throw new UnauthorizedError('Admin key or cron secret required');
+  }
+};
+
+// Compares digests so the comparison is constant-time regardless of length
+function safeEqual(provided: string, expected: string): boolean {
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  return timingSafeEqual(digest(provided), digest(expected));
+}
+
+export function clientIp(req: VercelRequest): string {
+  const forwarded = header(req, 'x-forwarded-for');
+  if (forwarded) return forwarded.split(',')[0].trim();
+  return header(req, 'x-real-ip') ?? req.socket?.remoteAddress ?? 'unknown';
+}
+
+function header(req: VercelRequest, name: string): string | null {
+  const value = req.headers[name];
+  const first = Array.isArray(value) ? value[0] : value;
+  return first?.trim() || null;
+}
@@ -0,0 +1,284 @@
+import type {
+  AnalyzedListWine,
+  BatchMatchResult,
+  DrinkWindowAlert,
+  DrinkWindowStatus,
+  ListAnalysis,
+  ListAnalysisOptions,
+  ListAnalysisSummary,
+  MarkupOutlier,
+  MarkupStatus,
+} from '../types';
+
+// Business wine list report: match results for each list line, weighed against the list
+// price (markup over release price) and the current year (drink windows). Analyses are
+// stored per business account so any member can fetch them again or export them as CSV.
+
+export interface ListAnalysisInput {
+  text: string;
+  list_price?: number | null;
+}
+
+type ListAnalysisReport = Omit<ListAnalysis, 'analysis_id' | 'created_at' | 'restaurant_name'>;
+
+// Imported lazily: reports are built from match results without Supabase in local development
+async function db() {
+  return (await import('./supabase')).supabaseAdmin;
+}
+
+const SCORE_BUCKETS: { label: keyof ListAnalysisSummary['score_distribution']; min: number }[] = [
+  { label: '95-100', min: 95 },
+  { label: '90-94', min: 90 },
+  { label: '85-89', min: 85 },
+  { label: '80-84', min: 80 },
+  { label: 'below_80', min: -Infinity },
+];
+
+// Weight of the critic score in value_score when markup is known; the rest is pricing
+const VALUE_QUALITY_WEIGHT = 0.6;
+
+export function analyzeList(
+  wines: ListAnalysisInput[],
+  matches: BatchMatchResult[],
+  options: ListAnalysisOptions,
+  currentYear = new Date().getUTCFullYear()
+): ListAnalysisReport {
+  const analyzed = wines.map((input, index) => analyzeWine(index + 1, input, matches[index], options, currentYear));
+
+  const pastDrinkWindow: DrinkWindowAlert[] = [];
+  const markupOutliers: MarkupOutlier[] = [];
+
+  for (const wine of analyzed) {
+    if (!wine.matched_wine) continue;
+
+    if (options.include_drink_window_alerts && wine.drink_window_status === 'past_window' && wine.drink_window_end) {
+      const yearsPast = currentYear - wine.drink_window_end;
+      pastDrinkWindow.push({
+        line: wine.line,
+        wine: wine.matched_wine,
+        drink_window_end: wine.drink_window_end,
+        severity: yearsPast >= 5 ? 'high' : yearsPast >= 2 ? 'medium' : 'low',
+      });
+    }
+
+    if (wine.markup_status && wine.markup_status !== 'in_range' && wine.markup_ratio !== null) {
+      const [low, high] = options.markup_range;
+      const releasePrice = wine.release_price!;
+      markupOutliers.push({
+        line: wine.line,
+        wine: wine.matched_wine,
+        list_price: wine.list_price!,
+        release_price: releasePrice,
+        markup_ratio: wine.markup_ratio,
+        status: wine.markup_status,
+        suggested_range: [round(releasePrice * low, 2), round(releasePrice * high, 2)],
+      });
+    }
+  }
+
+  // Most overdue first; highest markup first
+  pastDrinkWindow.sort((a, b) => a.drink_window_end - b.drink_window_end);
+  markupOutliers.sort((a, b) => b.markup_ratio - a.markup_ratio);
+
+  return {
+    options,
+    summary: summarize(analyzed),
+    alerts: { past_drink_window: pastDrinkWindow, markup_outliers: markupOutliers },
+    wines: analyzed,
+  };
+}
+
+function analyzeWine(
+  line: number,
+  input: ListAnalysisInput,
+  match: BatchMatchResult | undefined,
+  options: ListAnalysisOptions,
+  currentYear: number
+): AnalyzedListWine {
+  const listPrice = input.list_price ?? null;
+  const wine = match?.matched ? match.wine : null;
+
+  if (!wine) {
+    return {
+      line,
+      original_text: input.text,
+      matched_wine: null,
+      confidence: match?.confidence ?? 0,
+      list_price: listPrice,
+      release_price: null,
+      markup_ratio: null,
+      markup_status: null,
+      drink_window_start: null,
+      drink_window_end: null,
+      drink_window_status: 'unknown',
+      value_score: null,
+    };
+  }
+
+  const releasePrice = wine.release_price;
+  const markupRatio =
+    options.include_markup_analysis && listPrice && releasePrice ? round(listPrice / releasePrice, 2) : null;
+
+  return {
+    line,
+    original_text: input.text,
+    matched_wine: { id: wine.id, producer: wine.producer, name: wine.name, vintage: wine.vintage, score: wine.score },
+    confidence: match!.confidence,
+    list_price: listPrice,
+    release_price: releasePrice,
+    markup_ratio: markupRatio,
+    markup_status: markupRatio === null ? null : markupStatus(markupRatio, options.markup_range),
+    drink_window_start: wine.drink_window_start,
+    drink_window_end: wine.drink_window_end,
+    drink_window_status: drinkWindowStatus(wine.drink_window_start, wine.drink_window_end, currentYear),
+    value_score: valueScore(wine.score, markupRatio, options.markup_range),
+  };
+}
+
+function markupStatus(ratio: number, [low, high]: [number, number]): MarkupStatus {
+  if (ratio < low) return 'below_range';
+  if (ratio > high) return 'above_range';
+  return 'in_range';
+}
+
+function drinkWindowStatus(start: number | null, end: number | null, year: number): DrinkWindowStatus {
+  if (start === null && end === null) return 'unknown';
+  if (start !== null && year < start) return 'too_young';
+  if (end !== null && year > end) return 'past_window';
+  if (end !== null && year === end) return 'drink_soon';
+  return 'ready';
+}
+
+// 0-10. Quality maps scores 80-100 onto 0-1; pricing is 1 at or below the low end of the
+// markup range and halves as the markup doubles. Without a markup, quality alone.
+function valueScore(score: number, markupRatio: number | null, [low]: [number, number]): number {
+  const quality = clamp((score - 80) / 20, 0, 1);
+  if (markupRatio === null) {
+    return round(10 * quality, 1);
+  }
+
+  const pricing = clamp(low / markupRatio, 0, 1);
+  return round(10 * (VALUE_QUALITY_WEIGHT * quality + (1 - VALUE_QUALITY_WEIGHT) * pricing), 1);
+}
+
+function summarize(wines: AnalyzedListWine[]): ListAnalysisSummary {
+  const matched = wines.filter(wine => wine.matched_wine);
+  const scores = matched.map(wine => wine.matched_wine!.score);
+  const markups = matched.flatMap(wine => (wine.markup_ratio === null ? [] : [wine.markup_ratio]));
+
+  const distribution = Object.fromEntries(SCORE_BUCKETS.map(bucket => [bucket.label, 0])) as ListAnalysisSummary['score_distribution'];
+  for (const score of scores) {
+    distribution[SCORE_BUCKETS.find(bucket => score >= bucket.min)!.label]++;
+  }
+
+  return {
+    total_wines: wines.length,
+    matched_wines: matched.length,
+    match_rate: wines.length ? round(matched.length / wines.length, 3) : 0,
+    average_score: scores.length ? round(average(scores), 1) : null,
+    average_markup_ratio: markups.length ? round(average(markups), 2) : null,
+    score_distribution: distribution,
+  };
+}
+
+// Storage
+
+interface ListAnalysisRow extends ListAnalysisReport {
+  id: string;
+  restaurant_name: string | null;
+  created_at: string;
+}
+
+// userId is the member who ran the analysis, null for an API key
+export async function saveListAnalysis(
+  accountId: string,
+  userId: string | null,
+  restaurantName: string | null,
+  report: ListAnalysisReport
+): Promise<ListAnalysis> {
+  const supabaseAdmin = await db();
+  const { data, error } = await supabaseAdmin
+    .from('list_analyses')
+    .insert({ account_id: accountId, user_id: userId, restaurant_name: restaurantName, ...report })
+    .select('id, restaurant_name, options, summary, alerts, wines, created_at')
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Failed to save list analysis: ${error?.message}`);
+  }
+
+  return toListAnalysis(data as ListAnalysisRow);
+}
+
+// Analyses are only readable from the account they were run for
+export async function getListAnalysis(accountId: string, analysisId: string): Promise<ListAnalysis | null> {
+  const supabaseAdmin = await db();
+  const { data, error } = await supabaseAdmin
+    .from('list_analyses')
+    .select('id, restaurant_name, options, summary, alerts, wines, created_at')
+    .eq('id', analysisId)
+    .eq('account_id', accountId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load list analysis: ${error.message}`);
+  }
+
+  return data ? toListAnalysis(data as ListAnalysisRow) : null;
+}
+
+function toListAnalysis({ id, ...row }: ListAnalysisRow): ListAnalysis {
+  return { analysis_id: id, ...row };
+}
+
+// CSV export, one row per list line
+
+const CSV_COLUMNS: [string, (wine: AnalyzedListWine) => string | number | null][] = [
+  ['line', wine => wine.line],
+  ['original_text', wine => wine.original_text],
+  ['matched', wine => (wine.matched_wine ? 'yes' : 'no')],
+  ['confidence', wine => wine.confidence],
+  ['wine_id', wine => wine.matched_wine?.id ?? null],
+  ['producer', wine => wine.matched_wine?.producer ?? null],
+  ['name', wine => wine.matched_wine?.name ?? null],
+  ['vintage', wine => wine.matched_wine?.vintage ?? null],
+  ['score', wine => wine.matched_wine?.score ?? null],
+  ['list_price', wine => wine.list_price],
+  ['release_price', wine => wine.release_price],
+  ['markup_ratio', wine => wine.markup_ratio],
+  ['markup_status', wine => wine.markup_status],
+  ['drink_window_start', wine => wine.drink_window_start],
+  ['drink_window_end', wine => wine.drink_window_end],
+  ['drink_window_status', wine => wine.drink_window_status],
+  ['value_score', wine => wine.value_score],
+];
+
+export function listAnalysisToCsv(analysis: ListAnalysis): string {
+  const rows = [
+    CSV_COLUMNS.map(([header]) => header),
+    ...analysis.wines.map(wine => CSV_COLUMNS.map(([, value]) => csvCell(value(wine)))),
+  ];
+  return rows.map(row => row.join(',')).join('\r\n') + '\r\n';
+}
+
+function csvCell(value: string | number | null): string {
+  if (value === null) return '';
+  if (typeof value === 'number') return String(value);
+
+  // Spreadsheets run cells that start with these as formulas; list text is untrusted
+  const text = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function average(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(Math.max(value, min), max);
+}
+
+function round(value: number, digits: number): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
@@ -0,0 +1,342 @@
+// Server-side wine list line parser (port of the iOS WineMatchingService parsing steps,
+// extended with section headers, bin numbers, glass/bottle prices and bottle formats)
+
+import type { WineColor } from '../types';
+
+export interface BottleFormat {
+  label: string;
+  volume_ml: number;
+}
+
+export interface ParsedListEntry {
+  line_number: number;
+  raw_text: string;
+  query: string;
+  producer: string | null;
+  wine_name: string | null;
+  vintage: number | null;
+  is_non_vintage: boolean;
+  bottle_price: number | null;
+  glass_price: number | null;
+  format: BottleFormat | null;
+  bin_number: string | null;
+  section: string | null;
+}
+
+export interface ParsedWineList {
+  entries: ParsedListEntry[];
+  sections: string[];
+  skipped_lines: number[];
+}
+
+const FORMATS: { pattern: RegExp; format: BottleFormat }[] = [
+  { pattern: /\bnebuchadnezzar\b/i, format: { label: 'nebuchadnezzar', volume_ml: 15000 } },
+  { pattern: /\bbalthazar\b/i, format: { label: 'balthazar', volume_ml: 12000 } },
+  { pattern: /\bsalmanazar\b/i, format: { label: 'salmanazar', volume_ml: 9000 } },
+  { pattern: /\b(?:imperial|methuselah)\b/i, format: { label: 'imperial', volume_ml: 6000 } },
+  { pattern: /\brehoboam\b/i, format: { label: 'rehoboam', volume_ml: 4500 } },
+  { pattern: /\b(?:double magnum|jeroboam)\b/i, format: { label: 'double magnum', volume_ml: 3000 } },
+  { pattern: /\bmagnum\b/i, format: { label: 'magnum', volume_ml: 1500 } },
+  { pattern: /\b(?:half bottle|half btl|demi|1\/2 btl)\b/i, format: { label: 'half bottle', volume_ml: 375 } },
+];
+
+const VOLUME_LABELS: Record<number, string> = {
+  187: 'split',
+  375: 'half bottle',
+  500: '500ml',
+  750: 'bottle',
+  1500: 'magnum',
+  3000: 'double magnum',
+  6000: 'imperial',
+};
+
+// Words that mark a line as a list section header rather than a wine
+const SECTION_KEYWORDS = [
+  'red', 'reds', 'white', 'whites', 'rose', 'rosé', 'sparkling', 'champagne', 'champagnes',
+  'dessert', 'sweet', 'fortified', 'port', 'sherry', 'orange', 'wines', 'wine', 'by the glass',
+  'half bottles', 'large format', 'magnums', 'cellar', 'selections', 'reserve list',
+  'burgundy', 'bordeaux', 'rhone', 'rhône', 'loire', 'alsace', 'italy', 'italian', 'spain', 'spanish',
+  'france', 'french', 'california', 'oregon', 'washington', 'germany', 'austria', 'portugal',
+  'australia', 'new zealand', 'south america', 'argentina', 'chile', 'domestic', 'imported',
+  'old world', 'new world', 'other reds', 'other whites',
+];
+
+// Menu/app chrome that OCR picks up around the list (from the iOS removeMenuUIElements)
+const NOISE_KEYWORDS = [
+  'wine color', 'wine type', 'grid', 'share', 'top100', 'spectator', 'points', 'point',
+  'bookmarks', 'profiles', 'tab', 'help',
+];
+
+// Leading particles and producer prefixes used when guessing the producer
+const PRODUCER_PREFIXES = /^(ch\.?|cht\.?|chateau|château|dom\.?|domaine|clos|tenuta|bodega|bodegas|weingut|maison|castello|quinta|cantina|vina|viña)\s+/i;
+const NAME_PARTICLES = new Set(['de', 'du', 'des', 'la', 'le', 'les', 'di', 'del', 'della', 'von', 'st.', 'st']);
+
+// Grapes and appellations that typically start the cuvée part of a line
+const NAME_START_WORDS = new Set([
+  'cabernet', 'cab', 'merlot', 'pinot', 'chardonnay', 'chard', 'sauvignon', 'syrah', 'shiraz',
+  'riesling', 'zinfandel', 'zin', 'malbec', 'grenache', 'tempranillo', 'sangiovese', 'nebbiolo',
+  'barolo', 'barbaresco', 'brunello', 'chianti', 'rioja', 'champagne', 'brut', 'blanc', 'rosé', 'rose',
+  'red', 'white', 'reserve', 'reserva', 'riserva', 'grand', 'premier', '1er', 'proprietary',
+  'napa', 'sonoma', 'margaux', 'pauillac', 'meursault', 'chablis', 'sancerre', 'gevrey', 'chambolle',
+  'vosne', 'nuits', 'puligny', 'chassagne', 'pommard', 'volnay', 'cote', 'côte', 'châteauneuf', 'chateauneuf',
+]);
+
+const GLASS_SECTION = /\b(by the glass|glass pours?|btg)\b/i;
+const HALF_BOTTLE_SECTION = /\bhalf bottles?\b/i;
+const NON_VINTAGE = /\b(?:n\.?\s?v\.?|non[-\s]?vintage|multi[-\s]?vintage)(?=\s|$|[,;)])/i;
+const PRICE_TOKEN = /^\$?\d{1,3}(?:,\d{3})*(?:\.\d{1,2})?$|^\$?\d+(?:\.\d{1,2})?$/;
+
+export function parseWineList(input: string | string[]): ParsedWineList {
+  const lines = Array.isArray(input) ? input : input.split(/\r?\n/);
+  const entries: ParsedListEntry[] = [];
+  const sections: string[] = [];
+  const skipped: number[] = [];
+  let section: string | null = null;
+
+  lines.forEach((rawLine, index) => {
+    const lineNumber = index + 1;
+    const line = removeNoise(rawLine);
+
+    if (!line) {
+      if (rawLine.trim()) skipped.push(lineNumber);
+      return;
+    }
+
+    if (isSectionHeader(line)) {
+      section = cleanHeader(line);
+      sections.push(section);
+      return;
+    }
+
+    const entry = parseWineLine(rawLine, { lineNumber, section });
+    if (entry) {
+      entries.push(entry);
+    } else {
+      skipped.push(lineNumber);
+    }
+  });
+
+  return { entries, sections, skipped_lines: skipped };
+}
+
+// Wine color implied by a section header ("Red Burgundy", "Champagne & Sparkling"), if any
+const SECTION_COLORS: [RegExp, WineColor][] = [
+  [/\b(sparkling|champagnes?|bubbles|cremant|cava|prosecco)\b/, 'sparkling'],
+  [/\b(dessert|sweet|sauternes)\b/, 'dessert'],
+  [/\b(fortified|ports?|sherry|madeira)\b/, 'fortified'],
+  [/\b(roses?|rosados?)\b/, 'rose'],
+  [/\b(whites?|blancs?)\b/, 'white'],
+  [/\b(reds?|rouges?)\b/, 'red'],
+];
+
+export function sectionColor(section: string | null | undefined): WineColor | null {
+  if (!section) return null;
+  const header = section.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+  return SECTION_COLORS.find(([pattern]) => pattern.test(header))?.[1] ?? null;
+}
+
+export function parseWineLine(
+  rawLine: string,
+  context: { lineNumber?: number; section?: string | null } = {}
+): ParsedListEntry | null {
+  const section = context.section ?? null;
+  let text = removeNoise(rawLine);
+
+  // Bin numbers: "#123", "Bin 123" or a leading 2-5 digit code that isn't a vintage
+  let binNumber: string | null = null;
+  const binMatch = text.match(/^(?:bin\s*#?\s*|#\s*)([a-z]?\d{1,5}[a-z]?)\b[.:)\-]?\s*/i)
+    ?? text.match(/^(\d{2,5})(?:[.:)]\s*|\s+)(?=\D)/);
+  if (binMatch && !isVintageYear(binMatch[1])) {
+    binNumber = binMatch[1];
+    text = text.slice(binMatch[0].length);
+  }
+
+  // Bottle format
+  let format: BottleFormat | null = null;
+  const volumeMatch = text.match(/\b(\d+(?:\.\d+)?)\s*(ml|cl|l|lt|liters?|litres?)\b\.?/i);
+  if (volumeMatch) {
+    const amount = parseFloat(volumeMatch[1]);
+    const unit = volumeMatch[2].toLowerCase();
+    const volume = Math.round(unit === 'ml' ? amount : unit === 'cl' ? amount * 10 : amount * 1000);
+    format = { label: VOLUME_LABELS[volume] ?? `${volume}ml`, volume_ml: volume };
+    text = text.replace(volumeMatch[0], ' ');
+  } else {
+    for (const candidate of FORMATS) {
+      if (candidate.pattern.test(text)) {
+        format = candidate.format;
+        text = text.replace(candidate.pattern, ' ');
+        break;
+      }
+    }
+  }
+  if (!format && section && HALF_BOTTLE_SECTION.test(section)) {
+    format = { label: 'half bottle', volume_ml: 375 };
+  }
+
+  // Prices: trailing numbers, "$" amounts, or "14 / 56" glass/bottle pairs
+  const prices = extractPrices(text);
+  text = prices.remaining;
+
+  // Vintage and non-vintage markers
+  const isNonVintage = NON_VINTAGE.test(text);
+  text = text.replace(NON_VINTAGE, ' ');
+  const vintage = extractVintage(text);
+  if (vintage) {
+    text = text.replace(vintage.match, ' ');
+  }
+
+  const description = tidy(text);
+  if (!description || !/[a-z]{2,}/i.test(description)) {
+    return null;
+  }
+
+  let glassPrice: number | null = null;
+  let bottlePrice: number | null = null;
+  const glassLine = /\b(?:gl|glass|btg)\b/i.test(rawLine) || Boolean(section && GLASS_SECTION.test(section));
+  if (prices.values.length >= 2) {
+    glassPrice = Math.min(...prices.values);
+    bottlePrice = Math.max(...prices.values);
+  } else if (prices.values.length === 1) {
+    if (glassLine) glassPrice = prices.values[0];
+    else bottlePrice = prices.values[0];
+  }
+
+  const { producer, name } = guessProducerAndName(description.replace(/\b(?:gl|glass|btl|bottle)\b\.?/gi, ' ').trim());
+
+  return {
+    line_number: context.lineNumber ?? 1,
+    raw_text: rawLine,
+    query: tidy([producer, name, vintage?.year].filter(Boolean).join(' ')),
+    producer,
+    wine_name: name,
+    vintage: vintage?.year ?? null,
+    is_non_vintage: isNonVintage && !vintage,
+    bottle_price: bottlePrice,
+    glass_price: glassPrice,
+    format,
+    bin_number: binNumber,
+    section,
+  };
+}
+
+function removeNoise(text: string): string {
+  let cleaned = text;
+  for (const keyword of NOISE_KEYWORDS) {
+    cleaned = cleaned.replace(new RegExp(`\\b${escapeRegExp(keyword)}\\b`, 'gi'), ' ');
+  }
+  // Keyboard/OCR noise characters (keep $, / and | which carry prices)
+  cleaned = cleaned.replace(/[&%@~^*+=]/g, ' ').replace(/[….·_]{3,}/g, ' ');
+  return tidy(cleaned);
+}
+
+function isSectionHeader(line: string): boolean {
+  if (/\d/.test(line) || line.split(/\s+/).length > 6) return false;
+  const normalized = line.toLowerCase().replace(/[^a-zà-ÿ\s]/g, ' ').replace(/\s+/g, ' ').trim();
+  if (!normalized) return false;
+
+  const isAllCaps = line === line.toUpperCase() && /[A-Z]{3,}/.test(line);
+  const words = normalized.split(' ');
+  const keywordHits = SECTION_KEYWORDS.filter(keyword =>
+    keyword.includes(' ') ? normalized.includes(keyword) : words.includes(keyword)
+  ).length;
+
+  // "Red Burgundy", "WHITE WINES", "By the Glass"; plain producer names rarely hit two keywords
+  return keywordHits >= 2 || (keywordHits === 1 && (isAllCaps || words.length <= 3 || line.endsWith(':')));
+}
+
+function cleanHeader(line: string): string {
+  return tidy(line.replace(/[:\-–—]+$/g, ''));
+}
+
+function extractPrices(text: string): { values: number[]; remaining: string } {
+  const values: number[] = [];
+  let remaining = text;
+
+  // Explicit currency amounts anywhere in the line
+  remaining = remaining.replace(/\$\s*(\d{1,3}(?:,\d{3})+|\d+)(?:\.(\d{1,2}))?/g, (_, whole: string, cents?: string) => {
+    values.push(parseFloat(`${whole.replace(/,/g, '')}.${cents ?? '0'}`));
+    return ' ';
+  });
+
+  // Trailing bare numbers ("... 2019  85", "... 14 / 56", "... 14 | 56")
+  const tokens = remaining.trim().split(/\s+/);
+  while (tokens.length > 1) {
+    const last = tokens[tokens.length - 1];
+    if (last === '/' || last === '|' || /^[-–]$/.test(last)) {
+      tokens.pop();
+      continue;
+    }
+    const parts = last.split(/[/|]/).filter(Boolean);
+    if (!parts.length || !parts.every(part => PRICE_TOKEN.test(part))) break;
+
+    // A lone trailing year is a vintage, not a price
+    if (parts.length === 1 && isVintageYear(parts[0]) && !parts[0].includes('.')) break;
+
+    for (const part of parts) values.push(parseFloat(part.replace(/[$,]/g, '')));
+    tokens.pop();
+  }
+  remaining = tokens.join(' ');
+
+  return { values: values.filter(value => value > 0), remaining };
+}
+
+function extractVintage(text: string): { year: number; match: string } | null {
+  const full = text.match(/\b(19[0-9]\d|20\d\d)\b/);
+  if (full && isVintageYear(full[1])) {
+    return { year: parseInt(full[1]), match: full[0] };
+  }
+
+  // Abbreviated year ('98, '19); 50+ is 1900s, under 50 is 2000s
+  const short = text.match(/['’](\d{2})\b/);
+  if (short) {
+    const yearNum = parseInt(short[1]);
+    return { year: yearNum >= 50 ? 1900 + yearNum : 2000 + yearNum, match: short[0] };
+  }
+
+  return null;
+}
+
+function isVintageYear(value: string): boolean {
+  const year = parseInt(value);
+  return /^\d{4}$/.test(value) && year >= 1900 && year <= new Date().getFullYear() + 1;
+}
+
+function guessProducerAndName(description: string): { producer: string | null; name: string | null } {
+  // "Producer, Cuvée" or "Producer - Cuvée"
+  const separated = description.split(/\s*(?:,|\s[-–—]\s)\s*/).filter(Boolean);
+  if (separated.length >= 2) {
+    return { producer: separated[0], name: separated.slice(1).join(' ') };
+  }
+
+  const words = description.split(/\s+/);
+
+  // "Château Margaux Pauillac" -> producer "Château Margaux"
+  if (PRODUCER_PREFIXES.test(description) && words.length > 1) {
+    let end = 1;
+    while (end < words.length - 1 && NAME_PARTICLES.has(words[end].toLowerCase())) end++;
+    end++;
+    return {
+      producer: words.slice(0, end).join(' '),
+      name: words.length > end ? words.slice(end).join(' ') : null,
+    };
+  }
+
+  // "Caymus Cabernet Sauvignon" -> producer "Caymus", name "Cabernet Sauvignon"
+  const nameStart = words.findIndex((word, index) => index > 0 && NAME_START_WORDS.has(word.toLowerCase()));
+  if (nameStart > 0) {
+    return { producer: words.slice(0, nameStart).join(' '), name: words.slice(nameStart).join(' ') };
+  }
+
+  return { producer: description, name: null };
+}
+
+function tidy(text: string): string {
+  return text
+    .replace(/\s+/g, ' ')
+    .replace(/^[\s,;:|/\-–—.]+|[\s,;:|/\-–—]+$/g, '')
+    .trim();
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
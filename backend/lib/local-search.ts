@@ -0,0 +1,331 @@
+import type { WineWithReview, SearchResult } from '../types';
+import { toSearchResult } from './confidence';
+import {
+  normalizeText,
+  type SearchOptions,
+  type SearchService,
+  type SynonymGroup,
+} from './search';
+import { MIN_WORD_SIZE_FOR_1_TYPO, MIN_WORD_SIZE_FOR_2_TYPOS, WINE_SYNONYMS } from './search-settings';
+import { editDistance } from './text-similarity';
+
+// In-process implementation: BM25 ranking over a catalog snapshot, for when Algolia
+// isn't configured (local dev, CI, offline demos)
+
+const K1 = 1.2;
+const B = 0.75;
+
+// Field weights follow the order of searchableAttributes in WINE_INDEX_SETTINGS
+const FIELD_WEIGHTS = {
+  producer: 3,
+  name: 2.5,
+  vintage: 2,
+  region: 1,
+  grape_varieties: 1,
+};
+
+const TYPO_FACTORS = [1, 0.7, 0.5];
+const PREFIX_FACTOR = 0.8;
+const SYNONYM_FACTOR = 0.9;
+
+// Synonym groups are indexed as a single marker term so any variant matches any other
+const SYNONYM_MARKER = '~';
+
+interface IndexedWine {
+  wine: WineWithReview;
+  termWeights: Map<string, number>;
+  length: number;
+}
+
+interface SynonymPhrase {
+  tokens: string[];
+  marker: string;
+}
+
+interface QueryTerm {
+  term: string;
+  factor: number;
+}
+
+export interface LocalSearchOptions {
+  loadCatalog: () => Promise<WineWithReview[]>;
+  // Defaults to the built-in synonyms
+  loadSynonyms?: () => Promise<SynonymGroup[]>;
+}
+
+export function createLocalSearch({ loadCatalog, loadSynonyms }: LocalSearchOptions): SearchService {
+  const index = new LocalWineIndex();
+  let loading: Promise<void> | null = null;
+
+  // Build the index on first use; a failed load is retried on the next call, while synonyms
+  // that fail to load leave the built-in ones in place
+  function ensureLoaded(): Promise<void> {
+    if (!loading) {
+      const synonyms = loadSynonyms?.().catch(err => {
+        console.error('Failed to load search synonyms, using the built-in ones:', err);
+        return null;
+      });
+
+      loading = Promise.all([loadCatalog(), synonyms])
+        .then(([wines, groups]) => {
+          if (groups) index.setSynonyms(groups);
+          index.addAll(wines);
+        })
+        .catch(err => {
+          loading = null;
+          throw err;
+        });
+    }
+    return loading;
+  }
+
+  return {
+    name: 'local',
+
+    async search(query: string, options: SearchOptions = {}): Promise<SearchResult[]> {
+      await ensureLoaded();
+      return index.search(query, options);
+    },
+
+    async configureIndex(synonyms: SynonymGroup[]): Promise<void> {
+      await ensureLoaded();
+      index.setSynonyms(synonyms);
+    },
+
+    async indexWine(wine: WineWithReview): Promise<void> {
+      await ensureLoaded();
+      index.add(wine);
+    },
+
+    async indexWines(wines: WineWithReview[]): Promise<void> {
+      await ensureLoaded();
+      index.addAll(wines);
+    },
+
+    async deleteWine(wineId: string): Promise<void> {
+      await ensureLoaded();
+      index.remove(wineId);
+    },
+  };
+}
+
+export class LocalWineIndex {
+  private readonly docs = new Map<string, IndexedWine>();
+  private readonly postings = new Map<string, Set<string>>();
+  // Phrases marked in wines, and in queries: the same for two-way groups, while a one-way
+  // group marks its synonyms in wines and only its input in queries
+  private indexPhrases: SynonymPhrase[] = [];
+  private queryPhrases: SynonymPhrase[] = [];
+  private totalLength = 0;
+
+  constructor(synonyms: SynonymGroup[] = WINE_SYNONYMS) {
+    this.setPhrases(synonyms);
+  }
+
+  // Replaces the synonyms, re-indexing every wine
+  setSynonyms(synonyms: SynonymGroup[]): void {
+    const wines = [...this.docs.values()].map(doc => doc.wine);
+    this.docs.clear();
+    this.postings.clear();
+    this.totalLength = 0;
+
+    this.setPhrases(synonyms);
+    this.addAll(wines);
+  }
+
+  get size(): number {
+    return this.docs.size;
+  }
+
+  addAll(wines: WineWithReview[]): void {
+    for (const wine of wines) this.add(wine);
+  }
+
+  add(wine: WineWithReview): void {
+    this.remove(wine.id);
+
+    const fields: [string, number][] = [
+      [wine.producer, FIELD_WEIGHTS.producer],
+      [wine.name, FIELD_WEIGHTS.name],
+      [wine.vintage ? String(wine.vintage) : '', FIELD_WEIGHTS.vintage],
+      [[wine.region, wine.sub_region, wine.appellation, wine.country].filter(Boolean).join(' '), FIELD_WEIGHTS.region],
+      [wine.grape_varieties.map(g => g.name).join(' '), FIELD_WEIGHTS.grape_varieties],
+    ];
+
+    const termWeights = new Map<string, number>();
+    let length = 0;
+
+    for (const [text, weight] of fields) {
+      const tokens = tokenize(text);
+      length += tokens.length * weight;
+
+      const terms = [...tokens, ...new Set(this.synonymMarkers(tokens, this.indexPhrases).flat())];
+      for (const term of terms) {
+        termWeights.set(term, (termWeights.get(term) ?? 0) + weight);
+      }
+    }
+
+    for (const term of termWeights.keys()) {
+      let ids = this.postings.get(term);
+      if (!ids) {
+        ids = new Set();
+        this.postings.set(term, ids);
+      }
+      ids.add(wine.id);
+    }
+
+    this.docs.set(wine.id, { wine, termWeights, length });
+    this.totalLength += length;
+  }
+
+  remove(wineId: string): void {
+    const doc = this.docs.get(wineId);
+    if (!doc) return;
+
+    for (const term of doc.termWeights.keys()) {
+      const ids = this.postings.get(term);
+      ids?.delete(wineId);
+      if (ids?.size === 0) this.postings.delete(term);
+    }
+
+    this.docs.delete(wineId);
+    this.totalLength -= doc.length;
+  }
+
+  search(query: string, options: SearchOptions = {}): SearchResult[] {
+    const { limit = 10, filters } = options;
+    const tokens = tokenize(query);
+
+    const matchesFilters = ({ wine }: IndexedWine): boolean =>
+      (!filters?.color || wine.color === filters.color) &&
+      (!filters?.country || wine.country.toLowerCase() === filters.country.toLowerCase()) &&
+      (!filters?.min_score || wine.score >= filters.min_score) &&
+      (!filters?.vintage || wine.vintage === filters.vintage);
+
+    // Empty query browses the catalog by score, like Algolia
+    if (tokens.length === 0) {
+      return [...this.docs.values()]
+        .filter(matchesFilters)
+        .sort((a, b) => b.wine.score - a.wine.score)
+        .slice(0, limit)
+        .map(({ wine }) => toSearchResult(query, wine));
+    }
+
+    const groups = this.expandQuery(tokens);
+    const candidates = new Set<string>();
+    for (const group of groups) {
+      for (const { term } of group) {
+        this.postings.get(term)?.forEach(id => candidates.add(id));
+      }
+    }
+
+    const averageLength = this.totalLength / Math.max(this.docs.size, 1);
+    const scored: { doc: IndexedWine; matchedTerms: number; relevance: number }[] = [];
+
+    for (const id of candidates) {
+      const doc = this.docs.get(id)!;
+      if (!matchesFilters(doc)) continue;
+
+      let matchedTerms = 0;
+      let relevance = 0;
+
+      for (const group of groups) {
+        let best = 0;
+        for (const { term, factor } of group) {
+          const weight = doc.termWeights.get(term);
+          if (!weight) continue;
+          best = Math.max(best, this.bm25(term, weight, doc.length, averageLength) * factor);
+        }
+        if (best > 0) {
+          matchedTerms++;
+          relevance += best;
+        }
+      }
+
+      scored.push({ doc, matchedTerms, relevance });
+    }
+
+    // Most query words matched first, then relevance, then custom ranking (score)
+    scored.sort((a, b) =>
+      b.matchedTerms - a.matchedTerms ||
+      b.relevance - a.relevance ||
+      b.doc.wine.score - a.doc.wine.score
+    );
+
+    return scored.slice(0, limit).map(({ doc }) => toSearchResult(query, doc.wine));
+  }
+
+  private bm25(term: string, weight: number, length: number, averageLength: number): number {
+    const documentFrequency = this.postings.get(term)?.size ?? 0;
+    const idf = Math.log(1 + (this.docs.size - documentFrequency + 0.5) / (documentFrequency + 0.5));
+    return idf * (weight * (K1 + 1)) / (weight + K1 * (1 - B + B * length / averageLength));
+  }
+
+  // Each query token becomes a group of acceptable index terms: itself, synonym
+  // markers, typo variants and (for the last token) prefix completions
+  private expandQuery(tokens: string[]): QueryTerm[][] {
+    const markers = this.synonymMarkers(tokens, this.queryPhrases);
+
+    return tokens.map((token, position) => {
+      const group = new Map<string, number>([[token, 1]]);
+      const add = (term: string, factor: number) => {
+        if (factor > (group.get(term) ?? 0)) group.set(term, factor);
+      };
+
+      for (const marker of markers[position]) add(marker, SYNONYM_FACTOR);
+
+      if (!/^\d+$/.test(token)) {
+        const maxTypos = token.length >= MIN_WORD_SIZE_FOR_2_TYPOS ? 2
+          : token.length >= MIN_WORD_SIZE_FOR_1_TYPO ? 1
+          : 0;
+        const isLast = position === tokens.length - 1;
+
+        for (const term of this.postings.keys()) {
+          if (term.startsWith(SYNONYM_MARKER) || term === token) continue;
+
+          if (isLast && token.length >= MIN_WORD_SIZE_FOR_1_TYPO && term.startsWith(token)) {
+            add(term, PREFIX_FACTOR);
+          }
+          if (maxTypos > 0) {
+            const distance = editDistance(token, term, maxTypos);
+            if (distance <= maxTypos) add(term, TYPO_FACTORS[distance]);
+          }
+        }
+      }
+
+      return [...group].map(([term, factor]) => ({ term, factor }));
+    });
+  }
+
+  private setPhrases(synonyms: SynonymGroup[]): void {
+    const phrases = (group: SynonymGroup, texts: string[]): SynonymPhrase[] =>
+      texts.map(text => ({ tokens: tokenize(text), marker: SYNONYM_MARKER + group.objectID }));
+    const sorted = (list: SynonymPhrase[]) =>
+      list.filter(phrase => phrase.tokens.length > 0).sort((a, b) => b.tokens.length - a.tokens.length);
+
+    this.indexPhrases = sorted(synonyms.flatMap(group => phrases(group, group.synonyms)));
+    this.queryPhrases = sorted(
+      synonyms.flatMap(group => phrases(group, group.input ? [group.input] : group.synonyms))
+    );
+  }
+
+  // Synonym markers covering each token position (longest phrases first)
+  private synonymMarkers(tokens: string[], synonymPhrases: SynonymPhrase[]): string[][] {
+    const markers: string[][] = tokens.map(() => []);
+
+    for (const { tokens: phrase, marker } of synonymPhrases) {
+      for (let start = 0; start + phrase.length <= tokens.length; start++) {
+        if (!phrase.every((token, offset) => tokens[start + offset] === token)) continue;
+        for (let offset = 0; offset < phrase.length; offset++) {
+          if (!markers[start + offset].includes(marker)) markers[start + offset].push(marker);
+        }
+      }
+    }
+
+    return markers;
+  }
+}
+
+function tokenize(text: string): string[] {
+  return normalizeText(text).split(' ').filter(Boolean);
+}
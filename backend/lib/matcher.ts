@@ -0,0 +1,353 @@
+import type { BatchMatchCandidate, BatchMatchQuery, BatchMatchResult, MatchHints, SearchResult, WineWithReview } from '../types';
+import { sectionColor } from './list-parser';
+import { getSearchService } from './search-provider';
+import {
+  multiSearchWithOutcome,
+  normalizeText,
+  type MultiSearchRequest,
+  type SearchOptions,
+  type SearchOutcome,
+  type SearchService,
+} from './search';
+
+// Shared batch matching core used by batch-match and parse-list
+
+export const DEFAULT_CONFIDENCE_THRESHOLD = 0.7;
+export const DEFAULT_AMBIGUITY_MARGIN = 0.05;
+export const MAX_CANDIDATES = 10;
+
+const DEFAULT_BATCH_SIZE = 20;
+const DEFAULT_CONCURRENCY = 4;
+
+// Wines curated for normalized queries, checked before searching
+export type AliasLookup = (normalizedQueries: string[]) => Promise<Map<string, WineWithReview>>;
+
+export interface MatchOptions {
+  confidenceThreshold?: number;
+  // Number of ranked candidates to return per query (0 = best match only)
+  maxCandidates?: number;
+  // Top two candidates closer than this are flagged as ambiguous
+  ambiguityMargin?: number;
+  searchService?: SearchService;
+  // Distinct queries sent to the provider per round trip
+  batchSize?: number;
+  // Round trips in flight at once
+  concurrency?: number;
+  // Called once per input query, in input order, as soon as it and every earlier query are done
+  onMatch?: (match: BatchMatchResult, index: number) => void;
+  // null skips aliases; by default the curated aliases are used when Supabase is configured
+  aliases?: AliasLookup | null;
+}
+
+export interface BatchMatchStats {
+  queries: number;
+  unique_queries: number;
+  search_requests: number;
+  processing_time_ms: number;
+}
+
+export interface BatchMatchOutcome {
+  matches: BatchMatchResult[];
+  match_rate: number;
+  providers: string[];
+  degraded: boolean;
+  unavailable: boolean;
+  stats: BatchMatchStats;
+}
+
+// One provider lookup shared by every input line that normalizes to the same query and hints
+interface Lookup {
+  normalized: string;
+  hints: MatchHints | undefined;
+  request: MultiSearchRequest;
+  // Same search without the color guessed from the section header
+  relaxed: MultiSearchRequest | null;
+  indexes: number[];
+}
+
+export async function matchQueries(queries: BatchMatchQuery[], options: MatchOptions = {}): Promise<BatchMatchOutcome> {
+  const startTime = Date.now();
+  const confidenceThreshold = options.confidenceThreshold ?? DEFAULT_CONFIDENCE_THRESHOLD;
+  const maxCandidates = Math.min(options.maxCandidates ?? 0, MAX_CANDIDATES);
+  const ambiguityMargin = options.ambiguityMargin ?? DEFAULT_AMBIGUITY_MARGIN;
+  const searchService = options.searchService ?? getSearchService();
+  const batchSize = Math.max(1, options.batchSize ?? DEFAULT_BATCH_SIZE);
+  const concurrency = Math.max(1, options.concurrency ?? DEFAULT_CONCURRENCY);
+
+  const inputs = queries.map(input => (typeof input === 'string' ? { query: input, hints: undefined } : input));
+  const lookups = new Map<string, Lookup>();
+
+  inputs.forEach(({ query, hints }, index) => {
+    const key = lookupKey(query, hints);
+    const existing = lookups.get(key);
+    if (existing) {
+      existing.indexes.push(index);
+    } else {
+      // Two results are always needed to tell whether the best match is ambiguous
+      lookups.set(key, {
+        normalized: normalizeText(query),
+        hints,
+        ...buildRequests(query, hints, Math.max(maxCandidates, 2)),
+        indexes: [index],
+      });
+    }
+  });
+
+  const matches: BatchMatchResult[] = new Array(inputs.length);
+  const providers = new Set<string>();
+  let degraded = false;
+  let searchRequests = 0;
+  let nextToEmit = 0;
+
+  const settle = (index: number, match: BatchMatchResult) => {
+    matches[index] = match;
+    // Release results strictly in input order
+    while (nextToEmit < matches.length && matches[nextToEmit]) {
+      options.onMatch?.(matches[nextToEmit], nextToEmit);
+      nextToEmit++;
+    }
+  };
+
+  const runBatch = async (batch: Lookup[]) => {
+    const batchStart = Date.now();
+    let outcomes: SearchOutcome[];
+
+    try {
+      searchRequests++;
+      outcomes = await multiSearchWithOutcome(searchService, batch.map(lookup => lookup.request));
+
+      // Retry lookups whose section-based color filter left nothing
+      const retry = batch
+        .map((lookup, i) => ({ lookup, i }))
+        .filter(({ lookup, i }) => lookup.relaxed && outcomes[i].results.length === 0);
+      if (retry.length) {
+        searchRequests++;
+        const retried = await multiSearchWithOutcome(searchService, retry.map(({ lookup }) => lookup.relaxed!));
+        retry.forEach(({ i }, j) => { outcomes[i] = retried[j]; });
+      }
+    } catch (err) {
+      // Report the failure instead of passing it off as "no match"
+      console.error('Batch match search failed:', err);
+      const latency = Date.now() - batchStart;
+      for (const lookup of batch) {
+        for (const index of lookup.indexes) {
+          settle(index, {
+            query: inputs[index].query,
+            matched: false,
+            wine: null,
+            confidence: 0,
+            error: 'SEARCH_UNAVAILABLE',
+            latency_ms: latency,
+          });
+        }
+      }
+      return;
+    }
+
+    const latency = Date.now() - batchStart;
+    batch.forEach((lookup, i) => {
+      providers.add(outcomes[i].provider);
+      degraded = degraded || outcomes[i].degraded;
+      for (const index of lookup.indexes) {
+        settle(index, {
+          ...toBatchResult(inputs[index].query, outcomes[i].results, confidenceThreshold, maxCandidates, ambiguityMargin),
+          latency_ms: latency,
+        });
+      }
+    });
+  };
+
+  // Queries with a curated alias are answered without searching
+  const aliasStart = Date.now();
+  const aliased = await findAliases(options.aliases, [...lookups.values()]);
+  const toSearch: Lookup[] = [];
+
+  for (const lookup of lookups.values()) {
+    const wine = aliased.get(lookup.normalized);
+    if (!wine || !fitsHints(wine, lookup.hints)) {
+      toSearch.push(lookup);
+      continue;
+    }
+
+    providers.add('alias');
+    for (const index of lookup.indexes) {
+      settle(index, { ...aliasResult(inputs[index].query, wine, maxCandidates), latency_ms: Date.now() - aliasStart });
+    }
+  }
+
+  await forEachWithConcurrency(chunk(toSearch, batchSize), concurrency, runBatch);
+
+  const matchedCount = matches.filter(m => m.matched).length;
+
+  return {
+    matches,
+    match_rate: inputs.length ? matchedCount / inputs.length : 0,
+    providers: [...providers],
+    degraded: degraded || matches.some(m => m.error),
+    unavailable: matches.length > 0 && matches.every(m => m.error),
+    stats: {
+      queries: inputs.length,
+      unique_queries: lookups.size,
+      search_requests: searchRequests,
+      processing_time_ms: Date.now() - startTime,
+    },
+  };
+}
+
+async function findAliases(option: AliasLookup | null | undefined, lookups: Lookup[]): Promise<Map<string, WineWithReview>> {
+  const lookup = option === undefined ? defaultAliasLookup() : option;
+  if (!lookup || !lookups.length) {
+    return new Map();
+  }
+
+  try {
+    return await lookup([...new Set(lookups.map(({ normalized }) => normalized))]);
+  } catch (err) {
+    // Searching still answers every query, just without the curated shortcuts
+    console.error('Alias lookup failed:', err);
+    return new Map();
+  }
+}
+
+function defaultAliasLookup(): AliasLookup | null {
+  if (!process.env.SUPABASE_URL || !process.env.SUPABASE_SERVICE_KEY) {
+    return null;
+  }
+  return async normalizedQueries => {
+    // Imported lazily: the Supabase client throws at import time without credentials
+    const { findAliasedWines } = await import('./aliases');
+    return findAliasedWines(normalizedQueries);
+  };
+}
+
+// An alias names one wine; explicit hints that contradict it send the query to search
+function fitsHints(wine: WineWithReview, hints: MatchHints | undefined): boolean {
+  return (!hints?.vintage || wine.vintage === hints.vintage) && (!hints?.color || wine.color === hints.color);
+}
+
+function aliasResult(query: string, wine: WineWithReview, maxCandidates: number): BatchMatchResult {
+  return {
+    query,
+    matched: true,
+    wine,
+    confidence: 1,
+    match_type: 'exact',
+    ...(maxCandidates > 0 ? { candidates: [{ wine, confidence: 1, match_type: 'exact' as const }] } : {}),
+    ambiguous: false,
+  };
+}
+
+function toBatchResult(
+  query: string,
+  results: SearchResult[],
+  confidenceThreshold: number,
+  maxCandidates: number,
+  ambiguityMargin: number
+): BatchMatchResult {
+  // Providers rank by relevance; candidates are ranked by match confidence
+  const ranked = [...results].sort((a, b) => b.match_confidence - a.match_confidence);
+  const [bestMatch, runnerUp] = ranked;
+  const candidates = maxCandidates > 0 ? { candidates: ranked.slice(0, maxCandidates).map(toCandidate) } : {};
+  const ambiguous = Boolean(
+    bestMatch &&
+    runnerUp &&
+    runnerUp.wine.id !== bestMatch.wine.id &&
+    runnerUp.match_confidence >= confidenceThreshold &&
+    bestMatch.match_confidence - runnerUp.match_confidence < ambiguityMargin
+  );
+
+  if (bestMatch && bestMatch.match_confidence >= confidenceThreshold) {
+    return {
+      query,
+      matched: true,
+      wine: bestMatch.wine,
+      confidence: bestMatch.match_confidence,
+      match_type: bestMatch.match_type,
+      match_breakdown: bestMatch.match_breakdown,
+      ...candidates,
+      ambiguous,
+    };
+  }
+
+  return {
+    query,
+    matched: false,
+    wine: null,
+    confidence: bestMatch?.match_confidence ?? 0,
+    match_breakdown: bestMatch?.match_breakdown,
+    ...candidates,
+    ambiguous,
+  };
+}
+
+// Explicit hints are hard filters. A color guessed from the section header is only a
+// preference: lists file wines loosely, so the search is retried without it if nothing matches.
+function buildRequests(
+  query: string,
+  hints: MatchHints | undefined,
+  limit: number
+): Pick<Lookup, 'request' | 'relaxed'> {
+  const filters: NonNullable<SearchOptions['filters']> = {};
+  let searchQuery = query;
+
+  if (hints?.vintage) {
+    filters.vintage = hints.vintage;
+    // Score against the known vintage when the line itself doesn't carry one
+    if (!/\b(19|20)\d\d\b/.test(query)) searchQuery = `${query} ${hints.vintage}`;
+  }
+  if (hints?.color) {
+    filters.color = hints.color;
+  }
+
+  const relaxed: MultiSearchRequest = {
+    query: searchQuery,
+    options: { limit, filters: Object.keys(filters).length ? filters : undefined },
+  };
+
+  const inferredColor = !hints?.color ? sectionColor(hints?.section) : null;
+  if (!inferredColor) {
+    return { request: relaxed, relaxed: null };
+  }
+
+  return {
+    request: { query: searchQuery, options: { limit, filters: { ...filters, color: inferredColor } } },
+    relaxed,
+  };
+}
+
+// Lines that differ only in case, accents or punctuation share one lookup
+function lookupKey(query: string, hints: MatchHints | undefined): string {
+  return [
+    normalizeText(query),
+    hints?.vintage ?? '',
+    hints?.color ?? '',
+    hints?.color ? '' : sectionColor(hints?.section) ?? '',
+  ].join('|');
+}
+
+function toCandidate(result: SearchResult): BatchMatchCandidate {
+  return {
+    wine: result.wine,
+    confidence: result.match_confidence,
+    match_type: result.match_type,
+    match_breakdown: result.match_breakdown,
+  };
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+async function forEachWithConcurrency<T>(items: T[], limit: number, worker: (item: T) => Promise<void>): Promise<void> {
+  let next = 0;
+  const runners = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      await worker(items[next++]);
+    }
+  });
+  await Promise.all(runners);
+}
@@ -0,0 +1,1146 @@
+import { z, type ZodTypeAny } from 'zod';
+import {
+  rollupQuerySchema,
+  rollupResponseSchema,
+  scanEventsRequestSchema,
+  scanEventsResponseSchema,
+  scanReportQuerySchema,
+  scanReportSchema,
+  scanStatsSchema,
+} from './schemas/analytics';
+import {
+  apiKeyListResponseSchema,
+  apiKeyResponseSchema,
+  apiKeySchema,
+  issueApiKeyRequestSchema,
+  issuedApiKeyResponseSchema,
+  listApiKeysQuerySchema,
+  rotateApiKeyRequestSchema,
+} from './schemas/api-keys';
+import {
+  appleSignInRequestSchema,
+  appleSignInResponseSchema,
+  loginRequestSchema,
+  logoutRequestSchema,
+  logoutResponseSchema,
+  refreshRequestSchema,
+  registerRequestSchema,
+  sessionResponseSchema,
+} from './schemas/auth';
+import {
+  authTokensSchema,
+  matchBreakdownSchema,
+  paginationSchema,
+  userSchema,
+  wineWithReviewSchema,
+} from './schemas/common';
+import {
+  listSavedWinesSchema,
+  savedWineDeletedResponseSchema,
+  savedWineEntrySchema,
+  savedWineListResponseSchema,
+  savedWineResponseSchema,
+  saveWineRequestSchema,
+  updateSavedWineRequestSchema,
+} from './schemas/saved-wines';
+import {
+  createSearchSynonymRequestSchema,
+  listSearchSynonymsQuerySchema,
+  searchSynonymDeletedResponseSchema,
+  searchSynonymListResponseSchema,
+  searchSynonymResponseSchema,
+  searchSynonymSchema,
+  synonymSyncResponseSchema,
+  updateSearchSynonymRequestSchema,
+} from './schemas/search-synonyms';
+import {
+  analyzedListWineSchema,
+  analyzeListRequestSchema,
+  listAnalysisSchema,
+  replacementsRequestSchema,
+  replacementsResponseSchema,
+} from './schemas/business';
+import {
+  addMemberRequestSchema,
+  businessAccountListResponseSchema,
+  businessAccountResponseSchema,
+  businessAccountSchema,
+  createBusinessAccountRequestSchema,
+  currentBusinessAccountResponseSchema,
+  memberListResponseSchema,
+  memberRemovedResponseSchema,
+  memberResponseSchema,
+  membershipListResponseSchema,
+  seatLimitExceededSchema,
+  updateBusinessAccountRequestSchema,
+  updateMemberRequestSchema,
+} from './schemas/business-accounts';
+import {
+  appStoreNotificationRequestSchema,
+  appStoreNotificationResponseSchema,
+  subscriptionSchema,
+  verifySubscriptionRequestSchema,
+  verifySubscriptionResponseSchema,
+} from './schemas/subscriptions';
+import {
+  aliasDeletedResponseSchema,
+  aliasListResponseSchema,
+  ignoreUnmatchedQueriesRequestSchema,
+  ignoreUnmatchedQueriesResponseSchema,
+  listAliasesQuerySchema,
+  listUnmatchedQueriesQuerySchema,
+  resolveUnmatchedQueriesRequestSchema,
+  resolveUnmatchedQueriesResponseSchema,
+  unmatchedClusterListResponseSchema,
+  unmatchedQuerySchema,
+  wineAliasSchema,
+} from './schemas/unmatched-queries';
+import { scanQuotaExceededSchema, usageResponseSchema } from './schemas/users';
+import {
+  batchMatchCandidateSchema,
+  batchMatchRequestSchema,
+  batchMatchResponseSchema,
+  batchMatchResultSchema,
+  batchMatchStreamEventSchema,
+  browseWineSchema,
+  browseWinesQuerySchema,
+  browseWinesResponseSchema,
+  cursorPaginationSchema,
+  parsedListEntrySchema,
+  parseListRequestSchema,
+  parseListResponseSchema,
+  searchQuerySchema,
+  searchResponseSchema,
+  wineDetailQuerySchema,
+  wineDetailResponseSchema,
+  wineReviewsQuerySchema,
+  wineReviewsResponseSchema,
+} from './schemas/wines';
+import {
+  createdWebhookEndpointResponseSchema,
+  createWebhookEndpointRequestSchema,
+  dispatchWebhooksQuerySchema,
+  dispatchWebhooksResponseSchema,
+  listDeliveriesQuerySchema,
+  updateWebhookEndpointRequestSchema,
+  webhookDeliveryListResponseSchema,
+  webhookDeliveryResponseSchema,
+  webhookDeliverySchema,
+  webhookEndpointDeletedResponseSchema,
+  webhookEndpointListResponseSchema,
+  webhookEndpointResponseSchema,
+  webhookEndpointSchema,
+} from './schemas/webhooks';
+import { objectShape, toJsonSchema, type JsonSchema, type SchemaRefs } from './zod-json-schema';
+
+// OpenAPI 3.1 document generated from the same zod schemas the routes validate with.
+// Every route must be listed in OPERATIONS; the document is served at /api/openapi.json.
+
+export const API_VERSION = '1.0.0';
+
+type Auth = 'none' | 'caller' | 'user' | 'business' | 'admin';
+
+interface Operation {
+  method: 'get' | 'post' | 'patch' | 'delete';
+  path: string;
+  operationId: string;
+  summary: string;
+  tag: string;
+  // caller: anonymous, a signed-in user or an API key (with the scope, if given);
+  // business: a member of the X-Business-Account account, or an API key issued to it
+  auth: Auth;
+  scope?: string;
+  // Least business account role required (business auth; staff when omitted)
+  role?: 'manager' | 'owner';
+  params?: ZodTypeAny;
+  query?: ZodTypeAny;
+  body?: ZodTypeAny;
+  status?: number;
+  response: ZodTypeAny;
+  // Alternative response media types (e.g. streams), described per line/event
+  streams?: Record<string, ZodTypeAny>;
+  // Responds with this media type instead of the JSON envelope (e.g. file downloads)
+  mediaType?: string;
+  errors: number[];
+  rateLimited?: boolean;
+}
+
+const idParams = z.object({ id: z.string().uuid() });
+
+const OPERATIONS: Operation[] = [
+  {
+    method: 'get',
+    path: '/api/wines',
+    operationId: 'browseWines',
+    summary: 'Browse the catalog by region, grape, score, price, vintage, drink window or Top 100, with facet counts',
+    tag: 'Wines',
+    auth: 'caller',
+    scope: 'search',
+    query: browseWinesQuerySchema,
+    response: browseWinesResponseSchema,
+    errors: [400, 401, 403],
+  },
+  {
+    method: 'get',
+    path: '/api/wines/search',
+    operationId: 'searchWines',
+    summary: 'Search wines by free text',
+    tag: 'Wines',
+    auth: 'caller',
+    scope: 'search',
+    query: searchQuerySchema,
+    response: searchResponseSchema,
+    errors: [400, 401, 403, 503],
+  },
+  {
+    method: 'get',
+    path: '/api/wines/{id}',
+    operationId: 'getWine',
+    summary: 'Get a wine with its headline review, review history and related vintages',
+    tag: 'Wines',
+    auth: 'caller',
+    scope: 'search',
+    params: idParams,
+    query: wineDetailQuerySchema,
+    response: wineDetailResponseSchema,
+    errors: [400, 401, 403, 404],
+  },
+  {
+    method: 'get',
+    path: '/api/wines/{id}/reviews',
+    operationId: 'listWineReviews',
+    summary: 'List the reviews of a wine, optionally with those of its other vintages',
+    tag: 'Wines',
+    auth: 'caller',
+    scope: 'search',
+    params: idParams,
+    query: wineReviewsQuerySchema,
+    response: wineReviewsResponseSchema,
+    errors: [400, 401, 403, 404],
+  },
+  {
+    method: 'post',
+    path: '/api/wines/batch-match',
+    operationId: 'batchMatchWines',
+    summary: 'Match many wine list lines at once',
+    tag: 'Wines',
+    auth: 'caller',
+    scope: 'batch-match',
+    body: batchMatchRequestSchema,
+    response: batchMatchResponseSchema,
+    streams: {
+      'application/x-ndjson': batchMatchStreamEventSchema,
+      'text/event-stream': batchMatchStreamEventSchema,
+    },
+    errors: [400, 401, 402, 403, 503],
+  },
+  {
+    method: 'post',
+    path: '/api/wines/parse-list',
+    operationId: 'parseWineList',
+    summary: 'Parse a wine list into structured entries, optionally matching them',
+    tag: 'Wines',
+    auth: 'caller',
+    scope: 'batch-match (when matching)',
+    body: parseListRequestSchema,
+    response: parseListResponseSchema,
+    errors: [400, 401, 402, 403, 503],
+  },
+  {
+    method: 'post',
+    path: '/api/auth/register',
+    operationId: 'register',
+    summary: 'Create an account with email and password',
+    tag: 'Auth',
+    auth: 'none',
+    body: registerRequestSchema,
+    status: 201,
+    response: sessionResponseSchema,
+    errors: [400, 409],
+  },
+  {
+    method: 'post',
+    path: '/api/auth/login',
+    operationId: 'login',
+    summary: 'Sign in with email and password',
+    tag: 'Auth',
+    auth: 'none',
+    body: loginRequestSchema,
+    response: sessionResponseSchema,
+    errors: [400, 401],
+  },
+  {
+    method: 'post',
+    path: '/api/auth/apple',
+    operationId: 'signInWithApple',
+    summary: 'Exchange a Sign in with Apple identity token for a session',
+    tag: 'Auth',
+    auth: 'none',
+    body: appleSignInRequestSchema,
+    response: appleSignInResponseSchema,
+    errors: [400, 401, 409],
+  },
+  {
+    method: 'post',
+    path: '/api/auth/refresh',
+    operationId: 'refreshSession',
+    summary: 'Rotate a refresh token for new tokens',
+    tag: 'Auth',
+    auth: 'none',
+    body: refreshRequestSchema,
+    response: sessionResponseSchema,
+    errors: [400, 401],
+  },
+  {
+    method: 'post',
+    path: '/api/auth/logout',
+    operationId: 'logout',
+    summary: 'End one session, or all sessions of the signed-in user',
+    tag: 'Auth',
+    auth: 'none',
+    body: logoutRequestSchema,
+    response: logoutResponseSchema,
+    errors: [400, 401],
+  },
+  {
+    method: 'get',
+    path: '/api/users/me/usage',
+    operationId: 'getUsage',
+    summary: 'Get the wine list scans used and left this month',
+    tag: 'Account',
+    auth: 'user',
+    response: usageResponseSchema,
+    errors: [401],
+  },
+  {
+    method: 'get',
+    path: '/api/users/me/business-accounts',
+    operationId: 'listMyBusinessAccounts',
+    summary: 'List the business accounts the user belongs to, with their role',
+    tag: 'Account',
+    auth: 'user',
+    response: membershipListResponseSchema,
+    errors: [401],
+  },
+  {
+    method: 'get',
+    path: '/api/users/me/wines',
+    operationId: 'listSavedWines',
+    summary: 'List saved wines',
+    tag: 'Saved wines',
+    auth: 'user',
+    query: listSavedWinesSchema,
+    response: savedWineListResponseSchema,
+    errors: [400, 401],
+  },
+  {
+    method: 'post',
+    path: '/api/users/me/wines',
+    operationId: 'saveWine',
+    summary: 'Save a wine to the journal',
+    tag: 'Saved wines',
+    auth: 'user',
+    body: saveWineRequestSchema,
+    status: 201,
+    response: savedWineResponseSchema,
+    errors: [400, 401, 404, 409],
+  },
+  {
+    method: 'get',
+    path: '/api/users/me/wines/{id}',
+    operationId: 'getSavedWine',
+    summary: 'Get a saved wine',
+    tag: 'Saved wines',
+    auth: 'user',
+    params: idParams,
+    response: savedWineResponseSchema,
+    errors: [401, 404],
+  },
+  {
+    method: 'patch',
+    path: '/api/users/me/wines/{id}',
+    operationId: 'updateSavedWine',
+    summary: 'Update notes or context of a saved wine',
+    tag: 'Saved wines',
+    auth: 'user',
+    params: idParams,
+    body: updateSavedWineRequestSchema,
+    response: savedWineResponseSchema,
+    errors: [400, 401, 404],
+  },
+  {
+    method: 'delete',
+    path: '/api/users/me/wines/{id}',
+    operationId: 'deleteSavedWine',
+    summary: 'Remove a saved wine',
+    tag: 'Saved wines',
+    auth: 'user',
+    params: idParams,
+    response: savedWineDeletedResponseSchema,
+    errors: [401, 404],
+  },
+  {
+    method: 'post',
+    path: '/api/business/lists/analyze',
+    operationId: 'analyzeWineList',
+    summary: 'Analyze a priced wine list (business subscription): matches, scores, markups, drink windows',
+    tag: 'Business',
+    auth: 'business',
+    body: analyzeListRequestSchema,
+    status: 201,
+    response: listAnalysisSchema,
+    errors: [400, 401, 402, 403, 503],
+  },
+  {
+    method: 'get',
+    path: '/api/business/lists/{id}',
+    operationId: 'getWineListAnalysis',
+    summary: 'Get a stored wine list analysis',
+    tag: 'Business',
+    auth: 'business',
+    params: idParams,
+    response: listAnalysisSchema,
+    errors: [400, 401, 402, 403, 404],
+  },
+  {
+    method: 'get',
+    path: '/api/business/lists/{id}/export',
+    operationId: 'exportWineListAnalysis',
+    summary: 'Download the wines of a stored analysis as CSV',
+    tag: 'Business',
+    auth: 'business',
+    params: idParams,
+    response: z.string().describe('One row per list line, with a header row'),
+    mediaType: 'text/csv',
+    errors: [400, 401, 402, 403, 404],
+  },
+  {
+    method: 'post',
+    path: '/api/business/wines/replacements',
+    operationId: 'suggestReplacements',
+    summary: 'Suggest replacements for an out-of-stock wine',
+    tag: 'Business',
+    auth: 'business',
+    body: replacementsRequestSchema,
+    response: replacementsResponseSchema,
+    errors: [400, 401, 402, 403, 404],
+  },
+  {
+    method: 'get',
+    path: '/api/business/account',
+    operationId: 'getBusinessAccount',
+    summary: 'Get the business account with its limits, seats used and the caller\'s role',
+    tag: 'Business',
+    auth: 'business',
+    response: currentBusinessAccountResponseSchema,
+    errors: [400, 401, 403],
+  },
+  {
+    method: 'get',
+    path: '/api/business/account/members',
+    operationId: 'listBusinessAccountMembers',
+    summary: 'List the members of the business account',
+    tag: 'Business',
+    auth: 'business',
+    response: memberListResponseSchema,
+    errors: [400, 401, 403],
+  },
+  {
+    method: 'post',
+    path: '/api/business/account/members',
+    operationId: 'addBusinessAccountMember',
+    summary: 'Add an existing user to the business account (takes a seat)',
+    tag: 'Business',
+    auth: 'business',
+    role: 'manager',
+    body: addMemberRequestSchema,
+    status: 201,
+    response: memberResponseSchema,
+    errors: [400, 401, 402, 403, 404, 409],
+  },
+  {
+    method: 'patch',
+    path: '/api/business/account/members/{id}',
+    operationId: 'updateBusinessAccountMember',
+    summary: 'Change a member\'s role (by user ID); the last owner cannot be demoted',
+    tag: 'Business',
+    auth: 'business',
+    role: 'owner',
+    params: idParams,
+    body: updateMemberRequestSchema,
+    response: memberResponseSchema,
+    errors: [400, 401, 403, 404, 409],
+  },
+  {
+    method: 'delete',
+    path: '/api/business/account/members/{id}',
+    operationId: 'removeBusinessAccountMember',
+    summary: 'Remove a member (by user ID): owners remove anyone, managers remove staff, anyone can leave',
+    tag: 'Business',
+    auth: 'business',
+    params: idParams,
+    response: memberRemovedResponseSchema,
+    errors: [400, 401, 403, 404, 409],
+  },
+  {
+    method: 'get',
+    path: '/api/business/webhooks',
+    operationId: 'listWebhookEndpoints',
+    summary: 'List the business account\'s webhook endpoints',
+    tag: 'Webhooks',
+    auth: 'business',
+    role: 'manager',
+    response: webhookEndpointListResponseSchema,
+    errors: [400, 401, 402, 403],
+  },
+  {
+    method: 'post',
+    path: '/api/business/webhooks',
+    operationId: 'createWebhookEndpoint',
+    summary: 'Register a webhook endpoint; the signing secret is only returned here',
+    tag: 'Webhooks',
+    auth: 'business',
+    role: 'manager',
+    body: createWebhookEndpointRequestSchema,
+    status: 201,
+    response: createdWebhookEndpointResponseSchema,
+    errors: [400, 401, 402, 403, 409],
+  },
+  {
+    method: 'get',
+    path: '/api/business/webhooks/{id}',
+    operationId: 'getWebhookEndpoint',
+    summary: 'Get a webhook endpoint',
+    tag: 'Webhooks',
+    auth: 'business',
+    role: 'manager',
+    params: idParams,
+    response: webhookEndpointResponseSchema,
+    errors: [400, 401, 402, 403, 404],
+  },
+  {
+    method: 'patch',
+    path: '/api/business/webhooks/{id}',
+    operationId: 'updateWebhookEndpoint',
+    summary: 'Change a webhook endpoint\'s URL, events or description, or disable it',
+    tag: 'Webhooks',
+    auth: 'business',
+    role: 'manager',
+    params: idParams,
+    body: updateWebhookEndpointRequestSchema,
+    response: webhookEndpointResponseSchema,
+    errors: [400, 401, 402, 403, 404],
+  },
+  {
+    method: 'delete',
+    path: '/api/business/webhooks/{id}',
+    operationId: 'deleteWebhookEndpoint',
+    summary: 'Delete a webhook endpoint and its delivery log',
+    tag: 'Webhooks',
+    auth: 'business',
+    role: 'manager',
+    params: idParams,
+    response: webhookEndpointDeletedResponseSchema,
+    errors: [400, 401, 402, 403, 404],
+  },
+  {
+    method: 'get',
+    path: '/api/business/webhooks/deliveries',
+    operationId: 'listWebhookDeliveries',
+    summary: 'List webhook deliveries, newest first',
+    tag: 'Webhooks',
+    auth: 'business',
+    role: 'manager',
+    query: listDeliveriesQuerySchema,
+    response: webhookDeliveryListResponseSchema,
+    errors: [400, 401, 402, 403],
+  },
+  {
+    method: 'get',
+    path: '/api/business/webhooks/deliveries/{id}',
+    operationId: 'getWebhookDelivery',
+    summary: 'Get a webhook delivery with its last response',
+    tag: 'Webhooks',
+    auth: 'business',
+    role: 'manager',
+    params: idParams,
+    response: webhookDeliveryResponseSchema,
+    errors: [400, 401, 402, 403, 404],
+  },
+  {
+    method: 'post',
+    path: '/api/business/webhooks/deliveries/{id}/redeliver',
+    operationId: 'redeliverWebhook',
+    summary: 'Queue the delivery\'s event again for its endpoint',
+    tag: 'Webhooks',
+    auth: 'business',
+    role: 'manager',
+    params: idParams,
+    status: 201,
+    response: webhookDeliveryResponseSchema,
+    errors: [400, 401, 402, 403, 404, 409],
+  },
+  {
+    method: 'post',
+    path: '/api/analytics/scans',
+    operationId: 'recordScanEvents',
+    summary: 'Record scan analytics events (one, or a batch of up to 100)',
+    tag: 'Analytics',
+    auth: 'caller',
+    body: scanEventsRequestSchema,
+    response: scanEventsResponseSchema,
+    errors: [400, 401],
+  },
+  {
+    method: 'post',
+    path: '/api/subscriptions/verify',
+    operationId: 'verifySubscription',
+    summary: 'Verify a StoreKit 2 signed transaction and update the subscription',
+    tag: 'Subscriptions',
+    auth: 'user',
+    body: verifySubscriptionRequestSchema,
+    response: verifySubscriptionResponseSchema,
+    errors: [400, 401, 409],
+  },
+  {
+    method: 'post',
+    path: '/api/subscriptions/app-store-notifications',
+    operationId: 'receiveAppStoreNotification',
+    summary: 'App Store Server Notifications v2 endpoint (signed by Apple)',
+    tag: 'Subscriptions',
+    auth: 'none',
+    body: appStoreNotificationRequestSchema,
+    response: appStoreNotificationResponseSchema,
+    errors: [400, 401],
+    rateLimited: false,
+  },
+  {
+    method: 'get',
+    path: '/api/admin/api-keys',
+    operationId: 'listApiKeys',
+    summary: 'List API keys',
+    tag: 'Admin',
+    auth: 'admin',
+    query: listApiKeysQuerySchema,
+    response: apiKeyListResponseSchema,
+    errors: [400, 401],
+    rateLimited: false,
+  },
+  {
+    method: 'post',
+    path: '/api/admin/api-keys',
+    operationId: 'issueApiKey',
+    summary: 'Issue an API key',
+    tag: 'Admin',
+    auth: 'admin',
+    body: issueApiKeyRequestSchema,
+    status: 201,
+    response: issuedApiKeyResponseSchema,
+    errors: [400, 401],
+    rateLimited: false,
+  },
+  {
+    method: 'get',
+    path: '/api/admin/api-keys/{id}',
+    operationId: 'getApiKey',
+    summary: 'Get an API key',
+    tag: 'Admin',
+    auth: 'admin',
+    params: idParams,
+    response: apiKeyResponseSchema,
+    errors: [401, 404],
+    rateLimited: false,
+  },
+  {
+    method: 'delete',
+    path: '/api/admin/api-keys/{id}',
+    operationId: 'revokeApiKey',
+    summary: 'Revoke an API key',
+    tag: 'Admin',
+    auth: 'admin',
+    params: idParams,
+    response: apiKeyResponseSchema,
+    errors: [401, 404],
+    rateLimited: false,
+  },
+  {
+    method: 'post',
+    path: '/api/admin/api-keys/{id}/rotate',
+    operationId: 'rotateApiKey',
+    summary: 'Issue a replacement key; the old one expires after a grace period',
+    tag: 'Admin',
+    auth: 'admin',
+    params: idParams,
+    body: rotateApiKeyRequestSchema,
+    status: 201,
+    response: issuedApiKeyResponseSchema,
+    errors: [400, 401, 404],
+    rateLimited: false,
+  },
+  {
+    method: 'get',
+    path: '/api/admin/business-accounts',
+    operationId: 'listBusinessAccounts',
+    summary: 'List business accounts',
+    tag: 'Admin',
+    auth: 'admin',
+    response: businessAccountListResponseSchema,
+    errors: [401],
+    rateLimited: false,
+  },
+  {
+    method: 'post',
+    path: '/api/admin/business-accounts',
+    operationId: 'createBusinessAccount',
+    summary: 'Create a business account owned by an existing user',
+    tag: 'Admin',
+    auth: 'admin',
+    body: createBusinessAccountRequestSchema,
+    status: 201,
+    response: businessAccountResponseSchema,
+    errors: [400, 401, 404],
+    rateLimited: false,
+  },
+  {
+    method: 'get',
+    path: '/api/admin/business-accounts/{id}',
+    operationId: 'getBusinessAccountAdmin',
+    summary: 'Get a business account',
+    tag: 'Admin',
+    auth: 'admin',
+    params: idParams,
+    response: businessAccountResponseSchema,
+    errors: [401, 404],
+    rateLimited: false,
+  },
+  {
+    method: 'patch',
+    path: '/api/admin/business-accounts/{id}',
+    operationId: 'updateBusinessAccount',
+    summary: 'Change a business account\'s plan, limits or subscription',
+    tag: 'Admin',
+    auth: 'admin',
+    params: idParams,
+    body: updateBusinessAccountRequestSchema,
+    response: businessAccountResponseSchema,
+    errors: [400, 401, 404],
+    rateLimited: false,
+  },
+  {
+    method: 'post',
+    path: '/api/admin/webhooks/dispatch',
+    operationId: 'dispatchWebhooks',
+    summary: 'Send due webhook deliveries (also run every minute by Vercel Cron with CRON_SECRET)',
+    tag: 'Admin',
+    auth: 'admin',
+    query: dispatchWebhooksQuerySchema,
+    response: dispatchWebhooksResponseSchema,
+    errors: [400, 401],
+    rateLimited: false,
+  },
+  {
+    method: 'get',
+    path: '/api/admin/analytics/scans',
+    operationId: 'getScanReport',
+    summary: 'Scan match rate, latency percentiles and filter usage per day, grouped by app version, device or platform',
+    tag: 'Admin',
+    auth: 'admin',
+    query: scanReportQuerySchema,
+    response: scanReportSchema,
+    errors: [400, 401],
+    rateLimited: false,
+  },
+  {
+    method: 'post',
+    path: '/api/admin/analytics/rollup',
+    operationId: 'rollupScanStats',
+    summary: 'Rebuild the daily scan rollups (also run hourly by Vercel Cron with CRON_SECRET)',
+    tag: 'Admin',
+    auth: 'admin',
+    query: rollupQuerySchema,
+    response: rollupResponseSchema,
+    errors: [400, 401],
+    rateLimited: false,
+  },
+  {
+    method: 'get',
+    path: '/api/admin/unmatched-queries',
+    operationId: 'listUnmatchedQueries',
+    summary: 'Open unmatched and low-confidence queries, clustered by similarity and ranked by frequency',
+    tag: 'Admin',
+    auth: 'admin',
+    query: listUnmatchedQueriesQuerySchema,
+    response: unmatchedClusterListResponseSchema,
+    errors: [400, 401],
+    rateLimited: false,
+  },
+  {
+    method: 'post',
+    path: '/api/admin/unmatched-queries/resolve',
+    operationId: 'resolveUnmatchedQueries',
+    summary: 'Link unmatched queries to a wine, creating an alias for each',
+    tag: 'Admin',
+    auth: 'admin',
+    body: resolveUnmatchedQueriesRequestSchema,
+    response: resolveUnmatchedQueriesResponseSchema,
+    errors: [400, 401, 404],
+    rateLimited: false,
+  },
+  {
+    method: 'post',
+    path: '/api/admin/unmatched-queries/ignore',
+    operationId: 'ignoreUnmatchedQueries',
+    summary: 'Take queries that are not wines out of the queue',
+    tag: 'Admin',
+    auth: 'admin',
+    body: ignoreUnmatchedQueriesRequestSchema,
+    response: ignoreUnmatchedQueriesResponseSchema,
+    errors: [400, 401, 404],
+    rateLimited: false,
+  },
+  {
+    method: 'get',
+    path: '/api/admin/aliases',
+    operationId: 'listWineAliases',
+    summary: 'List curated wine aliases',
+    tag: 'Admin',
+    auth: 'admin',
+    query: listAliasesQuerySchema,
+    response: aliasListResponseSchema,
+    errors: [400, 401],
+    rateLimited: false,
+  },
+  {
+    method: 'delete',
+    path: '/api/admin/aliases/{id}',
+    operationId: 'deleteWineAlias',
+    summary: 'Delete a wine alias',
+    tag: 'Admin',
+    auth: 'admin',
+    params: idParams,
+    response: aliasDeletedResponseSchema,
+    errors: [401, 404],
+    rateLimited: false,
+  },
+  {
+    method: 'get',
+    path: '/api/admin/search/synonyms',
+    operationId: 'listSearchSynonyms',
+    summary: 'List search synonyms',
+    tag: 'Admin',
+    auth: 'admin',
+    query: listSearchSynonymsQuerySchema,
+    response: searchSynonymListResponseSchema,
+    errors: [400, 401],
+    rateLimited: false,
+  },
+  {
+    method: 'post',
+    path: '/api/admin/search/synonyms',
+    operationId: 'createSearchSynonym',
+    summary: 'Add a synonym group (applied on the next sync)',
+    tag: 'Admin',
+    auth: 'admin',
+    body: createSearchSynonymRequestSchema,
+    response: searchSynonymResponseSchema,
+    status: 201,
+    errors: [400, 401],
+    rateLimited: false,
+  },
+  {
+    method: 'get',
+    path: '/api/admin/search/synonyms/{id}',
+    operationId: 'getSearchSynonym',
+    summary: 'Get a synonym group',
+    tag: 'Admin',
+    auth: 'admin',
+    params: idParams,
+    response: searchSynonymResponseSchema,
+    errors: [401, 404],
+    rateLimited: false,
+  },
+  {
+    method: 'patch',
+    path: '/api/admin/search/synonyms/{id}',
+    operationId: 'updateSearchSynonym',
+    summary: 'Change a synonym group (applied on the next sync)',
+    tag: 'Admin',
+    auth: 'admin',
+    params: idParams,
+    body: updateSearchSynonymRequestSchema,
+    response: searchSynonymResponseSchema,
+    errors: [400, 401, 404],
+    rateLimited: false,
+  },
+  {
+    method: 'delete',
+    path: '/api/admin/search/synonyms/{id}',
+    operationId: 'deleteSearchSynonym',
+    summary: 'Delete a synonym group (applied on the next sync)',
+    tag: 'Admin',
+    auth: 'admin',
+    params: idParams,
+    response: searchSynonymDeletedResponseSchema,
+    errors: [401, 404],
+    rateLimited: false,
+  },
+  {
+    method: 'post',
+    path: '/api/admin/search/synonyms/sync',
+    operationId: 'syncSearchSynonyms',
+    summary: 'Push the synonyms and index settings to the active search provider (also run every 15 minutes by Vercel Cron with CRON_SECRET)',
+    tag: 'Admin',
+    auth: 'admin',
+    response: synonymSyncResponseSchema,
+    errors: [401],
+    rateLimited: false,
+  },
+];
+
+// Emitted once under #/components/schemas and referenced everywhere else
+const COMPONENTS: Record<string, ZodTypeAny> = {
+  Wine: wineWithReviewSchema,
+  BrowseWine: browseWineSchema,
+  CursorPagination: cursorPaginationSchema,
+  MatchBreakdown: matchBreakdownSchema,
+  BatchMatchCandidate: batchMatchCandidateSchema,
+  BatchMatchResult: batchMatchResultSchema,
+  ParsedListEntry: parsedListEntrySchema,
+  User: userSchema,
+  AuthTokens: authTokensSchema,
+  SavedWine: savedWineEntrySchema,
+  Pagination: paginationSchema,
+  ApiKey: apiKeySchema,
+  ScanQuotaExceeded: scanQuotaExceededSchema,
+  Subscription: subscriptionSchema,
+  ListAnalysis: listAnalysisSchema,
+  AnalyzedListWine: analyzedListWineSchema,
+  BusinessAccount: businessAccountSchema,
+  SeatLimitExceeded: seatLimitExceededSchema,
+  WebhookEndpoint: webhookEndpointSchema,
+  WebhookDelivery: webhookDeliverySchema,
+  ScanStats: scanStatsSchema,
+  UnmatchedQuery: unmatchedQuerySchema,
+  WineAlias: wineAliasSchema,
+  SearchSynonym: searchSynonymSchema,
+};
+
+const ERROR_RESPONSES: Record<number, { name: string; description: string; codes: string[] }> = {
+  400: { name: 'ValidationError', description: 'Invalid request parameters', codes: ['VALIDATION_ERROR'] },
+  401: { name: 'Unauthorized', description: 'Missing or invalid credentials', codes: ['UNAUTHORIZED'] },
+  402: {
+    name: 'SubscriptionRequired',
+    description:
+      'Feature requires a paid subscription, the free monthly scans are used up, or every business account seat is taken',
+    codes: ['SUBSCRIPTION_REQUIRED'],
+  },
+  403: {
+    name: 'Forbidden',
+    description: 'Credential lacks the required scope, business account membership or role',
+    codes: ['FORBIDDEN'],
+  },
+  404: { name: 'NotFound', description: 'Resource not found', codes: ['NOT_FOUND'] },
+  405: { name: 'MethodNotAllowed', description: 'HTTP method not supported', codes: ['METHOD_NOT_ALLOWED'] },
+  409: { name: 'Conflict', description: 'Resource already exists', codes: ['CONFLICT'] },
+  429: { name: 'RateLimited', description: 'Too many requests', codes: ['RATE_LIMITED'] },
+  500: { name: 'ServerError', description: 'Internal server error', codes: ['SERVER_ERROR'] },
+  503: { name: 'ServiceUnavailable', description: 'A dependency is temporarily unavailable', codes: ['SERVICE_UNAVAILABLE'] },
+};
+
+const ALWAYS_POSSIBLE_ERRORS = [405, 500];
+
+export function buildOpenApiDocument(): JsonSchema {
+  const refs: SchemaRefs = new Map(Object.entries(COMPONENTS).map(([name, schema]) => [schema, name]));
+
+  const schemas: Record<string, JsonSchema> = {
+    Meta: {
+      type: 'object',
+      properties: {
+        request_id: { type: 'string', description: 'Also sent as the X-Request-ID header' },
+        processing_time_ms: { type: 'number' },
+      },
+      required: ['request_id', 'processing_time_ms'],
+    },
+    Error: {
+      type: 'object',
+      properties: {
+        success: { const: false },
+        error: {
+          type: 'object',
+          properties: {
+            code: { type: 'string' },
+            message: { type: 'string' },
+            details: {
+              description:
+                'For VALIDATION_ERROR, one { field, message } per invalid field; for an exhausted scan quota, a ScanQuotaExceeded; for a full business account, a SeatLimitExceeded',
+            },
+          },
+          required: ['code', 'message'],
+        },
+        meta: { $ref: '#/components/schemas/Meta' },
+      },
+      required: ['success', 'error', 'meta'],
+    },
+  };
+  for (const [name, schema] of Object.entries(COMPONENTS)) {
+    schemas[name] = toJsonSchema(schema, refs, { inline: true });
+  }
+
+  const responses: Record<string, JsonSchema> = {};
+  for (const { name, description, codes } of Object.values(ERROR_RESPONSES)) {
+    responses[name] = {
+      description: `${description} (${codes.join(', ')})`,
+      headers: { 'X-Request-ID': { $ref: '#/components/headers/RequestId' } },
+      content: { 'application/json': { schema: { $ref: '#/components/schemas/Error' } } },
+    };
+  }
+
+  const paths: Record<string, Record<string, JsonSchema>> = {};
+  for (const operation of OPERATIONS) {
+    paths[operation.path] ??= {};
+    paths[operation.path][operation.method] = buildOperation(operation, refs);
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'Wine List Assistant API',
+      version: API_VERSION,
+      description:
+        'Every JSON response uses the envelope { success, data | error, meta }. ' +
+        'Send X-Request-ID to correlate requests; it is echoed back.',
+    },
+    tags: [...new Set(OPERATIONS.map(operation => operation.tag))].map(name => ({ name })),
+    paths,
+    components: {
+      schemas,
+      responses,
+      headers: {
+        RequestId: { description: 'Request ID (the client-sent X-Request-ID when valid)', schema: { type: 'string' } },
+        RateLimitLimit: { description: 'Requests allowed in the current window', schema: { type: 'integer' } },
+        RateLimitRemaining: { description: 'Requests left in the current window', schema: { type: 'integer' } },
+        RateLimitReset: { description: 'Unix time when the window resets', schema: { type: 'integer' } },
+      },
+      securitySchemes: {
+        bearerAuth: { type: 'http', scheme: 'bearer', bearerFormat: 'JWT' },
+        apiKey: { type: 'apiKey', in: 'header', name: 'X-API-Key' },
+        adminKey: { type: 'apiKey', in: 'header', name: 'X-Admin-Key' },
+        businessAccount: {
+          type: 'apiKey',
+          in: 'header',
+          name: 'X-Business-Account',
+          description: 'ID of the business account a signed-in member acts for; optional for API keys issued to an account',
+        },
+      },
+    },
+  };
+}
+
+function buildOperation(operation: Operation, refs: SchemaRefs): JsonSchema {
+  const parameters = [
+    ...queryParameters(operation.params, 'path', refs),
+    ...queryParameters(operation.query, 'query', refs),
+  ];
+
+  const headers: Record<string, JsonSchema> = { 'X-Request-ID': { $ref: '#/components/headers/RequestId' } };
+  if (operation.rateLimited !== false) {
+    headers['X-RateLimit-Limit'] = { $ref: '#/components/headers/RateLimitLimit' };
+    headers['X-RateLimit-Remaining'] = { $ref: '#/components/headers/RateLimitRemaining' };
+    headers['X-RateLimit-Reset'] = { $ref: '#/components/headers/RateLimitReset' };
+  }
+
+  const content: Record<string, JsonSchema> = operation.mediaType
+    ? { [operation.mediaType]: { schema: toJsonSchema(operation.response, refs) } }
+    : { 'application/json': { schema: envelope(toJsonSchema(operation.response, refs)) } };
+  for (const [mediaType, schema] of Object.entries(operation.streams ?? {})) {
+    content[mediaType] = {
+      schema: {
+        ...toJsonSchema(schema, refs),
+        description:
+          mediaType === 'text/event-stream'
+            ? 'Each SSE event is named by type; its data is this object without type'
+            : 'One JSON object per line',
+      },
+    };
+  }
+
+  const responses: Record<string, JsonSchema> = {
+    [operation.status ?? 200]: { description: 'Success', headers, content },
+  };
+  const errors = [...operation.errors, ...(operation.rateLimited !== false ? [429] : []), ...ALWAYS_POSSIBLE_ERRORS];
+  for (const status of [...new Set(errors)].sort((a, b) => a - b)) {
+    responses[status] = { $ref: `#/components/responses/${ERROR_RESPONSES[status].name}` };
+  }
+
+  return {
+    operationId: operation.operationId,
+    summary: operation.summary,
+    tags: [operation.tag],
+    ...(description(operation) ? { description: description(operation) } : {}),
+    security: security(operation.auth),
+    ...(parameters.length ? { parameters } : {}),
+    ...(operation.body
+      ? {
+          requestBody: {
+            required: !operation.body.isOptional(),
+            content: { 'application/json': { schema: toJsonSchema(operation.body, refs) } },
+          },
+        }
+      : {}),
+    responses,
+  };
+}
+
+function queryParameters(schema: ZodTypeAny | undefined, location: 'path' | 'query', refs: SchemaRefs): JsonSchema[] {
+  if (!schema) return [];
+  const shape = objectShape(schema);
+  if (!shape) return [];
+
+  return Object.entries(shape).map(([name, field]) => {
+    const { description, ...fieldSchema } = toJsonSchema(field, refs);
+    return {
+      name,
+      in: location,
+      required: location === 'path' || !field.isOptional(),
+      ...(description ? { description } : {}),
+      schema: fieldSchema,
+    };
+  });
+}
+
+function envelope(data: JsonSchema): JsonSchema {
+  return {
+    type: 'object',
+    properties: {
+      success: { const: true },
+      data,
+      meta: { $ref: '#/components/schemas/Meta' },
+    },
+    required: ['success', 'data', 'meta'],
+  };
+}
+
+function description(operation: Operation): string | null {
+  if (operation.auth === 'business') {
+    return operation.role
+      ? `Requires the \`${operation.role}\` role in the business account; API keys act as staff.`
+      : 'Requires membership of the business account, or an API key with the `business` scope issued to it.';
+  }
+  return operation.scope ? `Requires the \`${operation.scope}\` scope for API keys.` : null;
+}
+
+function security(auth: Auth): JsonSchema[] {
+  switch (auth) {
+    case 'none':
+      return [];
+    case 'caller':
+      // Anonymous callers are allowed at the anonymous rate limit
+      return [{}, { bearerAuth: [] }, { apiKey: [] }];
+    case 'user':
+      return [{ bearerAuth: [] }];
+    case 'business':
+      return [{ bearerAuth: [], businessAccount: [] }, { apiKey: [] }];
+    case 'admin':
+      return [{ adminKey: [] }];
+  }
+}
@@ -0,0 +1,95 @@
+import type { WineWithReview, SearchResult } from '../types';
+import { toSearchResult } from './confidence';
+import type { SearchOptions, SearchService } from './search';
+
+// Postgres full-text implementation backed by idx_wines_fts (see search_wines_fts in schema.sql).
+// Used as the fallback when the primary provider is down; the wines table is the index,
+// so the write methods are no-ops. search_wines_fts expands queries with search_synonyms
+// itself, so there is nothing to push when synonyms are synced.
+
+interface FtsWineRow {
+  id: string;
+  producer: string;
+  name: string;
+  vintage: number | null;
+  region: string;
+  sub_region: string | null;
+  appellation: string | null;
+  country: string;
+  color: WineWithReview['color'];
+  grape_varieties: WineWithReview['grape_varieties'] | null;
+  alcohol: number | null;
+  label_url: string | null;
+  top100_rank: number | null;
+  top100_year: number | null;
+  score: number;
+  tasting_note: string;
+  reviewer_initials: string;
+  reviewer_name: string | null;
+  review_date: string;
+  drink_window_start: number | null;
+  drink_window_end: number | null;
+  release_price: number | null;
+  rank: number;
+}
+
+export const postgresSearch: SearchService = {
+  name: 'postgres',
+
+  async search(query: string, options: SearchOptions = {}): Promise<SearchResult[]> {
+    const { limit = 10, filters } = options;
+    // Imported lazily: the Supabase client throws at import time without credentials
+    const { supabaseAdmin } = await import('./supabase');
+
+    const { data, error } = await supabaseAdmin.rpc('search_wines_fts', {
+      search_query: query,
+      max_results: limit,
+      filter_color: filters?.color ?? null,
+      filter_country: filters?.country ?? null,
+      filter_min_score: filters?.min_score ?? null,
+      filter_vintage: filters?.vintage ?? null,
+    });
+
+    if (error) {
+      throw new Error(`Postgres full-text search failed: ${error.message}`);
+    }
+
+    return ((data ?? []) as FtsWineRow[]).map((row) => toSearchResult(query, ftsRowToWine(row)));
+  },
+
+  // Synonyms are read from search_synonyms on every query
+  async configureIndex(): Promise<void> {},
+
+  async indexWine(): Promise<void> {},
+
+  async indexWines(): Promise<void> {},
+
+  async deleteWine(): Promise<void> {},
+};
+
+function ftsRowToWine(row: FtsWineRow): WineWithReview {
+  return {
+    id: row.id,
+    producer: row.producer,
+    name: row.name,
+    vintage: row.vintage,
+    region: row.region,
+    sub_region: row.sub_region,
+    appellation: row.appellation,
+    country: row.country,
+    color: row.color,
+    grape_varieties: row.grape_varieties ?? [],
+    alcohol: row.alcohol,
+    label_url: row.label_url || null,
+    top100_rank: row.top100_rank || null,
+    top100_year: row.top100_year || null,
+    score: row.score,
+    tasting_note: row.tasting_note,
+    reviewer_initials: row.reviewer_initials,
+    reviewer_name: row.reviewer_name,
+    review_date: row.review_date,
+    drink_window_start: row.drink_window_start,
+    drink_window_end: row.drink_window_end,
+    release_price: row.release_price,
+  };
+}
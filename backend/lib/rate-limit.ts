@@ -0,0 +1,265 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import type { SubscriptionTier } from '../types';
+import { RateLimitedError } from './errors';
+import type { Middleware } from './handler';
+import { grantedBusinessAccess } from './business-accounts';
+import { InvalidCredentialsError, clientIp, resolveCaller } from './identity';
+
+// Fixed-window rate limiting per caller (user, API key or IP), with per-minute and per-day
+// windows from the API spec's tier table. Counters live in a pluggable RateLimitStore.
+
+export type RateLimitTier = 'anonymous' | SubscriptionTier;
+
+export interface RateLimitWindow {
+  name: 'minute' | 'day';
+  limit: number;
+  windowMs: number;
+}
+
+const MINUTE_MS = 60_000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+export const TIER_LIMITS: Record<RateLimitTier, { perMinute: number; perDay: number }> = {
+  anonymous: { perMinute: 10, perDay: 100 },
+  free: { perMinute: 30, perDay: 500 },
+  premium: { perMinute: 120, perDay: 10_000 },
+  business: { perMinute: 300, perDay: 50_000 },
+};
+
+// Batch endpoints cost one unit per this many queries, so matching a 100-line list
+// costs as much as 10 searches instead of being free or impossible
+const QUERIES_PER_UNIT = 10;
+
+export function batchCost(queryCount: number): number {
+  return Math.max(1, Math.ceil(queryCount / QUERIES_PER_UNIT));
+}
+
+export interface RateLimitStore {
+  readonly name: string;
+  // Adds cost to the counter at key (created with the given TTL) and returns the new total
+  hit(key: string, cost: number, ttlMs: number): Promise<number>;
+}
+
+export interface RateLimitSubject {
+  key: string;
+  tier: RateLimitTier;
+  // Replaces the tier's limits (a business account's plan)
+  limits?: { perMinute: number; perDay: number };
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  // Unix seconds when the most constrained window resets
+  reset: number;
+  retry_after: number;
+  window: RateLimitWindow['name'];
+}
+
+// Counters in process memory; per-instance only, so meant for tests and local development
+export function createMemoryStore(): RateLimitStore {
+  const counters = new Map<string, { count: number; expiresAt: number }>();
+  let lastPrune = Date.now();
+
+  return {
+    name: 'memory',
+
+    async hit(key, cost, ttlMs) {
+      const now = Date.now();
+      if (now - lastPrune > MINUTE_MS) {
+        for (const [k, counter] of counters) {
+          if (counter.expiresAt <= now) counters.delete(k);
+        }
+        lastPrune = now;
+      }
+
+      const existing = counters.get(key);
+      const counter = existing && existing.expiresAt > now ? existing : { count: 0, expiresAt: now + ttlMs };
+      counter.count += cost;
+      counters.set(key, counter);
+      return counter.count;
+    },
+  };
+}
+
+// Shared counters in Postgres via the rate_limit_hit() function (see rate_limit_migration.sql)
+export function createPostgresStore(): RateLimitStore {
+  return {
+    name: 'postgres',
+
+    async hit(key, cost, ttlMs) {
+      // Imported lazily: the Supabase client throws at import time without credentials
+      const { supabaseAdmin } = await import('./supabase');
+      const { data, error } = await supabaseAdmin.rpc('rate_limit_hit', {
+        bucket: key,
+        cost,
+        ttl_seconds: Math.ceil(ttlMs / 1000),
+      });
+
+      if (error) {
+        throw new Error(`Rate limit counter failed: ${error.message}`);
+      }
+      return Number(data);
+    },
+  };
+}
+
+// Redis-compatible REST API (Upstash): INCRBY plus an expiry set on the first hit
+export function createRedisStore({ url, token }: { url: string; token: string }): RateLimitStore {
+  return {
+    name: 'redis',
+
+    async hit(key, cost, ttlMs) {
+      const response = await fetch(`${url.replace(/\/$/, '')}/pipeline`, {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+        body: JSON.stringify([
+          ['INCRBY', key, String(cost)],
+          ['PEXPIRE', key, String(ttlMs), 'NX'],
+        ]),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Rate limit counter failed: HTTP ${response.status}`);
+      }
+
+      const [incr] = (await response.json()) as { result?: number; error?: string }[];
+      if (incr?.error || typeof incr?.result !== 'number') {
+        throw new Error(`Rate limit counter failed: ${incr?.error ?? 'unexpected response'}`);
+      }
+      return incr.result;
+    },
+  };
+}
+
+let store: RateLimitStore | null = null;
+
+// RATE_LIMIT_STORE picks the store; otherwise Redis when Upstash is configured, then Postgres, then memory
+export function getRateLimitStore(): RateLimitStore {
+  if (!store) {
+    const configured = process.env.RATE_LIMIT_STORE?.trim().toLowerCase();
+    const redisUrl = process.env.UPSTASH_REDIS_REST_URL?.trim();
+    const redisToken = process.env.UPSTASH_REDIS_REST_TOKEN?.trim();
+    const hasSupabase = Boolean(process.env.SUPABASE_URL && process.env.SUPABASE_SERVICE_KEY);
+
+    if (configured && !['memory', 'postgres', 'redis'].includes(configured)) {
+      throw new Error(`Unknown RATE_LIMIT_STORE "${configured}" (expected one of: memory, postgres, redis)`);
+    }
+
+    if (configured === 'redis' || (!configured && redisUrl && redisToken)) {
+      if (!redisUrl || !redisToken) {
+        throw new Error('RATE_LIMIT_STORE=redis requires UPSTASH_REDIS_REST_URL and UPSTASH_REDIS_REST_TOKEN');
+      }
+      store = createRedisStore({ url: redisUrl, token: redisToken });
+    } else if (configured === 'postgres' || (!configured && hasSupabase)) {
+      store = createPostgresStore();
+    } else {
+      store = createMemoryStore();
+    }
+  }
+  return store;
+}
+
+// Requests acting for a business account share the account's plan limits; otherwise
+// signed-in users are limited by account and tier, API keys per key (at the key's tier),
+// everyone else per IP. Invalid credentials count against the IP; the request is rejected later.
+export async function resolveRateLimitSubject(req: VercelRequest): Promise<RateLimitSubject> {
+  const business = grantedBusinessAccess(req);
+  if (business) {
+    const { id, limits } = business.account;
+    return {
+      key: `account:${id}`,
+      tier: 'business',
+      limits: { perMinute: limits.requests_per_minute, perDay: limits.requests_per_day },
+    };
+  }
+
+  try {
+    const caller = await resolveCaller(req);
+    switch (caller.type) {
+      case 'user':
+        return { key: `user:${caller.id}`, tier: caller.tier };
+      case 'api_key':
+        return { key: `key:${caller.id}`, tier: caller.tier };
+      case 'anonymous':
+        return { key: `ip:${caller.ip}`, tier: 'anonymous' };
+    }
+  } catch (err) {
+    if (!(err instanceof InvalidCredentialsError)) throw err;
+    return { key: `ip:${clientIp(req)}`, tier: 'anonymous' };
+  }
+}
+
+export function limitsFor(
+  tier: RateLimitTier,
+  { perMinute, perDay } = TIER_LIMITS[tier] ?? TIER_LIMITS.anonymous
+): RateLimitWindow[] {
+  return [
+    { name: 'minute', limit: perMinute, windowMs: MINUTE_MS },
+    { name: 'day', limit: perDay, windowMs: DAY_MS },
+  ];
+}
+
+export async function checkRateLimit(
+  subject: RateLimitSubject,
+  { cost = 1, rateLimitStore = getRateLimitStore(), now = Date.now() }: { cost?: number; rateLimitStore?: RateLimitStore; now?: number } = {}
+): Promise<RateLimitResult> {
+  const results = await Promise.all(
+    limitsFor(subject.tier, subject.limits).map(async (window) => {
+      const windowStart = Math.floor(now / window.windowMs) * window.windowMs;
+      const resetMs = windowStart + window.windowMs;
+      const count = await rateLimitStore.hit(`rl:${subject.key}:${window.name}:${windowStart}`, cost, resetMs - now);
+
+      return {
+        allowed: count <= window.limit,
+        limit: window.limit,
+        remaining: Math.max(0, window.limit - count),
+        reset: Math.ceil(resetMs / 1000),
+        retry_after: Math.max(1, Math.ceil((resetMs - now) / 1000)),
+        window: window.name,
+      };
+    })
+  );
+
+  // Report the exceeded window if any, otherwise the one closest to running out
+  const exceeded = results.filter(result => !result.allowed);
+  if (exceeded.length) {
+    return exceeded.reduce((a, b) => (b.retry_after > a.retry_after ? b : a));
+  }
+  return results.reduce((a, b) => (b.remaining < a.remaining ? b : a));
+}
+
+// Sets the X-RateLimit-* headers and throws RateLimitedError (with Retry-After set) when the
+// caller is over a limit. A failing counter store lets the request through.
+export async function enforceRateLimit(
+  req: VercelRequest,
+  res: VercelResponse,
+  { cost = 1 }: { cost?: number } = {}
+): Promise<void> {
+  let result: RateLimitResult;
+  try {
+    result = await checkRateLimit(await resolveRateLimitSubject(req), { cost });
+  } catch (err) {
+    console.warn('Rate limiting unavailable, allowing request:', err);
+    return;
+  }
+
+  res.setHeader('X-RateLimit-Limit', String(result.limit));
+  res.setHeader('X-RateLimit-Remaining', String(result.remaining));
+  res.setHeader('X-RateLimit-Reset', String(result.reset));
+
+  if (!result.allowed) {
+    res.setHeader('Retry-After', String(result.retry_after));
+    throw new RateLimitedError(
+      `Rate limit exceeded: ${result.limit} requests per ${result.window}`,
+      { limit: result.limit, window: result.window, retry_after: result.retry_after }
+    );
+  }
+}
+
+// Middleware form for routes with a fixed cost; routes whose cost depends on the body
+// call enforceRateLimit once it's validated
+export function rateLimit(options: { cost?: number } = {}): Middleware {
+  return ({ req, res }) => enforceRateLimit(req, res, options);
+}
@@ -0,0 +1,162 @@
+import type { GrapeVariety, ReplacementSuggestion, WineDetail, WineWithReview } from '../types';
+import { ValidationError } from './errors';
+import { findSimilarWines, getNearestVintages } from './wines';
+
+// Replacement suggestions for a wine that is out of stock: other vintages of the same wine
+// first, then wines of a similar style (color, grapes, place, score band and price). Similar
+// wines come from the same region or share a grape.
+
+export interface ReplacementConstraints {
+  // Largest allowed release price increase as a fraction (0.1 = up to 10% more)
+  max_price_increase?: number;
+  same_region?: boolean;
+  min_score?: number;
+}
+
+// Similar-style candidates loaded before ranking, the closest in score and price first
+const CANDIDATE_POOL = 200;
+// Candidates further from the original's score would score 0.1 or less on that weight
+const SCORE_BAND = 9;
+// Other vintages loaded on each side of the original's
+const NEAREST_VINTAGES = 5;
+// Below this a similar-style wine isn't worth suggesting
+const MIN_STYLE_SIMILARITY = 0.4;
+
+// Weights of the similar-style score; the color always matches and earns STYLE_BASE. They
+// add up to 0.9 so another vintage of the same wine (0.8-0.95) usually ranks first.
+const STYLE_BASE = 0.1;
+const STYLE_WEIGHTS = { grapes: 0.3, place: 0.2, score: 0.2, price: 0.1 };
+
+export async function suggestReplacements(
+  original: WineDetail,
+  constraints: ReplacementConstraints,
+  limit: number
+): Promise<ReplacementSuggestion[]> {
+  // A price increase needs a price to increase from
+  if (constraints.max_price_increase !== undefined && original.release_price === null) {
+    throw new ValidationError('The wine has no release price to compare against', [
+      { field: 'constraints.max_price_increase', message: 'Not allowed for a wine without a release price' },
+    ]);
+  }
+
+  const maxReleasePrice =
+    constraints.max_price_increase !== undefined && original.release_price !== null
+      ? original.release_price * (1 + constraints.max_price_increase)
+      : undefined;
+
+  const [vintages, similar] = await Promise.all([
+    getNearestVintages(original, NEAREST_VINTAGES),
+    findSimilarWines(original.id, {
+      scoreBand: SCORE_BAND,
+      sameRegion: constraints.same_region ?? false,
+      minScore: constraints.min_score,
+      maxReleasePrice,
+      limit: CANDIDATE_POOL,
+    }),
+  ]);
+
+  const accepts = (wine: WineDetail) =>
+    wine.score !== undefined &&
+    (constraints.min_score === undefined || wine.score >= constraints.min_score) &&
+    // An unknown price can't be shown to stay under the cap
+    (maxReleasePrice === undefined || (wine.release_price !== null && wine.release_price <= maxReleasePrice));
+
+  const suggestions = new Map<string, ReplacementSuggestion>();
+
+  for (const wine of vintages.filter(accepts)) {
+    suggestions.set(wine.id, { wine, reason: vintageReason(original, wine), similarity_score: vintageSimilarity(original, wine) });
+  }
+
+  for (const wine of similar.filter(accepts)) {
+    if (suggestions.has(wine.id)) continue;
+
+    const match = styleSimilarity(original, wine);
+    if (match.score >= MIN_STYLE_SIMILARITY) {
+      suggestions.set(wine.id, { wine, reason: match.reason, similarity_score: match.score });
+    }
+  }
+
+  return [...suggestions.values()]
+    .sort((a, b) => b.similarity_score - a.similarity_score || b.wine.score - a.wine.score)
+    .slice(0, limit);
+}
+
+// The same wine in another vintage: closest vintages first
+function vintageSimilarity(original: WineWithReview, wine: WineWithReview): number {
+  if (original.vintage === null || wine.vintage === null) return 0.9;
+  const distance = Math.abs(wine.vintage - original.vintage);
+  return round(Math.max(0.95 - 0.03 * (distance - 1), 0.8));
+}
+
+function vintageReason(original: WineWithReview, wine: WineWithReview): string {
+  if (original.vintage !== null && wine.vintage === original.vintage + 1) return 'Same producer, next vintage';
+  if (original.vintage !== null && wine.vintage === original.vintage - 1) return 'Same producer, previous vintage';
+  return wine.vintage === null ? 'Same producer, non-vintage bottling' : `Same producer, ${wine.vintage} vintage`;
+}
+
+function styleSimilarity(original: WineWithReview, wine: WineWithReview): { score: number; reason: string } {
+  const grapes = grapeOverlap(original.grape_varieties, wine.grape_varieties);
+  const place = placeSimilarity(original, wine);
+  const scoreGap = Math.abs(wine.score - original.score);
+  const score = Math.max(1 - scoreGap / 10, 0);
+  const price =
+    original.release_price && wine.release_price
+      ? Math.max(1 - Math.abs(wine.release_price - original.release_price) / original.release_price, 0)
+      : 0.5;
+
+  const similarity =
+    STYLE_BASE +
+    STYLE_WEIGHTS.grapes * grapes +
+    STYLE_WEIGHTS.place * place.score +
+    STYLE_WEIGHTS.score * score +
+    STYLE_WEIGHTS.price * price;
+
+  const reasons: string[] = [];
+  if (place.label) reasons.push(place.label);
+  if (grapes >= 0.5) reasons.push(grapes === 1 ? 'same grapes' : 'similar grapes');
+  if (scoreGap <= 2) reasons.push(scoreGap === 0 ? 'same score' : 'similar score');
+  if (original.release_price && wine.release_price && wine.release_price < original.release_price) {
+    reasons.push('lower price');
+  }
+
+  return { score: round(similarity), reason: reasons.length ? `Similar style, ${joinReasons(reasons)}` : 'Similar style' };
+}
+
+// Weighted overlap of the blends: shared percentage when both list percentages, else the
+// share of grape names in common
+function grapeOverlap(a: GrapeVariety[], b: GrapeVariety[]): number {
+  if (!a.length || !b.length) return 0;
+
+  const byName = (grapes: GrapeVariety[]) => new Map(grapes.map(grape => [grape.name.trim().toLowerCase(), grape.percentage]));
+  const left = byName(a);
+  const right = byName(b);
+
+  const withPercentages = [...left.values(), ...right.values()].every(percentage => percentage !== null);
+  if (withPercentages) {
+    let shared = 0;
+    for (const [name, percentage] of left) {
+      shared += Math.min(percentage!, right.get(name) ?? 0);
+    }
+    return Math.min(shared / 100, 1);
+  }
+
+  const common = [...left.keys()].filter(name => right.has(name)).length;
+  return common / new Set([...left.keys(), ...right.keys()]).size;
+}
+
+function placeSimilarity(original: WineWithReview, wine: WineWithReview): { score: number; label: string | null } {
+  if (original.appellation && original.appellation === wine.appellation) return { score: 1, label: 'same appellation' };
+  if (original.sub_region && original.sub_region === wine.sub_region) return { score: 0.8, label: 'same sub-region' };
+  if (original.region === wine.region) return { score: 0.6, label: 'same region' };
+  if (original.country === wine.country) return { score: 0.2, label: null };
+  return { score: 0, label: null };
+}
+
+// "a", "a and b", "a, b and c"
+function joinReasons(reasons: string[]): string {
+  return reasons.length === 1 ? reasons[0] : `${reasons.slice(0, -1).join(', ')} and ${reasons[reasons.length - 1]}`;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
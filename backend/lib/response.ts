@@ -1,49 +1,44 @@
+import type { VercelResponse } from '@vercel/node';
 import type { ApiResponse } from '../types';
 
-export function success<T>(data: T, status = 200): Response {
+// The standard response envelope. Routes don't call these directly: they return data or throw
+// an ApiError, and the handler pipeline (lib/handler.ts) writes the envelope.
+
+export interface ResponseMeta {
+  requestId: string;
+  // Date.now() when the request entered the pipeline
+  startedAt: number;
+}
+
+export function sendSuccess<T>(res: VercelResponse, data: T, status: number, meta: ResponseMeta): void {
   const body: ApiResponse<T> = {
     success: true,
     data,
-    meta: {
-      request_id: generateRequestId(),
-      processing_time_ms: 0, // Would be calculated in middleware
-    },
+    meta: toMeta(meta),
   };
-
-  return new Response(JSON.stringify(body), {
-    status,
-    headers: { 'Content-Type': 'application/json' },
-  });
+  res.status(status).json(body);
 }
 
-export function error(code: string, message: string, status = 400, details?: unknown): Response {
+export function sendError(
+  res: VercelResponse,
+  { code, message, status, details }: { code: string; message: string; status: number; details?: unknown },
+  meta: ResponseMeta
+): void {
   const body: ApiResponse<never> = {
     success: false,
     error: { code, message, details },
-    meta: {
-      request_id: generateRequestId(),
-      processing_time_ms: 0,
-    },
+    meta: toMeta(meta),
   };
-
-  return new Response(JSON.stringify(body), {
-    status,
-    headers: { 'Content-Type': 'application/json' },
-  });
-}
-
-export function notFound(message = 'Resource not found'): Response {
-  return error('NOT_FOUND', message, 404);
-}
-
-export function badRequest(message: string, details?: unknown): Response {
-  return error('VALIDATION_ERROR', message, 400, details);
+  res.status(status).json(body);
 }
 
-export function serverError(message = 'Internal server error'): Response {
-  return error('SERVER_ERROR', message, 500);
+export function generateRequestId(): string {
+  return `req_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 9)}`;
 }
 
-function generateRequestId(): string {
-  return `req_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 9)}`;
+function toMeta({ requestId, startedAt }: ResponseMeta): NonNullable<ApiResponse<unknown>['meta']> {
+  return {
+    request_id: requestId,
+    processing_time_ms: Date.now() - startedAt,
+  };
 }
@@ -0,0 +1,104 @@
+import type { HeadlineReviewRule, Review, ReviewHistory, ReviewerSummary, WineReview, WineWithReview } from '../types';
+
+// A wine can have several reviews (re-tastings, other critics). One of them is its headline
+// review: the one whose score and note the wine carries in search results, lists and the
+// index. The rest show up in the review history and the reviews route.
+
+// The SQL that flattens a wine (search_wines_fts, saved_wine_details) orders the same way
+export const DEFAULT_HEADLINE_RULE: HeadlineReviewRule = 'latest';
+
+const REVIEW_SELECT =
+  'id, wine_id, score, tasting_note, reviewer_initials, reviewer_name, review_date, issue_date, drink_window_start, drink_window_end, release_price, release_price_currency, wines!inner (vintage, producer, name)';
+
+type RankedReview = Pick<Review, 'score' | 'review_date'>;
+
+// Imported lazily: the catalog picks headline reviews without Supabase in local development
+async function db() {
+  return (await import('./supabase')).supabaseAdmin;
+}
+
+// latest: newest review first, the higher score breaking ties; highest: the reverse
+export function compareReviews(rule: HeadlineReviewRule): (a: RankedReview, b: RankedReview) => number {
+  const byDate = (a: RankedReview, b: RankedReview) => b.review_date.localeCompare(a.review_date);
+  const byScore = (a: RankedReview, b: RankedReview) => b.score - a.score;
+  return rule === 'highest' ? (a, b) => byScore(a, b) || byDate(a, b) : (a, b) => byDate(a, b) || byScore(a, b);
+}
+
+export function pickHeadlineReview<T extends RankedReview>(
+  reviews: T[],
+  rule: HeadlineReviewRule = DEFAULT_HEADLINE_RULE
+): T | undefined {
+  return [...reviews].sort(compareReviews(rule))[0];
+}
+
+export function summarizeReviews(
+  reviews: Pick<Review, 'score' | 'review_date' | 'reviewer_initials' | 'reviewer_name'>[]
+): ReviewHistory {
+  const tastings = [...reviews].sort((a, b) => a.review_date.localeCompare(b.review_date));
+  const scores = reviews.map(review => review.score);
+
+  const reviewers = new Map<string, ReviewerSummary>();
+  for (const review of tastings) {
+    const reviewer = reviewers.get(review.reviewer_initials);
+    if (reviewer) {
+      reviewer.reviews++;
+      reviewer.reviewer_name = review.reviewer_name ?? reviewer.reviewer_name;
+    } else {
+      reviewers.set(review.reviewer_initials, {
+        reviewer_initials: review.reviewer_initials,
+        reviewer_name: review.reviewer_name,
+        reviews: 1,
+      });
+    }
+  }
+
+  return {
+    review_count: reviews.length,
+    score_min: scores.length ? Math.min(...scores) : null,
+    score_max: scores.length ? Math.max(...scores) : null,
+    score_average: scores.length ? Math.round((scores.reduce((sum, score) => sum + score, 0) / scores.length) * 10) / 10 : null,
+    first_review_date: tastings[0]?.review_date ?? null,
+    latest_review_date: tastings[tastings.length - 1]?.review_date ?? null,
+    reviewers: [...reviewers.values()].sort((a, b) => b.reviews - a.reviews),
+    tastings: tastings.map(({ review_date, score, reviewer_initials }) => ({ review_date, score, reviewer_initials })),
+  };
+}
+
+interface ReviewRow extends Omit<WineReview, 'vintage' | 'release_price'> {
+  // DECIMAL columns can arrive as strings
+  release_price: number | string | null;
+  wines: Pick<WineWithReview, 'vintage' | 'producer' | 'name'>;
+}
+
+// A wine's reviews a page at a time, optionally with those of its other vintages
+// (same producer and name)
+export async function listWineReviews(
+  wine: Pick<WineWithReview, 'id' | 'producer' | 'name'>,
+  options: { include_other_vintages: boolean; sort: HeadlineReviewRule; limit: number; offset: number }
+): Promise<{ reviews: WineReview[]; total: number }> {
+  const supabaseAdmin = await db();
+  let query = supabaseAdmin.from('reviews').select(REVIEW_SELECT, { count: 'exact' });
+  query = options.include_other_vintages
+    ? query.eq('wines.producer', wine.producer).eq('wines.name', wine.name)
+    : query.eq('wine_id', wine.id);
+
+  const [first, second] = options.sort === 'highest' ? ['score', 'review_date'] : ['review_date', 'score'];
+  const { data, error, count } = await query
+    .order(first, { ascending: false })
+    .order(second, { ascending: false })
+    .order('id')
+    .range(options.offset, options.offset + options.limit - 1);
+
+  if (error) {
+    throw new Error(`Failed to list reviews: ${error.message}`);
+  }
+
+  return {
+    reviews: ((data ?? []) as unknown as ReviewRow[]).map(({ wines, release_price, ...review }) => ({
+      ...review,
+      vintage: wines.vintage,
+      release_price: release_price === null ? null : Number(release_price),
+    })),
+    total: count ?? 0,
+  };
+}
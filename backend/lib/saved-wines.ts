@@ -0,0 +1,147 @@
+import type { z } from 'zod';
+import type { SavedWineEntry } from '../types';
+import { SAVED_WINE_SORTS, type ListSavedWinesQuery, type saveContextSchema } from './schemas/saved-wines';
+import { supabaseAdmin } from './supabase';
+
+// Cellar journal queries over the saved_wine_details view (saved_wines joined with the
+// wine and its latest review)
+
+interface SavedWineRow {
+  id: string;
+  user_id: string;
+  wine_id: string;
+  notes: string | null;
+  restaurant: string | null;
+  price_paid: number | string | null;
+  date_consumed: string | null;
+  personal_rating: number | null;
+  created_at: string;
+  producer: string;
+  name: string;
+  vintage: number | null;
+  region: string;
+  sub_region: string | null;
+  appellation: string | null;
+  country: string;
+  color: SavedWineEntry['wine']['color'];
+  grape_varieties: SavedWineEntry['wine']['grape_varieties'] | null;
+  alcohol: number | null;
+  label_url: string | null;
+  top100_rank: number | null;
+  top100_year: number | null;
+  score: number;
+  tasting_note: string;
+  reviewer_initials: string;
+  reviewer_name: string | null;
+  review_date: string;
+  drink_window_start: number | null;
+  drink_window_end: number | null;
+  release_price: number | string | null;
+}
+
+export async function listSavedWines(
+  userId: string,
+  query: ListSavedWinesQuery
+): Promise<{ wines: SavedWineEntry[]; total: number }> {
+  let request = supabaseAdmin
+    .from('saved_wine_details')
+    .select('*', { count: 'exact' })
+    .eq('user_id', userId);
+
+  if (query.restaurant) request = request.ilike('restaurant', `%${escapeLike(query.restaurant)}%`);
+  if (query.rating) request = request.eq('personal_rating', query.rating);
+  if (query.min_rating) request = request.gte('personal_rating', query.min_rating);
+  if (query.date_from) request = request.gte('date_consumed', query.date_from);
+  if (query.date_to) request = request.lte('date_consumed', query.date_to);
+
+  const { data, error, count } = await request
+    .order(SAVED_WINE_SORTS[query.sort], { ascending: query.order === 'asc', nullsFirst: false })
+    // Stable pages when the sort column ties
+    .order('id')
+    .range(query.offset, query.offset + query.limit - 1);
+
+  if (error) {
+    throw new Error(`Failed to list saved wines: ${error.message}`);
+  }
+
+  return {
+    wines: ((data ?? []) as SavedWineRow[]).map(toSavedWineEntry),
+    total: count ?? 0,
+  };
+}
+
+export async function getSavedWine(userId: string, savedId: string): Promise<SavedWineEntry | null> {
+  const { data, error } = await supabaseAdmin
+    .from('saved_wine_details')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('id', savedId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch saved wine: ${error.message}`);
+  }
+
+  return data ? toSavedWineEntry(data as SavedWineRow) : null;
+}
+
+// Maps the API's context object onto saved_wines columns; only keys present are written,
+// so an update can change one field and null clears it
+export function contextToColumns(context: z.infer<typeof saveContextSchema> | null | undefined) {
+  const columns: Record<string, string | number | null> = {};
+  if (!context) return columns;
+
+  if (context.restaurant !== undefined) columns.restaurant = context.restaurant || null;
+  if (context.price_paid !== undefined) columns.price_paid = context.price_paid;
+  if (context.date !== undefined) columns.date_consumed = context.date;
+  if (context.rating !== undefined) columns.personal_rating = context.rating;
+
+  return columns;
+}
+
+function toSavedWineEntry(row: SavedWineRow): SavedWineEntry {
+  return {
+    id: row.id,
+    wine: {
+      id: row.wine_id,
+      producer: row.producer,
+      name: row.name,
+      vintage: row.vintage,
+      region: row.region,
+      sub_region: row.sub_region,
+      appellation: row.appellation,
+      country: row.country,
+      color: row.color,
+      grape_varieties: row.grape_varieties ?? [],
+      alcohol: row.alcohol,
+      label_url: row.label_url || null,
+      top100_rank: row.top100_rank || null,
+      top100_year: row.top100_year || null,
+      score: row.score,
+      tasting_note: row.tasting_note,
+      reviewer_initials: row.reviewer_initials,
+      reviewer_name: row.reviewer_name,
+      review_date: row.review_date,
+      drink_window_start: row.drink_window_start,
+      drink_window_end: row.drink_window_end,
+      release_price: toNumber(row.release_price),
+    },
+    added_at: row.created_at,
+    notes: row.notes,
+    context: {
+      restaurant: row.restaurant,
+      price_paid: toNumber(row.price_paid),
+      date: row.date_consumed,
+      rating: row.personal_rating,
+    },
+  };
+}
+
+// DECIMAL columns can come back as strings
+function toNumber(value: number | string | null): number | null {
+  return value === null ? null : Number(value);
+}
+
+function escapeLike(value: string): string {
+  return value.replace(/[%_\\]/g, match => `\\${match}`);
+}
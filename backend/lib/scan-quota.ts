@@ -0,0 +1,135 @@
+import type { VercelRequest } from '@vercel/node';
+import type { ScanUsage, SubscriptionStatus, SubscriptionTier } from '../types';
+import { actsForActiveBusinessAccount } from './business-accounts';
+import { SubscriptionRequiredError, UnauthorizedError } from './errors';
+import { resolveCaller } from './identity';
+
+// Monthly wine list scan quota for free accounts, kept in users.scans_this_month /
+// scans_month_start. One batch match (or matched list parse) is one scan. Only signed-in
+// users are metered: API keys and anonymous callers are bounded by rate limiting instead, and
+// members scanning for an active business account (X-Business-Account) use its plan.
+
+const DEFAULT_FREE_SCANS_PER_MONTH = 20;
+
+const UPGRADE_TIERS: SubscriptionTier[] = ['premium', 'business'];
+
+export function freeScansPerMonth(): number {
+  const configured = Number(process.env.FREE_SCANS_PER_MONTH);
+  return Number.isInteger(configured) && configured >= 0 ? configured : DEFAULT_FREE_SCANS_PER_MONTH;
+}
+
+// A consumed scan; released when the request couldn't be served (search unavailable or the
+// match failed). Releasing twice is a no-op.
+export interface ScanReservation {
+  release(): Promise<void>;
+}
+
+interface ConsumeScanRow {
+  allowed: boolean;
+  scans_used: number;
+  period_start: string;
+  exempt: boolean;
+}
+
+// Counts one scan for the signed-in caller, or throws SubscriptionRequiredError (402) with
+// the quota in details once the free allowance for the month is used up. Returns null for
+// callers that aren't metered.
+export async function consumeScan(req: VercelRequest): Promise<ScanReservation | null> {
+  const caller = await resolveCaller(req);
+  if (caller.type !== 'user' || (await actsForActiveBusinessAccount(req))) {
+    return null;
+  }
+
+  const { supabaseAdmin } = await import('./supabase');
+  const limit = freeScansPerMonth();
+  const { data, error } = await supabaseAdmin.rpc('consume_scan', { p_user_id: caller.id, p_limit: limit });
+  if (error) {
+    throw new Error(`Failed to consume scan: ${error.message}`);
+  }
+
+  const row = (data as ConsumeScanRow[] | null)?.[0];
+  if (!row) {
+    throw new UnauthorizedError('Account not found');
+  }
+
+  if (!row.allowed) {
+    throw new SubscriptionRequiredError('Monthly scan limit reached', {
+      limit,
+      used: row.scans_used,
+      remaining: 0,
+      period_start: row.period_start,
+      resets_at: nextPeriodStart(row.period_start),
+      upgrade_tiers: UPGRADE_TIERS,
+    });
+  }
+
+  let released = false;
+  return {
+    release: async () => {
+      if (released) return;
+      released = true;
+      const { error: releaseError } = await supabaseAdmin.rpc('release_scan', {
+        p_user_id: caller.id,
+        p_period_start: row.period_start,
+      });
+      if (releaseError) {
+        console.error('Failed to release scan:', releaseError);
+      }
+    },
+  };
+}
+
+// Usage for the current month without consuming a scan. A counter left over from an
+// earlier month reads as zero, as consume_scan would roll it over.
+export async function getScanUsage(userId: string): Promise<ScanUsage | null> {
+  const { supabaseAdmin } = await import('./supabase');
+  const { data, error } = await supabaseAdmin
+    .from('users')
+    .select('subscription_tier, subscription_status, scans_this_month, scans_month_start')
+    .eq('id', userId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load scan usage: ${error.message}`);
+  }
+  if (!data) {
+    return null;
+  }
+
+  const user = data as {
+    subscription_tier: SubscriptionTier;
+    subscription_status: SubscriptionStatus;
+    scans_this_month: number | null;
+    scans_month_start: string | null;
+  };
+
+  const periodStart = currentPeriodStart();
+  const used = user.scans_month_start && user.scans_month_start >= periodStart ? user.scans_this_month ?? 0 : 0;
+  const unlimited = isExempt(user.subscription_tier, user.subscription_status);
+  const limit = freeScansPerMonth();
+
+  return {
+    tier: user.subscription_tier,
+    unlimited,
+    used,
+    limit: unlimited ? null : limit,
+    remaining: unlimited ? null : Math.max(limit - used, 0),
+    period_start: periodStart,
+    resets_at: nextPeriodStart(periodStart),
+  };
+}
+
+// Mirrors the exemption in consume_scan
+function isExempt(tier: SubscriptionTier, status: SubscriptionStatus): boolean {
+  return UPGRADE_TIERS.includes(tier) && status === 'active';
+}
+
+// First day of the current month (UTC) as YYYY-MM-DD
+function currentPeriodStart(now = new Date()): string {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)).toISOString().slice(0, 10);
+}
+
+function nextPeriodStart(periodStart: string): string {
+  const [year, month] = periodStart.split('-').map(Number);
+  return new Date(Date.UTC(year, month, 1)).toISOString();
+}
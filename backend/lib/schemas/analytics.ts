@@ -0,0 +1,111 @@
+import { z } from 'zod';
+import type { FilterUsage, LatencyPercentiles, ScanEventType, ScanGroupReport, ScanReport, ScanReportDimension, ScanStats } from '../../types';
+
+// Scan analytics: POST /analytics/scans from the apps, and the internal report under /admin/analytics
+
+export const SCAN_EVENT_TYPES = ['scan_completed'] as const satisfies readonly ScanEventType[];
+export const SCAN_REPORT_DIMENSIONS = ['app_version', 'device_model', 'platform'] as const satisfies readonly ScanReportDimension[];
+
+export const MAX_SCAN_EVENTS_PER_BATCH = 100;
+
+// Free-form device fields, trimmed so rollups group cleanly
+const label = (max: number) => z.string().trim().min(1).max(max);
+
+export const scanEventSchema = z.object({
+  event_id: z.string().uuid().describe('Generated on the device; an event sent again with the same ID is stored once'),
+  event_type: z.enum(SCAN_EVENT_TYPES),
+  timestamp: z.string().datetime({ offset: true }).describe('When the scan happened'),
+  data: z
+    .object({
+      wines_detected: z.number().int().min(0).max(10_000),
+      wines_matched: z.number().int().min(0).max(10_000),
+      match_rate: z.number().min(0).max(1).optional().describe('Accepted for compatibility; recomputed from the counts'),
+      processing_time_ms: z.number().int().min(0).max(600_000),
+      filters_used: z.array(label(50).toLowerCase()).max(20).default([]),
+      platform: z.enum(['ios', 'android']).optional(),
+      app_version: label(50).optional(),
+      os_version: label(50).optional(),
+      ios_version: label(50).optional().describe('Older iOS builds; read as os_version with platform ios'),
+      device_model: label(100).optional(),
+    })
+    .refine(data => data.wines_matched <= data.wines_detected, {
+      message: 'Cannot exceed wines_detected',
+      path: ['wines_matched'],
+    }),
+});
+
+// One event as in the spec, or { events: [...] } to send what the app queued while offline
+export const scanEventsRequestSchema = z
+  .preprocess(
+    body => (body && typeof body === 'object' && 'events' in body ? body : { events: [body] }),
+    z.object({
+      events: z.array(scanEventSchema).min(1).max(MAX_SCAN_EVENTS_PER_BATCH),
+    })
+  )
+  .describe('A batch of events, or a single event object as the whole body');
+
+export const scanEventsResponseSchema = z.object({
+  accepted: z.number().int().describe('Events stored'),
+  duplicates: z.number().int().describe('Events already received (same event_id)'),
+  rejected: z.number().int().describe('Events dropped for a timestamp too old or in the future; do not resend them'),
+});
+
+export const scanReportQuerySchema = z.object({
+  from: z.string().date().optional().describe('First UTC day (default: 29 days before to)'),
+  to: z.string().date().optional().describe('Last UTC day (default: today)'),
+  group_by: z.enum(SCAN_REPORT_DIMENSIONS).default('app_version'),
+  platform: label(20).optional(),
+  app_version: label(50).optional(),
+  limit: z.coerce.number().int().min(1).max(50).default(10).describe('Groups and filters returned, by scans'),
+});
+
+const latencyPercentilesSchema = z.object({
+  p50: z.number().int(),
+  p90: z.number().int(),
+  p99: z.number().int(),
+}) satisfies z.ZodType<LatencyPercentiles>;
+
+const scanStatsShape = {
+  scans: z.number().int(),
+  wines_detected: z.number().int(),
+  wines_matched: z.number().int(),
+  match_rate: z.number().nullable(),
+  latency_ms: latencyPercentilesSchema.nullable().describe('Processing time percentiles, estimated from histograms'),
+};
+
+export const scanStatsSchema = z.object(scanStatsShape) satisfies z.ZodType<ScanStats>;
+
+const scanTrendPointSchema = z.object({ day: z.string().date(), ...scanStatsShape });
+
+const scanGroupReportSchema = z.object({
+  key: z.string(),
+  ...scanStatsShape,
+  trend: z.array(scanTrendPointSchema),
+}) satisfies z.ZodType<ScanGroupReport>;
+
+const filterUsageSchema = z.object({
+  filter: z.string(),
+  scans: z.number().int(),
+  share: z.number(),
+  trend: z.array(z.object({ day: z.string().date(), scans: z.number().int(), share: z.number() })),
+}) satisfies z.ZodType<FilterUsage>;
+
+export const scanReportSchema = z.object({
+  from: z.string().date(),
+  to: z.string().date(),
+  group_by: z.enum(SCAN_REPORT_DIMENSIONS),
+  summary: scanStatsSchema,
+  trend: z.array(scanTrendPointSchema).describe('One point per day with scans'),
+  groups: z.array(scanGroupReportSchema),
+  filters: z.array(filterUsageSchema),
+}) satisfies z.ZodType<ScanReport>;
+
+export const rollupQuerySchema = z.object({
+  days: z.coerce.number().int().min(1).max(400).optional().describe('UTC days to rebuild, ending today'),
+});
+
+export const rollupResponseSchema = z.object({
+  from: z.string().date(),
+  to: z.string().date(),
+  events: z.number().int(),
+});
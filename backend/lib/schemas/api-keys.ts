@@ -0,0 +1,74 @@
+import { z } from 'zod';
+import type { ApiKey, ApiKeyScope } from '../../types';
+import { booleanQuerySchema } from './common';
+
+// Admin management of publishable API keys
+
+export const API_KEY_SCOPES = ['search', 'batch-match', 'business'] as const satisfies readonly ApiKeyScope[];
+
+const DEFAULT_GRACE_PERIOD_SECONDS = 24 * 60 * 60;
+const MAX_GRACE_PERIOD_SECONDS = 30 * 24 * 60 * 60;
+
+const tierSchema = z.enum(['free', 'premium', 'business']);
+
+export const issueApiKeyRequestSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  environment: z.enum(['live', 'test']).default('live'),
+  scopes: z.array(z.enum(API_KEY_SCOPES)).min(1),
+  tier: tierSchema.default('free').describe('Rate limit tier the key is charged at'),
+  owner_id: z.string().uuid().nullish(),
+  owner_name: z.string().trim().max(200).nullish(),
+  account_id: z
+    .string()
+    .uuid()
+    .nullish()
+    .describe('Business account the key acts for; required for the business scope to reach /business routes'),
+});
+
+export const listApiKeysQuerySchema = z.object({
+  owner_id: z.string().uuid().optional(),
+  account_id: z.string().uuid().optional(),
+  include_revoked: booleanQuerySchema.optional(),
+});
+
+export const rotateApiKeyRequestSchema = z
+  .object({
+    grace_period_seconds: z
+      .number()
+      .int()
+      .min(0)
+      .max(MAX_GRACE_PERIOD_SECONDS)
+      .default(DEFAULT_GRACE_PERIOD_SECONDS)
+      .describe('How long the old key keeps working; 0 revokes it immediately'),
+  })
+  .default({});
+
+export const apiKeySchema = z.object({
+  id: z.string().uuid(),
+  name: z.string(),
+  prefix: z.string().describe('First characters of the key, safe to display'),
+  environment: z.enum(['live', 'test']),
+  scopes: z.array(z.enum(API_KEY_SCOPES)),
+  tier: tierSchema,
+  owner_id: z.string().uuid().nullable(),
+  owner_name: z.string().nullable(),
+  account_id: z.string().uuid().nullable(),
+  last_used_at: z.string().datetime({ offset: true }).nullable(),
+  expires_at: z.string().datetime({ offset: true }).nullable(),
+  revoked_at: z.string().datetime({ offset: true }).nullable(),
+  rotated_from: z.string().uuid().nullable(),
+  created_at: z.string().datetime({ offset: true }),
+}) satisfies z.ZodType<ApiKey>;
+
+export const apiKeyListResponseSchema = z.object({
+  api_keys: z.array(apiKeySchema),
+});
+
+export const apiKeyResponseSchema = z.object({
+  api_key: apiKeySchema,
+});
+
+export const issuedApiKeyResponseSchema = z.object({
+  key: z.string().describe('The plaintext key; only ever returned once'),
+  api_key: apiKeySchema,
+});
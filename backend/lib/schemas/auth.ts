@@ -0,0 +1,66 @@
+import { z } from 'zod';
+import { authTokensSchema, userSchema } from './common';
+
+// Register, login, token refresh, logout and Sign in with Apple
+
+export const registerRequestSchema = z.object({
+  email: z.string().trim().toLowerCase().email(),
+  password: z.string().min(8, 'Password must be at least 8 characters').max(128),
+  first_name: z.string().trim().max(100).nullish(),
+  last_name: z.string().trim().max(100).nullish(),
+  marketing_consent: z.boolean().optional(),
+});
+
+export const loginRequestSchema = z.object({
+  email: z.string().trim().toLowerCase().email(),
+  password: z.string().min(1).max(128),
+});
+
+export const refreshRequestSchema = z.object({
+  refresh_token: z.string().min(1),
+});
+
+// Ends the session of the given refresh token, or every session of the signed-in user
+export const logoutRequestSchema = z.union(
+  [
+    z.object({ refresh_token: z.string().min(1), all_sessions: z.literal(false).optional() }),
+    z.object({ all_sessions: z.literal(true) }),
+  ],
+  { errorMap: () => ({ message: 'Provide a refresh_token, or all_sessions: true' }) }
+);
+
+// Apple only sends the user's name (and the email in the request body) on the very first
+// authorization, so whatever arrives is stored then; later sign-ins rely on the token's sub.
+export const appleSignInRequestSchema = z.object({
+  identity_token: z.string().min(1),
+  authorization_code: z.string().optional(),
+  nonce: z
+    .string()
+    .min(1)
+    .optional()
+    .describe('Raw nonce, or its SHA-256, that was passed to Apple; required when the identity token carries one'),
+  user: z
+    .object({
+      email: z.string().email().nullish().describe('Unverified; only used when the identity token has no email'),
+      name: z
+        .object({
+          firstName: z.string().trim().max(100).nullish(),
+          lastName: z.string().trim().max(100).nullish(),
+        })
+        .nullish(),
+    })
+    .nullish(),
+});
+
+export const sessionResponseSchema = z.object({
+  user: userSchema,
+  tokens: authTokensSchema,
+});
+
+export const appleSignInResponseSchema = sessionResponseSchema.extend({
+  is_new_user: z.boolean(),
+});
+
+export const logoutResponseSchema = z.object({
+  logged_out: z.literal(true),
+});
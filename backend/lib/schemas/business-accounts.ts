@@ -0,0 +1,109 @@
+import { z } from 'zod';
+import type { BusinessAccount, BusinessAccountMember, BusinessPlan, BusinessRole } from '../../types';
+
+// Business accounts: admin management under /admin/business-accounts, and the members'
+// own view under /business/account (scoped by X-Business-Account)
+
+export const BUSINESS_PLANS = ['pro', 'enterprise'] as const satisfies readonly BusinessPlan[];
+export const BUSINESS_ROLES = ['owner', 'manager', 'staff'] as const satisfies readonly BusinessRole[];
+
+const subscriptionStatusSchema = z.enum(['active', 'expired', 'cancelled', 'pending']);
+const limitOverrideSchema = z.number().int().positive().nullish();
+
+export const createBusinessAccountRequestSchema = z.object({
+  name: z.string().trim().min(1).max(200),
+  plan: z.enum(BUSINESS_PLANS).default('pro'),
+  owner_id: z.string().uuid().describe('Existing user who becomes the first owner'),
+  seat_limit: limitOverrideSchema.describe("Overrides the plan's seats; null uses the plan's"),
+  requests_per_minute: limitOverrideSchema,
+  requests_per_day: limitOverrideSchema,
+  subscription_status: subscriptionStatusSchema.default('active'),
+  subscription_expires_at: z.string().datetime({ offset: true }).nullish(),
+});
+
+export const updateBusinessAccountRequestSchema = z.object({
+  name: z.string().trim().min(1).max(200).optional(),
+  plan: z.enum(BUSINESS_PLANS).optional(),
+  seat_limit: limitOverrideSchema.describe("Overrides the plan's seats; null goes back to the plan's"),
+  requests_per_minute: limitOverrideSchema,
+  requests_per_day: limitOverrideSchema,
+  subscription_status: subscriptionStatusSchema.optional(),
+  subscription_expires_at: z.string().datetime({ offset: true }).nullish(),
+});
+
+export const businessAccountSchema = z.object({
+  id: z.string().uuid().describe('Sent as X-Business-Account'),
+  name: z.string(),
+  plan: z.enum(BUSINESS_PLANS),
+  subscription_status: subscriptionStatusSchema,
+  subscription_expires_at: z.string().datetime({ offset: true }).nullable(),
+  limits: z
+    .object({
+      seats: z.number().int(),
+      requests_per_minute: z.number().int(),
+      requests_per_day: z.number().int(),
+    })
+    .describe("The account's own limits where set, else its plan's"),
+  created_at: z.string().datetime({ offset: true }),
+}) satisfies z.ZodType<BusinessAccount>;
+
+export const businessAccountResponseSchema = z.object({
+  account: businessAccountSchema,
+});
+
+export const businessAccountListResponseSchema = z.object({
+  accounts: z.array(businessAccountSchema),
+});
+
+// GET /business/account: the account the request acts for
+export const currentBusinessAccountResponseSchema = z.object({
+  account: businessAccountSchema,
+  role: z.enum(BUSINESS_ROLES).describe("The caller's role; API keys act as staff"),
+  seats_used: z.number().int(),
+});
+
+export const membershipListResponseSchema = z.object({
+  accounts: z.array(
+    z.object({
+      account: businessAccountSchema,
+      role: z.enum(BUSINESS_ROLES),
+    })
+  ),
+});
+
+export const businessAccountMemberSchema = z.object({
+  user_id: z.string().uuid(),
+  email: z.string(),
+  first_name: z.string().nullable(),
+  last_name: z.string().nullable(),
+  role: z.enum(BUSINESS_ROLES),
+  added_at: z.string().datetime({ offset: true }),
+}) satisfies z.ZodType<BusinessAccountMember>;
+
+export const memberListResponseSchema = z.object({
+  members: z.array(businessAccountMemberSchema),
+});
+
+export const memberResponseSchema = z.object({
+  member: businessAccountMemberSchema,
+});
+
+export const memberRemovedResponseSchema = z.object({
+  user_id: z.string().uuid(),
+  removed: z.literal(true),
+});
+
+export const addMemberRequestSchema = z.object({
+  email: z.string().trim().toLowerCase().email().describe('Must belong to an existing user'),
+  role: z.enum(BUSINESS_ROLES).default('staff').describe('Managers can only add staff'),
+});
+
+export const updateMemberRequestSchema = z.object({
+  role: z.enum(BUSINESS_ROLES),
+});
+
+// details of the 402 SUBSCRIPTION_REQUIRED error when every seat is taken
+export const seatLimitExceededSchema = z.object({
+  seats: z.number().int(),
+  seats_used: z.number().int(),
+});
@@ -0,0 +1,142 @@
+import { z } from 'zod';
+import type { AnalyzedListWine, AnalyzedWineRef, ListAnalysis, ReplacementSuggestion, WineDetail } from '../../types';
+import { uuidSchema, wineWithReviewSchema } from './common';
+
+// Business (B2B) wine list analysis
+
+export const MAX_ANALYZED_LIST_WINES = 1000;
+
+export const DEFAULT_MARKUP_RANGE: [number, number] = [2.5, 3.5];
+
+export const analyzeListRequestSchema = z.object({
+  wines: z
+    .array(
+      z.object({
+        text: z.string().trim().min(1).max(500),
+        list_price: z.number().positive().max(1_000_000).nullish().describe('Bottle price on the list'),
+        section: z.string().trim().max(100).optional().describe('List section header, used as a search hint'),
+      })
+    )
+    .min(1)
+    .max(MAX_ANALYZED_LIST_WINES),
+  restaurant_name: z.string().trim().min(1).max(200).nullish(),
+  options: z
+    .object({
+      include_markup_analysis: z.boolean().default(true),
+      markup_range: z
+        .tuple([z.number().positive(), z.number().positive()])
+        .refine(([low, high]) => low <= high, 'markup_range must be [low, high]')
+        .default(DEFAULT_MARKUP_RANGE)
+        .describe('Acceptable list price / release price ratios'),
+      include_drink_window_alerts: z.boolean().default(true),
+      confidence_threshold: z.number().min(0).max(1).optional(),
+    })
+    .default({}),
+});
+
+export const analyzedWineRefSchema = z.object({
+  id: uuidSchema,
+  producer: z.string(),
+  name: z.string(),
+  vintage: z.number().int().nullable(),
+  score: z.number().int(),
+}) satisfies z.ZodType<AnalyzedWineRef>;
+
+export const analyzedListWineSchema = z.object({
+  line: z.number().int(),
+  original_text: z.string(),
+  matched_wine: analyzedWineRefSchema.nullable(),
+  confidence: z.number(),
+  list_price: z.number().nullable(),
+  release_price: z.number().nullable(),
+  markup_ratio: z.number().nullable(),
+  markup_status: z.enum(['below_range', 'in_range', 'above_range']).nullable(),
+  drink_window_start: z.number().int().nullable(),
+  drink_window_end: z.number().int().nullable(),
+  drink_window_status: z.enum(['too_young', 'ready', 'drink_soon', 'past_window', 'unknown']),
+  value_score: z.number().nullable().describe('0-10: critic score weighed against markup'),
+}) satisfies z.ZodType<AnalyzedListWine>;
+
+export const listAnalysisSchema = z.object({
+  analysis_id: uuidSchema,
+  restaurant_name: z.string().nullable(),
+  options: z.object({
+    include_markup_analysis: z.boolean(),
+    markup_range: z.tuple([z.number(), z.number()]),
+    include_drink_window_alerts: z.boolean(),
+  }),
+  summary: z.object({
+    total_wines: z.number().int(),
+    matched_wines: z.number().int(),
+    match_rate: z.number(),
+    average_score: z.number().nullable(),
+    average_markup_ratio: z.number().nullable(),
+    score_distribution: z.object({
+      '95-100': z.number().int(),
+      '90-94': z.number().int(),
+      '85-89': z.number().int(),
+      '80-84': z.number().int(),
+      below_80: z.number().int(),
+    }),
+  }),
+  alerts: z.object({
+    past_drink_window: z.array(
+      z.object({
+        line: z.number().int(),
+        wine: analyzedWineRefSchema,
+        drink_window_end: z.number().int(),
+        severity: z.enum(['low', 'medium', 'high']),
+      })
+    ),
+    markup_outliers: z.array(
+      z.object({
+        line: z.number().int(),
+        wine: analyzedWineRefSchema,
+        list_price: z.number(),
+        release_price: z.number(),
+        markup_ratio: z.number(),
+        status: z.enum(['below_range', 'above_range']),
+        suggested_range: z.tuple([z.number(), z.number()]),
+      })
+    ),
+  }),
+  wines: z.array(analyzedListWineSchema),
+  created_at: z.string().datetime({ offset: true }),
+}) satisfies z.ZodType<ListAnalysis>;
+
+// Replacement suggestions
+
+export const MAX_REPLACEMENT_SUGGESTIONS = 20;
+
+export const replacementsRequestSchema = z.object({
+  wine_id: uuidSchema,
+  constraints: z
+    .object({
+      max_price_increase: z
+        .number()
+        .min(0)
+        .max(10)
+        .optional()
+        .describe('Largest release price increase as a fraction (0.1 = up to 10% more); excludes wines without a price. Rejected (400) when the wine itself has no release price'),
+      same_region: z.boolean().default(false),
+      min_score: z.number().int().min(50).max(100).optional(),
+    })
+    .default({}),
+  limit: z.number().int().min(1).max(MAX_REPLACEMENT_SUGGESTIONS).default(5),
+});
+
+const wineDetailSchema = wineWithReviewSchema.extend({
+  issue_date: z.string().nullable(),
+  release_price_currency: z.string(),
+}) satisfies z.ZodType<WineDetail>;
+
+export const replacementsResponseSchema = z.object({
+  original_wine: wineDetailSchema,
+  suggestions: z.array(
+    z.object({
+      wine: wineDetailSchema,
+      reason: z.string().describe('e.g. "Same producer, next vintage"'),
+      similarity_score: z.number().min(0).max(1),
+    }) satisfies z.ZodType<ReplacementSuggestion>
+  ),
+});
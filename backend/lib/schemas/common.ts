@@ -0,0 +1,88 @@
+import { z } from 'zod';
+import type { AuthTokens, GrapeVariety, MatchBreakdown, User, WineColor, WineWithReview } from '../../types';
+
+// Schemas shared across routes. Response schemas are checked against the types in types/index.ts
+// with `satisfies`, so the OpenAPI document can't drift from what handlers actually return.
+
+export const WINE_COLORS = ['red', 'white', 'rose', 'sparkling', 'dessert', 'fortified'] as const satisfies readonly WineColor[];
+
+export const wineColorSchema = z.enum(WINE_COLORS);
+
+export const uuidSchema = z.string().uuid();
+
+// Query strings only carry strings; accept the usual spellings of a flag
+export const booleanQuerySchema = z
+  .enum(['true', 'false', '1', '0'])
+  .transform(value => value === 'true' || value === '1');
+
+export const grapeVarietySchema = z.object({
+  name: z.string(),
+  percentage: z.number().nullable(),
+}) satisfies z.ZodType<GrapeVariety>;
+
+export const wineWithReviewSchema = z
+  .object({
+    id: uuidSchema,
+    producer: z.string(),
+    name: z.string(),
+    vintage: z.number().int().nullable().describe('Null for non-vintage wines'),
+    region: z.string(),
+    sub_region: z.string().nullable(),
+    appellation: z.string().nullable(),
+    country: z.string(),
+    color: wineColorSchema,
+    grape_varieties: z.array(grapeVarietySchema),
+    alcohol: z.number().nullable(),
+    label_url: z.string().nullable(),
+    top100_rank: z.number().int().nullable(),
+    top100_year: z.number().int().nullable(),
+    score: z.number().int().describe('Critic score, 50-100'),
+    tasting_note: z.string(),
+    reviewer_initials: z.string(),
+    reviewer_name: z.string().nullable(),
+    review_date: z.string(),
+    drink_window_start: z.number().int().nullable(),
+    drink_window_end: z.number().int().nullable(),
+    release_price: z.number().nullable(),
+  })
+  .describe('A wine with its review flattened in') satisfies z.ZodType<WineWithReview>;
+
+export const matchTypeSchema = z.enum(['exact', 'fuzzy', 'semantic']);
+
+export const matchBreakdownSchema = z
+  .object({
+    producer: z.number(),
+    name: z.number(),
+    appellation: z.number(),
+    query_coverage: z.number(),
+    vintage: z.object({
+      query: z.number().int().nullable(),
+      wine: z.number().int().nullable(),
+      status: z.enum(['match', 'mismatch', 'missing_in_query', 'non_vintage']),
+    }),
+  })
+  .describe('Per-field similarity (0-1) behind a confidence') satisfies z.ZodType<MatchBreakdown>;
+
+export const userSchema = z.object({
+  id: uuidSchema,
+  email: z.string().email(),
+  first_name: z.string().nullable(),
+  last_name: z.string().nullable(),
+  subscription_tier: z.enum(['free', 'premium', 'business']),
+  subscription_status: z.enum(['active', 'expired', 'cancelled', 'pending']),
+  subscription_expires_at: z.string().datetime({ offset: true }).nullable(),
+  created_at: z.string().datetime({ offset: true }),
+}) satisfies z.ZodType<User>;
+
+export const authTokensSchema = z.object({
+  access_token: z.string(),
+  refresh_token: z.string(),
+  expires_in: z.number().int().describe('Access token lifetime in seconds'),
+}) satisfies z.ZodType<AuthTokens>;
+
+export const paginationSchema = z.object({
+  total: z.number().int(),
+  limit: z.number().int(),
+  offset: z.number().int(),
+  has_more: z.boolean(),
+});
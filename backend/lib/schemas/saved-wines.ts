@@ -0,0 +1,85 @@
+import { z } from 'zod';
+import type { SaveContext, SavedWineEntry } from '../../types';
+import { paginationSchema, wineWithReviewSchema } from './common';
+
+// The saved wines journal under /users/me/wines
+
+export const SAVED_WINE_SORTS = {
+  added_at: 'created_at',
+  date: 'date_consumed',
+  score: 'score',
+  rating: 'personal_rating',
+} as const;
+
+export type SavedWineSort = keyof typeof SAVED_WINE_SORTS;
+
+// Accepts a calendar date or a full ISO timestamp (what the iOS encoder sends) and keeps the date
+const calendarDate = z
+  .string()
+  .refine(value => !Number.isNaN(Date.parse(value)), 'Invalid date')
+  .transform(value => new Date(value).toISOString().slice(0, 10));
+
+export const saveContextSchema = z.object({
+  restaurant: z.string().trim().max(200).nullish(),
+  price_paid: z.number().nonnegative().max(1_000_000).nullish(),
+  date: calendarDate.nullish(),
+  rating: z.number().int().min(1).max(5).nullish(),
+});
+
+export const listSavedWinesSchema = z
+  .object({
+    limit: z.coerce.number().int().min(1).max(100).default(50),
+    offset: z.coerce.number().int().min(0).default(0),
+    restaurant: z.string().trim().min(1).optional(),
+    rating: z.coerce.number().int().min(1).max(5).optional(),
+    min_rating: z.coerce.number().int().min(1).max(5).optional(),
+    date_from: calendarDate.optional(),
+    date_to: calendarDate.optional(),
+    sort: z.enum(Object.keys(SAVED_WINE_SORTS) as [SavedWineSort, ...SavedWineSort[]]).default('added_at'),
+    order: z.enum(['asc', 'desc']).default('desc'),
+  })
+  .refine(query => !query.date_from || !query.date_to || query.date_from <= query.date_to, {
+    message: 'date_from must not be after date_to',
+    path: ['date_from'],
+  });
+
+export type ListSavedWinesQuery = z.infer<typeof listSavedWinesSchema>;
+
+export const saveWineRequestSchema = z.object({
+  wine_id: z.string().uuid(),
+  notes: z.string().max(5000).nullish(),
+  context: saveContextSchema.nullish(),
+});
+
+// Partial update: omitted fields are kept, null clears a field
+export const updateSavedWineRequestSchema = z.object({
+  notes: z.string().max(5000).nullish(),
+  context: saveContextSchema.nullish(),
+});
+
+export const savedWineEntrySchema = z.object({
+  id: z.string().uuid(),
+  wine: wineWithReviewSchema,
+  added_at: z.string().datetime({ offset: true }),
+  notes: z.string().nullable(),
+  context: z.object({
+    restaurant: z.string().nullable(),
+    price_paid: z.number().nullable(),
+    date: z.string().date().nullable(),
+    rating: z.number().int().nullable(),
+  }) satisfies z.ZodType<SaveContext>,
+}) satisfies z.ZodType<SavedWineEntry>;
+
+export const savedWineListResponseSchema = z.object({
+  wines: z.array(savedWineEntrySchema),
+  pagination: paginationSchema,
+});
+
+export const savedWineResponseSchema = z.object({
+  saved_wine: savedWineEntrySchema,
+});
+
+export const savedWineDeletedResponseSchema = z.object({
+  id: z.string().uuid(),
+  deleted: z.literal(true),
+});
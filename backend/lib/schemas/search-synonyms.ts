@@ -0,0 +1,65 @@
+import { z } from 'zod';
+import type { SearchSynonym, SearchSynonymCategory, SearchSynonymType, SynonymSyncResult } from '../../types';
+import { paginationSchema, uuidSchema } from './common';
+
+// Search synonyms under /admin/search/synonyms, pushed to the search provider by the sync job
+
+export const SEARCH_SYNONYM_TYPES = ['synonym', 'one_way'] as const satisfies readonly SearchSynonymType[];
+export const SEARCH_SYNONYM_CATEGORIES = ['general', 'grape', 'region', 'producer'] as const satisfies readonly SearchSynonymCategory[];
+
+export const MAX_SYNONYMS_PER_GROUP = 20;
+
+const termSchema = z.string().trim().min(1).max(100);
+const termsSchema = z.array(termSchema).min(1).max(MAX_SYNONYMS_PER_GROUP);
+
+export const createSearchSynonymRequestSchema = z.object({
+  type: z.enum(SEARCH_SYNONYM_TYPES).default('synonym').describe('synonym: every term matches every other; one_way: input also matches synonyms'),
+  input: termSchema.nullish().describe('Required for one_way, e.g. "ch."'),
+  synonyms: termsSchema.describe('At least two for a two-way group'),
+  category: z.enum(SEARCH_SYNONYM_CATEGORIES).default('general'),
+});
+
+export const updateSearchSynonymRequestSchema = z.object({
+  type: z.enum(SEARCH_SYNONYM_TYPES).optional(),
+  input: termSchema.nullish(),
+  synonyms: termsSchema.optional(),
+  category: z.enum(SEARCH_SYNONYM_CATEGORIES).optional(),
+});
+
+export const listSearchSynonymsQuerySchema = z.object({
+  type: z.enum(SEARCH_SYNONYM_TYPES).optional(),
+  category: z.enum(SEARCH_SYNONYM_CATEGORIES).optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(100),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+export const searchSynonymSchema = z.object({
+  id: uuidSchema,
+  type: z.enum(SEARCH_SYNONYM_TYPES),
+  input: z.string().nullable(),
+  synonyms: z.array(z.string()),
+  category: z.enum(SEARCH_SYNONYM_CATEGORIES),
+  created_at: z.string().datetime({ offset: true }),
+  updated_at: z.string().datetime({ offset: true }),
+}) satisfies z.ZodType<SearchSynonym>;
+
+export const searchSynonymResponseSchema = z.object({
+  synonym: searchSynonymSchema,
+});
+
+export const searchSynonymListResponseSchema = z.object({
+  synonyms: z.array(searchSynonymSchema),
+  pagination: paginationSchema,
+});
+
+export const searchSynonymDeletedResponseSchema = z.object({
+  id: uuidSchema,
+  deleted: z.literal(true),
+});
+
+export const synonymSyncResponseSchema = z.object({
+  provider: z.string().describe('Active search provider'),
+  synonyms: z.number().int().describe('Synonym groups pushed'),
+  applied: z.boolean().describe('False when the provider has no synonyms to configure'),
+  synced_at: z.string().datetime({ offset: true }),
+}) satisfies z.ZodType<SynonymSyncResult>;
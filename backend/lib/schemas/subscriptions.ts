@@ -0,0 +1,32 @@
+import { z } from 'zod';
+import type { Subscription } from '../../types';
+
+// App Store purchase verification and App Store Server Notifications v2
+
+export const subscriptionSchema = z.object({
+  tier: z.enum(['free', 'premium', 'business']),
+  status: z.enum(['active', 'expired', 'cancelled', 'pending']),
+  expires_at: z.string().datetime({ offset: true }).nullable(),
+  auto_renew: z.boolean(),
+  store: z.enum(['app_store', 'play_store', 'web']).nullable(),
+  product_id: z.string().nullable(),
+}) satisfies z.ZodType<Subscription>;
+
+export const verifySubscriptionRequestSchema = z.object({
+  store: z.literal('app_store').default('app_store'),
+  signed_transaction: z.string().min(1).describe("StoreKit 2 VerificationResult's jwsRepresentation"),
+  transaction_id: z.string().min(1).optional().describe('Checked against the signed transaction when sent'),
+});
+
+export const verifySubscriptionResponseSchema = z.object({
+  subscription: subscriptionSchema,
+});
+
+export const appStoreNotificationRequestSchema = z.object({
+  signedPayload: z.string().min(1),
+});
+
+export const appStoreNotificationResponseSchema = z.object({
+  received: z.literal(true),
+  duplicate: z.boolean(),
+});
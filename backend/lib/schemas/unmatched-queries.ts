@@ -0,0 +1,86 @@
+import { z } from 'zod';
+import type { UnmatchedQuery, UnmatchedQueryCluster, UnmatchedQueryStatus, WineAlias } from '../../types';
+import { paginationSchema, uuidSchema } from './common';
+
+// The unmatched query queue and curated wine aliases under /admin
+
+export const UNMATCHED_QUERY_STATUSES = ['open', 'resolved', 'ignored'] as const satisfies readonly UnmatchedQueryStatus[];
+
+export const MAX_QUERIES_PER_ACTION = 100;
+
+export const listUnmatchedQueriesQuerySchema = z.object({
+  min_occurrences: z.coerce.number().int().min(1).default(1).describe('Leave out queries seen fewer times'),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+export const unmatchedQuerySchema = z.object({
+  id: uuidSchema,
+  query: z.string().describe('As last received'),
+  normalized_query: z.string(),
+  occurrences: z.number().int(),
+  best_confidence: z.number().describe('Confidence of the best search candidate at the last miss'),
+  best_wine_id: uuidSchema.nullable(),
+  status: z.enum(UNMATCHED_QUERY_STATUSES),
+  first_seen_at: z.string().datetime({ offset: true }),
+  last_seen_at: z.string().datetime({ offset: true }),
+}) satisfies z.ZodType<UnmatchedQuery>;
+
+export const unmatchedQueryClusterSchema = z.object({
+  id: uuidSchema.describe('ID of the most frequent query in the cluster'),
+  query: z.string(),
+  occurrences: z.number().int().describe('Total over the cluster'),
+  best_confidence: z.number(),
+  best_wine_id: uuidSchema.nullable().describe('Best candidate across the cluster, a likely link'),
+  last_seen_at: z.string().datetime({ offset: true }),
+  queries: z.array(unmatchedQuerySchema),
+}) satisfies z.ZodType<UnmatchedQueryCluster>;
+
+export const unmatchedClusterListResponseSchema = z.object({
+  clusters: z.array(unmatchedQueryClusterSchema),
+  pagination: paginationSchema,
+});
+
+const queryIdsSchema = z.array(uuidSchema).min(1).max(MAX_QUERIES_PER_ACTION);
+
+export const resolveUnmatchedQueriesRequestSchema = z.object({
+  query_ids: queryIdsSchema.describe('Usually the IDs of a cluster\'s queries, minus any that don\'t belong'),
+  wine_id: uuidSchema,
+});
+
+export const ignoreUnmatchedQueriesRequestSchema = z.object({
+  query_ids: queryIdsSchema,
+});
+
+export const wineAliasSchema = z.object({
+  id: uuidSchema,
+  alias: z.string(),
+  normalized_alias: z.string(),
+  wine_id: uuidSchema,
+  created_at: z.string().datetime({ offset: true }),
+}) satisfies z.ZodType<WineAlias>;
+
+export const resolveUnmatchedQueriesResponseSchema = z.object({
+  resolved: z.array(unmatchedQuerySchema),
+  aliases: z.array(wineAliasSchema),
+});
+
+export const ignoreUnmatchedQueriesResponseSchema = z.object({
+  ignored: z.array(unmatchedQuerySchema),
+});
+
+export const listAliasesQuerySchema = z.object({
+  wine_id: uuidSchema.optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+export const aliasListResponseSchema = z.object({
+  aliases: z.array(wineAliasSchema),
+  pagination: paginationSchema,
+});
+
+export const aliasDeletedResponseSchema = z.object({
+  id: uuidSchema,
+  deleted: z.literal(true),
+});
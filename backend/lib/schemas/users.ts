@@ -0,0 +1,28 @@
+import { z } from 'zod';
+import type { ScanUsage } from '../../types';
+
+// The signed-in user's account under /users/me
+
+export const scanUsageSchema = z.object({
+  tier: z.enum(['free', 'premium', 'business']),
+  unlimited: z.boolean().describe('Active premium and business subscriptions have no scan quota'),
+  used: z.number().int(),
+  limit: z.number().int().nullable(),
+  remaining: z.number().int().nullable(),
+  period_start: z.string().date(),
+  resets_at: z.string().datetime(),
+}) satisfies z.ZodType<ScanUsage>;
+
+export const usageResponseSchema = z.object({
+  scans: scanUsageSchema,
+});
+
+// details of the 402 SUBSCRIPTION_REQUIRED error once the free scans of the month are used up
+export const scanQuotaExceededSchema = z.object({
+  limit: z.number().int(),
+  used: z.number().int(),
+  remaining: z.literal(0),
+  period_start: z.string().date(),
+  resets_at: z.string().datetime(),
+  upgrade_tiers: z.array(z.enum(['premium', 'business'])),
+});
@@ -0,0 +1,111 @@
+import { z } from 'zod';
+import type { WebhookDelivery, WebhookDeliveryStatus, WebhookEndpoint, WebhookEventType } from '../../types';
+import { allowsInsecureWebhookUrls, isPublicWebhookHost } from '../webhook-url';
+import { paginationSchema } from './common';
+
+// Webhook endpoints and their delivery log under /business/webhooks
+
+export const WEBHOOK_EVENTS = [
+  'list.analyzed',
+  'subscription.renewed',
+  'subscription.cancelled',
+] as const satisfies readonly WebhookEventType[];
+
+export const WEBHOOK_DELIVERY_STATUSES = ['pending', 'succeeded', 'failed'] as const satisfies readonly WebhookDeliveryStatus[];
+
+// https to a public host only; WEBHOOK_ALLOW_INSECURE_URLS=true also allows http and private
+// hosts (local receivers). The dispatcher checks the resolved addresses again before each send.
+const webhookUrlSchema = z
+  .string()
+  .trim()
+  .max(2000)
+  .url()
+  .refine(
+    url => url.startsWith('https://') || (allowsInsecureWebhookUrls() && url.startsWith('http://')),
+    'Webhook URLs must use https'
+  )
+  .refine(isPublicWebhookHost, 'Webhook URLs must not point at localhost or a private network');
+
+export const createWebhookEndpointRequestSchema = z.object({
+  url: webhookUrlSchema,
+  description: z.string().trim().max(200).nullish(),
+  events: z.array(z.enum(WEBHOOK_EVENTS)).min(1),
+  enabled: z.boolean().default(true),
+});
+
+export const updateWebhookEndpointRequestSchema = z.object({
+  url: webhookUrlSchema.optional(),
+  description: z.string().trim().max(200).nullish(),
+  events: z.array(z.enum(WEBHOOK_EVENTS)).min(1).optional(),
+  enabled: z.boolean().optional(),
+});
+
+export const webhookEndpointSchema = z.object({
+  id: z.string().uuid(),
+  url: z.string(),
+  description: z.string().nullable(),
+  events: z.array(z.enum(WEBHOOK_EVENTS)),
+  enabled: z.boolean(),
+  created_at: z.string().datetime({ offset: true }),
+}) satisfies z.ZodType<WebhookEndpoint>;
+
+export const webhookEndpointResponseSchema = z.object({
+  endpoint: webhookEndpointSchema,
+});
+
+export const createdWebhookEndpointResponseSchema = z.object({
+  endpoint: webhookEndpointSchema,
+  secret: z.string().describe('Signing secret; only ever returned once'),
+});
+
+export const webhookEndpointListResponseSchema = z.object({
+  endpoints: z.array(webhookEndpointSchema),
+});
+
+export const webhookEndpointDeletedResponseSchema = z.object({
+  id: z.string().uuid(),
+  deleted: z.literal(true),
+});
+
+export const listDeliveriesQuerySchema = z.object({
+  endpoint_id: z.string().uuid().optional(),
+  status: z.enum(WEBHOOK_DELIVERY_STATUSES).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+export const webhookDeliverySchema = z.object({
+  id: z.string().uuid(),
+  endpoint_id: z.string().uuid(),
+  event_id: z.string().uuid().describe('Sent as X-Webhook-Id; the same for every attempt and redelivery'),
+  event: z.enum(WEBHOOK_EVENTS),
+  status: z.enum(WEBHOOK_DELIVERY_STATUSES).describe('failed once every retry was used up'),
+  attempts: z.number().int(),
+  next_attempt_at: z.string().datetime({ offset: true }).nullable(),
+  last_attempt_at: z.string().datetime({ offset: true }).nullable(),
+  response_status: z.number().int().nullable(),
+  response_body: z.string().nullable().describe('First 1000 characters'),
+  error: z.string().nullable(),
+  redelivery_of: z.string().uuid().nullable(),
+  created_at: z.string().datetime({ offset: true }),
+}) satisfies z.ZodType<WebhookDelivery>;
+
+export const webhookDeliveryListResponseSchema = z.object({
+  deliveries: z.array(webhookDeliverySchema),
+  pagination: paginationSchema,
+});
+
+export const webhookDeliveryResponseSchema = z.object({
+  delivery: webhookDeliverySchema,
+});
+
+export const dispatchWebhooksResponseSchema = z.object({
+  sent: z.number().int(),
+  succeeded: z.number().int(),
+  retrying: z.number().int(),
+  failed: z.number().int(),
+});
+
+export const dispatchWebhooksQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
@@ -0,0 +1,372 @@
+import { z } from 'zod';
+import type {
+  BatchMatchCandidate,
+  BatchMatchResult,
+  BrowseFacet,
+  BrowseFacets,
+  BrowseSort,
+  BrowseWine,
+  DrinkWindowStatus,
+  FacetCount,
+  HeadlineReviewRule,
+  ReviewHistory,
+  WineReview,
+} from '../../types';
+import type { ParsedListEntry } from '../list-parser';
+import { MAX_CANDIDATES } from '../matcher';
+import {
+  booleanQuerySchema,
+  matchBreakdownSchema,
+  matchTypeSchema,
+  paginationSchema,
+  wineColorSchema,
+  wineWithReviewSchema,
+} from './common';
+
+// Search, catalog browse, wine detail and reviews, batch-match and parse-list
+
+export const MAX_BATCH_QUERIES = 100;
+// Streaming returns each line as soon as it's matched, so long lists are allowed
+export const MAX_STREAMED_BATCH_QUERIES = 1000;
+export const MAX_LIST_LINES = 1000;
+export const MAX_MATCHED_LIST_ENTRIES = 100;
+
+const yearSchema = z.number().int().min(1800).max(2100);
+const confidenceSchema = z.number().min(0).max(1);
+
+export const searchQuerySchema = z.object({
+  q: z.string().trim().min(1).max(500).describe('Free text, e.g. a line from a wine list'),
+  limit: z.coerce.number().int().min(1).max(50).default(10),
+  color: wineColorSchema.optional(),
+  country: z.string().trim().min(1).optional(),
+  min_score: z.coerce.number().int().min(0).max(100).optional(),
+  vintage: z.coerce.number().int().min(1800).max(2100).optional(),
+  fuzzy: booleanQuerySchema.optional().describe('Accepted for compatibility; matching is always typo-tolerant'),
+});
+
+export const searchResponseSchema = z.object({
+  results: z.array(
+    z.object({
+      wine: wineWithReviewSchema,
+      match_confidence: confidenceSchema,
+      match_type: matchTypeSchema,
+    })
+  ),
+  total_count: z.number().int(),
+  query_normalized: z.string(),
+  provider: z.string().describe('Search provider that answered'),
+  degraded: z.boolean().describe('True when a fallback provider answered'),
+});
+
+export const HEADLINE_REVIEW_RULES = ['latest', 'highest'] as const satisfies readonly HeadlineReviewRule[];
+
+const headlineRuleSchema = z.enum(HEADLINE_REVIEW_RULES);
+
+export const wineDetailQuerySchema = z.object({
+  headline: headlineRuleSchema
+    .default('latest')
+    .describe('Review the wine carries when it has several: the latest (ties go to the higher score) or the highest scored'),
+});
+
+export const reviewHistorySchema = z.object({
+  review_count: z.number().int(),
+  score_min: z.number().int().nullable(),
+  score_max: z.number().int().nullable(),
+  score_average: z.number().nullable(),
+  first_review_date: z.string().nullable(),
+  latest_review_date: z.string().nullable(),
+  reviewers: z.array(
+    z.object({
+      reviewer_initials: z.string(),
+      reviewer_name: z.string().nullable(),
+      reviews: z.number().int(),
+    })
+  ),
+  tastings: z
+    .array(z.object({ review_date: z.string(), score: z.number().int(), reviewer_initials: z.string() }))
+    .describe('Every review, oldest first'),
+}) satisfies z.ZodType<ReviewHistory>;
+
+export const wineDetailResponseSchema = z.object({
+  wine: wineWithReviewSchema.extend({
+    issue_date: z.string().nullable(),
+    release_price_currency: z.string(),
+  }),
+  review_history: reviewHistorySchema,
+  related_vintages: z.array(
+    z.object({
+      id: z.string().uuid(),
+      vintage: z.number().int().nullable(),
+      score: z.number().int().optional(),
+    })
+  ),
+});
+
+export const wineReviewsQuerySchema = z.object({
+  include_other_vintages: booleanQuerySchema.optional().describe('Include reviews of other vintages (same producer and name)'),
+  sort: headlineRuleSchema.default('latest'),
+  limit: z.coerce.number().int().min(1).max(50).default(20),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+export const wineReviewSchema = z.object({
+  id: z.string().uuid(),
+  wine_id: z.string().uuid(),
+  vintage: z.number().int().nullable(),
+  score: z.number().int(),
+  tasting_note: z.string(),
+  reviewer_initials: z.string(),
+  reviewer_name: z.string().nullable(),
+  review_date: z.string(),
+  issue_date: z.string().nullable(),
+  drink_window_start: z.number().int().nullable(),
+  drink_window_end: z.number().int().nullable(),
+  release_price: z.number().nullable(),
+  release_price_currency: z.string(),
+}) satisfies z.ZodType<WineReview>;
+
+export const wineReviewsResponseSchema = z.object({
+  reviews: z.array(wineReviewSchema),
+  pagination: paginationSchema,
+});
+
+// Sort key -> wine_catalog column
+export const BROWSE_SORTS = {
+  score: 'score',
+  price: 'release_price',
+  vintage: 'vintage',
+  rank: 'top100_rank',
+} as const satisfies Record<BrowseSort, string>;
+
+export const BROWSE_FACETS = [
+  'region',
+  'sub_region',
+  'appellation',
+  'country',
+  'color',
+  'grape',
+  'vintage',
+  'score',
+  'price',
+  'drink_window_status',
+  'top100_year',
+] as const satisfies readonly BrowseFacet[];
+
+export const DRINK_WINDOW_STATUSES = [
+  'too_young',
+  'ready',
+  'drink_soon',
+  'past_window',
+  'unknown',
+] as const satisfies readonly DrinkWindowStatus[];
+
+export const MAX_BROWSE_FILTER_VALUES = 20;
+
+// A list filter: the parameter repeated (?region=Napa&region=Sonoma) or comma-separated
+function listQuerySchema<T extends z.ZodTypeAny>(item: T) {
+  return z
+    .union([z.string(), z.array(z.string())])
+    .transform(value =>
+      (Array.isArray(value) ? value : [value])
+        .flatMap(entry => entry.split(','))
+        .map(entry => entry.trim())
+        .filter(Boolean)
+    )
+    .pipe(z.array(item).min(1).max(MAX_BROWSE_FILTER_VALUES))
+    .describe('Matches any of the values; repeat the parameter or separate values with commas');
+}
+
+const textFilterSchema = listQuerySchema(z.string().max(100));
+
+const BROWSE_RANGES = [
+  ['min_score', 'max_score'],
+  ['min_price', 'max_price'],
+  ['min_vintage', 'max_vintage'],
+] as const;
+
+export const browseWinesQuerySchema = z
+  .object({
+    region: textFilterSchema.optional(),
+    sub_region: textFilterSchema.optional(),
+    appellation: textFilterSchema.optional(),
+    country: textFilterSchema.optional(),
+    color: listQuerySchema(wineColorSchema).optional(),
+    grape: textFilterSchema.optional(),
+    drink_window_status: listQuerySchema(z.enum(DRINK_WINDOW_STATUSES)).optional(),
+    top100_year: listQuerySchema(z.coerce.number().int().min(1988).max(2100)).optional(),
+    max_top100_rank: z.coerce.number().int().min(1).max(100).optional().describe('Only Top 100 wines ranked this high'),
+    min_score: z.coerce.number().int().min(50).max(100).optional(),
+    max_score: z.coerce.number().int().min(50).max(100).optional(),
+    min_price: z.coerce.number().min(0).optional().describe('Release price'),
+    max_price: z.coerce.number().min(0).optional().describe('Release price'),
+    min_vintage: z.coerce.number().int().min(1800).max(2100).optional(),
+    max_vintage: z.coerce.number().int().min(1800).max(2100).optional(),
+    sort: z.enum(Object.keys(BROWSE_SORTS) as [BrowseSort, ...BrowseSort[]]).default('score'),
+    order: z
+      .enum(['asc', 'desc'])
+      .optional()
+      .describe('Defaults to desc for score and vintage, asc for price and rank; wines without the value come last'),
+    cursor: z.string().max(500).optional().describe('next_cursor of the previous page; keep the filters and sort'),
+    limit: z.coerce.number().int().min(1).max(100).default(24),
+  })
+  .superRefine((query, ctx) => {
+    for (const [min, max] of BROWSE_RANGES) {
+      const low = query[min];
+      const high = query[max];
+      if (low !== undefined && high !== undefined && low > high) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: `${min} must not be above ${max}`, path: [min] });
+      }
+    }
+  });
+
+export type BrowseWinesQuery = z.infer<typeof browseWinesQuerySchema>;
+
+export const browseWineSchema = wineWithReviewSchema.extend({
+  drink_window_status: z.enum(DRINK_WINDOW_STATUSES),
+}) satisfies z.ZodType<BrowseWine>;
+
+const facetCountsSchema = z.array(
+  z.object({ value: z.string(), count: z.number().int() }) satisfies z.ZodType<FacetCount>
+);
+
+export const browseFacetsSchema = z
+  .object(Object.fromEntries(BROWSE_FACETS.map(facet => [facet, facetCountsSchema])) as Record<BrowseFacet, typeof facetCountsSchema>)
+  .describe('Wines per value, each facet counted without its own filter') satisfies z.ZodType<BrowseFacets>;
+
+export const cursorPaginationSchema = z.object({
+  total: z.number().int(),
+  limit: z.number().int(),
+  next_cursor: z.string().nullable(),
+  has_more: z.boolean(),
+});
+
+export const browseWinesResponseSchema = z.object({
+  wines: z.array(browseWineSchema),
+  facets: browseFacetsSchema,
+  pagination: cursorPaginationSchema,
+});
+
+export const matchHintsSchema = z.object({
+  vintage: yearSchema.optional(),
+  color: wineColorSchema.optional(),
+  section: z.string().max(200).optional().describe('List section header the line sits under, e.g. "Champagne"'),
+});
+
+export const batchMatchQuerySchema = z.union(
+  [
+    z.string().trim().min(1, 'query must not be empty'),
+    z.object({
+      query: z.string().trim().min(1, 'query must not be empty'),
+      hints: matchHintsSchema.optional(),
+    }),
+  ],
+  { errorMap: () => ({ message: 'must be a string or an object with a query' }) }
+);
+
+export const batchMatchRequestSchema = z.object({
+  queries: z
+    .array(batchMatchQuerySchema)
+    .min(1)
+    .max(MAX_STREAMED_BATCH_QUERIES)
+    .describe(`Up to ${MAX_BATCH_QUERIES} queries, or ${MAX_STREAMED_BATCH_QUERIES} when streaming`),
+  options: z
+    .object({
+      fuzzy: z.boolean().optional(),
+      confidence_threshold: confidenceSchema.optional(),
+      max_candidates: z.number().int().min(0).max(MAX_CANDIDATES).optional(),
+      ambiguity_margin: confidenceSchema.optional(),
+      stream: z.enum(['ndjson', 'sse']).optional().describe('Stream results as they are matched'),
+    })
+    .optional(),
+});
+
+export const batchMatchCandidateSchema = z.object({
+  wine: wineWithReviewSchema,
+  confidence: confidenceSchema,
+  match_type: matchTypeSchema,
+  match_breakdown: matchBreakdownSchema.optional(),
+}) satisfies z.ZodType<BatchMatchCandidate>;
+
+export const batchMatchResultSchema = z.object({
+  query: z.string(),
+  matched: z.boolean(),
+  wine: wineWithReviewSchema.nullable(),
+  confidence: confidenceSchema,
+  match_type: matchTypeSchema.optional(),
+  match_breakdown: matchBreakdownSchema.optional(),
+  candidates: z.array(batchMatchCandidateSchema).optional(),
+  ambiguous: z.boolean().optional(),
+  latency_ms: z.number().optional(),
+  error: z.literal('SEARCH_UNAVAILABLE').optional(),
+}) satisfies z.ZodType<BatchMatchResult>;
+
+export const batchMatchResponseSchema = z.object({
+  matches: z.array(batchMatchResultSchema),
+  match_rate: z.number(),
+  processing_time_ms: z.number(),
+  providers: z.array(z.string()),
+  degraded: z.boolean(),
+  unique_queries: z.number().int(),
+  search_requests: z.number().int(),
+});
+
+// One line of an NDJSON stream (or the data of an SSE event of the same name)
+export const batchMatchStreamEventSchema = z.discriminatedUnion('type', [
+  batchMatchResultSchema.extend({ type: z.literal('match'), index: z.number().int() }),
+  z.object({
+    type: z.literal('summary'),
+    total: z.number().int(),
+    matched: z.number().int(),
+    match_rate: z.number(),
+    processing_time_ms: z.number(),
+    providers: z.array(z.string()),
+    degraded: z.boolean(),
+    unavailable: z.boolean(),
+    unique_queries: z.number().int(),
+    search_requests: z.number().int(),
+  }),
+  z.object({ type: z.literal('error'), code: z.string(), message: z.string() }),
+]);
+
+export const parseListRequestSchema = z
+  .object({
+    lines: z.array(z.string()).min(1).max(MAX_LIST_LINES).optional(),
+    text: z.string().min(1).optional().describe('Whole list; split on newlines'),
+    options: z
+      .object({
+        match: z.boolean().optional().describe(`Also match up to ${MAX_MATCHED_LIST_ENTRIES} parsed entries`),
+        confidence_threshold: confidenceSchema.optional(),
+      })
+      .optional(),
+  })
+  .refine(body => body.lines !== undefined || body.text !== undefined, {
+    message: 'Either a "lines" array of strings or a "text" string is required',
+  });
+
+export const parsedListEntrySchema = z.object({
+  line_number: z.number().int(),
+  raw_text: z.string(),
+  query: z.string(),
+  producer: z.string().nullable(),
+  wine_name: z.string().nullable(),
+  vintage: z.number().int().nullable(),
+  is_non_vintage: z.boolean(),
+  bottle_price: z.number().nullable(),
+  glass_price: z.number().nullable(),
+  format: z.object({ label: z.string(), volume_ml: z.number().int() }).nullable(),
+  bin_number: z.string().nullable(),
+  section: z.string().nullable(),
+}) satisfies z.ZodType<ParsedListEntry>;
+
+export const parseListResponseSchema = z.object({
+  entries: z.array(
+    parsedListEntrySchema.extend({
+      match: batchMatchResultSchema.optional().describe('Present when options.match is set'),
+    })
+  ),
+  sections: z.array(z.string()),
+  skipped_lines: z.array(z.number().int()),
+  match_rate: z.number().optional(),
+  providers: z.array(z.string()).optional(),
+  degraded: z.boolean().optional(),
+});
@@ -0,0 +1,171 @@
+import type { SearchResult } from '../types';
+import {
+  SearchUnavailableError,
+  multiSearchWithOutcome,
+  type MultiSearchRequest,
+  type SearchOptions,
+  type SearchOutcome,
+  type SearchService,
+} from './search';
+
+// Composite SearchService: primary provider with per-call deadline and circuit breaker,
+// falling back to a secondary provider when the primary is slow, failing or tripped.
+
+export class SearchTimeoutError extends Error {
+  constructor(provider: string, timeoutMs: number) {
+    super(`${provider} search timed out after ${timeoutMs}ms`);
+    this.name = 'SearchTimeoutError';
+  }
+}
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface CircuitBreakerOptions {
+  failureThreshold?: number;
+  resetTimeoutMs?: number;
+  now?: () => number;
+}
+
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private openedAt = 0;
+  private trialInFlight = false;
+  private readonly failureThreshold: number;
+  private readonly resetTimeoutMs: number;
+  private readonly now: () => number;
+
+  constructor(options: CircuitBreakerOptions = {}) {
+    this.failureThreshold = options.failureThreshold ?? 5;
+    this.resetTimeoutMs = options.resetTimeoutMs ?? 30_000;
+    this.now = options.now ?? Date.now;
+  }
+
+  get currentState(): CircuitState {
+    if (this.state === 'open' && this.now() - this.openedAt >= this.resetTimeoutMs) {
+      this.state = 'half_open';
+    }
+    return this.state;
+  }
+
+  // Half-open lets a single trial request through to probe recovery
+  allowRequest(): boolean {
+    switch (this.currentState) {
+      case 'closed':
+        return true;
+      case 'open':
+        return false;
+      case 'half_open':
+        if (this.trialInFlight) return false;
+        this.trialInFlight = true;
+        return true;
+    }
+  }
+
+  recordSuccess(): void {
+    this.state = 'closed';
+    this.consecutiveFailures = 0;
+    this.trialInFlight = false;
+  }
+
+  recordFailure(): void {
+    this.trialInFlight = false;
+    this.consecutiveFailures++;
+
+    if (this.state === 'half_open' || this.consecutiveFailures >= this.failureThreshold) {
+      this.state = 'open';
+      this.openedAt = this.now();
+    }
+  }
+}
+
+export function withTimeout<T>(promise: Promise<T>, timeoutMs: number, provider: string): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(() => reject(new SearchTimeoutError(provider, timeoutMs)), timeoutMs);
+    promise.then(
+      (value) => {
+        clearTimeout(timer);
+        resolve(value);
+      },
+      (err) => {
+        clearTimeout(timer);
+        reject(err);
+      }
+    );
+  });
+}
+
+export interface FailoverSearchOptions {
+  primary: SearchService;
+  fallback: SearchService;
+  timeoutMs?: number;
+  fallbackTimeoutMs?: number;
+  breaker?: CircuitBreaker;
+}
+
+export function createFailoverSearch({
+  primary,
+  fallback,
+  timeoutMs = 1500,
+  fallbackTimeoutMs = 3000,
+  breaker = new CircuitBreaker(),
+}: FailoverSearchOptions): SearchService {
+  async function withFailover<T>(call: (service: SearchService) => Promise<T>): Promise<{ value: T; provider: string; degraded: boolean }> {
+    let primaryError: unknown = null;
+
+    if (breaker.allowRequest()) {
+      try {
+        const value = await withTimeout(call(primary), timeoutMs, primary.name);
+        breaker.recordSuccess();
+        return { value, provider: primary.name, degraded: false };
+      } catch (err) {
+        breaker.recordFailure();
+        primaryError = err;
+        console.warn(`Search provider ${primary.name} failed, falling back to ${fallback.name}:`, err);
+      }
+    }
+
+    try {
+      const value = await withTimeout(call(fallback), fallbackTimeoutMs, fallback.name);
+      return { value, provider: fallback.name, degraded: true };
+    } catch (err) {
+      throw new SearchUnavailableError(
+        `All search providers failed (${primary.name}, ${fallback.name})`,
+        primaryError ?? err
+      );
+    }
+  }
+
+  async function searchDetailed(query: string, options?: SearchOptions): Promise<SearchOutcome> {
+    const { value, provider, degraded } = await withFailover((service) => service.search(query, options));
+    return { results: value, provider, degraded };
+  }
+
+  // The whole batch fails over together: one deadline and one breaker sample per round trip
+  async function multiSearchDetailed(requests: MultiSearchRequest[]): Promise<SearchOutcome[]> {
+    const { value, provider, degraded } = await withFailover((service) => multiSearchWithOutcome(service, requests));
+    return value.map(({ results }) => ({ results, provider, degraded }));
+  }
+
+  return {
+    name: primary.name,
+
+    searchDetailed,
+
+    multiSearchDetailed,
+
+    async search(query: string, options?: SearchOptions): Promise<SearchResult[]> {
+      return (await searchDetailed(query, options)).results;
+    },
+
+    // Synonyms apply to both, so a failover doesn't change what a query matches
+    async configureIndex(synonyms) {
+      await Promise.all([primary.configureIndex?.(synonyms), fallback.configureIndex?.(synonyms)]);
+    },
+
+    // Writes go to the primary only; the fallback keeps its own source of truth
+    indexWine: (wine) => primary.indexWine(wine),
+    indexWines: (wines) => primary.indexWines(wines),
+    deleteWine: (wineId) => primary.deleteWine(wineId),
+  };
+}
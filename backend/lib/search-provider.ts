@@ -0,0 +1,78 @@
+import { algoliaSearch, hasAlgoliaCredentials } from './algolia';
+import { loadCatalog } from './catalog';
+import { createLocalSearch } from './local-search';
+import { postgresSearch } from './postgres-search';
+import { CircuitBreaker, createFailoverSearch } from './search-failover';
+import { loadSynonymGroups } from './search-synonyms';
+import type { SearchService } from './search';
+
+export type SearchProviderName = 'algolia' | 'local' | 'postgres';
+
+const PROVIDERS: SearchProviderName[] = ['algolia', 'local', 'postgres'];
+
+let searchService: SearchService | null = null;
+
+// SEARCH_PROVIDER picks the backend explicitly; otherwise Algolia is used when configured
+export function resolveSearchProvider(): SearchProviderName {
+  const configured = parseProvider('SEARCH_PROVIDER');
+  if (configured) return configured;
+  return hasAlgoliaCredentials() ? 'algolia' : 'local';
+}
+
+// SEARCH_FALLBACK=none disables failover; by default Algolia falls back to Postgres full-text
+export function resolveFallbackProvider(primary: SearchProviderName): SearchProviderName | null {
+  if (process.env.SEARCH_FALLBACK?.trim().toLowerCase() === 'none') return null;
+
+  const configured = parseProvider('SEARCH_FALLBACK');
+  if (configured) return configured === primary ? null : configured;
+
+  const hasSupabase = Boolean(process.env.SUPABASE_URL && process.env.SUPABASE_SERVICE_KEY);
+  return primary === 'algolia' && hasSupabase ? 'postgres' : null;
+}
+
+export function createSearchService(provider: SearchProviderName = resolveSearchProvider()): SearchService {
+  switch (provider) {
+    case 'algolia':
+      return algoliaSearch;
+    case 'local':
+      return createLocalSearch({ loadCatalog: () => loadCatalog(), loadSynonyms: () => loadSynonymGroups() });
+    case 'postgres':
+      return postgresSearch;
+  }
+}
+
+// Shared per process so the local index and circuit breaker state survive across requests
+export function getSearchService(): SearchService {
+  if (!searchService) {
+    const primary = resolveSearchProvider();
+    const fallback = resolveFallbackProvider(primary);
+
+    searchService = fallback
+      ? createFailoverSearch({
+          primary: createSearchService(primary),
+          fallback: createSearchService(fallback),
+          timeoutMs: envNumber('SEARCH_TIMEOUT_MS', 1500),
+          fallbackTimeoutMs: envNumber('SEARCH_FALLBACK_TIMEOUT_MS', 3000),
+          breaker: new CircuitBreaker({
+            failureThreshold: envNumber('SEARCH_BREAKER_THRESHOLD', 5),
+            resetTimeoutMs: envNumber('SEARCH_BREAKER_RESET_MS', 30_000),
+          }),
+        })
+      : createSearchService(primary);
+  }
+  return searchService;
+}
+
+function parseProvider(variable: string): SearchProviderName | null {
+  const configured = process.env[variable]?.trim().toLowerCase();
+  if (!configured) return null;
+  if (!PROVIDERS.includes(configured as SearchProviderName)) {
+    throw new Error(`Unknown ${variable} "${configured}" (expected one of: ${PROVIDERS.join(', ')})`);
+  }
+  return configured as SearchProviderName;
+}
+
+function envNumber(variable: string, fallback: number): number {
+  const value = Number(process.env[variable]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
@@ -0,0 +1,42 @@
+import type { SynonymGroup } from './search';
+
+// Wine index settings, the one definition shared by the providers and scripts/seed.ts
+
+// Typo thresholds, also applied per query and mirrored by the local index
+export const MIN_WORD_SIZE_FOR_1_TYPO = 3;
+export const MIN_WORD_SIZE_FOR_2_TYPOS = 6;
+
+export const WINE_INDEX_SETTINGS = {
+  searchableAttributes: [
+    'full_name',
+    'producer',
+    'name',
+    'producer_normalized',
+    'name_normalized',
+    'searchable_text',
+    'region',
+    'grape_varieties',
+  ],
+  attributesForFaceting: [
+    'filterOnly(color)',
+    'filterOnly(country)',
+    'filterOnly(vintage)',
+    'searchable(region)',
+    'score',
+  ],
+  customRanking: ['desc(score)'],
+  typoTolerance: true,
+  minWordSizefor1Typo: MIN_WORD_SIZE_FOR_1_TYPO,
+  minWordSizefor2Typos: MIN_WORD_SIZE_FOR_2_TYPOS,
+};
+
+// Built-in synonyms: search_synonyms is seeded with these, and they are used wherever the
+// table can't be read (no Supabase in local development)
+export const WINE_SYNONYMS: SynonymGroup[] = [
+  { objectID: 'cab', synonyms: ['cabernet', 'cab', 'cabernet sauvignon', 'cs'] },
+  { objectID: 'chard', synonyms: ['chardonnay', 'chard'] },
+  { objectID: 'sauv', synonyms: ['sauvignon', 'sauv', 'sauvignon blanc', 'sb'] },
+  { objectID: 'pn', synonyms: ['pinot noir', 'pn', 'pinot'] },
+  { objectID: 'chateau', synonyms: ['chateau', 'ch', 'cht', 'château'] },
+  { objectID: 'domaine', synonyms: ['domaine', 'dom', 'domaine de'] },
+];
@@ -0,0 +1,201 @@
+import type { SearchSynonym, SearchSynonymCategory, SearchSynonymType, SynonymSyncResult } from '../types';
+import { ValidationError } from './errors';
+import type { SearchService, SynonymGroup } from './search';
+import { WINE_SYNONYMS } from './search-settings';
+
+// Search synonyms kept in search_synonyms and edited by admins. Changes reach the search
+// provider through syncSynonyms(), run by the sync route (and Vercel Cron); the local index
+// also loads them when it is built.
+
+const SYNONYM_COLUMNS = 'id, type, input, synonyms, category, created_at, updated_at';
+const PAGE_SIZE = 1000;
+
+export interface CreateSearchSynonymInput {
+  type: SearchSynonymType;
+  input?: string | null;
+  synonyms: string[];
+  category: SearchSynonymCategory;
+}
+
+export type UpdateSearchSynonymInput = Partial<CreateSearchSynonymInput>;
+
+// Imported lazily: the search providers load synonyms without Supabase in local development
+async function db() {
+  return (await import('./supabase')).supabaseAdmin;
+}
+
+function hasSupabase(): boolean {
+  return Boolean(process.env.SUPABASE_URL && process.env.SUPABASE_SERVICE_KEY);
+}
+
+// Every synonym group in the provider's shape; the built-in ones without Supabase
+export async function loadSynonymGroups(): Promise<SynonymGroup[]> {
+  if (!hasSupabase()) {
+    return WINE_SYNONYMS;
+  }
+
+  const supabaseAdmin = await db();
+  const groups: SynonymGroup[] = [];
+
+  // PostgREST caps a response at 1000 rows
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, error } = await supabaseAdmin
+      .from('search_synonyms')
+      .select(SYNONYM_COLUMNS)
+      .order('created_at')
+      .order('id')
+      .range(offset, offset + PAGE_SIZE - 1);
+
+    if (error) {
+      throw new Error(`Failed to load search synonyms: ${error.message}`);
+    }
+
+    groups.push(...((data ?? []) as SearchSynonym[]).map(toSynonymGroup));
+    if (!data || data.length < PAGE_SIZE) {
+      return groups;
+    }
+  }
+}
+
+// Pushes the synonyms and the shared index settings to the given (active) search provider
+export async function syncSynonyms(service: SearchService, now = new Date()): Promise<SynonymSyncResult> {
+  const groups = await loadSynonymGroups();
+  if (service.configureIndex) {
+    await service.configureIndex(groups);
+  }
+
+  return {
+    provider: service.name,
+    synonyms: groups.length,
+    applied: Boolean(service.configureIndex),
+    synced_at: now.toISOString(),
+  };
+}
+
+export async function listSearchSynonyms(filters: {
+  type?: SearchSynonymType;
+  category?: SearchSynonymCategory;
+  limit: number;
+  offset: number;
+}): Promise<{ synonyms: SearchSynonym[]; total: number }> {
+  const supabaseAdmin = await db();
+  let query = supabaseAdmin.from('search_synonyms').select(SYNONYM_COLUMNS, { count: 'exact' });
+  if (filters.type) query = query.eq('type', filters.type);
+  if (filters.category) query = query.eq('category', filters.category);
+
+  const { data, error, count } = await query
+    .order('category')
+    .order('created_at')
+    .range(filters.offset, filters.offset + filters.limit - 1);
+
+  if (error) {
+    throw new Error(`Failed to list search synonyms: ${error.message}`);
+  }
+  return { synonyms: (data ?? []) as SearchSynonym[], total: count ?? 0 };
+}
+
+export async function getSearchSynonym(id: string): Promise<SearchSynonym | null> {
+  const supabaseAdmin = await db();
+  const { data, error } = await supabaseAdmin.from('search_synonyms').select(SYNONYM_COLUMNS).eq('id', id).maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load search synonym: ${error.message}`);
+  }
+  return (data as SearchSynonym | null) ?? null;
+}
+
+export async function createSearchSynonym(input: CreateSearchSynonymInput): Promise<SearchSynonym> {
+  const supabaseAdmin = await db();
+  const { data, error } = await supabaseAdmin
+    .from('search_synonyms')
+    .insert({ ...checkedGroup(input), category: input.category })
+    .select(SYNONYM_COLUMNS)
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to create search synonym: ${error.message}`);
+  }
+  return data as SearchSynonym;
+}
+
+// Changes are checked against the stored group, so a change to one_way must bring an input
+export async function updateSearchSynonym(id: string, input: UpdateSearchSynonymInput): Promise<SearchSynonym | null> {
+  const existing = await getSearchSynonym(id);
+  if (!existing) {
+    return null;
+  }
+
+  const changes = Object.fromEntries(Object.entries(input).filter(([, value]) => value !== undefined));
+  if (!Object.keys(changes).length) {
+    return existing;
+  }
+
+  const merged = { ...existing, ...changes } as SearchSynonym;
+  // Turning a one-way group two-way drops its input unless the request says otherwise
+  if (input.type === 'synonym' && input.input === undefined) merged.input = null;
+
+  const supabaseAdmin = await db();
+  const { data, error } = await supabaseAdmin
+    .from('search_synonyms')
+    .update({ ...checkedGroup(merged), category: merged.category })
+    .eq('id', id)
+    .select(SYNONYM_COLUMNS)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to update search synonym: ${error.message}`);
+  }
+  return (data as SearchSynonym | null) ?? null;
+}
+
+export async function deleteSearchSynonym(id: string): Promise<boolean> {
+  const supabaseAdmin = await db();
+  const { data, error } = await supabaseAdmin.from('search_synonyms').delete().eq('id', id).select('id');
+
+  if (error) {
+    throw new Error(`Failed to delete search synonym: ${error.message}`);
+  }
+  return (data ?? []).length > 0;
+}
+
+// Terms trimmed and deduplicated ignoring case; a one-way group needs an input that isn't
+// one of its synonyms, a two-way group at least two terms and no input
+function checkedGroup({
+  type,
+  input,
+  synonyms,
+}: Pick<CreateSearchSynonymInput, 'type' | 'input' | 'synonyms'>): Pick<SearchSynonym, 'type' | 'input' | 'synonyms'> {
+  const clean = (term: string) => term.trim().replace(/\s+/g, ' ');
+  const source = type === 'one_way' && input ? clean(input) : null;
+
+  const seen = new Set(source ? [source.toLowerCase()] : []);
+  const terms = synonyms.map(clean).filter(term => {
+    const key = term.toLowerCase();
+    if (!term || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+
+  if (type === 'one_way' && !source) {
+    throw new ValidationError('A one-way synonym needs an input', [{ field: 'input', message: 'Required for one_way' }]);
+  }
+  if (type === 'synonym' && input) {
+    throw new ValidationError('Only one-way synonyms have an input', [
+      { field: 'input', message: 'Must be null for a two-way synonym' },
+    ]);
+  }
+  if (terms.length < (type === 'one_way' ? 1 : 2)) {
+    throw new ValidationError('Not enough distinct synonyms', [
+      { field: 'synonyms', message: type === 'one_way' ? 'Needs a term other than the input' : 'Needs at least two distinct terms' },
+    ]);
+  }
+
+  return { type, input: source, synonyms: terms };
+}
+
+// Also used by scripts/seed.ts, which reads search_synonyms with its own client
+export function toSynonymGroup(row: Pick<SearchSynonym, 'id' | 'type' | 'input' | 'synonyms'>): SynonymGroup {
+  return row.type === 'one_way' && row.input
+    ? { objectID: row.id, input: row.input, synonyms: row.synonyms }
+    : { objectID: row.id, synonyms: row.synonyms };
+}
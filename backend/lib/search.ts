@@ -0,0 +1,97 @@
+import type { WineWithReview, SearchResult } from '../types';
+
+// Search interface - implemented by Algolia, the in-process index and Postgres full-text
+export interface SearchService {
+  readonly name: string;
+  search(query: string, options?: SearchOptions): Promise<SearchResult[]>;
+  // Implemented by composite services that can report which provider answered
+  searchDetailed?(query: string, options?: SearchOptions): Promise<SearchOutcome>;
+  // Several searches in one round trip; results are in request order
+  multiSearch?(requests: MultiSearchRequest[]): Promise<SearchResult[][]>;
+  multiSearchDetailed?(requests: MultiSearchRequest[]): Promise<SearchOutcome[]>;
+  // Applies the shared index settings and replaces the synonyms; providers without either skip it
+  configureIndex?(synonyms: SynonymGroup[]): Promise<void>;
+  indexWine(wine: WineWithReview): Promise<void>;
+  indexWines(wines: WineWithReview[]): Promise<void>;
+  deleteWine(wineId: string): Promise<void>;
+}
+
+export interface SearchOutcome {
+  results: SearchResult[];
+  provider: string;
+  degraded: boolean;
+}
+
+export interface MultiSearchRequest {
+  query: string;
+  options?: SearchOptions;
+}
+
+export interface SearchOptions {
+  limit?: number;
+  filters?: {
+    color?: string;
+    country?: string;
+    min_score?: number;
+    vintage?: number;
+  };
+}
+
+// Thrown when no provider could answer a search
+export class SearchUnavailableError extends Error {
+  constructor(message: string, readonly cause?: unknown) {
+    super(message);
+    this.name = 'SearchUnavailableError';
+  }
+}
+
+export async function searchWithOutcome(
+  service: SearchService,
+  query: string,
+  options?: SearchOptions
+): Promise<SearchOutcome> {
+  if (service.searchDetailed) {
+    return service.searchDetailed(query, options);
+  }
+  const results = await service.search(query, options);
+  return { results, provider: service.name, degraded: false };
+}
+
+// Falls back to one search per request for providers without a batch API
+export async function multiSearchWithOutcome(
+  service: SearchService,
+  requests: MultiSearchRequest[]
+): Promise<SearchOutcome[]> {
+  if (service.multiSearchDetailed) {
+    return service.multiSearchDetailed(requests);
+  }
+  if (service.multiSearch) {
+    const results = await service.multiSearch(requests);
+    return results.map(result => ({ results: result, provider: service.name, degraded: false }));
+  }
+  return Promise.all(requests.map(request => searchWithOutcome(service, request.query, request.options)));
+}
+
+// Synonym groups shared by every provider (lib/search-settings.ts, or search_synonyms).
+// Two-way unless input is set: then queries with input also match the synonyms, not the reverse.
+export interface SynonymGroup {
+  objectID: string;
+  input?: string;
+  synonyms: string[];
+}
+
+export function normalizeText(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '') // Remove diacritics
+    .replace(/[^a-z0-9\s]/g, ' ')    // Remove special chars
+    .replace(/\s+/g, ' ')             // Normalize spaces
+    .trim();
+}
+
+export function wineFullName(wine: Pick<WineWithReview, 'producer' | 'name' | 'vintage'>): string {
+  return wine.vintage
+    ? `${wine.producer} ${wine.name} ${wine.vintage}`
+    : `${wine.producer} ${wine.name}`;
+}
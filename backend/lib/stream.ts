@@ -0,0 +1,44 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+
+// Incremental responses for long-running endpoints: newline-delimited JSON or Server-Sent Events
+
+export type StreamFormat = 'ndjson' | 'sse';
+
+export interface EventStream {
+  send(event: string, data: object): void;
+  end(): void;
+}
+
+// Explicit option wins; otherwise the Accept header decides. Null means a regular JSON response.
+export function resolveStreamFormat(req: VercelRequest, requested?: unknown): StreamFormat | null {
+  if (requested === 'ndjson' || requested === 'sse') return requested;
+
+  const accept = String(req.headers.accept ?? '');
+  if (accept.includes('text/event-stream')) return 'sse';
+  if (accept.includes('application/x-ndjson')) return 'ndjson';
+  return null;
+}
+
+export function openEventStream(res: VercelResponse, format: StreamFormat): EventStream {
+  res.status(200);
+  res.setHeader('Content-Type', format === 'sse' ? 'text/event-stream' : 'application/x-ndjson');
+  res.setHeader('Cache-Control', 'no-cache, no-transform');
+  res.setHeader('Connection', 'keep-alive');
+  // Stop proxies from buffering the whole response
+  res.setHeader('X-Accel-Buffering', 'no');
+  res.flushHeaders?.();
+
+  return {
+    send(event, data) {
+      if (format === 'sse') {
+        res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+      } else {
+        res.write(JSON.stringify({ type: event, ...data }) + '\n');
+      }
+    },
+
+    end() {
+      res.end();
+    },
+  };
+}
@@ -0,0 +1,135 @@
+import type { Subscription } from '../types';
+import type { AppStoreNotification, AppStoreTransaction, SubscriptionState } from './app-store';
+import { ConflictError } from './errors';
+import { supabaseAdmin } from './supabase';
+
+// Persists App Store subscription state on the users row. Every write carries the signedDate of
+// the App Store data it came from, and a write older than what's stored is dropped, so
+// verification calls and notifications can arrive in any order or more than once.
+
+const SUBSCRIPTION_COLUMNS =
+  'subscription_tier, subscription_status, subscription_expires_at, subscription_auto_renew, subscription_store, subscription_product_id';
+
+interface SubscriptionRow {
+  subscription_tier: Subscription['tier'];
+  subscription_status: Subscription['status'];
+  subscription_expires_at: string | null;
+  subscription_auto_renew: boolean | null;
+  subscription_store: Subscription['store'];
+  subscription_product_id: string | null;
+}
+
+export async function getSubscription(userId: string): Promise<Subscription | null> {
+  const { data, error } = await supabaseAdmin.from('users').select(SUBSCRIPTION_COLUMNS).eq('id', userId).maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load subscription: ${error.message}`);
+  }
+
+  return data ? toSubscription(data as SubscriptionRow) : null;
+}
+
+// Returns the user's subscription after the write (unchanged when newer data was already
+// applied), or null for an unknown user. Throws ConflictError when the original transaction
+// is already linked to another account.
+export async function applySubscriptionState(userId: string, state: SubscriptionState): Promise<Subscription | null> {
+  const { data, error } = await supabaseAdmin
+    .from('users')
+    .update({
+      subscription_tier: state.tier,
+      subscription_status: state.status,
+      subscription_expires_at: state.expires_at,
+      subscription_auto_renew: state.auto_renew,
+      subscription_store: 'app_store',
+      subscription_product_id: state.product_id,
+      subscription_environment: state.environment,
+      subscription_updated_at: state.signed_at,
+      app_store_original_transaction_id: state.original_transaction_id,
+    })
+    .eq('id', userId)
+    .or(`subscription_updated_at.is.null,subscription_updated_at.lte.${state.signed_at}`)
+    .select(SUBSCRIPTION_COLUMNS)
+    .maybeSingle();
+
+  if (error?.code === '23505') {
+    throw new ConflictError('This App Store subscription is linked to another account');
+  }
+  if (error) {
+    throw new Error(`Failed to update subscription: ${error.message}`);
+  }
+
+  return data ? toSubscription(data as SubscriptionRow) : getSubscription(userId);
+}
+
+// The account a transaction belongs to: the one it was verified for before, else the one
+// whose ID the app passed as appAccountToken at purchase
+export async function findUserIdForTransaction(transaction: AppStoreTransaction): Promise<string | null> {
+  const { data: linked, error } = await supabaseAdmin
+    .from('users')
+    .select('id')
+    .eq('app_store_original_transaction_id', transaction.originalTransactionId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to look up subscription owner: ${error.message}`);
+  }
+  if (linked) {
+    return linked.id;
+  }
+
+  const token = transaction.appAccountToken?.toLowerCase();
+  if (!token || !/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/.test(token)) {
+    return null;
+  }
+
+  const { data: owner } = await supabaseAdmin.from('users').select('id').eq('id', token).maybeSingle();
+  return owner?.id ?? null;
+}
+
+export async function isNotificationProcessed(notificationUuid: string): Promise<boolean> {
+  const { data, error } = await supabaseAdmin
+    .from('app_store_notifications')
+    .select('notification_uuid')
+    .eq('notification_uuid', notificationUuid)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to look up notification: ${error.message}`);
+  }
+
+  return Boolean(data);
+}
+
+// Recorded after the notification was applied, so a failed attempt is retried on redelivery
+export async function recordNotification(
+  notification: AppStoreNotification,
+  { originalTransactionId, userId }: { originalTransactionId: string | null; userId: string | null }
+): Promise<void> {
+  const { error } = await supabaseAdmin.from('app_store_notifications').upsert(
+    {
+      notification_uuid: notification.notificationUUID,
+      notification_type: notification.notificationType,
+      subtype: notification.subtype ?? null,
+      original_transaction_id: originalTransactionId,
+      user_id: userId,
+      environment: notification.data?.environment ?? null,
+      signed_at: new Date(notification.signedDate).toISOString(),
+    },
+    { onConflict: 'notification_uuid', ignoreDuplicates: true }
+  );
+
+  if (error) {
+    throw new Error(`Failed to record notification: ${error.message}`);
+  }
+}
+
+function toSubscription(row: SubscriptionRow): Subscription {
+  return {
+    tier: row.subscription_tier,
+    status: row.subscription_status,
+    expires_at: row.subscription_expires_at,
+    auto_renew: row.subscription_auto_renew ?? false,
+    store: row.subscription_store,
+    product_id: row.subscription_product_id,
+  };
+}
@@ -0,0 +1,76 @@
+// String distance helpers shared by the in-process index and match scoring
+
+// Optimal string alignment distance (Levenshtein plus adjacent transpositions).
+// Returns maxDistance + 1 as soon as the distance is known to exceed maxDistance.
+export function editDistance(a: string, b: string, maxDistance = Infinity): number {
+  if (a === b) return 0;
+  if (Math.abs(a.length - b.length) > maxDistance) return maxDistance + 1;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+
+  let prevPrev: number[] = [];
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(prev[j] + 1, current[j - 1] + 1, prev[j - 1] + cost);
+
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, prevPrev[j - 2] + 1);
+      }
+
+      current.push(value);
+      rowMin = Math.min(rowMin, value);
+    }
+
+    if (rowMin > maxDistance) return maxDistance + 1;
+    prevPrev = prev;
+    prev = current;
+  }
+
+  return prev[b.length];
+}
+
+// Simplified Soundex key (same encoding as the iOS TextNormalizer.phoneticKey)
+const PHONETIC_CODES: Record<string, string> = {
+  b: '1', f: '1', p: '1', v: '1',
+  c: '2', g: '2', j: '2', k: '2', q: '2', s: '2', x: '2', z: '2',
+  d: '3', t: '3',
+  l: '4',
+  m: '5', n: '5',
+  r: '6',
+};
+
+export function phoneticKey(word: string): string {
+  if (!word) return '';
+
+  let key = word[0].toUpperCase();
+  let lastCode = '';
+
+  for (const char of word.slice(1)) {
+    const code = PHONETIC_CODES[char];
+    if (code && code !== lastCode) {
+      key += code;
+      lastCode = code;
+    }
+  }
+
+  return key.padEnd(4, '0').slice(0, 4);
+}
+
+// 0..1 similarity between two normalized tokens: edit distance ratio with a
+// phonetic floor for longer words ("giscour" / "guiscours")
+export function tokenSimilarity(a: string, b: string): number {
+  if (a === b) return 1;
+  if (/^\d+$/.test(a) || /^\d+$/.test(b)) return 0;
+
+  const longest = Math.max(a.length, b.length);
+  const distanceScore = 1 - editDistance(a, b, longest) / longest;
+  const phoneticScore = a.length >= 4 && b.length >= 4 && phoneticKey(a) === phoneticKey(b) ? 0.8 : 0;
+
+  return Math.max(distanceScore, phoneticScore);
+}
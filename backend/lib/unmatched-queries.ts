@@ -0,0 +1,239 @@
+import type { BatchMatchResult, UnmatchedQuery, UnmatchedQueryCluster, UnmatchedQueryStatus, WineAlias } from '../types';
+import { NotFoundError } from './errors';
+import { uuidSchema } from './schemas/common';
+import { normalizeText } from './search';
+import { phoneticKey, tokenSimilarity } from './text-similarity';
+
+// Unmatched query mining: batch-match queries that found no match, or only a low-confidence
+// one, are counted per normalized query. The admin queue groups similar ones into clusters
+// ranked by how often they were seen; resolving a cluster links its queries to a wine through
+// wine_aliases, which the matcher checks before searching (lib/aliases.ts).
+
+// Matches under this confidence are recorded for review even though they were returned
+export const REVIEW_CONFIDENCE = 0.8;
+
+// Queries at least this similar (0-1, token by token) are clustered together
+const CLUSTER_SIMILARITY = 0.8;
+// Open queries clustered per queue request, most frequent first
+const MAX_CLUSTERED_QUERIES = 2000;
+// Shorter lines are too vague to be a wine ("red", "btl")
+const MIN_QUERY_LENGTH = 4;
+
+const QUERY_COLUMNS =
+  'id, sample_query, normalized_query, occurrences, best_confidence, best_wine_id, status, first_seen_at, last_seen_at';
+
+interface UnmatchedQueryRow extends Omit<UnmatchedQuery, 'query' | 'best_confidence'> {
+  sample_query: string;
+  // DECIMAL columns can arrive as strings
+  best_confidence: number | string;
+}
+
+// Imported lazily: batch matching runs without Supabase in local development
+async function db() {
+  return (await import('./supabase')).supabaseAdmin;
+}
+
+// Counts the misses of one batch. Never throws: losing a sample must not fail the match.
+export async function recordUnmatchedQueries(matches: BatchMatchResult[]): Promise<void> {
+  if (!process.env.SUPABASE_URL || !process.env.SUPABASE_SERVICE_KEY) {
+    return;
+  }
+
+  const misses = new Map<
+    string,
+    { normalized_query: string; query: string; occurrences: number; best_confidence: number; best_wine_id: string | null }
+  >();
+
+  for (const match of matches) {
+    if (match.error || (match.matched && match.confidence >= REVIEW_CONFIDENCE && !match.ambiguous)) continue;
+
+    const normalized = normalizeText(match.query);
+    if (normalized.length < MIN_QUERY_LENGTH || !/[a-z]/.test(normalized)) continue;
+
+    const bestWineId = match.wine?.id ?? match.candidates?.[0]?.wine.id ?? null;
+    const existing = misses.get(normalized);
+    if (existing) {
+      existing.occurrences++;
+    } else {
+      misses.set(normalized, {
+        normalized_query: normalized,
+        query: match.query.trim().slice(0, 500),
+        occurrences: 1,
+        best_confidence: match.confidence,
+        // Search indexes built from files use non-UUID IDs
+        best_wine_id: bestWineId && uuidSchema.safeParse(bestWineId).success ? bestWineId : null,
+      });
+    }
+  }
+
+  if (!misses.size) {
+    return;
+  }
+
+  try {
+    const supabaseAdmin = await db();
+    const { error } = await supabaseAdmin.rpc('record_unmatched_queries', { p_queries: [...misses.values()] });
+    if (error) {
+      console.error('Failed to record unmatched queries:', error);
+    }
+  } catch (err) {
+    console.error('Failed to record unmatched queries:', err);
+  }
+}
+
+// The open queue: similar queries clustered, clusters ranked by total occurrences
+export async function listUnmatchedClusters(filters: {
+  min_occurrences: number;
+  limit: number;
+  offset: number;
+}): Promise<{ clusters: UnmatchedQueryCluster[]; total: number }> {
+  const supabaseAdmin = await db();
+  const { data, error } = await supabaseAdmin
+    .from('unmatched_queries')
+    .select(QUERY_COLUMNS)
+    .eq('status', 'open')
+    .gte('occurrences', filters.min_occurrences)
+    .order('occurrences', { ascending: false })
+    .order('last_seen_at', { ascending: false })
+    .limit(MAX_CLUSTERED_QUERIES);
+
+  if (error) {
+    throw new Error(`Failed to load unmatched queries: ${error.message}`);
+  }
+
+  const clusters = clusterQueries(((data ?? []) as UnmatchedQueryRow[]).map(toUnmatchedQuery)).sort(
+    (a, b) => b.occurrences - a.occurrences
+  );
+  return { clusters: clusters.slice(filters.offset, filters.offset + filters.limit), total: clusters.length };
+}
+
+// Links the queries to a wine: one alias per normalized query (replacing any earlier link)
+export async function resolveUnmatchedQueries(
+  queryIds: string[],
+  wineId: string
+): Promise<{ resolved: UnmatchedQuery[]; aliases: WineAlias[] }> {
+  const supabaseAdmin = await db();
+  const queries = await loadQueries(queryIds);
+
+  const { data: aliases, error: aliasError } = await supabaseAdmin
+    .from('wine_aliases')
+    .upsert(
+      queries.map(query => ({ alias: query.query, normalized_alias: query.normalized_query, wine_id: wineId })),
+      { onConflict: 'normalized_alias' }
+    )
+    .select('id, alias, normalized_alias, wine_id, created_at');
+
+  if (aliasError?.code === '23503') {
+    throw new NotFoundError('Wine not found');
+  }
+  if (aliasError) {
+    throw new Error(`Failed to create wine aliases: ${aliasError.message}`);
+  }
+
+  const resolved = await setStatus(
+    queries.map(query => query.id),
+    'resolved',
+    { wine_id: wineId, resolved_at: new Date().toISOString() }
+  );
+  return { resolved, aliases: (aliases ?? []) as WineAlias[] };
+}
+
+// Takes queries that aren't wines ("house red", "corkage") out of the queue
+export async function ignoreUnmatchedQueries(queryIds: string[]): Promise<UnmatchedQuery[]> {
+  const queries = await loadQueries(queryIds);
+  return setStatus(
+    queries.map(query => query.id),
+    'ignored',
+    { wine_id: null, resolved_at: new Date().toISOString() }
+  );
+}
+
+async function loadQueries(ids: string[]): Promise<UnmatchedQuery[]> {
+  const supabaseAdmin = await db();
+  const { data, error } = await supabaseAdmin.from('unmatched_queries').select(QUERY_COLUMNS).in('id', ids);
+
+  if (error) {
+    throw new Error(`Failed to load unmatched queries: ${error.message}`);
+  }
+  if (!data?.length) {
+    throw new NotFoundError('Unmatched queries not found');
+  }
+  return (data as UnmatchedQueryRow[]).map(toUnmatchedQuery);
+}
+
+async function setStatus(
+  ids: string[],
+  status: UnmatchedQueryStatus,
+  changes: { wine_id: string | null; resolved_at: string }
+): Promise<UnmatchedQuery[]> {
+  const supabaseAdmin = await db();
+  const { data, error } = await supabaseAdmin
+    .from('unmatched_queries')
+    .update({ status, ...changes })
+    .in('id', ids)
+    .select(QUERY_COLUMNS);
+
+  if (error) {
+    throw new Error(`Failed to update unmatched queries: ${error.message}`);
+  }
+  return ((data ?? []) as UnmatchedQueryRow[]).map(toUnmatchedQuery);
+}
+
+function toUnmatchedQuery({ sample_query, best_confidence, ...row }: UnmatchedQueryRow): UnmatchedQuery {
+  return { ...row, query: sample_query, best_confidence: Number(best_confidence) };
+}
+
+// Greedy single pass, most frequent first: each query joins the first cluster whose leading
+// query is similar enough, else starts its own. Only clusters sharing a token's phonetic key
+// are compared, which keeps a queue of thousands fast.
+function clusterQueries(queries: UnmatchedQuery[]): UnmatchedQueryCluster[] {
+  const clusters: { tokens: string[]; cluster: UnmatchedQueryCluster }[] = [];
+  const byKey = new Map<string, number[]>();
+
+  for (const query of queries) {
+    const tokens = query.normalized_query.split(' ');
+    const keys = [...new Set(tokens.filter(token => !/^\d+$/.test(token)).map(phoneticKey))];
+
+    const candidates = [...new Set(keys.flatMap(key => byKey.get(key) ?? []))].sort((a, b) => a - b);
+    const home = candidates.find(index => querySimilarity(tokens, clusters[index].tokens) >= CLUSTER_SIMILARITY);
+
+    if (home !== undefined) {
+      const { cluster } = clusters[home];
+      cluster.queries.push(query);
+      cluster.occurrences += query.occurrences;
+      if (query.best_confidence > cluster.best_confidence) {
+        cluster.best_confidence = query.best_confidence;
+        cluster.best_wine_id = query.best_wine_id;
+      }
+      if (query.last_seen_at > cluster.last_seen_at) cluster.last_seen_at = query.last_seen_at;
+      continue;
+    }
+
+    const index = clusters.length;
+    clusters.push({
+      tokens,
+      cluster: {
+        id: query.id,
+        query: query.query,
+        occurrences: query.occurrences,
+        best_confidence: query.best_confidence,
+        best_wine_id: query.best_wine_id,
+        last_seen_at: query.last_seen_at,
+        queries: [query],
+      },
+    });
+    for (const key of keys) {
+      byKey.set(key, [...(byKey.get(key) ?? []), index]);
+    }
+  }
+
+  return clusters.map(({ cluster }) => cluster);
+}
+
+// Every token of each query must find a close token in the other; a different vintage
+// (numbers only match exactly) keeps two queries apart
+function querySimilarity(a: string[], b: string[]): number {
+  const coverage = (from: string[], to: string[]) =>
+    from.reduce((total, token) => total + Math.max(...to.map(other => tokenSimilarity(token, other))), 0) / from.length;
+  return Math.min(coverage(a, b), coverage(b, a));
+}
@@ -0,0 +1,33 @@
+import type { ZodIssue, ZodType, ZodTypeDef } from 'zod';
+import { ValidationError } from './errors';
+
+// zod parsing for request bodies and query strings. Failures throw a ValidationError, which the
+// handler pipeline reports in the standard error envelope with one detail per issue.
+
+export function validate<T>(schema: ZodType<T, ZodTypeDef, unknown>, input: unknown): T {
+  const result = schema.safeParse(input);
+  if (result.success) {
+    return result.data;
+  }
+
+  const details = flattenIssues(result.error.issues).map(issue => ({
+    field: issue.path.join('.') || null,
+    message: issue.message,
+  }));
+  const [first] = details;
+
+  throw new ValidationError(first.field ? `${first.field}: ${first.message}` : first.message, details);
+}
+
+// zod reports a failed union as a bare "Invalid input"; report the issues of the branch whose
+// type matched instead (e.g. the object form of a query), if exactly one did
+function flattenIssues(issues: ZodIssue[]): ZodIssue[] {
+  return issues.flatMap(issue => {
+    if (issue.code !== 'invalid_union') return [issue];
+
+    const matching = issue.unionErrors.filter(
+      error => !error.issues.some(inner => inner.code === 'invalid_type' && inner.path.length === issue.path.length)
+    );
+    return matching.length === 1 ? flattenIssues(matching[0].issues) : [issue];
+  });
+}
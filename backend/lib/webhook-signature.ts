@@ -0,0 +1,33 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+// Webhook signatures: HMAC-SHA256 of "<timestamp>.<raw body>" keyed with the endpoint
+// secret, sent as "sha256=<hex>" in X-Webhook-Signature next to X-Webhook-Timestamp (Unix
+// seconds). Signing the timestamp lets receivers reject replayed deliveries.
+
+export const SIGNATURE_HEADER = 'X-Webhook-Signature';
+export const TIMESTAMP_HEADER = 'X-Webhook-Timestamp';
+
+// How old a delivery's timestamp may be before receivers should treat it as replayed
+export const DEFAULT_TOLERANCE_SECONDS = 300;
+
+export function signWebhook(secret: string, timestamp: number, body: string): string {
+  return `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+}
+
+// For receivers (see scripts/webhook-receiver.ts): the signature must match and the
+// timestamp be within the tolerance of now
+export function verifyWebhookSignature(
+  secret: string,
+  body: string,
+  { signature, timestamp }: { signature: string | null | undefined; timestamp: string | null | undefined },
+  { toleranceSeconds = DEFAULT_TOLERANCE_SECONDS, now = Date.now() }: { toleranceSeconds?: number; now?: number } = {}
+): boolean {
+  const sentAt = Number(timestamp);
+  if (!signature || !Number.isInteger(sentAt) || Math.abs(now / 1000 - sentAt) > toleranceSeconds) {
+    return false;
+  }
+
+  const expected = Buffer.from(signWebhook(secret, sentAt, body));
+  const provided = Buffer.from(signature);
+  return provided.length === expected.length && timingSafeEqual(provided, expected);
+}
@@ -0,0 +1,97 @@
+import { lookup } from 'dns';
+import { BlockList, isIP, type LookupFunction } from 'net';
+
+// Webhook URLs must point at the public internet: the dispatcher POSTs from the server and the
+// delivery log shows the response body, so an internal address would be a readable SSRF.
+// Hosts are checked when an endpoint is registered, and the dispatcher connects through
+// publicOnlyLookup, which checks the addresses the connection actually uses (a host that
+// resolves to a public address once and a private one next can't slip through).
+// WEBHOOK_ALLOW_INSECURE_URLS=true lifts both checks (and allows http) for local receivers.
+
+const PRIVATE_NETWORKS = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10], // carrier-grade NAT
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16], // link-local, cloud metadata
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4], // multicast
+  ['240.0.0.0', 4], // reserved, broadcast
+] as const) {
+  PRIVATE_NETWORKS.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128],
+  ['::1', 128],
+  ['64:ff9b::', 96], // NAT64 of an IPv4 address
+  ['fc00::', 7], // unique local
+  ['fe80::', 10], // link-local
+  ['ff00::', 8], // multicast
+] as const) {
+  PRIVATE_NETWORKS.addSubnet(network, prefix, 'ipv6');
+}
+
+export class WebhookUrlError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WebhookUrlError';
+  }
+}
+
+export function allowsInsecureWebhookUrls(): boolean {
+  return process.env.WEBHOOK_ALLOW_INSECURE_URLS === 'true';
+}
+
+export function isPrivateAddress(address: string): boolean {
+  const version = isIP(address);
+  if (version === 4) {
+    return PRIVATE_NETWORKS.check(address, 'ipv4');
+  }
+  if (version === 6) {
+    // IPv4-mapped (::ffff:10.0.0.1) is checked as the IPv4 address
+    const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+    return mapped ? PRIVATE_NETWORKS.check(mapped[1], 'ipv4') : PRIVATE_NETWORKS.check(address, 'ipv6');
+  }
+  return false;
+}
+
+// Registration check, without DNS: localhost names and private IP literals
+export function isPublicWebhookHost(url: string): boolean {
+  if (allowsInsecureWebhookUrls()) return true;
+
+  const hostname = hostnameOf(url);
+  if (!hostname) return false;
+  if (hostname === 'localhost' || hostname.endsWith('.localhost')) return false;
+  return !isPrivateAddress(hostname);
+}
+
+// DNS lookup for webhook connections: fails with WebhookUrlError when the host resolves to a
+// private address. IP literals skip the lookup; isPublicWebhookHost covers them.
+export const publicOnlyLookup: LookupFunction = (hostname, options, callback) => {
+  lookup(hostname, options, (err, address, family) => {
+    if (err) {
+      callback(err, address, family);
+      return;
+    }
+
+    const addresses = Array.isArray(address) ? address.map(entry => entry.address) : [address];
+    if (addresses.some(isPrivateAddress)) {
+      callback(new WebhookUrlError(`Webhook host ${hostname} resolves to a private address`), address, family);
+      return;
+    }
+    callback(null, address, family);
+  });
+};
+
+// Lower-cased, without the brackets of an IPv6 literal or a trailing dot
+function hostnameOf(url: string): string | null {
+  try {
+    return new URL(url).hostname.toLowerCase().replace(/^\[(.*)\]$/, '$1').replace(/\.$/, '');
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,387 @@
+import { randomBytes } from 'crypto';
+import http from 'http';
+import https from 'https';
+import type { WebhookDelivery, WebhookDeliveryStatus, WebhookEndpoint, WebhookEventType } from '../types';
+import { ConflictError } from './errors';
+import { supabaseAdmin } from './supabase';
+import { SIGNATURE_HEADER, TIMESTAMP_HEADER, signWebhook } from './webhook-signature';
+import { allowsInsecureWebhookUrls, isPublicWebhookHost, publicOnlyLookup, WebhookUrlError } from './webhook-url';
+
+// Outbound webhooks for business accounts. Events are written to the webhook_events outbox by
+// database triggers in the same transaction as the change (see webhooks_migration.sql), with
+// one webhook_deliveries row per subscribed endpoint. dispatchDueDeliveries() sends the due
+// ones, signed, and reschedules failures with exponential backoff.
+
+export const MAX_WEBHOOK_ENDPOINTS = 10;
+export const MAX_DELIVERY_ATTEMPTS = 8;
+
+// Retries wait 1, 2, 4 ... minutes, at most 6 hours
+const RETRY_BASE_MS = 60_000;
+const RETRY_MAX_MS = 6 * 60 * 60_000;
+const DELIVERY_TIMEOUT_MS = 10_000;
+// Longer than a delivery can take, so a claimed delivery isn't picked up again mid-send
+const CLAIM_LEASE_SECONDS = 60;
+const RESPONSE_BODY_LIMIT = 1000;
+
+const ENDPOINT_COLUMNS = 'id, url, description, events, enabled, created_at';
+const DELIVERY_SELECT =
+  'id, endpoint_id, event_id, status, attempts, next_attempt_at, last_attempt_at, response_status, response_body, error, redelivery_of, created_at, webhook_events!inner (type, account_id)' as const;
+
+export interface WebhookEndpointInput {
+  url: string;
+  description?: string | null;
+  events: WebhookEventType[];
+  enabled?: boolean;
+}
+
+// Endpoints
+
+// The secret is only returned here; it signs every delivery to the endpoint
+export async function createWebhookEndpoint(
+  accountId: string,
+  input: WebhookEndpointInput
+): Promise<{ endpoint: WebhookEndpoint; secret: string }> {
+  const { count, error: countError } = await supabaseAdmin
+    .from('webhook_endpoints')
+    .select('id', { count: 'exact', head: true })
+    .eq('account_id', accountId);
+
+  if (countError) {
+    throw new Error(`Failed to count webhook endpoints: ${countError.message}`);
+  }
+  if ((count ?? 0) >= MAX_WEBHOOK_ENDPOINTS) {
+    throw new ConflictError(`An account can register at most ${MAX_WEBHOOK_ENDPOINTS} webhook endpoints`);
+  }
+
+  const secret = `whsec_${randomBytes(24).toString('base64url')}`;
+  const { data, error } = await supabaseAdmin
+    .from('webhook_endpoints')
+    .insert({
+      account_id: accountId,
+      url: input.url,
+      description: input.description ?? null,
+      events: [...new Set(input.events)],
+      enabled: input.enabled ?? true,
+      secret,
+    })
+    .select(ENDPOINT_COLUMNS)
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Failed to create webhook endpoint: ${error?.message}`);
+  }
+  return { endpoint: data as WebhookEndpoint, secret };
+}
+
+export async function listWebhookEndpoints(accountId: string): Promise<WebhookEndpoint[]> {
+  const { data, error } = await supabaseAdmin
+    .from('webhook_endpoints')
+    .select(ENDPOINT_COLUMNS)
+    .eq('account_id', accountId)
+    .order('created_at');
+
+  if (error) {
+    throw new Error(`Failed to list webhook endpoints: ${error.message}`);
+  }
+  return (data ?? []) as WebhookEndpoint[];
+}
+
+export async function getWebhookEndpoint(accountId: string, id: string): Promise<WebhookEndpoint | null> {
+  const { data, error } = await supabaseAdmin
+    .from('webhook_endpoints')
+    .select(ENDPOINT_COLUMNS)
+    .eq('id', id)
+    .eq('account_id', accountId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load webhook endpoint: ${error.message}`);
+  }
+  return data as WebhookEndpoint | null;
+}
+
+// Omitted fields are kept
+export async function updateWebhookEndpoint(
+  accountId: string,
+  id: string,
+  input: Partial<WebhookEndpointInput>
+): Promise<WebhookEndpoint | null> {
+  const changes = {
+    ...(input.url !== undefined ? { url: input.url } : {}),
+    ...(input.description !== undefined ? { description: input.description } : {}),
+    ...(input.events !== undefined ? { events: [...new Set(input.events)] } : {}),
+    ...(input.enabled !== undefined ? { enabled: input.enabled } : {}),
+  };
+  if (!Object.keys(changes).length) {
+    return getWebhookEndpoint(accountId, id);
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('webhook_endpoints')
+    .update(changes)
+    .eq('id', id)
+    .eq('account_id', accountId)
+    .select(ENDPOINT_COLUMNS)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to update webhook endpoint: ${error.message}`);
+  }
+  return data as WebhookEndpoint | null;
+}
+
+// Deletes the endpoint with its delivery log
+export async function deleteWebhookEndpoint(accountId: string, id: string): Promise<boolean> {
+  const { data, error } = await supabaseAdmin
+    .from('webhook_endpoints')
+    .delete()
+    .eq('id', id)
+    .eq('account_id', accountId)
+    .select('id');
+
+  if (error) {
+    throw new Error(`Failed to delete webhook endpoint: ${error.message}`);
+  }
+  return Boolean(data?.length);
+}
+
+// Delivery log
+
+interface DeliveryRow extends Omit<WebhookDelivery, 'event'> {
+  webhook_events: { type: WebhookEventType; account_id: string };
+}
+
+function toDelivery({ webhook_events, ...row }: DeliveryRow): WebhookDelivery {
+  return { ...row, event: webhook_events.type };
+}
+
+export async function listDeliveries(
+  accountId: string,
+  filters: { endpoint_id?: string; status?: WebhookDeliveryStatus; limit: number; offset: number }
+): Promise<{ deliveries: WebhookDelivery[]; total: number }> {
+  let query = supabaseAdmin
+    .from('webhook_deliveries')
+    .select(DELIVERY_SELECT, { count: 'exact' })
+    .eq('webhook_events.account_id', accountId);
+
+  if (filters.endpoint_id) query = query.eq('endpoint_id', filters.endpoint_id);
+  if (filters.status) query = query.eq('status', filters.status);
+
+  const { data, error, count } = await query
+    .order('created_at', { ascending: false })
+    .range(filters.offset, filters.offset + filters.limit - 1);
+
+  if (error) {
+    throw new Error(`Failed to list webhook deliveries: ${error.message}`);
+  }
+  return { deliveries: ((data ?? []) as unknown as DeliveryRow[]).map(toDelivery), total: count ?? 0 };
+}
+
+export async function getDelivery(accountId: string, id: string): Promise<WebhookDelivery | null> {
+  const { data, error } = await supabaseAdmin
+    .from('webhook_deliveries')
+    .select(DELIVERY_SELECT)
+    .eq('id', id)
+    .eq('webhook_events.account_id', accountId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load webhook delivery: ${error.message}`);
+  }
+  return data ? toDelivery(data as unknown as DeliveryRow) : null;
+}
+
+// Queues the delivery's event to its endpoint again, as a new delivery sent on the next dispatch
+export async function redeliver(accountId: string, id: string): Promise<WebhookDelivery | null> {
+  const original = await getDelivery(accountId, id);
+  if (!original) {
+    return null;
+  }
+
+  const endpoint = await getWebhookEndpoint(accountId, original.endpoint_id);
+  if (!endpoint?.enabled) {
+    throw new ConflictError('Webhook endpoint is disabled');
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('webhook_deliveries')
+    .insert({ event_id: original.event_id, endpoint_id: original.endpoint_id, redelivery_of: original.id })
+    .select(DELIVERY_SELECT)
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Failed to queue redelivery: ${error?.message}`);
+  }
+  return toDelivery(data as unknown as DeliveryRow);
+}
+
+// Dispatch
+
+interface ClaimedDelivery {
+  delivery_id: string;
+  attempts: number;
+  event_id: string;
+  event_type: WebhookEventType;
+  account_id: string;
+  data: unknown;
+  event_created_at: string;
+  url: string;
+  secret: string;
+  enabled: boolean;
+}
+
+export interface DispatchResult {
+  sent: number;
+  succeeded: number;
+  retrying: number;
+  failed: number;
+}
+
+type DeliveryOutcome = Pick<WebhookDelivery, 'status' | 'response_status' | 'response_body' | 'error'>;
+
+// Sends up to limit due deliveries. Safe to run concurrently: each delivery is claimed first.
+export async function dispatchDueDeliveries({ limit = 50 }: { limit?: number } = {}): Promise<DispatchResult> {
+  const { data, error } = await supabaseAdmin.rpc('claim_webhook_deliveries', {
+    p_limit: limit,
+    p_lease_seconds: CLAIM_LEASE_SECONDS,
+  });
+  if (error) {
+    throw new Error(`Failed to claim webhook deliveries: ${error.message}`);
+  }
+
+  const claimed = (data ?? []) as ClaimedDelivery[];
+  const outcomes = await Promise.all(claimed.map(deliver));
+
+  return {
+    sent: claimed.length,
+    succeeded: outcomes.filter(status => status === 'succeeded').length,
+    retrying: outcomes.filter(status => status === 'pending').length,
+    failed: outcomes.filter(status => status === 'failed').length,
+  };
+}
+
+async function deliver(delivery: ClaimedDelivery): Promise<WebhookDeliveryStatus> {
+  if (!delivery.enabled) {
+    await recordOutcome(delivery, { status: 'failed', response_status: null, response_body: null, error: 'Endpoint disabled' }, false);
+    return 'failed';
+  }
+
+  const body = JSON.stringify({
+    id: delivery.event_id,
+    event: delivery.event_type,
+    timestamp: delivery.event_created_at,
+    account_id: delivery.account_id,
+    data: delivery.data,
+  });
+  const timestamp = Math.floor(Date.now() / 1000);
+
+  let outcome: DeliveryOutcome;
+  const signal = AbortSignal.timeout(DELIVERY_TIMEOUT_MS);
+  try {
+    const response = await post(
+      delivery.url,
+      {
+        'Content-Type': 'application/json',
+        'User-Agent': 'WineListAssistant-Webhooks/1.0',
+        // Same for every attempt and redelivery of an event, so receivers can deduplicate
+        'X-Webhook-Id': delivery.event_id,
+        'X-Webhook-Event': delivery.event_type,
+        [TIMESTAMP_HEADER]: String(timestamp),
+        [SIGNATURE_HEADER]: signWebhook(delivery.secret, timestamp, body),
+      },
+      body,
+      signal
+    );
+    const ok = response.status >= 200 && response.status < 300;
+
+    outcome = ok
+      ? { status: 'succeeded', response_status: response.status, response_body: response.body, error: null }
+      : { status: 'pending', response_status: response.status, response_body: response.body, error: `HTTP ${response.status}` };
+  } catch (err) {
+    const timedOut = signal.aborted;
+    outcome = {
+      // Retrying won't make a private address public
+      status: err instanceof WebhookUrlError ? 'failed' : 'pending',
+      response_status: null,
+      response_body: null,
+      error: timedOut ? `Timed out after ${DELIVERY_TIMEOUT_MS / 1000}s` : err instanceof Error ? err.message : String(err),
+    };
+  }
+
+  if (outcome.status === 'pending' && delivery.attempts + 1 >= MAX_DELIVERY_ATTEMPTS) {
+    outcome.status = 'failed';
+  }
+
+  await recordOutcome(delivery, outcome, true);
+  return outcome.status;
+}
+
+// POSTs the delivery without following redirects and reads up to RESPONSE_BODY_LIMIT
+// characters of the response. Not fetch: its DNS lookup can't be checked, and the address has
+// to be vetted on the connection itself (publicOnlyLookup). Host and SNI stay the URL's host.
+function post(
+  url: string,
+  headers: Record<string, string>,
+  body: string,
+  signal: AbortSignal
+): Promise<{ status: number; body: string }> {
+  return new Promise((resolve, reject) => {
+    if (!isPublicWebhookHost(url)) {
+      reject(new WebhookUrlError('Webhook URL points at a private address'));
+      return;
+    }
+
+    const target = new URL(url);
+    const request = (target.protocol === 'https:' ? https : http).request(
+      target,
+      {
+        method: 'POST',
+        headers: { ...headers, 'Content-Length': String(Buffer.byteLength(body)) },
+        lookup: allowsInsecureWebhookUrls() ? undefined : publicOnlyLookup,
+        signal,
+      },
+      response => {
+        let text = '';
+        const finish = () => {
+          resolve({ status: response.statusCode ?? 0, body: text.slice(0, RESPONSE_BODY_LIMIT) });
+          response.destroy();
+        };
+
+        response.setEncoding('utf8');
+        response.on('data', (chunk: string) => {
+          text += chunk;
+          if (text.length >= RESPONSE_BODY_LIMIT) finish();
+        });
+        response.on('end', finish);
+        response.on('error', reject);
+      }
+    );
+
+    request.on('error', reject);
+    request.end(body);
+  });
+}
+
+async function recordOutcome(delivery: ClaimedDelivery, outcome: DeliveryOutcome, attempted: boolean): Promise<void> {
+  const attempts = delivery.attempts + (attempted ? 1 : 0);
+  const now = Date.now();
+
+  const { error } = await supabaseAdmin
+    .from('webhook_deliveries')
+    .update({
+      ...outcome,
+      attempts,
+      ...(attempted ? { last_attempt_at: new Date(now).toISOString() } : {}),
+      next_attempt_at: outcome.status === 'pending' ? new Date(now + retryDelayMs(attempts)).toISOString() : null,
+    })
+    .eq('id', delivery.delivery_id);
+
+  if (error) {
+    // The lease runs out and the delivery is retried; receivers deduplicate by X-Webhook-Id
+    console.error(`Failed to record webhook delivery ${delivery.delivery_id}:`, error.message);
+  }
+}
+
+function retryDelayMs(attempts: number): number {
+  return Math.min(RETRY_BASE_MS * 2 ** Math.max(attempts - 1, 0), RETRY_MAX_MS);
+}
@@ -0,0 +1,184 @@
+import type { BrowseFacet, BrowseFacets, BrowseFilters, BrowseSort, BrowseWine, FacetCount } from '../types';
+import { ValidationError } from './errors';
+import { uuidSchema } from './schemas/common';
+import { BROWSE_FACETS, BROWSE_SORTS, type BrowseWinesQuery } from './schemas/wines';
+import { supabaseAdmin } from './supabase';
+
+// Catalog browse over the wine_catalog view (reviewed wines with their headline review).
+// browse_wine_catalog() applies the filters, wine_catalog_facets() counts them. Pages are
+// keyset-paginated on (sort column, id), so wines added between requests don't shift a page.
+
+// Bucket order of the range facets; the SQL names the buckets
+const SCORE_BUCKETS = ['95-100', '90-94', '85-89', '80-84', 'below_80'];
+const PRICE_BUCKETS = ['under_25', '25-50', '50-100', '100-200', '200_plus', 'unknown'];
+
+const DEFAULT_ORDER: Record<BrowseSort, 'asc' | 'desc'> = {
+  score: 'desc',
+  price: 'asc',
+  vintage: 'desc',
+  rank: 'asc',
+};
+
+interface Cursor {
+  // sort:order the cursor was issued for
+  s: string;
+  // Sort column value of the last wine on the page
+  v: number | null;
+  id: string;
+}
+
+interface CatalogRow extends Omit<BrowseWine, 'release_price'> {
+  grape_names: string[];
+  // DECIMAL columns can arrive as strings
+  release_price: number | string | null;
+}
+
+interface FacetRow {
+  facet: BrowseFacet | 'total';
+  value: string | null;
+  wines: number | string;
+}
+
+export async function browseWines(query: BrowseWinesQuery): Promise<{
+  wines: BrowseWine[];
+  facets: BrowseFacets;
+  total: number;
+  next_cursor: string | null;
+}> {
+  const filters = toFilters(query);
+  const column = BROWSE_SORTS[query.sort];
+  const order = query.order ?? DEFAULT_ORDER[query.sort];
+  const sortKey = `${query.sort}:${order}`;
+
+  let request = supabaseAdmin.rpc('browse_wine_catalog', { p_filters: filters });
+  if (query.cursor) {
+    request = request.or(afterCursor(column, order, decodeCursor(query.cursor, sortKey)));
+  }
+
+  // One extra row tells whether there is a next page
+  const [items, facets] = await Promise.all([
+    request
+      .order(column, { ascending: order === 'asc', nullsFirst: false })
+      .order('id')
+      .limit(query.limit + 1),
+    supabaseAdmin.rpc('wine_catalog_facets', { p_filters: filters }),
+  ]);
+
+  if (items.error) {
+    throw new Error(`Failed to browse wines: ${items.error.message}`);
+  }
+  if (facets.error) {
+    throw new Error(`Failed to count wine facets: ${facets.error.message}`);
+  }
+
+  const rows = (items.data ?? []) as CatalogRow[];
+  const wines = rows.slice(0, query.limit).map(toBrowseWine);
+  const last = wines[wines.length - 1];
+  const next_cursor =
+    rows.length > query.limit && last ? encodeCursor({ s: sortKey, v: sortValue(last, query.sort), id: last.id }) : null;
+
+  return { wines, ...toFacets((facets.data ?? []) as FacetRow[]), next_cursor };
+}
+
+// Only the filters that are set, as browse_wine_catalog() reads them
+function toFilters(query: BrowseWinesQuery): BrowseFilters {
+  const { sort, order, cursor, limit, ...filters } = query;
+  return Object.fromEntries(Object.entries(filters).filter(([, value]) => value !== undefined)) as BrowseFilters;
+}
+
+// Rows after the cursor in (column, id) order. Wines without the sort value come last, so
+// after a valued row they all follow, and after a null one only the later ids do.
+function afterCursor(column: string, order: 'asc' | 'desc', cursor: Cursor): string {
+  if (cursor.v === null) {
+    return `and(${column}.is.null,id.gt.${cursor.id})`;
+  }
+  const beyond = order === 'asc' ? 'gt' : 'lt';
+  return `${column}.${beyond}.${cursor.v},and(${column}.eq.${cursor.v},id.gt.${cursor.id}),${column}.is.null`;
+}
+
+function sortValue(wine: BrowseWine, sort: BrowseSort): number | null {
+  switch (sort) {
+    case 'score':
+      return wine.score;
+    case 'price':
+      return wine.release_price;
+    case 'vintage':
+      return wine.vintage;
+    case 'rank':
+      return wine.top100_rank;
+  }
+}
+
+function encodeCursor(cursor: Cursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+// A cursor only continues the listing it came from: another sort would skip or repeat wines
+function decodeCursor(value: string, sortKey: string): Cursor {
+  let cursor: Partial<Cursor> | null = null;
+  try {
+    cursor = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+  } catch {
+    // Reported below
+  }
+
+  const valid =
+    cursor !== null &&
+    typeof cursor === 'object' &&
+    (cursor.v === null || (typeof cursor.v === 'number' && Number.isFinite(cursor.v))) &&
+    uuidSchema.safeParse(cursor.id).success;
+
+  if (!valid) {
+    throw new ValidationError('Invalid cursor', [{ field: 'cursor', message: 'Use next_cursor from a previous page' }]);
+  }
+  if (cursor!.s !== sortKey) {
+    throw new ValidationError('Cursor is for a different sort', [
+      { field: 'cursor', message: 'Keep sort and order while paging' },
+    ]);
+  }
+  return cursor as Cursor;
+}
+
+function toBrowseWine({ grape_names, release_price, ...row }: CatalogRow): BrowseWine {
+  return {
+    ...row,
+    grape_varieties: row.grape_varieties ?? [],
+    label_url: row.label_url || null,
+    top100_rank: row.top100_rank || null,
+    top100_year: row.top100_year || null,
+    release_price: release_price === null ? null : Number(release_price),
+  };
+}
+
+// Range buckets keep their natural order, years run newest first, the rest by count
+function toFacets(rows: FacetRow[]): { facets: BrowseFacets; total: number } {
+  const facets = Object.fromEntries(BROWSE_FACETS.map(facet => [facet, [] as FacetCount[]])) as BrowseFacets;
+  let total = 0;
+
+  for (const row of rows) {
+    if (row.facet === 'total') {
+      total = Number(row.wines);
+    } else if (row.value !== null && facets[row.facet]) {
+      facets[row.facet].push({ value: row.value, count: Number(row.wines) });
+    }
+  }
+
+  const byCount = (a: FacetCount, b: FacetCount) => b.count - a.count || a.value.localeCompare(b.value);
+  const byYear = (a: FacetCount, b: FacetCount) => Number(b.value) - Number(a.value);
+  const inOrder = (buckets: string[]) => (a: FacetCount, b: FacetCount) =>
+    buckets.indexOf(a.value) - buckets.indexOf(b.value);
+
+  for (const facet of BROWSE_FACETS) {
+    facets[facet].sort(
+      facet === 'score'
+        ? inOrder(SCORE_BUCKETS)
+        : facet === 'price'
+          ? inOrder(PRICE_BUCKETS)
+          : facet === 'vintage' || facet === 'top100_year'
+            ? byYear
+            : byCount
+    );
+  }
+
+  return { facets, total };
+}
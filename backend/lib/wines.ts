@@ -0,0 +1,209 @@
+import type { HeadlineReviewRule, Review, ReviewHistory, WineColor, WineDetail, WineWithReview } from '../types';
+import { DEFAULT_HEADLINE_RULE, pickHeadlineReview, summarizeReviews } from './reviews';
+import { supabaseAdmin } from './supabase';
+
+// Wine lookups over the wines table with its reviews embedded, shared by the wine detail,
+// replacement and alias routes. Each wine carries its headline review (lib/reviews.ts).
+
+const REVIEW_COLUMNS =
+  'score, tasting_note, reviewer_initials, reviewer_name, review_date, issue_date, drink_window_start, drink_window_end, release_price, release_price_currency';
+
+const WINE_DETAIL_SELECT = `*, reviews (${REVIEW_COLUMNS})` as const;
+
+// Only wines that have a review. Filters on review columns would also trim the embedded
+// reviews (and so the headline); filter on wine_catalog instead.
+const REVIEWED_WINE_SELECT = `*, reviews!inner (${REVIEW_COLUMNS})` as const;
+
+const ID_CHUNK_SIZE = 100;
+
+export async function getWineDetail(id: string, rule: HeadlineReviewRule = DEFAULT_HEADLINE_RULE): Promise<WineDetail | null> {
+  const row = await getWineRow(id);
+  return row ? toWineDetail(row, rule) : null;
+}
+
+// The wine with its headline review and a summary of all of its reviews
+export async function getWineWithReviewHistory(
+  id: string,
+  rule: HeadlineReviewRule = DEFAULT_HEADLINE_RULE
+): Promise<{ wine: WineDetail; review_history: ReviewHistory } | null> {
+  const row = await getWineRow(id);
+  return row ? { wine: toWineDetail(row, rule), review_history: summarizeReviews(row.reviews ?? []) } : null;
+}
+
+async function getWineRow(id: string): Promise<WineRow | null> {
+  const { data, error } = await supabaseAdmin.from('wines').select(WINE_DETAIL_SELECT).eq('id', id).maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load wine: ${error.message}`);
+  }
+
+  return (data as WineRow | null) ?? null;
+}
+
+// Reviewed wines by ID, in chunks so long ID lists stay within URL limits; unknown IDs are skipped
+export async function getWinesByIds(ids: string[]): Promise<WineDetail[]> {
+  const wines: WineDetail[] = [];
+
+  for (let i = 0; i < ids.length; i += ID_CHUNK_SIZE) {
+    const { data, error } = await supabaseAdmin
+      .from('wines')
+      .select(REVIEWED_WINE_SELECT)
+      .in('id', ids.slice(i, i + ID_CHUNK_SIZE));
+
+    if (error) {
+      throw new Error(`Failed to load wines: ${error.message}`);
+    }
+    wines.push(...((data ?? []) as WineRow[]).map(row => toWineDetail(row)));
+  }
+
+  return wines;
+}
+
+// Other vintages of the same wine (producer and name), newest first
+export async function getOtherVintages(
+  wine: Pick<WineWithReview, 'id' | 'producer' | 'name'>,
+  limit = 5,
+  rule: HeadlineReviewRule = DEFAULT_HEADLINE_RULE
+): Promise<WineDetail[]> {
+  const { data, error } = await supabaseAdmin
+    .from('wines')
+    .select(WINE_DETAIL_SELECT)
+    .eq('producer', wine.producer)
+    .eq('name', wine.name)
+    .neq('id', wine.id)
+    .order('vintage', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    throw new Error(`Failed to load related vintages: ${error.message}`);
+  }
+
+  return ((data ?? []) as WineRow[]).map(row => toWineDetail(row, rule));
+}
+
+// Other vintages of the same wine closest to its own: up to `limit` later and `limit` earlier
+// ones, nearest first. A non-vintage wine gets the newest vintages.
+export async function getNearestVintages(
+  wine: Pick<WineWithReview, 'id' | 'producer' | 'name' | 'vintage'>,
+  limit = 5
+): Promise<WineDetail[]> {
+  const { vintage } = wine;
+  if (vintage === null) {
+    return getOtherVintages(wine, limit);
+  }
+
+  const otherVintages = () =>
+    supabaseAdmin.from('wines').select(WINE_DETAIL_SELECT).eq('producer', wine.producer).eq('name', wine.name).neq('id', wine.id);
+
+  const [later, earlier] = await Promise.all([
+    otherVintages().gt('vintage', vintage).order('vintage', { ascending: true }).limit(limit),
+    otherVintages().lt('vintage', vintage).order('vintage', { ascending: false }).limit(limit),
+  ]);
+
+  const error = later.error ?? earlier.error;
+  if (error) {
+    throw new Error(`Failed to load related vintages: ${error.message}`);
+  }
+
+  return [...(later.data ?? []), ...(earlier.data ?? [])]
+    .map(row => toWineDetail(row as WineRow))
+    .sort((a, b) => Math.abs(a.vintage! - vintage) - Math.abs(b.vintage! - vintage));
+}
+
+export interface SimilarWineFilters {
+  // Largest headline score difference from the original
+  scoreBand: number;
+  sameRegion: boolean;
+  minScore?: number;
+  maxReleasePrice?: number;
+  limit: number;
+}
+
+// Similar-style candidates for a wine, narrowed and ordered by closeness in the database
+// (similar_wine_candidates): same color, a score band around the wine's, the price cap, and
+// the same region or a shared grape. The filters apply to each wine's headline review, so a
+// wine is shown with the same score and price as in detail and search.
+export async function findSimilarWines(wineId: string, filters: SimilarWineFilters): Promise<WineDetail[]> {
+  const { data, error } = await supabaseAdmin
+    .rpc('similar_wine_candidates', {
+      p_wine_id: wineId,
+      p_score_band: filters.scoreBand,
+      p_min_score: filters.minScore ?? null,
+      p_max_price: filters.maxReleasePrice ?? null,
+      p_same_region: filters.sameRegion,
+      p_limit: filters.limit,
+    })
+    .select('id');
+
+  if (error) {
+    throw new Error(`Failed to load similar wines: ${error.message}`);
+  }
+
+  const ids = ((data ?? []) as { id: string }[]).map(row => row.id);
+  const order = new Map(ids.map((id, index) => [id, index]));
+  return (await getWinesByIds(ids)).sort((a, b) => order.get(a.id)! - order.get(b.id)!);
+}
+
+interface WineRow {
+  id: string;
+  producer: string;
+  name: string;
+  vintage: number | null;
+  region: string;
+  sub_region: string | null;
+  appellation: string | null;
+  country: string;
+  color: WineColor;
+  grape_varieties: WineWithReview['grape_varieties'] | null;
+  alcohol: number | null;
+  label_url: string | null;
+  top100_rank: number | null;
+  top100_year: number | null;
+  reviews: Array<
+    Pick<
+      Review,
+      | 'score'
+      | 'tasting_note'
+      | 'reviewer_initials'
+      | 'reviewer_name'
+      | 'review_date'
+      | 'issue_date'
+      | 'drink_window_start'
+      | 'drink_window_end'
+      | 'release_price_currency'
+    > & { release_price: number | string | null }
+  > | null;
+}
+
+// Flattens a wines row with its headline review; a wine without a review keeps the review
+// fields unset, as the wine detail route always returned them
+function toWineDetail(row: WineRow, rule: HeadlineReviewRule = DEFAULT_HEADLINE_RULE): WineDetail {
+  const review: Partial<NonNullable<WineRow['reviews']>[number]> = pickHeadlineReview(row.reviews ?? [], rule) ?? {};
+  return {
+    id: row.id,
+    producer: row.producer,
+    name: row.name,
+    vintage: row.vintage,
+    region: row.region,
+    sub_region: row.sub_region,
+    appellation: row.appellation,
+    country: row.country,
+    color: row.color,
+    grape_varieties: row.grape_varieties ?? [],
+    alcohol: row.alcohol,
+    label_url: row.label_url || null,
+    top100_rank: row.top100_rank || null,
+    top100_year: row.top100_year || null,
+    score: review.score!,
+    tasting_note: review.tasting_note!,
+    reviewer_initials: review.reviewer_initials!,
+    reviewer_name: review.reviewer_name ?? null,
+    review_date: review.review_date!,
+    issue_date: review.issue_date ?? null,
+    drink_window_start: review.drink_window_start ?? null,
+    drink_window_end: review.drink_window_end ?? null,
+    // DECIMAL columns can arrive as strings
+    release_price: review.release_price === null || review.release_price === undefined ? null : Number(review.release_price),
+    release_price_currency: review.release_price_currency!,
+  };
+}
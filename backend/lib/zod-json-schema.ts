@@ -0,0 +1,215 @@
+import { ZodFirstPartyTypeKind, type ZodTypeAny } from 'zod';
+
+// Converts the zod schemas used for request validation into JSON Schema (draft 2020-12, as used
+// by OpenAPI 3.1). Covers the zod types the routes use; anything else becomes an open schema.
+// Input schemas are described as the client sends them: defaults are documented, transforms and
+// refinements are not.
+
+export type JsonSchema = { [key: string]: unknown };
+
+// Schemas to emit as $ref to #/components/schemas/<name> instead of inline
+export type SchemaRefs = Map<ZodTypeAny, string>;
+
+interface Check {
+  kind: string;
+  value?: unknown;
+  inclusive?: boolean;
+  regex?: RegExp;
+}
+
+export function toJsonSchema(schema: ZodTypeAny, refs: SchemaRefs = new Map(), { inline = false } = {}): JsonSchema {
+  const ref = refs.get(schema);
+  if (ref && !inline) {
+    return { $ref: `#/components/schemas/${ref}` };
+  }
+
+  const json = convert(schema, refs);
+  if (schema.description && json.description === undefined) {
+    json.description = schema.description;
+  }
+  return json;
+}
+
+// Unwraps optional/default/effects wrappers to reach the object of a query string or path schema
+export function objectShape(schema: ZodTypeAny): Record<string, ZodTypeAny> | null {
+  const def = schema._def;
+  switch (def.typeName) {
+    case ZodFirstPartyTypeKind.ZodObject:
+      return def.shape();
+    case ZodFirstPartyTypeKind.ZodEffects:
+      return objectShape(def.schema);
+    case ZodFirstPartyTypeKind.ZodOptional:
+    case ZodFirstPartyTypeKind.ZodNullable:
+    case ZodFirstPartyTypeKind.ZodDefault:
+      return objectShape(def.innerType);
+    default:
+      return null;
+  }
+}
+
+function convert(schema: ZodTypeAny, refs: SchemaRefs): JsonSchema {
+  const def = schema._def;
+
+  switch (def.typeName as ZodFirstPartyTypeKind) {
+    case ZodFirstPartyTypeKind.ZodString:
+      return stringSchema(def.checks);
+
+    case ZodFirstPartyTypeKind.ZodNumber:
+      return numberSchema(def.checks);
+
+    case ZodFirstPartyTypeKind.ZodBoolean:
+      return { type: 'boolean' };
+
+    case ZodFirstPartyTypeKind.ZodNull:
+      return { type: 'null' };
+
+    case ZodFirstPartyTypeKind.ZodDate:
+      return { type: 'string', format: 'date-time' };
+
+    case ZodFirstPartyTypeKind.ZodLiteral:
+      return { type: typeof def.value, const: def.value };
+
+    case ZodFirstPartyTypeKind.ZodEnum:
+      return { type: 'string', enum: def.values };
+
+    case ZodFirstPartyTypeKind.ZodNativeEnum:
+      return { enum: Object.values(def.values).filter(value => typeof def.values[value as string] !== 'number') };
+
+    case ZodFirstPartyTypeKind.ZodArray: {
+      const json: JsonSchema = { type: 'array', items: toJsonSchema(def.type, refs) };
+      if (def.minLength) json.minItems = def.minLength.value;
+      if (def.maxLength) json.maxItems = def.maxLength.value;
+      if (def.exactLength) json.minItems = json.maxItems = def.exactLength.value;
+      return json;
+    }
+
+    case ZodFirstPartyTypeKind.ZodTuple:
+      return {
+        type: 'array',
+        prefixItems: (def.items as ZodTypeAny[]).map(item => toJsonSchema(item, refs)),
+        ...(def.rest ? { items: toJsonSchema(def.rest, refs) } : { items: false }),
+      };
+
+    case ZodFirstPartyTypeKind.ZodObject: {
+      const shape: Record<string, ZodTypeAny> = def.shape();
+      const properties: Record<string, JsonSchema> = {};
+      const required: string[] = [];
+
+      for (const [key, field] of Object.entries(shape)) {
+        properties[key] = toJsonSchema(field, refs);
+        if (!field.isOptional()) required.push(key);
+      }
+
+      const json: JsonSchema = { type: 'object', properties };
+      if (required.length) json.required = required;
+      if (def.unknownKeys === 'strict') json.additionalProperties = false;
+      if (def.catchall && def.catchall._def.typeName !== ZodFirstPartyTypeKind.ZodNever) {
+        json.additionalProperties = toJsonSchema(def.catchall, refs);
+      }
+      return json;
+    }
+
+    case ZodFirstPartyTypeKind.ZodRecord:
+      return { type: 'object', additionalProperties: toJsonSchema(def.valueType, refs) };
+
+    case ZodFirstPartyTypeKind.ZodUnion:
+      return { anyOf: (def.options as ZodTypeAny[]).map(option => toJsonSchema(option, refs)) };
+
+    case ZodFirstPartyTypeKind.ZodDiscriminatedUnion:
+      return {
+        oneOf: (def.options as ZodTypeAny[]).map(option => toJsonSchema(option, refs)),
+        discriminator: { propertyName: def.discriminator },
+      };
+
+    case ZodFirstPartyTypeKind.ZodIntersection:
+      return { allOf: [toJsonSchema(def.left, refs), toJsonSchema(def.right, refs)] };
+
+    case ZodFirstPartyTypeKind.ZodOptional:
+      return toJsonSchema(def.innerType, refs);
+
+    case ZodFirstPartyTypeKind.ZodNullable: {
+      const inner = toJsonSchema(def.innerType, refs);
+      // Plain types take "null" in the type list; refs, enums and unions need anyOf
+      if (typeof inner.type === 'string' && !inner.enum && inner.const === undefined) {
+        return { ...inner, type: [inner.type, 'null'] };
+      }
+      return { anyOf: [inner, { type: 'null' }] };
+    }
+
+    case ZodFirstPartyTypeKind.ZodDefault:
+      return { ...toJsonSchema(def.innerType, refs), default: def.defaultValue() };
+
+    case ZodFirstPartyTypeKind.ZodEffects:
+      return toJsonSchema(def.schema, refs);
+
+    case ZodFirstPartyTypeKind.ZodPipeline:
+      return toJsonSchema(def.in, refs);
+
+    case ZodFirstPartyTypeKind.ZodBranded:
+      return toJsonSchema(def.type, refs);
+
+    case ZodFirstPartyTypeKind.ZodReadonly:
+    case ZodFirstPartyTypeKind.ZodCatch:
+      return toJsonSchema(def.innerType, refs);
+
+    case ZodFirstPartyTypeKind.ZodLazy:
+      return toJsonSchema(def.getter(), refs);
+
+    default:
+      return {};
+  }
+}
+
+function stringSchema(checks: Check[]): JsonSchema {
+  const json: JsonSchema = { type: 'string' };
+  for (const check of checks) {
+    switch (check.kind) {
+      case 'min':
+        json.minLength = check.value;
+        break;
+      case 'max':
+        json.maxLength = check.value;
+        break;
+      case 'length':
+        json.minLength = json.maxLength = check.value;
+        break;
+      case 'email':
+      case 'uuid':
+      case 'date':
+      case 'time':
+        json.format = check.kind;
+        break;
+      case 'url':
+        json.format = 'uri';
+        break;
+      case 'datetime':
+        json.format = 'date-time';
+        break;
+      case 'regex':
+        json.pattern = check.regex?.source;
+        break;
+    }
+  }
+  return json;
+}
+
+function numberSchema(checks: Check[]): JsonSchema {
+  const json: JsonSchema = { type: 'number' };
+  for (const check of checks) {
+    switch (check.kind) {
+      case 'int':
+        json.type = 'integer';
+        break;
+      case 'min':
+        json[check.inclusive ? 'minimum' : 'exclusiveMinimum'] = check.value;
+        break;
+      case 'max':
+        json[check.inclusive ? 'maximum' : 'exclusiveMaximum'] = check.value;
+        break;
+      case 'multipleOf':
+        json.multipleOf = check.value;
+        break;
+    }
+  }
+  return json;
+}
@@ -0,0 +1,29 @@
+-- Migration: Publishable API keys for anonymous and partner access
+-- Run this in Supabase SQL Editor
+
+-- Publishable API keys. Only the SHA-256 of a key is stored; prefix keeps its first
+-- characters so keys can be told apart in listings.
+CREATE TABLE IF NOT EXISTS api_keys (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    name VARCHAR(100) NOT NULL,
+    prefix VARCHAR(32) NOT NULL,
+    key_hash TEXT UNIQUE NOT NULL,
+    environment VARCHAR(10) NOT NULL CHECK (environment IN ('live', 'test')),
+    scopes TEXT[] NOT NULL DEFAULT '{}',
+    tier VARCHAR(20) NOT NULL DEFAULT 'free' CHECK (tier IN ('free', 'premium', 'business')),
+    owner_id UUID REFERENCES users(id) ON DELETE SET NULL,
+    owner_name VARCHAR(200),
+    last_used_at TIMESTAMPTZ,
+    expires_at TIMESTAMPTZ,
+    revoked_at TIMESTAMPTZ,
+    rotated_from UUID REFERENCES api_keys(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_api_keys_owner_id ON api_keys(owner_id);
+
+ALTER TABLE api_keys ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Service role full access api_keys" ON api_keys;
+CREATE POLICY "Service role full access api_keys" ON api_keys
+    FOR ALL USING (auth.role() = 'service_role');
@@ -0,0 +1,33 @@
+-- Migration: App Store subscription verification and Server Notifications v2
+-- Run this in Supabase SQL Editor
+
+-- Subscription details from verified StoreKit 2 transactions. subscription_updated_at is the
+-- signedDate of the newest App Store data applied, so out-of-order deliveries are ignored.
+ALTER TABLE users
+    ADD COLUMN IF NOT EXISTS subscription_product_id TEXT,
+    ADD COLUMN IF NOT EXISTS subscription_store TEXT CHECK (subscription_store IN ('app_store', 'play_store', 'web')),
+    ADD COLUMN IF NOT EXISTS subscription_auto_renew BOOLEAN,
+    ADD COLUMN IF NOT EXISTS subscription_environment TEXT,
+    ADD COLUMN IF NOT EXISTS subscription_updated_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS app_store_original_transaction_id TEXT UNIQUE;
+
+-- App Store Server Notifications v2 already processed, keyed by notificationUUID so
+-- redelivered notifications are acknowledged without being applied twice
+CREATE TABLE IF NOT EXISTS app_store_notifications (
+    notification_uuid TEXT PRIMARY KEY,
+    notification_type TEXT NOT NULL,
+    subtype TEXT,
+    original_transaction_id TEXT,
+    user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+    environment TEXT,
+    signed_at TIMESTAMPTZ NOT NULL,
+    processed_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_app_store_notifications_original_transaction_id ON app_store_notifications(original_transaction_id);
+
+ALTER TABLE app_store_notifications ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Service role full access app_store_notifications" ON app_store_notifications;
+CREATE POLICY "Service role full access app_store_notifications" ON app_store_notifications
+    FOR ALL USING (auth.role() = 'service_role');
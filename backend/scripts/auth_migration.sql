@@ -0,0 +1,28 @@
+-- Migration: Email/password sign-in and rotating refresh tokens
+-- Run this in Supabase SQL Editor
+
+ALTER TABLE users
+    ADD COLUMN IF NOT EXISTS password_hash TEXT,
+    ADD COLUMN IF NOT EXISTS marketing_consent BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- Refresh tokens (opaque, stored as SHA-256 hashes). A family is one sign-in session;
+-- every rotation stays in the family, and reusing a rotated token revokes all of it.
+CREATE TABLE IF NOT EXISTS refresh_tokens (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    family_id UUID NOT NULL,
+    token_hash TEXT UNIQUE NOT NULL,
+    replaced_by_hash TEXT,
+    expires_at TIMESTAMPTZ NOT NULL,
+    revoked_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_refresh_tokens_user_id ON refresh_tokens(user_id);
+CREATE INDEX IF NOT EXISTS idx_refresh_tokens_family_id ON refresh_tokens(family_id);
+
+ALTER TABLE refresh_tokens ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Service role full access refresh_tokens" ON refresh_tokens;
+CREATE POLICY "Service role full access refresh_tokens" ON refresh_tokens
+    FOR ALL USING (auth.role() = 'service_role');
@@ -0,0 +1,154 @@
+-- Migration: Business accounts with members, roles and plan limits
+-- Run this in Supabase SQL Editor
+
+-- Business accounts: an organization whose members share business features, stored
+-- analyses, API keys and plan limits. NULL limits use the plan's defaults (lib/business-accounts.ts).
+CREATE TABLE IF NOT EXISTS business_accounts (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    name VARCHAR(200) NOT NULL,
+    plan VARCHAR(20) NOT NULL DEFAULT 'pro' CHECK (plan IN ('pro', 'enterprise')),
+    subscription_status TEXT NOT NULL DEFAULT 'active' CHECK (subscription_status IN ('active', 'expired', 'cancelled', 'pending')),
+    subscription_expires_at TIMESTAMPTZ,
+    seat_limit INTEGER CHECK (seat_limit > 0),
+    requests_per_minute INTEGER CHECK (requests_per_minute > 0),
+    requests_per_day INTEGER CHECK (requests_per_day > 0),
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Users in a business account; each member takes one seat
+CREATE TABLE IF NOT EXISTS business_account_members (
+    account_id UUID NOT NULL REFERENCES business_accounts(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    role VARCHAR(20) NOT NULL CHECK (role IN ('owner', 'manager', 'staff')),
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    PRIMARY KEY (account_id, user_id)
+);
+
+-- API keys and stored analyses belong to an account
+ALTER TABLE api_keys
+    ADD COLUMN IF NOT EXISTS account_id UUID REFERENCES business_accounts(id) ON DELETE CASCADE;
+
+ALTER TABLE list_analyses
+    ADD COLUMN IF NOT EXISTS account_id UUID REFERENCES business_accounts(id) ON DELETE CASCADE;
+ALTER TABLE list_analyses ALTER COLUMN user_id DROP NOT NULL;
+ALTER TABLE list_analyses DROP CONSTRAINT IF EXISTS list_analyses_user_id_fkey;
+ALTER TABLE list_analyses
+    ADD CONSTRAINT list_analyses_user_id_fkey FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_business_account_members_user_id ON business_account_members(user_id);
+CREATE INDEX IF NOT EXISTS idx_api_keys_account_id ON api_keys(account_id);
+DROP INDEX IF EXISTS idx_list_analyses_user_id;
+CREATE INDEX IF NOT EXISTS idx_list_analyses_account_id ON list_analyses(account_id, created_at DESC);
+
+-- Adds a user to a business account unless the account is at p_seat_limit members. Both
+-- membership functions lock the account row, so seat counts and the last-owner check hold
+-- under concurrent changes. status: 'added', 'already_member', 'seat_limit' or 'not_found'.
+CREATE OR REPLACE FUNCTION add_business_account_member(p_account_id UUID, p_user_id UUID, p_role TEXT, p_seat_limit INTEGER)
+RETURNS TABLE (status TEXT, seats_used INTEGER)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_used INTEGER;
+BEGIN
+    PERFORM 1 FROM business_accounts WHERE id = p_account_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RETURN QUERY SELECT 'not_found'::TEXT, 0;
+        RETURN;
+    END IF;
+
+    SELECT COUNT(*)::INTEGER INTO v_used FROM business_account_members m WHERE m.account_id = p_account_id;
+
+    IF EXISTS (SELECT 1 FROM business_account_members m WHERE m.account_id = p_account_id AND m.user_id = p_user_id) THEN
+        RETURN QUERY SELECT 'already_member'::TEXT, v_used;
+    ELSIF v_used >= p_seat_limit THEN
+        RETURN QUERY SELECT 'seat_limit'::TEXT, v_used;
+    ELSE
+        INSERT INTO business_account_members (account_id, user_id, role) VALUES (p_account_id, p_user_id, p_role);
+        RETURN QUERY SELECT 'added'::TEXT, v_used + 1;
+    END IF;
+END;
+$$;
+
+-- Changes a member's role, or removes the member when p_role is NULL. An account always
+-- keeps at least one owner. status: 'updated', 'removed', 'last_owner' or 'not_found'.
+CREATE OR REPLACE FUNCTION change_business_account_member(p_account_id UUID, p_user_id UUID, p_role TEXT)
+RETURNS TEXT
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_role TEXT;
+BEGIN
+    PERFORM 1 FROM business_accounts WHERE id = p_account_id FOR UPDATE;
+
+    SELECT m.role INTO v_role
+    FROM business_account_members m
+    WHERE m.account_id = p_account_id AND m.user_id = p_user_id;
+
+    IF NOT FOUND THEN
+        RETURN 'not_found';
+    END IF;
+
+    IF v_role = 'owner' AND p_role IS DISTINCT FROM 'owner' AND NOT EXISTS (
+        SELECT 1 FROM business_account_members m
+        WHERE m.account_id = p_account_id AND m.role = 'owner' AND m.user_id <> p_user_id
+    ) THEN
+        RETURN 'last_owner';
+    END IF;
+
+    IF p_role IS NULL THEN
+        DELETE FROM business_account_members WHERE account_id = p_account_id AND user_id = p_user_id;
+        RETURN 'removed';
+    END IF;
+
+    UPDATE business_account_members SET role = p_role WHERE account_id = p_account_id AND user_id = p_user_id;
+    RETURN 'updated';
+END;
+$$;
+
+DROP TRIGGER IF EXISTS business_accounts_updated_at ON business_accounts;
+CREATE TRIGGER business_accounts_updated_at
+    BEFORE UPDATE ON business_accounts
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at();
+
+-- Existing business subscribers each get an account they own, holding their analyses and
+-- the business-scoped API keys issued to them
+DO $$
+DECLARE
+    v_user RECORD;
+    v_account_id UUID;
+BEGIN
+    FOR v_user IN
+        SELECT u.id, u.email, u.first_name, u.last_name, u.subscription_status, u.subscription_expires_at
+        FROM users u
+        WHERE u.subscription_tier = 'business'
+          AND NOT EXISTS (SELECT 1 FROM business_account_members m WHERE m.user_id = u.id)
+    LOOP
+        INSERT INTO business_accounts (name, subscription_status, subscription_expires_at)
+        VALUES (
+            LEFT(COALESCE(NULLIF(TRIM(CONCAT_WS(' ', v_user.first_name, v_user.last_name)), ''), v_user.email), 200),
+            v_user.subscription_status,
+            v_user.subscription_expires_at
+        )
+        RETURNING id INTO v_account_id;
+
+        INSERT INTO business_account_members (account_id, user_id, role) VALUES (v_account_id, v_user.id, 'owner');
+
+        UPDATE list_analyses SET account_id = v_account_id WHERE user_id = v_user.id AND account_id IS NULL;
+        UPDATE api_keys SET account_id = v_account_id
+        WHERE owner_id = v_user.id AND account_id IS NULL AND 'business' = ANY(scopes);
+    END LOOP;
+END;
+$$;
+
+ALTER TABLE business_accounts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE business_account_members ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Service role full access business_accounts" ON business_accounts;
+CREATE POLICY "Service role full access business_accounts" ON business_accounts
+    FOR ALL USING (auth.role() = 'service_role');
+
+DROP POLICY IF EXISTS "Service role full access business_account_members" ON business_account_members;
+CREATE POLICY "Service role full access business_account_members" ON business_account_members
+    FOR ALL USING (auth.role() = 'service_role');
@@ -0,0 +1,258 @@
+/**
+ * Matching accuracy evaluation for Wine List Assistant
+ *
+ * Builds a golden set from data/Top100-2025.json, generates wine-list style variants
+ * (OCR confusions, abbreviations, dropped accents, prices, missing vintages) plus
+ * negatives that should not match, runs them through the active SearchService and
+ * reports precision/recall/F1 per confidence threshold.
+ *
+ * Usage:
+ *   npx tsx scripts/evaluate-matching.ts [--provider=local] [--seed=42] [--out=reports/matching-eval.json]
+ *
+ * The report is deterministic for a given seed and catalog, so it can be diffed between commits.
+ */
+
+import { mkdirSync, writeFileSync } from 'fs';
+import { dirname, join, resolve } from 'path';
+import { loadCatalogFile } from '../lib/catalog';
+import { DEFAULT_CONFIDENCE_THRESHOLD } from '../lib/matcher';
+import { normalizeText } from '../lib/search';
+import { createSearchService, resolveSearchProvider, type SearchProviderName } from '../lib/search-provider';
+import type { WineWithReview } from '../types';
+
+type VariantKind =
+  | 'clean'
+  | 'abbreviated'
+  | 'no_accents'
+  | 'ocr_noise'
+  | 'with_price'
+  | 'no_vintage'
+  | 'short_vintage'
+  | 'truncated_name'
+  | 'wrong_vintage';
+
+interface EvalCase {
+  query: string;
+  variant: VariantKind;
+  expected: WineWithReview | null;
+}
+
+interface CaseResult {
+  query: string;
+  variant: VariantKind;
+  expected_key: string | null;
+  top_key: string | null;
+  confidence: number;
+  correct: boolean;
+}
+
+const THRESHOLDS = [0.5, 0.55, 0.6, 0.65, 0.7, 0.75, 0.8, 0.85, 0.9, 0.95];
+
+const ABBREVIATIONS: [RegExp, string][] = [
+  [/\bCh[aâ]teau\b/g, 'Ch.'],
+  [/\bDomaine\b/g, 'Dom.'],
+  [/\bCabernet Sauvignon\b/g, 'Cab Sauv'],
+  [/\bSauvignon Blanc\b/g, 'SB'],
+  [/\bChardonnay\b/g, 'Chard'],
+  [/\bVineyards?\b/g, 'Vyd'],
+  [/\bSaint\b/g, 'St.'],
+  [/\bReserve\b/g, 'Res.'],
+];
+
+// Character confusions typical of OCR on printed lists
+const OCR_CONFUSIONS: [string, string][] = [
+  ['o', '0'], ['O', '0'], ['l', '1'], ['I', 'l'], ['i', 'l'], ['m', 'rn'], ['e', 'c'], ['S', '5'], ['B', '8'],
+];
+
+async function evaluate() {
+  const args = parseArgs(process.argv.slice(2));
+  const provider = (args.provider as SearchProviderName | undefined) ?? resolveSearchProvider();
+  const seed = Number(args.seed ?? 42);
+  const outPath = resolve(args.out ?? join(__dirname, '../reports/matching-eval.json'));
+
+  console.log('🍷 Wine List Assistant - Matching Evaluation\n');
+
+  const golden = loadCatalogFile(join(__dirname, '../data/Top100-2025.json'));
+  const cases = buildCases(golden, mulberry32(seed));
+  const searchService = createSearchService(provider);
+
+  console.log(`📊 ${golden.length} golden wines, ${cases.length} cases, provider: ${searchService.name}\n`);
+
+  const results: CaseResult[] = [];
+  for (const evalCase of cases) {
+    const [top] = await searchService.search(evalCase.query, { limit: 1 });
+    const topKey = top ? wineKey(top.wine) : null;
+    const expectedKey = evalCase.expected ? wineKey(evalCase.expected) : null;
+
+    results.push({
+      query: evalCase.query,
+      variant: evalCase.variant,
+      expected_key: expectedKey,
+      top_key: topKey,
+      confidence: top?.match_confidence ?? 0,
+      correct: topKey !== null && topKey === expectedKey,
+    });
+  }
+
+  const thresholds = THRESHOLDS.map(threshold => ({ threshold, ...metricsAt(results, threshold) }));
+  const best = thresholds.reduce((a, b) => (b.f1 > a.f1 ? b : a));
+
+  const variants = [...new Set(results.map(r => r.variant))].sort().map(variant => {
+    const subset = results.filter(r => r.variant === variant);
+    return { variant, cases: subset.length, ...metricsAt(subset, DEFAULT_CONFIDENCE_THRESHOLD) };
+  });
+
+  // Accepted matches that point at the wrong wine (or at any wine when none was expected)
+  const confusions = results
+    .filter(r => r.confidence >= DEFAULT_CONFIDENCE_THRESHOLD && !r.correct)
+    .sort((a, b) => b.confidence - a.confidence || a.query.localeCompare(b.query))
+    .map(r => ({
+      query: r.query,
+      variant: r.variant,
+      expected: r.expected_key,
+      matched: r.top_key,
+      confidence: r.confidence,
+    }));
+
+  const report = {
+    provider: searchService.name,
+    seed,
+    golden_wines: golden.length,
+    cases: results.length,
+    default_threshold: DEFAULT_CONFIDENCE_THRESHOLD,
+    best_threshold: best.threshold,
+    thresholds,
+    variants,
+    confusions,
+  };
+
+  mkdirSync(dirname(outPath), { recursive: true });
+  writeFileSync(outPath, JSON.stringify(report, null, 2) + '\n', 'utf-8');
+
+  console.log('threshold  precision  recall   f1');
+  for (const row of thresholds) {
+    console.log(`${row.threshold.toFixed(2).padEnd(11)}${row.precision.toFixed(3).padEnd(11)}${row.recall.toFixed(3).padEnd(9)}${row.f1.toFixed(3)}`);
+  }
+  console.log(`\n🎯 Best F1 ${best.f1.toFixed(3)} at threshold ${best.threshold}`);
+  console.log(`⚠️  ${confusions.length} wrong matches at threshold ${DEFAULT_CONFIDENCE_THRESHOLD}`);
+  console.log(`📝 Report written to: ${outPath}`);
+}
+
+function buildCases(golden: WineWithReview[], random: () => number): EvalCase[] {
+  const cases: EvalCase[] = [];
+
+  for (const wine of golden) {
+    const base = `${wine.producer} ${wine.name}`;
+    const vintage = wine.vintage ? ` ${wine.vintage}` : '';
+    const add = (variant: VariantKind, query: string, expected: WineWithReview | null = wine) =>
+      cases.push({ query, variant, expected });
+
+    add('clean', base + vintage);
+    add('abbreviated', abbreviate(base) + vintage);
+    add('no_accents', stripAccents(base) + vintage);
+    add('ocr_noise', ocrNoise(base, random) + vintage);
+    add('with_price', `${base}${vintage} $${Math.round((wine.release_price ?? 50) * (2 + random() * 2))}`);
+    add('no_vintage', base);
+
+    if (wine.vintage) {
+      add('short_vintage', `${base} '${String(wine.vintage).slice(2)}`);
+      // Same wine, a vintage that isn't in the catalog: should not be accepted
+      add('wrong_vintage', `${base} ${wine.vintage - 3 - Math.floor(random() * 5)}`, null);
+    }
+
+    const nameWords = wine.name.split(/\s+/);
+    if (nameWords.length > 2) {
+      add('truncated_name', `${wine.producer} ${nameWords.slice(0, 2).join(' ')}${vintage}`);
+    }
+  }
+
+  return cases;
+}
+
+function metricsAt(results: CaseResult[], threshold: number) {
+  let truePositives = 0;
+  let falsePositives = 0;
+  let falseNegatives = 0;
+
+  for (const result of results) {
+    const accepted = result.top_key !== null && result.confidence >= threshold;
+    if (accepted && result.correct) truePositives++;
+    else if (accepted) falsePositives++;
+    if (result.expected_key && !(accepted && result.correct)) falseNegatives++;
+  }
+
+  const precision = truePositives + falsePositives ? truePositives / (truePositives + falsePositives) : 1;
+  const recall = truePositives + falseNegatives ? truePositives / (truePositives + falseNegatives) : 1;
+  const f1 = precision + recall ? (2 * precision * recall) / (precision + recall) : 0;
+
+  return {
+    precision: round(precision),
+    recall: round(recall),
+    f1: round(f1),
+    true_positives: truePositives,
+    false_positives: falsePositives,
+    false_negatives: falseNegatives,
+  };
+}
+
+function abbreviate(text: string): string {
+  return ABBREVIATIONS.reduce((result, [pattern, replacement]) => result.replace(pattern, replacement), text);
+}
+
+function stripAccents(text: string): string {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+}
+
+// One or two character confusions at random positions
+function ocrNoise(text: string, random: () => number): string {
+  let result = text;
+  const edits = 1 + Math.floor(random() * 2);
+
+  for (let i = 0; i < edits; i++) {
+    const candidates = OCR_CONFUSIONS.filter(([from]) => result.includes(from));
+    if (!candidates.length) break;
+
+    const [from, to] = candidates[Math.floor(random() * candidates.length)];
+    const positions = [...result.matchAll(new RegExp(from, 'g'))].map(m => m.index ?? 0);
+    const position = positions[Math.floor(random() * positions.length)];
+    result = result.slice(0, position) + to + result.slice(position + from.length);
+  }
+
+  return result;
+}
+
+// Identity that works for both file and Supabase catalogs (ids differ between them)
+function wineKey(wine: Pick<WineWithReview, 'producer' | 'name' | 'vintage'>): string {
+  return `${normalizeText(wine.producer)}|${normalizeText(wine.name)}|${wine.vintage ?? 'nv'}`;
+}
+
+// Small seeded PRNG so variants are reproducible
+function mulberry32(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function parseArgs(argv: string[]): Record<string, string> {
+  const args: Record<string, string> = {};
+  for (const arg of argv) {
+    const match = arg.match(/^--([^=]+)=(.*)$/);
+    if (match) args[match[1]] = match[2];
+  }
+  return args;
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+// Run
+evaluate().catch((err) => {
+  console.error('❌ Evaluation failed:', err);
+  process.exit(1);
+});
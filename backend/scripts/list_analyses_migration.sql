@@ -0,0 +1,23 @@
+-- Migration: Stored business wine list analyses
+-- Run this in Supabase SQL Editor
+
+-- Business wine list analyses; the report is stored as returned so it can be fetched and
+-- exported again without re-matching
+CREATE TABLE IF NOT EXISTS list_analyses (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    restaurant_name TEXT,
+    options JSONB NOT NULL,
+    summary JSONB NOT NULL,
+    alerts JSONB NOT NULL,
+    wines JSONB NOT NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_list_analyses_user_id ON list_analyses(user_id, created_at DESC);
+
+ALTER TABLE list_analyses ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Service role full access list_analyses" ON list_analyses;
+CREATE POLICY "Service role full access list_analyses" ON list_analyses
+    FOR ALL USING (auth.role() = 'service_role');
@@ -0,0 +1,120 @@
+-- Migration: Headline review for wines with several reviews
+-- Run this in Supabase SQL Editor
+--
+-- Search and the saved wines view flatten a wine with one review. Ties on review_date now go
+-- to the higher score, the same rule as DEFAULT_HEADLINE_RULE in lib/reviews.ts.
+
+CREATE INDEX IF NOT EXISTS idx_reviews_wine_date ON reviews(wine_id, review_date DESC, score DESC);
+
+-- Full-text search fallback used when the primary search provider is unavailable.
+-- Matches the idx_wines_fts expression exactly so the GIN index is used.
+CREATE OR REPLACE FUNCTION search_wines_fts(
+    search_query TEXT,
+    max_results INTEGER DEFAULT 10,
+    filter_color TEXT DEFAULT NULL,
+    filter_country TEXT DEFAULT NULL,
+    filter_min_score INTEGER DEFAULT NULL,
+    filter_vintage INTEGER DEFAULT NULL
+)
+RETURNS TABLE (
+    id UUID,
+    producer TEXT,
+    name TEXT,
+    vintage INTEGER,
+    region TEXT,
+    sub_region TEXT,
+    appellation TEXT,
+    country TEXT,
+    color TEXT,
+    grape_varieties JSONB,
+    alcohol NUMERIC,
+    label_url TEXT,
+    top100_rank INTEGER,
+    top100_year INTEGER,
+    score INTEGER,
+    tasting_note TEXT,
+    reviewer_initials TEXT,
+    reviewer_name TEXT,
+    review_date DATE,
+    drink_window_start INTEGER,
+    drink_window_end INTEGER,
+    release_price NUMERIC,
+    rank REAL
+)
+LANGUAGE sql STABLE
+AS $$
+    WITH q AS (
+        -- OR the terms together (with prefix matching): list lines carry prices and bin numbers
+        SELECT to_tsquery('english', string_agg(term || ':*', ' | ')) AS query
+        FROM regexp_split_to_table(
+            lower(regexp_replace(search_query, '[^[:alnum:][:space:]]', ' ', 'g')),
+            '\s+'
+        ) AS term
+        WHERE term <> ''
+    )
+    SELECT
+        w.id, w.producer, w.name, w.vintage, w.region, w.sub_region, w.appellation,
+        w.country, w.color, w.grape_varieties, w.alcohol, w.label_url, w.top100_rank, w.top100_year,
+        r.score, r.tasting_note, r.reviewer_initials, r.reviewer_name, r.review_date,
+        r.drink_window_start, r.drink_window_end, r.release_price,
+        ts_rank_cd(to_tsvector('english', w.producer || ' ' || w.name || ' ' || w.region || ' ' || w.country), q.query) AS rank
+    FROM wines w
+    CROSS JOIN q
+    JOIN LATERAL (
+        SELECT * FROM reviews rv
+        WHERE rv.wine_id = w.id
+        ORDER BY rv.review_date DESC, rv.score DESC
+        LIMIT 1
+    ) r ON true
+    WHERE to_tsvector('english', w.producer || ' ' || w.name || ' ' || w.region || ' ' || w.country) @@ q.query
+      AND (filter_color IS NULL OR w.color = filter_color)
+      AND (filter_country IS NULL OR w.country = filter_country)
+      AND (filter_min_score IS NULL OR r.score >= filter_min_score)
+      AND (filter_vintage IS NULL OR w.vintage = filter_vintage)
+    ORDER BY rank DESC, r.score DESC
+    LIMIT max_results;
+$$;
+
+-- Saved wines flattened with their wine and headline review (latest, as in lib/reviews.ts), so the journal can be
+-- filtered and sorted on review fields (score) in one query
+CREATE OR REPLACE VIEW saved_wine_details WITH (security_invoker = true) AS
+SELECT
+    sw.id,
+    sw.user_id,
+    sw.wine_id,
+    sw.notes,
+    sw.restaurant,
+    sw.price_paid,
+    sw.date_consumed,
+    sw.personal_rating,
+    sw.created_at,
+    w.producer,
+    w.name,
+    w.vintage,
+    w.region,
+    w.sub_region,
+    w.appellation,
+    w.country,
+    w.color,
+    w.grape_varieties,
+    w.alcohol,
+    w.label_url,
+    w.top100_rank,
+    w.top100_year,
+    r.score,
+    r.tasting_note,
+    r.reviewer_initials,
+    r.reviewer_name,
+    r.review_date,
+    r.drink_window_start,
+    r.drink_window_end,
+    r.release_price
+FROM saved_wines sw
+JOIN wines w ON w.id = sw.wine_id
+LEFT JOIN LATERAL (
+    SELECT *
+    FROM reviews
+    WHERE reviews.wine_id = w.id
+    ORDER BY reviews.review_date DESC, reviews.score DESC
+    LIMIT 1
+) r ON true;
@@ -0,0 +1,40 @@
+-- Migration: Counters for the Postgres rate limit store
+-- Run this in Supabase SQL Editor
+
+-- Rate limit counters, one row per caller and fixed window. UNLOGGED: counters are
+-- disposable and this table takes a write on every request.
+CREATE UNLOGGED TABLE IF NOT EXISTS rate_limit_counters (
+    bucket_key TEXT PRIMARY KEY,
+    hits INTEGER NOT NULL,
+    expires_at TIMESTAMPTZ NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_rate_limit_counters_expires_at ON rate_limit_counters(expires_at);
+
+-- Atomically adds cost to a window's counter and returns the new total
+CREATE OR REPLACE FUNCTION rate_limit_hit(bucket TEXT, cost INTEGER, ttl_seconds INTEGER)
+RETURNS INTEGER
+LANGUAGE sql
+AS $$
+    INSERT INTO rate_limit_counters AS c (bucket_key, hits, expires_at)
+    VALUES (bucket, cost, NOW() + make_interval(secs => ttl_seconds))
+    ON CONFLICT (bucket_key) DO UPDATE SET hits = c.hits + EXCLUDED.hits
+    RETURNING c.hits;
+$$;
+
+-- Run periodically (e.g. pg_cron every hour) to drop expired windows
+CREATE OR REPLACE FUNCTION prune_rate_limit_counters()
+RETURNS INTEGER
+LANGUAGE sql
+AS $$
+    WITH deleted AS (
+        DELETE FROM rate_limit_counters WHERE expires_at < NOW() RETURNING 1
+    )
+    SELECT COUNT(*)::INTEGER FROM deleted;
+$$;
+
+ALTER TABLE rate_limit_counters ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Service role full access rate_limit_counters" ON rate_limit_counters;
+CREATE POLICY "Service role full access rate_limit_counters" ON rate_limit_counters
+    FOR ALL USING (auth.role() = 'service_role');
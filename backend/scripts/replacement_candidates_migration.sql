@@ -0,0 +1,30 @@
+-- Migration: Replacement candidates narrowed and ordered in the database
+-- Run this in Supabase SQL Editor, after wine_browse_migration.sql (wine_catalog)
+
+-- Similar-style replacement candidates for a wine, narrowed before ranking (lib/replacements.ts):
+-- same color, headline score within p_score_band of the wine's, under the price cap, and the
+-- same region or a shared grape (same region only with p_same_region). Closest score first,
+-- then closest price.
+CREATE OR REPLACE FUNCTION similar_wine_candidates(
+    p_wine_id UUID,
+    p_score_band INTEGER DEFAULT 9,
+    p_min_score INTEGER DEFAULT NULL,
+    p_max_price NUMERIC DEFAULT NULL,
+    p_same_region BOOLEAN DEFAULT false,
+    p_limit INTEGER DEFAULT 200
+)
+RETURNS SETOF wine_catalog
+LANGUAGE sql
+STABLE
+AS $$
+    SELECT c.*
+    FROM wine_catalog o
+    JOIN wine_catalog c ON c.color = o.color AND c.id <> o.id
+    WHERE o.id = p_wine_id
+      AND c.score BETWEEN o.score - p_score_band AND o.score + p_score_band
+      AND (p_min_score IS NULL OR c.score >= p_min_score)
+      AND (p_max_price IS NULL OR c.release_price <= p_max_price)
+      AND (c.region = o.region OR (NOT p_same_region AND c.grape_names && o.grape_names))
+    ORDER BY abs(c.score - o.score), abs(c.release_price - o.release_price) NULLS LAST, c.id
+    LIMIT p_limit;
+$$;
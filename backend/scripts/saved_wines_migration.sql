@@ -0,0 +1,50 @@
+-- Migration: Saved wines (cellar journal) API
+-- Run this in Supabase SQL Editor
+
+-- Saved wines flattened with their wine and latest review, so the journal can be
+-- filtered and sorted on review fields (score) in one query
+CREATE OR REPLACE VIEW saved_wine_details WITH (security_invoker = true) AS
+SELECT
+    sw.id,
+    sw.user_id,
+    sw.wine_id,
+    sw.notes,
+    sw.restaurant,
+    sw.price_paid,
+    sw.date_consumed,
+    sw.personal_rating,
+    sw.created_at,
+    w.producer,
+    w.name,
+    w.vintage,
+    w.region,
+    w.sub_region,
+    w.appellation,
+    w.country,
+    w.color,
+    w.grape_varieties,
+    w.alcohol,
+    w.label_url,
+    w.top100_rank,
+    w.top100_year,
+    r.score,
+    r.tasting_note,
+    r.reviewer_initials,
+    r.reviewer_name,
+    r.review_date,
+    r.drink_window_start,
+    r.drink_window_end,
+    r.release_price
+FROM saved_wines sw
+JOIN wines w ON w.id = sw.wine_id
+LEFT JOIN LATERAL (
+    SELECT *
+    FROM reviews
+    WHERE reviews.wine_id = w.id
+    ORDER BY reviews.review_date DESC
+    LIMIT 1
+) r ON true;
+
+DROP POLICY IF EXISTS "Users can update own saved wines" ON saved_wines;
+CREATE POLICY "Users can update own saved wines" ON saved_wines
+    FOR UPDATE USING (auth.uid()::text = user_id::text);
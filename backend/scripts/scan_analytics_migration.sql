@@ -0,0 +1,130 @@
+-- Migration: Scan analytics events and daily rollups
+-- Run this in Supabase SQL Editor
+
+-- Scan analytics events sent by the apps. client_event_id is generated on the device, so an
+-- upload that is retried is stored once.
+CREATE TABLE IF NOT EXISTS scan_events (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    client_event_id UUID NOT NULL UNIQUE,
+    event_type VARCHAR(50) NOT NULL,
+    occurred_at TIMESTAMPTZ NOT NULL,
+    user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+    api_key_id UUID REFERENCES api_keys(id) ON DELETE SET NULL,
+    platform VARCHAR(20),
+    app_version VARCHAR(50),
+    os_version VARCHAR(50),
+    device_model VARCHAR(100),
+    wines_detected INTEGER NOT NULL,
+    wines_matched INTEGER NOT NULL,
+    processing_time_ms INTEGER NOT NULL,
+    filters_used TEXT[] NOT NULL DEFAULT '{}',
+    received_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Daily rollups of scan_events (UTC days), rebuilt by rollup_scan_events. Missing device
+-- fields are rolled up as 'unknown'. latency_histogram counts scans per processing time
+-- bucket (bounds in lib/analytics.ts) so percentiles can be estimated across rows.
+CREATE TABLE IF NOT EXISTS scan_daily_stats (
+    day DATE NOT NULL,
+    platform VARCHAR(20) NOT NULL,
+    app_version VARCHAR(50) NOT NULL,
+    device_model VARCHAR(100) NOT NULL,
+    scans INTEGER NOT NULL,
+    wines_detected BIGINT NOT NULL,
+    wines_matched BIGINT NOT NULL,
+    latency_histogram INTEGER[] NOT NULL,
+    PRIMARY KEY (day, platform, app_version, device_model)
+);
+
+-- Scans per day that used each filter
+CREATE TABLE IF NOT EXISTS scan_filter_daily_stats (
+    day DATE NOT NULL,
+    platform VARCHAR(20) NOT NULL,
+    app_version VARCHAR(50) NOT NULL,
+    filter TEXT NOT NULL,
+    scans INTEGER NOT NULL,
+    PRIMARY KEY (day, platform, app_version, filter)
+);
+
+CREATE INDEX IF NOT EXISTS idx_scan_events_occurred_at ON scan_events(occurred_at);
+
+-- Rebuilds the daily scan rollups for p_from..p_to (UTC days, inclusive) from scan_events.
+-- Idempotent, so recent days can be rolled up again as late events arrive; the advisory
+-- lock keeps concurrent runs from colliding. Returns the number of events rolled up.
+CREATE OR REPLACE FUNCTION rollup_scan_events(p_from DATE, p_to DATE, p_latency_bounds INTEGER[])
+RETURNS INTEGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_events INTEGER;
+BEGIN
+    PERFORM pg_advisory_xact_lock(hashtext('rollup_scan_events'));
+
+    DELETE FROM scan_daily_stats WHERE day BETWEEN p_from AND p_to;
+    DELETE FROM scan_filter_daily_stats WHERE day BETWEEN p_from AND p_to;
+
+    CREATE TEMP TABLE scan_rollup_events ON COMMIT DROP AS
+    SELECT
+        (occurred_at AT TIME ZONE 'UTC')::DATE AS day,
+        COALESCE(platform, 'unknown') AS platform,
+        COALESCE(app_version, 'unknown') AS app_version,
+        COALESCE(device_model, 'unknown') AS device_model,
+        wines_detected,
+        wines_matched,
+        width_bucket(processing_time_ms, p_latency_bounds) AS bucket,
+        filters_used
+    FROM scan_events
+    WHERE occurred_at >= (p_from::TIMESTAMP AT TIME ZONE 'UTC')
+      AND occurred_at < ((p_to + 1)::TIMESTAMP AT TIME ZONE 'UTC');
+
+    SELECT COUNT(*) INTO v_events FROM scan_rollup_events;
+
+    INSERT INTO scan_daily_stats (day, platform, app_version, device_model, scans, wines_detected, wines_matched, latency_histogram)
+    WITH buckets AS (
+        SELECT day, platform, app_version, device_model, bucket, COUNT(*) AS scans
+        FROM scan_rollup_events
+        GROUP BY day, platform, app_version, device_model, bucket
+    ),
+    groups AS (
+        SELECT day, platform, app_version, device_model,
+               COUNT(*) AS scans, SUM(wines_detected) AS wines_detected, SUM(wines_matched) AS wines_matched
+        FROM scan_rollup_events
+        GROUP BY day, platform, app_version, device_model
+    )
+    SELECT
+        g.day, g.platform, g.app_version, g.device_model, g.scans, g.wines_detected, g.wines_matched,
+        ARRAY(
+            SELECT COALESCE(bk.scans, 0)::INTEGER
+            FROM generate_series(0, array_length(p_latency_bounds, 1)) AS b(i)
+            LEFT JOIN buckets bk
+                ON bk.bucket = b.i AND bk.day = g.day AND bk.platform = g.platform
+                AND bk.app_version = g.app_version AND bk.device_model = g.device_model
+            ORDER BY b.i
+        )
+    FROM groups g;
+
+    INSERT INTO scan_filter_daily_stats (day, platform, app_version, filter, scans)
+    SELECT e.day, e.platform, e.app_version, f.filter, COUNT(*)
+    FROM scan_rollup_events e
+    CROSS JOIN LATERAL (SELECT DISTINCT unnest(e.filters_used) AS filter) f
+    GROUP BY e.day, e.platform, e.app_version, f.filter;
+
+    RETURN v_events;
+END;
+$$;
+
+ALTER TABLE scan_events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE scan_daily_stats ENABLE ROW LEVEL SECURITY;
+ALTER TABLE scan_filter_daily_stats ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Service role full access scan_events" ON scan_events;
+CREATE POLICY "Service role full access scan_events" ON scan_events
+    FOR ALL USING (auth.role() = 'service_role');
+
+DROP POLICY IF EXISTS "Service role full access scan_daily_stats" ON scan_daily_stats;
+CREATE POLICY "Service role full access scan_daily_stats" ON scan_daily_stats
+    FOR ALL USING (auth.role() = 'service_role');
+
+DROP POLICY IF EXISTS "Service role full access scan_filter_daily_stats" ON scan_filter_daily_stats;
+CREATE POLICY "Service role full access scan_filter_daily_stats" ON scan_filter_daily_stats
+    FOR ALL USING (auth.role() = 'service_role');
@@ -0,0 +1,60 @@
+-- Migration: Monthly scan quota for free users
+-- Run this in Supabase SQL Editor
+
+ALTER TABLE users
+    ADD COLUMN IF NOT EXISTS scans_this_month INTEGER DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS scans_month_start DATE DEFAULT CURRENT_DATE;
+
+-- Meters one wine list scan for a user: rolls the counter over at the start of each
+-- calendar month (UTC), then counts the scan if the user is under p_limit. Active premium
+-- and business subscribers are exempt but still counted. The row lock makes concurrent
+-- scans safe. Returns no row for an unknown user.
+CREATE OR REPLACE FUNCTION consume_scan(p_user_id UUID, p_limit INTEGER)
+RETURNS TABLE (allowed BOOLEAN, scans_used INTEGER, period_start DATE, exempt BOOLEAN)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_period DATE := date_trunc('month', NOW() AT TIME ZONE 'UTC')::DATE;
+    v_user RECORD;
+    v_used INTEGER;
+    v_exempt BOOLEAN;
+    v_allowed BOOLEAN;
+BEGIN
+    SELECT u.scans_this_month, u.scans_month_start, u.subscription_tier, u.subscription_status
+    INTO v_user
+    FROM users u
+    WHERE u.id = p_user_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN;
+    END IF;
+
+    v_used := CASE
+        WHEN v_user.scans_month_start IS NULL OR v_user.scans_month_start < v_period THEN 0
+        ELSE COALESCE(v_user.scans_this_month, 0)
+    END;
+    v_exempt := v_user.subscription_tier IN ('premium', 'business') AND v_user.subscription_status = 'active';
+    v_allowed := v_exempt OR v_used < p_limit;
+
+    IF v_allowed THEN
+        v_used := v_used + 1;
+    END IF;
+
+    UPDATE users
+    SET scans_this_month = v_used, scans_month_start = v_period
+    WHERE id = p_user_id;
+
+    RETURN QUERY SELECT v_allowed, v_used, v_period, v_exempt;
+END;
+$$;
+
+-- Gives back a scan consumed in p_period_start (e.g. when search was unavailable)
+CREATE OR REPLACE FUNCTION release_scan(p_user_id UUID, p_period_start DATE)
+RETURNS VOID
+LANGUAGE sql
+AS $$
+    UPDATE users
+    SET scans_this_month = scans_this_month - 1
+    WHERE id = p_user_id AND scans_month_start = p_period_start AND scans_this_month > 0;
+$$;
@@ -48,10 +48,17 @@ CREATE TABLE IF NOT EXISTS users (
     first_name TEXT,
     last_name TEXT,
     apple_user_id TEXT UNIQUE,
+    password_hash TEXT,
+    marketing_consent BOOLEAN NOT NULL DEFAULT FALSE,
     subscription_tier TEXT NOT NULL DEFAULT 'free' CHECK (subscription_tier IN ('free', 'premium', 'business')),
     subscription_status TEXT NOT NULL DEFAULT 'active' CHECK (subscription_status IN ('active', 'expired', 'cancelled', 'pending')),
     subscription_expires_at TIMESTAMPTZ,
     subscription_product_id TEXT,
+    subscription_store TEXT CHECK (subscription_store IN ('app_store', 'play_store', 'web')),
+    subscription_auto_renew BOOLEAN,
+    subscription_environment TEXT,
+    subscription_updated_at TIMESTAMPTZ,
+    app_store_original_transaction_id TEXT UNIQUE,
     scans_this_month INTEGER DEFAULT 0,
     scans_month_start DATE DEFAULT CURRENT_DATE,
     created_at TIMESTAMPTZ DEFAULT NOW(),
@@ -72,6 +79,230 @@ CREATE TABLE IF NOT EXISTS saved_wines (
     UNIQUE(user_id, wine_id)
 );
 
+-- Refresh tokens (opaque, stored as SHA-256 hashes). A family is one sign-in session;
+-- every rotation stays in the family, and reusing a rotated token revokes all of it.
+CREATE TABLE IF NOT EXISTS refresh_tokens (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    family_id UUID NOT NULL,
+    token_hash TEXT UNIQUE NOT NULL,
+    replaced_by_hash TEXT,
+    expires_at TIMESTAMPTZ NOT NULL,
+    revoked_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Business accounts: an organization whose members share business features, stored
+-- analyses, API keys and plan limits. NULL limits use the plan's defaults (lib/business-accounts.ts).
+CREATE TABLE IF NOT EXISTS business_accounts (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    name VARCHAR(200) NOT NULL,
+    plan VARCHAR(20) NOT NULL DEFAULT 'pro' CHECK (plan IN ('pro', 'enterprise')),
+    subscription_status TEXT NOT NULL DEFAULT 'active' CHECK (subscription_status IN ('active', 'expired', 'cancelled', 'pending')),
+    subscription_expires_at TIMESTAMPTZ,
+    seat_limit INTEGER CHECK (seat_limit > 0),
+    requests_per_minute INTEGER CHECK (requests_per_minute > 0),
+    requests_per_day INTEGER CHECK (requests_per_day > 0),
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Users in a business account; each member takes one seat
+CREATE TABLE IF NOT EXISTS business_account_members (
+    account_id UUID NOT NULL REFERENCES business_accounts(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    role VARCHAR(20) NOT NULL CHECK (role IN ('owner', 'manager', 'staff')),
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    PRIMARY KEY (account_id, user_id)
+);
+
+-- Publishable API keys. Only the SHA-256 of a key is stored; prefix keeps its first
+-- characters so keys can be told apart in listings.
+CREATE TABLE IF NOT EXISTS api_keys (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    name VARCHAR(100) NOT NULL,
+    prefix VARCHAR(32) NOT NULL,
+    key_hash TEXT UNIQUE NOT NULL,
+    environment VARCHAR(10) NOT NULL CHECK (environment IN ('live', 'test')),
+    scopes TEXT[] NOT NULL DEFAULT '{}',
+    tier VARCHAR(20) NOT NULL DEFAULT 'free' CHECK (tier IN ('free', 'premium', 'business')),
+    owner_id UUID REFERENCES users(id) ON DELETE SET NULL,
+    owner_name VARCHAR(200),
+    account_id UUID REFERENCES business_accounts(id) ON DELETE CASCADE,
+    last_used_at TIMESTAMPTZ,
+    expires_at TIMESTAMPTZ,
+    revoked_at TIMESTAMPTZ,
+    rotated_from UUID REFERENCES api_keys(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- App Store Server Notifications v2 already processed, keyed by notificationUUID so
+-- redelivered notifications are acknowledged without being applied twice
+CREATE TABLE IF NOT EXISTS app_store_notifications (
+    notification_uuid TEXT PRIMARY KEY,
+    notification_type TEXT NOT NULL,
+    subtype TEXT,
+    original_transaction_id TEXT,
+    user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+    environment TEXT,
+    signed_at TIMESTAMPTZ NOT NULL,
+    processed_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Business wine list analyses; the report is stored as returned so it can be fetched and
+-- exported again without re-matching. user_id is who ran it (NULL for an API key).
+CREATE TABLE IF NOT EXISTS list_analyses (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    account_id UUID REFERENCES business_accounts(id) ON DELETE CASCADE,
+    user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+    restaurant_name TEXT,
+    options JSONB NOT NULL,
+    summary JSONB NOT NULL,
+    alerts JSONB NOT NULL,
+    wines JSONB NOT NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Webhook endpoints registered by business accounts. The secret signs every delivery, so it
+-- is kept as issued.
+CREATE TABLE IF NOT EXISTS webhook_endpoints (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    account_id UUID NOT NULL REFERENCES business_accounts(id) ON DELETE CASCADE,
+    url TEXT NOT NULL,
+    description VARCHAR(200),
+    events TEXT[] NOT NULL,
+    secret TEXT NOT NULL,
+    enabled BOOLEAN NOT NULL DEFAULT TRUE,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Outbox of webhook events, written by triggers in the same transaction as the change that
+-- caused them; each event fans out to one delivery per subscribed endpoint
+CREATE TABLE IF NOT EXISTS webhook_events (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    account_id UUID NOT NULL REFERENCES business_accounts(id) ON DELETE CASCADE,
+    type TEXT NOT NULL,
+    data JSONB NOT NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- One event sent to one endpoint, with the outcome of the latest attempt. Pending deliveries
+-- are sent once next_attempt_at has passed; failed means the retries ran out.
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    event_id UUID NOT NULL REFERENCES webhook_events(id) ON DELETE CASCADE,
+    endpoint_id UUID NOT NULL REFERENCES webhook_endpoints(id) ON DELETE CASCADE,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'succeeded', 'failed')),
+    attempts INTEGER NOT NULL DEFAULT 0,
+    next_attempt_at TIMESTAMPTZ DEFAULT NOW(),
+    last_attempt_at TIMESTAMPTZ,
+    response_status INTEGER,
+    response_body TEXT,
+    error TEXT,
+    redelivery_of UUID REFERENCES webhook_deliveries(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Scan analytics events sent by the apps. client_event_id is generated on the device, so an
+-- upload that is retried is stored once.
+CREATE TABLE IF NOT EXISTS scan_events (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    client_event_id UUID NOT NULL UNIQUE,
+    event_type VARCHAR(50) NOT NULL,
+    occurred_at TIMESTAMPTZ NOT NULL,
+    user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+    api_key_id UUID REFERENCES api_keys(id) ON DELETE SET NULL,
+    platform VARCHAR(20),
+    app_version VARCHAR(50),
+    os_version VARCHAR(50),
+    device_model VARCHAR(100),
+    wines_detected INTEGER NOT NULL,
+    wines_matched INTEGER NOT NULL,
+    processing_time_ms INTEGER NOT NULL,
+    filters_used TEXT[] NOT NULL DEFAULT '{}',
+    received_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Daily rollups of scan_events (UTC days), rebuilt by rollup_scan_events. Missing device
+-- fields are rolled up as 'unknown'. latency_histogram counts scans per processing time
+-- bucket (bounds in lib/analytics.ts) so percentiles can be estimated across rows.
+CREATE TABLE IF NOT EXISTS scan_daily_stats (
+    day DATE NOT NULL,
+    platform VARCHAR(20) NOT NULL,
+    app_version VARCHAR(50) NOT NULL,
+    device_model VARCHAR(100) NOT NULL,
+    scans INTEGER NOT NULL,
+    wines_detected BIGINT NOT NULL,
+    wines_matched BIGINT NOT NULL,
+    latency_histogram INTEGER[] NOT NULL,
+    PRIMARY KEY (day, platform, app_version, device_model)
+);
+
+-- Scans per day that used each filter
+CREATE TABLE IF NOT EXISTS scan_filter_daily_stats (
+    day DATE NOT NULL,
+    platform VARCHAR(20) NOT NULL,
+    app_version VARCHAR(50) NOT NULL,
+    filter TEXT NOT NULL,
+    scans INTEGER NOT NULL,
+    PRIMARY KEY (day, platform, app_version, filter)
+);
+
+-- Batch-match queries that found no match or only a low-confidence one, one row per
+-- normalized query. best_wine_id is the search's best candidate at the last miss (not a
+-- foreign key: it comes from the search index). Resolved rows have an alias in wine_aliases.
+CREATE TABLE IF NOT EXISTS unmatched_queries (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    normalized_query TEXT NOT NULL UNIQUE,
+    sample_query TEXT NOT NULL,
+    occurrences INTEGER NOT NULL DEFAULT 1,
+    best_confidence DECIMAL(4,3) NOT NULL DEFAULT 0,
+    best_wine_id UUID,
+    status VARCHAR(20) NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'resolved', 'ignored')),
+    wine_id UUID REFERENCES wines(id) ON DELETE SET NULL,
+    first_seen_at TIMESTAMPTZ DEFAULT NOW(),
+    last_seen_at TIMESTAMPTZ DEFAULT NOW(),
+    resolved_at TIMESTAMPTZ
+);
+
+-- Curated spellings of a wine, checked by the matcher before search. Keyed by the
+-- normalized text (lib/search.ts normalizeText), so case, accents and punctuation don't matter.
+CREATE TABLE IF NOT EXISTS wine_aliases (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    alias TEXT NOT NULL,
+    normalized_alias TEXT NOT NULL UNIQUE,
+    wine_id UUID NOT NULL REFERENCES wines(id) ON DELETE CASCADE,
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Search synonyms, pushed to the search provider by the sync job (lib/search-synonyms.ts).
+-- A two-way group makes every term match every other; a one-way group lets queries with
+-- input also match its synonyms (e.g. "ch." finds "chateau" but not the reverse).
+CREATE TABLE IF NOT EXISTS search_synonyms (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    type VARCHAR(20) NOT NULL DEFAULT 'synonym' CHECK (type IN ('synonym', 'one_way')),
+    input TEXT,
+    synonyms TEXT[] NOT NULL,
+    category VARCHAR(20) NOT NULL DEFAULT 'general' CHECK (category IN ('general', 'grape', 'region', 'producer')),
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    CHECK ((type = 'one_way') = (input IS NOT NULL))
+);
+
+-- The built-in synonyms (WINE_SYNONYMS in lib/search-settings.ts), on first setup only
+INSERT INTO search_synonyms (type, synonyms, category)
+SELECT 'synonym', s.synonyms, s.category
+FROM (VALUES
+    (ARRAY['cabernet', 'cab', 'cabernet sauvignon', 'cs'], 'grape'),
+    (ARRAY['chardonnay', 'chard'], 'grape'),
+    (ARRAY['sauvignon', 'sauv', 'sauvignon blanc', 'sb'], 'grape'),
+    (ARRAY['pinot noir', 'pn', 'pinot'], 'grape'),
+    (ARRAY['chateau', 'ch', 'cht', 'château'], 'producer'),
+    (ARRAY['domaine', 'dom', 'domaine de'], 'producer')
+) AS s(synonyms, category)
+WHERE NOT EXISTS (SELECT 1 FROM search_synonyms);
+
 -- Indexes for performance
 CREATE INDEX IF NOT EXISTS idx_wines_producer ON wines(producer);
 CREATE INDEX IF NOT EXISTS idx_wines_name ON wines(name);
@@ -83,11 +314,36 @@ CREATE INDEX IF NOT EXISTS idx_wines_top100_rank ON wines(top100_rank) WHERE top
 CREATE INDEX IF NOT EXISTS idx_wines_top100_year ON wines(top100_year) WHERE top100_year IS NOT NULL;
 
 CREATE INDEX IF NOT EXISTS idx_reviews_wine_id ON reviews(wine_id);
+CREATE INDEX IF NOT EXISTS idx_reviews_wine_date ON reviews(wine_id, review_date DESC, score DESC);
+CREATE INDEX IF NOT EXISTS idx_wines_top100 ON wines(top100_year, top100_rank) WHERE top100_rank IS NOT NULL;
 CREATE INDEX IF NOT EXISTS idx_reviews_score ON reviews(score);
 
 CREATE INDEX IF NOT EXISTS idx_users_email ON users(email);
 CREATE INDEX IF NOT EXISTS idx_users_apple_user_id ON users(apple_user_id);
 
+CREATE INDEX IF NOT EXISTS idx_refresh_tokens_user_id ON refresh_tokens(user_id);
+CREATE INDEX IF NOT EXISTS idx_refresh_tokens_family_id ON refresh_tokens(family_id);
+
+CREATE INDEX IF NOT EXISTS idx_business_account_members_user_id ON business_account_members(user_id);
+
+CREATE INDEX IF NOT EXISTS idx_api_keys_owner_id ON api_keys(owner_id);
+CREATE INDEX IF NOT EXISTS idx_api_keys_account_id ON api_keys(account_id);
+
+CREATE INDEX IF NOT EXISTS idx_app_store_notifications_original_transaction_id ON app_store_notifications(original_transaction_id);
+
+CREATE INDEX IF NOT EXISTS idx_list_analyses_account_id ON list_analyses(account_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_endpoints_account_id ON webhook_endpoints(account_id);
+CREATE INDEX IF NOT EXISTS idx_webhook_events_account_id ON webhook_events(account_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_endpoint_id ON webhook_deliveries(endpoint_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_event_id ON webhook_deliveries(event_id);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due ON webhook_deliveries(next_attempt_at) WHERE status = 'pending';
+
+CREATE INDEX IF NOT EXISTS idx_scan_events_occurred_at ON scan_events(occurred_at);
+
+CREATE INDEX IF NOT EXISTS idx_unmatched_queries_open ON unmatched_queries(occurrences DESC) WHERE status = 'open';
+CREATE INDEX IF NOT EXISTS idx_wine_aliases_wine_id ON wine_aliases(wine_id);
+
 CREATE INDEX IF NOT EXISTS idx_saved_wines_user_id ON saved_wines(user_id);
 CREATE INDEX IF NOT EXISTS idx_saved_wines_wine_id ON saved_wines(wine_id);
 
@@ -96,6 +352,691 @@ CREATE INDEX IF NOT EXISTS idx_wines_fts ON wines USING gin(
     to_tsvector('english', producer || ' ' || name || ' ' || region || ' ' || country)
 );
 
+-- Lower-cased words of a search text, punctuation dropped, single-spaced
+CREATE OR REPLACE FUNCTION normalize_search_text(p_text TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+    SELECT trim(regexp_replace(lower(regexp_replace(COALESCE(p_text, ''), '[^[:alnum:][:space:]]', ' ', 'g')), '\s+', ' ', 'g'));
+$$;
+
+-- Full-text search fallback used when the primary search provider is unavailable.
+-- Matches the idx_wines_fts expression exactly so the GIN index is used. Query terms are
+-- expanded with search_synonyms.
+CREATE OR REPLACE FUNCTION search_wines_fts(
+    search_query TEXT,
+    max_results INTEGER DEFAULT 10,
+    filter_color TEXT DEFAULT NULL,
+    filter_country TEXT DEFAULT NULL,
+    filter_min_score INTEGER DEFAULT NULL,
+    filter_vintage INTEGER DEFAULT NULL
+)
+RETURNS TABLE (
+    id UUID,
+    producer TEXT,
+    name TEXT,
+    vintage INTEGER,
+    region TEXT,
+    sub_region TEXT,
+    appellation TEXT,
+    country TEXT,
+    color TEXT,
+    grape_varieties JSONB,
+    alcohol NUMERIC,
+    label_url TEXT,
+    top100_rank INTEGER,
+    top100_year INTEGER,
+    score INTEGER,
+    tasting_note TEXT,
+    reviewer_initials TEXT,
+    reviewer_name TEXT,
+    review_date DATE,
+    drink_window_start INTEGER,
+    drink_window_end INTEGER,
+    release_price NUMERIC,
+    rank REAL
+)
+LANGUAGE sql STABLE
+AS $$
+    WITH terms AS (
+        SELECT normalize_search_text(search_query) AS text
+    ),
+    -- Managed synonyms (search_synonyms, the same groups the other providers get): a two-way
+    -- group joins in when the query contains any of its terms, a one-way group when it
+    -- contains the input. Terms are matched as whole words.
+    expansions AS (
+        SELECT DISTINCT normalize_search_text(synonym) AS phrase
+        FROM search_synonyms g
+        CROSS JOIN terms t
+        CROSS JOIN LATERAL unnest(g.synonyms) AS synonym
+        WHERE CASE
+            WHEN g.type = 'one_way' THEN ' ' || t.text || ' ' LIKE '% ' || normalize_search_text(g.input) || ' %'
+            ELSE EXISTS (
+                SELECT 1 FROM unnest(g.synonyms) AS member
+                WHERE ' ' || t.text || ' ' LIKE '% ' || normalize_search_text(member) || ' %'
+            )
+        END
+    ),
+    q AS (
+        -- OR the terms together (with prefix matching): list lines carry prices and bin numbers.
+        -- Multi-word synonyms are added as phrases.
+        SELECT to_tsquery('english', string_agg(part, ' | ')) AS query
+        FROM (
+            SELECT term || ':*' AS part
+            FROM terms, regexp_split_to_table(terms.text, ' ') AS term
+            WHERE term <> ''
+            UNION
+            SELECT '(' || array_to_string(ARRAY(
+                SELECT word || ':*' FROM regexp_split_to_table(phrase, ' ') AS word WHERE word <> ''
+            ), ' <-> ') || ')'
+            FROM expansions
+            WHERE phrase <> ''
+        ) AS parts
+    )
+    SELECT
+        w.id, w.producer, w.name, w.vintage, w.region, w.sub_region, w.appellation,
+        w.country, w.color, w.grape_varieties, w.alcohol, w.label_url, w.top100_rank, w.top100_year,
+        r.score, r.tasting_note, r.reviewer_initials, r.reviewer_name, r.review_date,
+        r.drink_window_start, r.drink_window_end, r.release_price,
+        ts_rank_cd(to_tsvector('english', w.producer || ' ' || w.name || ' ' || w.region || ' ' || w.country), q.query) AS rank
+    FROM wines w
+    CROSS JOIN q
+    JOIN LATERAL (
+        SELECT * FROM reviews rv
+        WHERE rv.wine_id = w.id
+        ORDER BY rv.review_date DESC, rv.score DESC
+        LIMIT 1
+    ) r ON true
+    WHERE to_tsvector('english', w.producer || ' ' || w.name || ' ' || w.region || ' ' || w.country) @@ q.query
+      AND (filter_color IS NULL OR w.color = filter_color)
+      AND (filter_country IS NULL OR w.country = filter_country)
+      AND (filter_min_score IS NULL OR r.score >= filter_min_score)
+      AND (filter_vintage IS NULL OR w.vintage = filter_vintage)
+    ORDER BY rank DESC, r.score DESC
+    LIMIT max_results;
+$$;
+
+-- Saved wines flattened with their wine and headline review (latest, as in lib/reviews.ts), so the journal can be
+-- filtered and sorted on review fields (score) in one query
+CREATE OR REPLACE VIEW saved_wine_details WITH (security_invoker = true) AS
+SELECT
+    sw.id,
+    sw.user_id,
+    sw.wine_id,
+    sw.notes,
+    sw.restaurant,
+    sw.price_paid,
+    sw.date_consumed,
+    sw.personal_rating,
+    sw.created_at,
+    w.producer,
+    w.name,
+    w.vintage,
+    w.region,
+    w.sub_region,
+    w.appellation,
+    w.country,
+    w.color,
+    w.grape_varieties,
+    w.alcohol,
+    w.label_url,
+    w.top100_rank,
+    w.top100_year,
+    r.score,
+    r.tasting_note,
+    r.reviewer_initials,
+    r.reviewer_name,
+    r.review_date,
+    r.drink_window_start,
+    r.drink_window_end,
+    r.release_price
+FROM saved_wines sw
+JOIN wines w ON w.id = sw.wine_id
+LEFT JOIN LATERAL (
+    SELECT *
+    FROM reviews
+    WHERE reviews.wine_id = w.id
+    ORDER BY reviews.review_date DESC, reviews.score DESC
+    LIMIT 1
+) r ON true;
+
+-- Same rule as drinkWindowStatus() in lib/list-analysis.ts
+CREATE OR REPLACE FUNCTION drink_window_status(p_start INTEGER, p_end INTEGER, p_year INTEGER)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+    SELECT CASE
+        WHEN p_start IS NULL AND p_end IS NULL THEN 'unknown'
+        WHEN p_start IS NOT NULL AND p_year < p_start THEN 'too_young'
+        WHEN p_end IS NOT NULL AND p_year > p_end THEN 'past_window'
+        WHEN p_end IS NOT NULL AND p_year = p_end THEN 'drink_soon'
+        ELSE 'ready'
+    END;
+$$;
+
+-- Reviewed wines flattened with their headline review (latest, as in lib/reviews.ts), for the
+-- catalog browse. grape_names and drink_window_status make those filterable.
+CREATE OR REPLACE VIEW wine_catalog WITH (security_invoker = true) AS
+SELECT
+    w.id,
+    w.producer,
+    w.name,
+    w.vintage,
+    w.region,
+    w.sub_region,
+    w.appellation,
+    w.country,
+    w.color,
+    w.grape_varieties,
+    ARRAY(SELECT g->>'name' FROM jsonb_array_elements(COALESCE(w.grape_varieties, '[]'::jsonb)) AS g) AS grape_names,
+    w.alcohol,
+    w.label_url,
+    w.top100_rank,
+    w.top100_year,
+    r.score,
+    r.tasting_note,
+    r.reviewer_initials,
+    r.reviewer_name,
+    r.review_date,
+    r.drink_window_start,
+    r.drink_window_end,
+    r.release_price,
+    drink_window_status(r.drink_window_start, r.drink_window_end, EXTRACT(YEAR FROM CURRENT_DATE)::INTEGER) AS drink_window_status
+FROM wines w
+JOIN LATERAL (
+    SELECT *
+    FROM reviews
+    WHERE reviews.wine_id = w.id
+    ORDER BY reviews.review_date DESC, reviews.score DESC
+    LIMIT 1
+) r ON true;
+
+-- Rate limit counters, one row per caller and fixed window. UNLOGGED: counters are
+-- disposable and this table takes a write on every request.
+CREATE UNLOGGED TABLE IF NOT EXISTS rate_limit_counters (
+    bucket_key TEXT PRIMARY KEY,
+    hits INTEGER NOT NULL,
+    expires_at TIMESTAMPTZ NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_rate_limit_counters_expires_at ON rate_limit_counters(expires_at);
+
+-- Atomically adds cost to a window's counter and returns the new total
+CREATE OR REPLACE FUNCTION rate_limit_hit(bucket TEXT, cost INTEGER, ttl_seconds INTEGER)
+RETURNS INTEGER
+LANGUAGE sql
+AS $$
+    INSERT INTO rate_limit_counters AS c (bucket_key, hits, expires_at)
+    VALUES (bucket, cost, NOW() + make_interval(secs => ttl_seconds))
+    ON CONFLICT (bucket_key) DO UPDATE SET hits = c.hits + EXCLUDED.hits
+    RETURNING c.hits;
+$$;
+
+-- Run periodically (e.g. pg_cron every hour) to drop expired windows
+CREATE OR REPLACE FUNCTION prune_rate_limit_counters()
+RETURNS INTEGER
+LANGUAGE sql
+AS $$
+    WITH deleted AS (
+        DELETE FROM rate_limit_counters WHERE expires_at < NOW() RETURNING 1
+    )
+    SELECT COUNT(*)::INTEGER FROM deleted;
+$$;
+
+-- Meters one wine list scan for a user: rolls the counter over at the start of each
+-- calendar month (UTC), then counts the scan if the user is under p_limit. Active premium
+-- and business subscribers are exempt but still counted. The row lock makes concurrent
+-- scans safe. Returns no row for an unknown user.
+CREATE OR REPLACE FUNCTION consume_scan(p_user_id UUID, p_limit INTEGER)
+RETURNS TABLE (allowed BOOLEAN, scans_used INTEGER, period_start DATE, exempt BOOLEAN)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_period DATE := date_trunc('month', NOW() AT TIME ZONE 'UTC')::DATE;
+    v_user RECORD;
+    v_used INTEGER;
+    v_exempt BOOLEAN;
+    v_allowed BOOLEAN;
+BEGIN
+    SELECT u.scans_this_month, u.scans_month_start, u.subscription_tier, u.subscription_status
+    INTO v_user
+    FROM users u
+    WHERE u.id = p_user_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN;
+    END IF;
+
+    v_used := CASE
+        WHEN v_user.scans_month_start IS NULL OR v_user.scans_month_start < v_period THEN 0
+        ELSE COALESCE(v_user.scans_this_month, 0)
+    END;
+    v_exempt := v_user.subscription_tier IN ('premium', 'business') AND v_user.subscription_status = 'active';
+    v_allowed := v_exempt OR v_used < p_limit;
+
+    IF v_allowed THEN
+        v_used := v_used + 1;
+    END IF;
+
+    UPDATE users
+    SET scans_this_month = v_used, scans_month_start = v_period
+    WHERE id = p_user_id;
+
+    RETURN QUERY SELECT v_allowed, v_used, v_period, v_exempt;
+END;
+$$;
+
+-- Gives back a scan consumed in p_period_start (e.g. when search was unavailable)
+CREATE OR REPLACE FUNCTION release_scan(p_user_id UUID, p_period_start DATE)
+RETURNS VOID
+LANGUAGE sql
+AS $$
+    UPDATE users
+    SET scans_this_month = scans_this_month - 1
+    WHERE id = p_user_id AND scans_month_start = p_period_start AND scans_this_month > 0;
+$$;
+
+-- Adds a user to a business account unless the account is at p_seat_limit members. Both
+-- membership functions lock the account row, so seat counts and the last-owner check hold
+-- under concurrent changes. status: 'added', 'already_member', 'seat_limit' or 'not_found'.
+CREATE OR REPLACE FUNCTION add_business_account_member(p_account_id UUID, p_user_id UUID, p_role TEXT, p_seat_limit INTEGER)
+RETURNS TABLE (status TEXT, seats_used INTEGER)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_used INTEGER;
+BEGIN
+    PERFORM 1 FROM business_accounts WHERE id = p_account_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RETURN QUERY SELECT 'not_found'::TEXT, 0;
+        RETURN;
+    END IF;
+
+    SELECT COUNT(*)::INTEGER INTO v_used FROM business_account_members m WHERE m.account_id = p_account_id;
+
+    IF EXISTS (SELECT 1 FROM business_account_members m WHERE m.account_id = p_account_id AND m.user_id = p_user_id) THEN
+        RETURN QUERY SELECT 'already_member'::TEXT, v_used;
+    ELSIF v_used >= p_seat_limit THEN
+        RETURN QUERY SELECT 'seat_limit'::TEXT, v_used;
+    ELSE
+        INSERT INTO business_account_members (account_id, user_id, role) VALUES (p_account_id, p_user_id, p_role);
+        RETURN QUERY SELECT 'added'::TEXT, v_used + 1;
+    END IF;
+END;
+$$;
+
+-- Changes a member's role, or removes the member when p_role is NULL. An account always
+-- keeps at least one owner. status: 'updated', 'removed', 'last_owner' or 'not_found'.
+CREATE OR REPLACE FUNCTION change_business_account_member(p_account_id UUID, p_user_id UUID, p_role TEXT)
+RETURNS TEXT
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_role TEXT;
+BEGIN
+    PERFORM 1 FROM business_accounts WHERE id = p_account_id FOR UPDATE;
+
+    SELECT m.role INTO v_role
+    FROM business_account_members m
+    WHERE m.account_id = p_account_id AND m.user_id = p_user_id;
+
+    IF NOT FOUND THEN
+        RETURN 'not_found';
+    END IF;
+
+    IF v_role = 'owner' AND p_role IS DISTINCT FROM 'owner' AND NOT EXISTS (
+        SELECT 1 FROM business_account_members m
+        WHERE m.account_id = p_account_id AND m.role = 'owner' AND m.user_id <> p_user_id
+    ) THEN
+        RETURN 'last_owner';
+    END IF;
+
+    IF p_role IS NULL THEN
+        DELETE FROM business_account_members WHERE account_id = p_account_id AND user_id = p_user_id;
+        RETURN 'removed';
+    END IF;
+
+    UPDATE business_account_members SET role = p_role WHERE account_id = p_account_id AND user_id = p_user_id;
+    RETURN 'updated';
+END;
+$$;
+
+-- Records a webhook event for an account and queues a delivery to each enabled endpoint
+-- subscribed to its type. Called from the triggers below, inside the triggering transaction.
+CREATE OR REPLACE FUNCTION enqueue_webhook_event(p_account_id UUID, p_type TEXT, p_data JSONB)
+RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_event_id UUID;
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM webhook_endpoints
+        WHERE account_id = p_account_id AND enabled AND p_type = ANY(events)
+    ) THEN
+        RETURN;
+    END IF;
+
+    INSERT INTO webhook_events (account_id, type, data)
+    VALUES (p_account_id, p_type, p_data)
+    RETURNING id INTO v_event_id;
+
+    INSERT INTO webhook_deliveries (event_id, endpoint_id)
+    SELECT v_event_id, id
+    FROM webhook_endpoints
+    WHERE account_id = p_account_id AND enabled AND p_type = ANY(events);
+END;
+$$;
+
+-- list.analyzed for every analysis stored for an account
+CREATE OR REPLACE FUNCTION list_analyses_webhook()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    IF NEW.account_id IS NOT NULL THEN
+        PERFORM enqueue_webhook_event(NEW.account_id, 'list.analyzed', jsonb_build_object(
+            'analysis_id', NEW.id,
+            'restaurant_name', NEW.restaurant_name,
+            'total_wines', NEW.summary->'total_wines',
+            'match_rate', NEW.summary->'match_rate'
+        ));
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+-- subscription.cancelled when an account's subscription is cancelled; subscription.renewed
+-- when it becomes active again or an active subscription is extended. Only the account state
+-- set by admins (PATCH /admin/business-accounts/{id}) fires these: App Store subscriptions
+-- belong to users (lib/subscriptions.ts) and don't change business_accounts.
+CREATE OR REPLACE FUNCTION business_accounts_webhook()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_type TEXT;
+BEGIN
+    IF NEW.subscription_status = 'cancelled' AND OLD.subscription_status <> 'cancelled' THEN
+        v_type := 'subscription.cancelled';
+    ELSIF NEW.subscription_status = 'active' AND (
+        OLD.subscription_status <> 'active'
+        OR NEW.subscription_expires_at > COALESCE(OLD.subscription_expires_at, '-infinity'::TIMESTAMPTZ)
+    ) THEN
+        v_type := 'subscription.renewed';
+    END IF;
+
+    IF v_type IS NOT NULL THEN
+        PERFORM enqueue_webhook_event(NEW.id, v_type, jsonb_build_object(
+            'account_id', NEW.id,
+            'plan', NEW.plan,
+            'subscription_status', NEW.subscription_status,
+            'subscription_expires_at', NEW.subscription_expires_at
+        ));
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+-- Claims up to p_limit due deliveries for sending. Claimed rows are pushed p_lease_seconds
+-- into the future so a concurrent dispatcher skips them; a dispatcher that dies mid-send
+-- leaves them to be retried once the lease runs out.
+CREATE OR REPLACE FUNCTION claim_webhook_deliveries(p_limit INTEGER, p_lease_seconds INTEGER)
+RETURNS TABLE (
+    delivery_id UUID,
+    attempts INTEGER,
+    event_id UUID,
+    event_type TEXT,
+    account_id UUID,
+    data JSONB,
+    event_created_at TIMESTAMPTZ,
+    url TEXT,
+    secret TEXT,
+    enabled BOOLEAN
+)
+LANGUAGE sql
+AS $$
+    WITH claimed AS (
+        UPDATE webhook_deliveries d
+        SET next_attempt_at = NOW() + make_interval(secs => p_lease_seconds)
+        WHERE d.id IN (
+            SELECT due.id
+            FROM webhook_deliveries due
+            WHERE due.status = 'pending' AND due.next_attempt_at <= NOW()
+            ORDER BY due.next_attempt_at
+            LIMIT p_limit
+            FOR UPDATE SKIP LOCKED
+        )
+        RETURNING d.id, d.attempts, d.event_id, d.endpoint_id
+    )
+    SELECT c.id, c.attempts, e.id, e.type, e.account_id, e.data, e.created_at, w.url, w.secret, w.enabled
+    FROM claimed c
+    JOIN webhook_events e ON e.id = c.event_id
+    JOIN webhook_endpoints w ON w.id = c.endpoint_id;
+$$;
+
+-- Rebuilds the daily scan rollups for p_from..p_to (UTC days, inclusive) from scan_events.
+-- Idempotent, so recent days can be rolled up again as late events arrive; the advisory
+-- lock keeps concurrent runs from colliding. Returns the number of events rolled up.
+CREATE OR REPLACE FUNCTION rollup_scan_events(p_from DATE, p_to DATE, p_latency_bounds INTEGER[])
+RETURNS INTEGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_events INTEGER;
+BEGIN
+    PERFORM pg_advisory_xact_lock(hashtext('rollup_scan_events'));
+
+    DELETE FROM scan_daily_stats WHERE day BETWEEN p_from AND p_to;
+    DELETE FROM scan_filter_daily_stats WHERE day BETWEEN p_from AND p_to;
+
+    CREATE TEMP TABLE scan_rollup_events ON COMMIT DROP AS
+    SELECT
+        (occurred_at AT TIME ZONE 'UTC')::DATE AS day,
+        COALESCE(platform, 'unknown') AS platform,
+        COALESCE(app_version, 'unknown') AS app_version,
+        COALESCE(device_model, 'unknown') AS device_model,
+        wines_detected,
+        wines_matched,
+        width_bucket(processing_time_ms, p_latency_bounds) AS bucket,
+        filters_used
+    FROM scan_events
+    WHERE occurred_at >= (p_from::TIMESTAMP AT TIME ZONE 'UTC')
+      AND occurred_at < ((p_to + 1)::TIMESTAMP AT TIME ZONE 'UTC');
+
+    SELECT COUNT(*) INTO v_events FROM scan_rollup_events;
+
+    INSERT INTO scan_daily_stats (day, platform, app_version, device_model, scans, wines_detected, wines_matched, latency_histogram)
+    WITH buckets AS (
+        SELECT day, platform, app_version, device_model, bucket, COUNT(*) AS scans
+        FROM scan_rollup_events
+        GROUP BY day, platform, app_version, device_model, bucket
+    ),
+    groups AS (
+        SELECT day, platform, app_version, device_model,
+               COUNT(*) AS scans, SUM(wines_detected) AS wines_detected, SUM(wines_matched) AS wines_matched
+        FROM scan_rollup_events
+        GROUP BY day, platform, app_version, device_model
+    )
+    SELECT
+        g.day, g.platform, g.app_version, g.device_model, g.scans, g.wines_detected, g.wines_matched,
+        ARRAY(
+            SELECT COALESCE(bk.scans, 0)::INTEGER
+            FROM generate_series(0, array_length(p_latency_bounds, 1)) AS b(i)
+            LEFT JOIN buckets bk
+                ON bk.bucket = b.i AND bk.day = g.day AND bk.platform = g.platform
+                AND bk.app_version = g.app_version AND bk.device_model = g.device_model
+            ORDER BY b.i
+        )
+    FROM groups g;
+
+    INSERT INTO scan_filter_daily_stats (day, platform, app_version, filter, scans)
+    SELECT e.day, e.platform, e.app_version, f.filter, COUNT(*)
+    FROM scan_rollup_events e
+    CROSS JOIN LATERAL (SELECT DISTINCT unnest(e.filters_used) AS filter) f
+    GROUP BY e.day, e.platform, e.app_version, f.filter;
+
+    RETURN v_events;
+END;
+$$;
+
+-- Counts misses from one request: p_queries is [{ normalized_query, query, occurrences,
+-- best_confidence, best_wine_id }] with each normalized_query once. A resolved query that
+-- misses again (e.g. its alias was deleted) goes back in the queue.
+CREATE OR REPLACE FUNCTION record_unmatched_queries(p_queries JSONB)
+RETURNS VOID
+LANGUAGE sql
+AS $$
+    INSERT INTO unmatched_queries (normalized_query, sample_query, occurrences, best_confidence, best_wine_id)
+    SELECT q.normalized_query, q.query, q.occurrences, q.best_confidence, q.best_wine_id
+    FROM jsonb_to_recordset(p_queries) AS q(normalized_query TEXT, query TEXT, occurrences INTEGER, best_confidence DECIMAL, best_wine_id UUID)
+    ON CONFLICT (normalized_query) DO UPDATE SET
+        sample_query = EXCLUDED.sample_query,
+        occurrences = unmatched_queries.occurrences + EXCLUDED.occurrences,
+        best_confidence = EXCLUDED.best_confidence,
+        best_wine_id = EXCLUDED.best_wine_id,
+        last_seen_at = NOW(),
+        status = CASE WHEN unmatched_queries.status = 'resolved' THEN 'open' ELSE unmatched_queries.status END,
+        resolved_at = CASE WHEN unmatched_queries.status = 'resolved' THEN NULL ELSE unmatched_queries.resolved_at END;
+$$;
+
+-- Aliases for the normalized queries of a batch (an array, so long lists don't go in a URL)
+CREATE OR REPLACE FUNCTION find_wine_aliases(p_normalized TEXT[])
+RETURNS TABLE (normalized_alias TEXT, wine_id UUID)
+LANGUAGE sql
+STABLE
+AS $$
+    SELECT a.normalized_alias, a.wine_id
+    FROM wine_aliases a
+    WHERE a.normalized_alias = ANY(p_normalized);
+$$;
+
+-- Lower-cased values of a JSON array filter, NULL when the filter isn't set
+CREATE OR REPLACE FUNCTION catalog_filter_values(p_values JSONB)
+RETURNS TEXT[]
+LANGUAGE sql
+IMMUTABLE
+AS $$
+    SELECT CASE WHEN p_values IS NULL THEN NULL
+        ELSE ARRAY(SELECT lower(v) FROM jsonb_array_elements_text(p_values) AS v)
+    END;
+$$;
+
+-- The catalog narrowed by p_filters (lib/wine-browse.ts builds it): lists of region,
+-- sub_region, appellation, country, color, grape, drink_window_status and top100_year
+-- (any value matches, ignoring case), and min_/max_ bounds on score, price and vintage plus
+-- max_top100_rank. Callers sort and page the result.
+CREATE OR REPLACE FUNCTION browse_wine_catalog(p_filters JSONB DEFAULT '{}')
+RETURNS SETOF wine_catalog
+LANGUAGE sql
+STABLE
+AS $$
+    SELECT c.*
+    FROM wine_catalog c
+    WHERE (NOT p_filters ? 'region' OR lower(c.region) = ANY (catalog_filter_values(p_filters->'region')))
+      AND (NOT p_filters ? 'sub_region' OR lower(c.sub_region) = ANY (catalog_filter_values(p_filters->'sub_region')))
+      AND (NOT p_filters ? 'appellation' OR lower(c.appellation) = ANY (catalog_filter_values(p_filters->'appellation')))
+      AND (NOT p_filters ? 'country' OR lower(c.country) = ANY (catalog_filter_values(p_filters->'country')))
+      AND (NOT p_filters ? 'color' OR c.color = ANY (catalog_filter_values(p_filters->'color')))
+      AND (NOT p_filters ? 'grape' OR EXISTS (
+          SELECT 1 FROM unnest(c.grape_names) AS g WHERE lower(g) = ANY (catalog_filter_values(p_filters->'grape'))
+      ))
+      AND (NOT p_filters ? 'drink_window_status' OR c.drink_window_status = ANY (catalog_filter_values(p_filters->'drink_window_status')))
+      AND (NOT p_filters ? 'top100_year' OR c.top100_year::TEXT = ANY (catalog_filter_values(p_filters->'top100_year')))
+      AND (NOT p_filters ? 'max_top100_rank' OR c.top100_rank <= (p_filters->>'max_top100_rank')::INTEGER)
+      AND (NOT p_filters ? 'min_score' OR c.score >= (p_filters->>'min_score')::INTEGER)
+      AND (NOT p_filters ? 'max_score' OR c.score <= (p_filters->>'max_score')::INTEGER)
+      AND (NOT p_filters ? 'min_price' OR c.release_price >= (p_filters->>'min_price')::NUMERIC)
+      AND (NOT p_filters ? 'max_price' OR c.release_price <= (p_filters->>'max_price')::NUMERIC)
+      AND (NOT p_filters ? 'min_vintage' OR c.vintage >= (p_filters->>'min_vintage')::INTEGER)
+      AND (NOT p_filters ? 'max_vintage' OR c.vintage <= (p_filters->>'max_vintage')::INTEGER);
+$$;
+
+-- Wines per value of each facet. Each facet is counted without its own filter, so a filter UI
+-- still shows the other values of a dimension once one is picked. Score and price are counted
+-- in buckets (see lib/wine-browse.ts); the 'total' row counts the catalog with every filter.
+CREATE OR REPLACE FUNCTION wine_catalog_facets(p_filters JSONB DEFAULT '{}')
+RETURNS TABLE (facet TEXT, value TEXT, wines BIGINT)
+LANGUAGE sql
+STABLE
+AS $$
+    SELECT 'total', NULL, COUNT(*) FROM browse_wine_catalog(p_filters)
+    UNION ALL
+    SELECT 'region', c.region, COUNT(*) FROM browse_wine_catalog(p_filters - 'region') c GROUP BY c.region
+    UNION ALL
+    SELECT 'sub_region', c.sub_region, COUNT(*) FROM browse_wine_catalog(p_filters - 'sub_region') c
+    WHERE c.sub_region IS NOT NULL GROUP BY c.sub_region
+    UNION ALL
+    SELECT 'appellation', c.appellation, COUNT(*) FROM browse_wine_catalog(p_filters - 'appellation') c
+    WHERE c.appellation IS NOT NULL GROUP BY c.appellation
+    UNION ALL
+    SELECT 'country', c.country, COUNT(*) FROM browse_wine_catalog(p_filters - 'country') c GROUP BY c.country
+    UNION ALL
+    SELECT 'color', c.color, COUNT(*) FROM browse_wine_catalog(p_filters - 'color') c GROUP BY c.color
+    UNION ALL
+    SELECT 'grape', g, COUNT(DISTINCT c.id) FROM browse_wine_catalog(p_filters - 'grape') c
+    CROSS JOIN unnest(c.grape_names) AS g GROUP BY g
+    UNION ALL
+    SELECT 'vintage', c.vintage::TEXT, COUNT(*) FROM browse_wine_catalog(p_filters - 'min_vintage' - 'max_vintage') c
+    WHERE c.vintage IS NOT NULL GROUP BY c.vintage
+    UNION ALL
+    SELECT 'score', b.bucket, COUNT(*) FROM browse_wine_catalog(p_filters - 'min_score' - 'max_score') c
+    CROSS JOIN LATERAL (SELECT CASE
+        WHEN c.score >= 95 THEN '95-100'
+        WHEN c.score >= 90 THEN '90-94'
+        WHEN c.score >= 85 THEN '85-89'
+        WHEN c.score >= 80 THEN '80-84'
+        ELSE 'below_80'
+    END AS bucket) b GROUP BY b.bucket
+    UNION ALL
+    SELECT 'price', b.bucket, COUNT(*) FROM browse_wine_catalog(p_filters - 'min_price' - 'max_price') c
+    CROSS JOIN LATERAL (SELECT CASE
+        WHEN c.release_price IS NULL THEN 'unknown'
+        WHEN c.release_price < 25 THEN 'under_25'
+        WHEN c.release_price < 50 THEN '25-50'
+        WHEN c.release_price < 100 THEN '50-100'
+        WHEN c.release_price < 200 THEN '100-200'
+        ELSE '200_plus'
+    END AS bucket) b GROUP BY b.bucket
+    UNION ALL
+    SELECT 'drink_window_status', c.drink_window_status, COUNT(*) FROM browse_wine_catalog(p_filters - 'drink_window_status') c
+    GROUP BY c.drink_window_status
+    UNION ALL
+    SELECT 'top100_year', c.top100_year::TEXT, COUNT(*) FROM browse_wine_catalog(p_filters - 'top100_year') c
+    WHERE c.top100_year IS NOT NULL GROUP BY c.top100_year;
+$$;
+
+-- Similar-style replacement candidates for a wine, narrowed before ranking (lib/replacements.ts):
+-- same color, headline score within p_score_band of the wine's, under the price cap, and the
+-- same region or a shared grape (same region only with p_same_region). Closest score first,
+-- then closest price.
+CREATE OR REPLACE FUNCTION similar_wine_candidates(
+    p_wine_id UUID,
+    p_score_band INTEGER DEFAULT 9,
+    p_min_score INTEGER DEFAULT NULL,
+    p_max_price NUMERIC DEFAULT NULL,
+    p_same_region BOOLEAN DEFAULT false,
+    p_limit INTEGER DEFAULT 200
+)
+RETURNS SETOF wine_catalog
+LANGUAGE sql
+STABLE
+AS $$
+    SELECT c.*
+    FROM wine_catalog o
+    JOIN wine_catalog c ON c.color = o.color AND c.id <> o.id
+    WHERE o.id = p_wine_id
+      AND c.score BETWEEN o.score - p_score_band AND o.score + p_score_band
+      AND (p_min_score IS NULL OR c.score >= p_min_score)
+      AND (p_max_price IS NULL OR c.release_price <= p_max_price)
+      AND (c.region = o.region OR (NOT p_same_region AND c.grape_names && o.grape_names))
+    ORDER BY abs(c.score - o.score), abs(c.release_price - o.release_price) NULLS LAST, c.id
+    LIMIT p_limit;
+$$;
+
 -- Updated_at trigger function
 CREATE OR REPLACE FUNCTION update_updated_at()
 RETURNS TRIGGER AS $$
@@ -118,11 +1059,58 @@ CREATE TRIGGER users_updated_at
     FOR EACH ROW
     EXECUTE FUNCTION update_updated_at();
 
+DROP TRIGGER IF EXISTS business_accounts_updated_at ON business_accounts;
+CREATE TRIGGER business_accounts_updated_at
+    BEFORE UPDATE ON business_accounts
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at();
+
+DROP TRIGGER IF EXISTS webhook_endpoints_updated_at ON webhook_endpoints;
+CREATE TRIGGER webhook_endpoints_updated_at
+    BEFORE UPDATE ON webhook_endpoints
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at();
+
+DROP TRIGGER IF EXISTS search_synonyms_updated_at ON search_synonyms;
+CREATE TRIGGER search_synonyms_updated_at
+    BEFORE UPDATE ON search_synonyms
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at();
+
+-- Webhook events
+DROP TRIGGER IF EXISTS list_analyses_webhook ON list_analyses;
+CREATE TRIGGER list_analyses_webhook
+    AFTER INSERT ON list_analyses
+    FOR EACH ROW
+    EXECUTE FUNCTION list_analyses_webhook();
+
+DROP TRIGGER IF EXISTS business_accounts_webhook ON business_accounts;
+CREATE TRIGGER business_accounts_webhook
+    AFTER UPDATE OF subscription_status, subscription_expires_at ON business_accounts
+    FOR EACH ROW
+    EXECUTE FUNCTION business_accounts_webhook();
+
 -- Row Level Security (RLS)
 ALTER TABLE wines ENABLE ROW LEVEL SECURITY;
 ALTER TABLE reviews ENABLE ROW LEVEL SECURITY;
 ALTER TABLE users ENABLE ROW LEVEL SECURITY;
 ALTER TABLE saved_wines ENABLE ROW LEVEL SECURITY;
+ALTER TABLE refresh_tokens ENABLE ROW LEVEL SECURITY;
+ALTER TABLE rate_limit_counters ENABLE ROW LEVEL SECURITY;
+ALTER TABLE api_keys ENABLE ROW LEVEL SECURITY;
+ALTER TABLE app_store_notifications ENABLE ROW LEVEL SECURITY;
+ALTER TABLE list_analyses ENABLE ROW LEVEL SECURITY;
+ALTER TABLE business_accounts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE business_account_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE webhook_endpoints ENABLE ROW LEVEL SECURITY;
+ALTER TABLE webhook_events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE webhook_deliveries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE scan_events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE scan_daily_stats ENABLE ROW LEVEL SECURITY;
+ALTER TABLE scan_filter_daily_stats ENABLE ROW LEVEL SECURITY;
+ALTER TABLE unmatched_queries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE wine_aliases ENABLE ROW LEVEL SECURITY;
+ALTER TABLE search_synonyms ENABLE ROW LEVEL SECURITY;
 
 -- Policies: Wines and reviews are publicly readable
 CREATE POLICY "Wines are viewable by everyone" ON wines
@@ -148,6 +1136,9 @@ CREATE POLICY "Users can insert own saved wines" ON saved_wines
 CREATE POLICY "Users can delete own saved wines" ON saved_wines
     FOR DELETE USING (auth.uid()::text = user_id::text);
 
+CREATE POLICY "Users can update own saved wines" ON saved_wines
+    FOR UPDATE USING (auth.uid()::text = user_id::text);
+
 -- Service role can do everything (for API)
 CREATE POLICY "Service role full access wines" ON wines
     FOR ALL USING (auth.role() = 'service_role');
@@ -160,3 +1151,51 @@ CREATE POLICY "Service role full access users" ON users
 
 CREATE POLICY "Service role full access saved_wines" ON saved_wines
     FOR ALL USING (auth.role() = 'service_role');
+
+CREATE POLICY "Service role full access refresh_tokens" ON refresh_tokens
+    FOR ALL USING (auth.role() = 'service_role');
+
+CREATE POLICY "Service role full access rate_limit_counters" ON rate_limit_counters
+    FOR ALL USING (auth.role() = 'service_role');
+
+CREATE POLICY "Service role full access api_keys" ON api_keys
+    FOR ALL USING (auth.role() = 'service_role');
+
+CREATE POLICY "Service role full access app_store_notifications" ON app_store_notifications
+    FOR ALL USING (auth.role() = 'service_role');
+
+CREATE POLICY "Service role full access list_analyses" ON list_analyses
+    FOR ALL USING (auth.role() = 'service_role');
+
+CREATE POLICY "Service role full access business_accounts" ON business_accounts
+    FOR ALL USING (auth.role() = 'service_role');
+
+CREATE POLICY "Service role full access business_account_members" ON business_account_members
+    FOR ALL USING (auth.role() = 'service_role');
+
+CREATE POLICY "Service role full access webhook_endpoints" ON webhook_endpoints
+    FOR ALL USING (auth.role() = 'service_role');
+
+CREATE POLICY "Service role full access webhook_events" ON webhook_events
+    FOR ALL USING (auth.role() = 'service_role');
+
+CREATE POLICY "Service role full access webhook_deliveries" ON webhook_deliveries
+    FOR ALL USING (auth.role() = 'service_role');
+
+CREATE POLICY "Service role full access scan_events" ON scan_events
+    FOR ALL USING (auth.role() = 'service_role');
+
+CREATE POLICY "Service role full access scan_daily_stats" ON scan_daily_stats
+    FOR ALL USING (auth.role() = 'service_role');
+
+CREATE POLICY "Service role full access scan_filter_daily_stats" ON scan_filter_daily_stats
+    FOR ALL USING (auth.role() = 'service_role');
+
+CREATE POLICY "Service role full access unmatched_queries" ON unmatched_queries
+    FOR ALL USING (auth.role() = 'service_role');
+
+CREATE POLICY "Service role full access wine_aliases" ON wine_aliases
+    FOR ALL USING (auth.role() = 'service_role');
+
+CREATE POLICY "Service role full access search_synonyms" ON search_synonyms
+    FOR ALL USING (auth.role() = 'service_role');
@@ -0,0 +1,108 @@
+-- Migration: Expand Postgres full-text search queries with search_synonyms
+-- Run this in Supabase SQL Editor, after search_synonyms_migration.sql and
+-- multiple_reviews_migration.sql
+
+-- Lower-cased words of a search text, punctuation dropped, single-spaced
+CREATE OR REPLACE FUNCTION normalize_search_text(p_text TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+    SELECT trim(regexp_replace(lower(regexp_replace(COALESCE(p_text, ''), '[^[:alnum:][:space:]]', ' ', 'g')), '\s+', ' ', 'g'));
+$$;
+
+-- Full-text search fallback used when the primary search provider is unavailable.
+-- Matches the idx_wines_fts expression exactly so the GIN index is used. Query terms are
+-- expanded with search_synonyms.
+CREATE OR REPLACE FUNCTION search_wines_fts(
+    search_query TEXT,
+    max_results INTEGER DEFAULT 10,
+    filter_color TEXT DEFAULT NULL,
+    filter_country TEXT DEFAULT NULL,
+    filter_min_score INTEGER DEFAULT NULL,
+    filter_vintage INTEGER DEFAULT NULL
+)
+RETURNS TABLE (
+    id UUID,
+    producer TEXT,
+    name TEXT,
+    vintage INTEGER,
+    region TEXT,
+    sub_region TEXT,
+    appellation TEXT,
+    country TEXT,
+    color TEXT,
+    grape_varieties JSONB,
+    alcohol NUMERIC,
+    label_url TEXT,
+    top100_rank INTEGER,
+    top100_year INTEGER,
+    score INTEGER,
+    tasting_note TEXT,
+    reviewer_initials TEXT,
+    reviewer_name TEXT,
+    review_date DATE,
+    drink_window_start INTEGER,
+    drink_window_end INTEGER,
+    release_price NUMERIC,
+    rank REAL
+)
+LANGUAGE sql STABLE
+AS $$
+    WITH terms AS (
+        SELECT normalize_search_text(search_query) AS text
+    ),
+    -- Managed synonyms (search_synonyms, the same groups the other providers get): a two-way
+    -- group joins in when the query contains any of its terms, a one-way group when it
+    -- contains the input. Terms are matched as whole words.
+    expansions AS (
+        SELECT DISTINCT normalize_search_text(synonym) AS phrase
+        FROM search_synonyms g
+        CROSS JOIN terms t
+        CROSS JOIN LATERAL unnest(g.synonyms) AS synonym
+        WHERE CASE
+            WHEN g.type = 'one_way' THEN ' ' || t.text || ' ' LIKE '% ' || normalize_search_text(g.input) || ' %'
+            ELSE EXISTS (
+                SELECT 1 FROM unnest(g.synonyms) AS member
+                WHERE ' ' || t.text || ' ' LIKE '% ' || normalize_search_text(member) || ' %'
+            )
+        END
+    ),
+    q AS (
+        -- OR the terms together (with prefix matching): list lines carry prices and bin numbers.
+        -- Multi-word synonyms are added as phrases.
+        SELECT to_tsquery('english', string_agg(part, ' | ')) AS query
+        FROM (
+            SELECT term || ':*' AS part
+            FROM terms, regexp_split_to_table(terms.text, ' ') AS term
+            WHERE term <> ''
+            UNION
+            SELECT '(' || array_to_string(ARRAY(
+                SELECT word || ':*' FROM regexp_split_to_table(phrase, ' ') AS word WHERE word <> ''
+            ), ' <-> ') || ')'
+            FROM expansions
+            WHERE phrase <> ''
+        ) AS parts
+    )
+    SELECT
+        w.id, w.producer, w.name, w.vintage, w.region, w.sub_region, w.appellation,
+        w.country, w.color, w.grape_varieties, w.alcohol, w.label_url, w.top100_rank, w.top100_year,
+        r.score, r.tasting_note, r.reviewer_initials, r.reviewer_name, r.review_date,
+        r.drink_window_start, r.drink_window_end, r.release_price,
+        ts_rank_cd(to_tsvector('english', w.producer || ' ' || w.name || ' ' || w.region || ' ' || w.country), q.query) AS rank
+    FROM wines w
+    CROSS JOIN q
+    JOIN LATERAL (
+        SELECT * FROM reviews rv
+        WHERE rv.wine_id = w.id
+        ORDER BY rv.review_date DESC, rv.score DESC
+        LIMIT 1
+    ) r ON true
+    WHERE to_tsvector('english', w.producer || ' ' || w.name || ' ' || w.region || ' ' || w.country) @@ q.query
+      AND (filter_color IS NULL OR w.color = filter_color)
+      AND (filter_country IS NULL OR w.country = filter_country)
+      AND (filter_min_score IS NULL OR r.score >= filter_min_score)
+      AND (filter_vintage IS NULL OR w.vintage = filter_vintage)
+    ORDER BY rank DESC, r.score DESC
+    LIMIT max_results;
+$$;
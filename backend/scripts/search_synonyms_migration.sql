@@ -0,0 +1,41 @@
+-- Migration: Database-managed search synonyms
+-- Run this in Supabase SQL Editor, then sync: POST /api/admin/search/synonyms/sync
+
+-- Search synonyms, pushed to the search provider by the sync job (lib/search-synonyms.ts).
+-- A two-way group makes every term match every other; a one-way group lets queries with
+-- input also match its synonyms (e.g. "ch." finds "chateau" but not the reverse).
+CREATE TABLE IF NOT EXISTS search_synonyms (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    type VARCHAR(20) NOT NULL DEFAULT 'synonym' CHECK (type IN ('synonym', 'one_way')),
+    input TEXT,
+    synonyms TEXT[] NOT NULL,
+    category VARCHAR(20) NOT NULL DEFAULT 'general' CHECK (category IN ('general', 'grape', 'region', 'producer')),
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    CHECK ((type = 'one_way') = (input IS NOT NULL))
+);
+
+-- The built-in synonyms (WINE_SYNONYMS in lib/search-settings.ts), on first setup only
+INSERT INTO search_synonyms (type, synonyms, category)
+SELECT 'synonym', s.synonyms, s.category
+FROM (VALUES
+    (ARRAY['cabernet', 'cab', 'cabernet sauvignon', 'cs'], 'grape'),
+    (ARRAY['chardonnay', 'chard'], 'grape'),
+    (ARRAY['sauvignon', 'sauv', 'sauvignon blanc', 'sb'], 'grape'),
+    (ARRAY['pinot noir', 'pn', 'pinot'], 'grape'),
+    (ARRAY['chateau', 'ch', 'cht', 'château'], 'producer'),
+    (ARRAY['domaine', 'dom', 'domaine de'], 'producer')
+) AS s(synonyms, category)
+WHERE NOT EXISTS (SELECT 1 FROM search_synonyms);
+
+DROP TRIGGER IF EXISTS search_synonyms_updated_at ON search_synonyms;
+CREATE TRIGGER search_synonyms_updated_at
+    BEFORE UPDATE ON search_synonyms
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at();
+
+ALTER TABLE search_synonyms ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Service role full access search_synonyms" ON search_synonyms;
+CREATE POLICY "Service role full access search_synonyms" ON search_synonyms
+    FOR ALL USING (auth.role() = 'service_role');
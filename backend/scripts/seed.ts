@@ -11,6 +11,10 @@ import { createClient } from '@supabase/supabase-js';
 import algoliasearch from 'algoliasearch';
 import { readFileSync, existsSync } from 'fs';
 import { join } from 'path';
+import { toAlgoliaSynonyms } from '../lib/algolia';
+import { pickHeadlineReview } from '../lib/reviews';
+import { WINE_INDEX_SETTINGS, WINE_SYNONYMS } from '../lib/search-settings';
+import { toSynonymGroup } from '../lib/search-synonyms';
 
 // Types
 interface WineInput {
@@ -110,7 +114,16 @@ async function seed() {
   let successCount = 0;
   let errorCount = 0;
 
-  for (const wine of wines) {
+  // Entries for the same wine (re-tastings) become one wine with several reviews; the wine
+  // and its search record take the headline review's entry
+  const entriesByWine = new Map<string, WineInput[]>();
+  for (const entry of wines) {
+    const key = [entry.producer, entry.name, entry.vintage ?? 'NV'].map(value => normalizeText(String(value))).join('|');
+    entriesByWine.set(key, [...(entriesByWine.get(key) ?? []), entry]);
+  }
+
+  for (const entries of entriesByWine.values()) {
+    const wine = pickHeadlineReview(entries)!;
     try {
       // Insert wine
       const { data: insertedWine, error: wineError } = await supabase
@@ -139,24 +152,24 @@ async function seed() {
         continue;
       }
 
-      // Insert review
+      // Insert reviews
       const { error: reviewError } = await supabase
         .from('reviews')
-        .insert({
+        .insert(entries.map(entry => ({
           wine_id: insertedWine.id,
-          score: wine.score,
-          tasting_note: wine.tasting_note,
-          reviewer_initials: wine.reviewer_initials,
-          reviewer_name: wine.reviewer_name || null,
-          review_date: wine.review_date,
-          issue_date: wine.issue_date || null,
-          drink_window_start: wine.drink_window_start || null,
-          drink_window_end: wine.drink_window_end || null,
-          release_price: wine.release_price || null,
-        });
+          score: entry.score,
+          tasting_note: entry.tasting_note,
+          reviewer_initials: entry.reviewer_initials,
+          reviewer_name: entry.reviewer_name || null,
+          review_date: entry.review_date,
+          issue_date: entry.issue_date || null,
+          drink_window_start: entry.drink_window_start || null,
+          drink_window_end: entry.drink_window_end || null,
+          release_price: entry.release_price || null,
+        })));
 
       if (reviewError) {
-        console.error(`   ❌ Error inserting review for ${wine.producer} ${wine.name}:`, reviewError.message);
+        console.error(`   ❌ Error inserting reviews for ${wine.producer} ${wine.name}:`, reviewError.message);
       }
 
       // Prepare Algolia record
@@ -192,7 +205,7 @@ async function seed() {
       });
 
       successCount++;
-      process.stdout.write(`   ✅ ${successCount}/${wines.length} wines imported\r`);
+      process.stdout.write(`   ✅ ${successCount}/${entriesByWine.size} wines imported\r`);
     } catch (err) {
       console.error(`   ❌ Error processing ${wine.producer} ${wine.name}:`, err);
       errorCount++;
@@ -209,30 +222,16 @@ async function seed() {
 
     // Configure Algolia settings
     console.log('⚙️  Configuring Algolia search settings...');
-    await wineIndex.setSettings({
-      searchableAttributes: [
-        'full_name',
-        'producer',
-        'name',
-        'producer_normalized',
-        'name_normalized',
-        'searchable_text',
-        'region',
-        'grape_varieties',
-      ],
-      attributesForFaceting: [
-        'filterOnly(color)',
-        'filterOnly(country)',
-        'filterOnly(vintage)',
-        'searchable(region)',
-        'score',
-      ],
-      customRanking: ['desc(score)'],
-      typoTolerance: true,
-      minWordSizefor1Typo: 3,
-      minWordSizefor2Typos: 6,
-    });
-    console.log('   ✅ Settings configured\n');
+    await wineIndex.setSettings(WINE_INDEX_SETTINGS);
+
+    // Same synonyms the sync job pushes; the built-in ones while search_synonyms is missing or
+    // empty, so seeding never wipes the index's synonyms
+    const { data: synonymRows, error: synonymError } = await supabase
+      .from('search_synonyms')
+      .select('id, type, input, synonyms');
+    const synonyms = !synonymError && synonymRows?.length ? synonymRows.map(toSynonymGroup) : WINE_SYNONYMS;
+    await wineIndex.saveSynonyms(toAlgoliaSynonyms(synonyms), { replaceExistingSynonyms: true });
+    console.log(`   ✅ Settings and ${synonyms.length} synonym groups configured\n`);
   }
 
   console.log('🎉 Seeding complete!');
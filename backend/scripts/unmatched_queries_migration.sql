@@ -0,0 +1,74 @@
+-- Migration: Unmatched query mining and curated wine aliases
+-- Run this in Supabase SQL Editor
+
+-- Batch-match queries that found no match or only a low-confidence one, one row per
+-- normalized query. best_wine_id is the search's best candidate at the last miss (not a
+-- foreign key: it comes from the search index). Resolved rows have an alias in wine_aliases.
+CREATE TABLE IF NOT EXISTS unmatched_queries (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    normalized_query TEXT NOT NULL UNIQUE,
+    sample_query TEXT NOT NULL,
+    occurrences INTEGER NOT NULL DEFAULT 1,
+    best_confidence DECIMAL(4,3) NOT NULL DEFAULT 0,
+    best_wine_id UUID,
+    status VARCHAR(20) NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'resolved', 'ignored')),
+    wine_id UUID REFERENCES wines(id) ON DELETE SET NULL,
+    first_seen_at TIMESTAMPTZ DEFAULT NOW(),
+    last_seen_at TIMESTAMPTZ DEFAULT NOW(),
+    resolved_at TIMESTAMPTZ
+);
+
+-- Curated spellings of a wine, checked by the matcher before search. Keyed by the
+-- normalized text (lib/search.ts normalizeText), so case, accents and punctuation don't matter.
+CREATE TABLE IF NOT EXISTS wine_aliases (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    alias TEXT NOT NULL,
+    normalized_alias TEXT NOT NULL UNIQUE,
+    wine_id UUID NOT NULL REFERENCES wines(id) ON DELETE CASCADE,
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_unmatched_queries_open ON unmatched_queries(occurrences DESC) WHERE status = 'open';
+CREATE INDEX IF NOT EXISTS idx_wine_aliases_wine_id ON wine_aliases(wine_id);
+
+-- Counts misses from one request: p_queries is [{ normalized_query, query, occurrences,
+-- best_confidence, best_wine_id }] with each normalized_query once. A resolved query that
+-- misses again (e.g. its alias was deleted) goes back in the queue.
+CREATE OR REPLACE FUNCTION record_unmatched_queries(p_queries JSONB)
+RETURNS VOID
+LANGUAGE sql
+AS $$
+    INSERT INTO unmatched_queries (normalized_query, sample_query, occurrences, best_confidence, best_wine_id)
+    SELECT q.normalized_query, q.query, q.occurrences, q.best_confidence, q.best_wine_id
+    FROM jsonb_to_recordset(p_queries) AS q(normalized_query TEXT, query TEXT, occurrences INTEGER, best_confidence DECIMAL, best_wine_id UUID)
+    ON CONFLICT (normalized_query) DO UPDATE SET
+        sample_query = EXCLUDED.sample_query,
+        occurrences = unmatched_queries.occurrences + EXCLUDED.occurrences,
+        best_confidence = EXCLUDED.best_confidence,
+        best_wine_id = EXCLUDED.best_wine_id,
+        last_seen_at = NOW(),
+        status = CASE WHEN unmatched_queries.status = 'resolved' THEN 'open' ELSE unmatched_queries.status END,
+        resolved_at = CASE WHEN unmatched_queries.status = 'resolved' THEN NULL ELSE unmatched_queries.resolved_at END;
+$$;
+
+-- Aliases for the normalized queries of a batch (an array, so long lists don't go in a URL)
+CREATE OR REPLACE FUNCTION find_wine_aliases(p_normalized TEXT[])
+RETURNS TABLE (normalized_alias TEXT, wine_id UUID)
+LANGUAGE sql
+STABLE
+AS $$
+    SELECT a.normalized_alias, a.wine_id
+    FROM wine_aliases a
+    WHERE a.normalized_alias = ANY(p_normalized);
+$$;
+
+ALTER TABLE unmatched_queries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE wine_aliases ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Service role full access unmatched_queries" ON unmatched_queries;
+CREATE POLICY "Service role full access unmatched_queries" ON unmatched_queries
+    FOR ALL USING (auth.role() = 'service_role');
+
+DROP POLICY IF EXISTS "Service role full access wine_aliases" ON wine_aliases;
+CREATE POLICY "Service role full access wine_aliases" ON wine_aliases
+    FOR ALL USING (auth.role() = 'service_role');
@@ -0,0 +1,74 @@
+/**
+ * Local webhook receiver for testing deliveries end to end
+ *
+ * Listens for webhook POSTs, checks the X-Webhook-Signature / X-Webhook-Timestamp pair with
+ * the endpoint secret, and prints each event. Register it with WEBHOOK_ALLOW_INSECURE_URLS=true
+ * as http://localhost:<port>/webhooks, then run the dispatcher (GET /api/admin/webhooks/dispatch).
+ *
+ * Usage:
+ *   npx tsx scripts/webhook-receiver.ts --secret=whsec_... [--port=4000] [--fail=2]
+ *
+ * --fail answers the first N deliveries with 500, to watch the retries in the delivery log.
+ */
+
+import { createServer } from 'http';
+import { SIGNATURE_HEADER, TIMESTAMP_HEADER, verifyWebhookSignature } from '../lib/webhook-signature';
+
+function receive() {
+  const args = parseArgs(process.argv.slice(2));
+  const secret = args.secret ?? process.env.WEBHOOK_SECRET;
+  const port = Number(args.port ?? 4000);
+  let failuresLeft = Number(args.fail ?? 0);
+
+  if (!secret) {
+    console.error('❌ Pass the endpoint secret with --secret=whsec_... (or WEBHOOK_SECRET)');
+    process.exit(1);
+  }
+
+  const seen = new Set<string>();
+
+  const server = createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => {
+      const body = Buffer.concat(chunks).toString('utf8');
+      const header = (name: string) => req.headers[name.toLowerCase()] as string | undefined;
+      const eventId = header('X-Webhook-Id') ?? '(none)';
+
+      if (!verifyWebhookSignature(secret, body, { signature: header(SIGNATURE_HEADER), timestamp: header(TIMESTAMP_HEADER) })) {
+        console.log(`🚫 ${eventId}: bad signature or stale timestamp`);
+        res.writeHead(401).end('invalid signature');
+        return;
+      }
+
+      if (failuresLeft > 0) {
+        failuresLeft--;
+        console.log(`💥 ${eventId}: failing on purpose (${failuresLeft} more)`);
+        res.writeHead(500).end('simulated failure');
+        return;
+      }
+
+      const duplicate = seen.has(eventId);
+      seen.add(eventId);
+      console.log(`${duplicate ? '🔁' : '✅'} ${header('X-Webhook-Event')} ${eventId}${duplicate ? ' (duplicate)' : ''}`);
+      console.log(JSON.stringify(JSON.parse(body), null, 2));
+      res.writeHead(200, { 'Content-Type': 'application/json' }).end('{"received":true}');
+    });
+  });
+
+  server.listen(port, () => {
+    console.log(`🪝 Webhook receiver listening on http://localhost:${port}/webhooks\n`);
+  });
+}
+
+function parseArgs(argv: string[]): Record<string, string> {
+  const args: Record<string, string> = {};
+  for (const arg of argv) {
+    const match = arg.match(/^--([^=]+)=(.*)$/);
+    if (match) args[match[1]] = match[2];
+  }
+  return args;
+}
+
+// Run
+receive();
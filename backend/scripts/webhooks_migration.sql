@@ -0,0 +1,198 @@
+-- Migration: Signed outbound webhooks (endpoints, event outbox, delivery log)
+-- Run this in Supabase SQL Editor
+
+-- Webhook endpoints registered by business accounts. The secret signs every delivery, so it
+-- is kept as issued.
+CREATE TABLE IF NOT EXISTS webhook_endpoints (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    account_id UUID NOT NULL REFERENCES business_accounts(id) ON DELETE CASCADE,
+    url TEXT NOT NULL,
+    description VARCHAR(200),
+    events TEXT[] NOT NULL,
+    secret TEXT NOT NULL,
+    enabled BOOLEAN NOT NULL DEFAULT TRUE,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Outbox of webhook events, written by triggers in the same transaction as the change that
+-- caused them; each event fans out to one delivery per subscribed endpoint
+CREATE TABLE IF NOT EXISTS webhook_events (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    account_id UUID NOT NULL REFERENCES business_accounts(id) ON DELETE CASCADE,
+    type TEXT NOT NULL,
+    data JSONB NOT NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- One event sent to one endpoint, with the outcome of the latest attempt. Pending deliveries
+-- are sent once next_attempt_at has passed; failed means the retries ran out.
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    event_id UUID NOT NULL REFERENCES webhook_events(id) ON DELETE CASCADE,
+    endpoint_id UUID NOT NULL REFERENCES webhook_endpoints(id) ON DELETE CASCADE,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'succeeded', 'failed')),
+    attempts INTEGER NOT NULL DEFAULT 0,
+    next_attempt_at TIMESTAMPTZ DEFAULT NOW(),
+    last_attempt_at TIMESTAMPTZ,
+    response_status INTEGER,
+    response_body TEXT,
+    error TEXT,
+    redelivery_of UUID REFERENCES webhook_deliveries(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_endpoints_account_id ON webhook_endpoints(account_id);
+CREATE INDEX IF NOT EXISTS idx_webhook_events_account_id ON webhook_events(account_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_endpoint_id ON webhook_deliveries(endpoint_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_event_id ON webhook_deliveries(event_id);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due ON webhook_deliveries(next_attempt_at) WHERE status = 'pending';
+
+-- Records a webhook event for an account and queues a delivery to each enabled endpoint
+-- subscribed to its type. Called from the triggers below, inside the triggering transaction.
+CREATE OR REPLACE FUNCTION enqueue_webhook_event(p_account_id UUID, p_type TEXT, p_data JSONB)
+RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_event_id UUID;
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM webhook_endpoints
+        WHERE account_id = p_account_id AND enabled AND p_type = ANY(events)
+    ) THEN
+        RETURN;
+    END IF;
+
+    INSERT INTO webhook_events (account_id, type, data)
+    VALUES (p_account_id, p_type, p_data)
+    RETURNING id INTO v_event_id;
+
+    INSERT INTO webhook_deliveries (event_id, endpoint_id)
+    SELECT v_event_id, id
+    FROM webhook_endpoints
+    WHERE account_id = p_account_id AND enabled AND p_type = ANY(events);
+END;
+$$;
+
+-- list.analyzed for every analysis stored for an account
+CREATE OR REPLACE FUNCTION list_analyses_webhook()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    IF NEW.account_id IS NOT NULL THEN
+        PERFORM enqueue_webhook_event(NEW.account_id, 'list.analyzed', jsonb_build_object(
+            'analysis_id', NEW.id,
+            'restaurant_name', NEW.restaurant_name,
+            'total_wines', NEW.summary->'total_wines',
+            'match_rate', NEW.summary->'match_rate'
+        ));
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+-- subscription.cancelled when an account's subscription is cancelled; subscription.renewed
+-- when it becomes active again or an active subscription is extended. Only the account state
+-- set by admins (PATCH /admin/business-accounts/{id}) fires these: App Store subscriptions
+-- belong to users (lib/subscriptions.ts) and don't change business_accounts.
+CREATE OR REPLACE FUNCTION business_accounts_webhook()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_type TEXT;
+BEGIN
+    IF NEW.subscription_status = 'cancelled' AND OLD.subscription_status <> 'cancelled' THEN
+        v_type := 'subscription.cancelled';
+    ELSIF NEW.subscription_status = 'active' AND (
+        OLD.subscription_status <> 'active'
+        OR NEW.subscription_expires_at > COALESCE(OLD.subscription_expires_at, '-infinity'::TIMESTAMPTZ)
+    ) THEN
+        v_type := 'subscription.renewed';
+    END IF;
+
+    IF v_type IS NOT NULL THEN
+        PERFORM enqueue_webhook_event(NEW.id, v_type, jsonb_build_object(
+            'account_id', NEW.id,
+            'plan', NEW.plan,
+            'subscription_status', NEW.subscription_status,
+            'subscription_expires_at', NEW.subscription_expires_at
+        ));
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+-- Claims up to p_limit due deliveries for sending. Claimed rows are pushed p_lease_seconds
+-- into the future so a concurrent dispatcher skips them; a dispatcher that dies mid-send
+-- leaves them to be retried once the lease runs out.
+CREATE OR REPLACE FUNCTION claim_webhook_deliveries(p_limit INTEGER, p_lease_seconds INTEGER)
+RETURNS TABLE (
+    delivery_id UUID,
+    attempts INTEGER,
+    event_id UUID,
+    event_type TEXT,
+    account_id UUID,
+    data JSONB,
+    event_created_at TIMESTAMPTZ,
+    url TEXT,
+    secret TEXT,
+    enabled BOOLEAN
+)
+LANGUAGE sql
+AS $$
+    WITH claimed AS (
+        UPDATE webhook_deliveries d
+        SET next_attempt_at = NOW() + make_interval(secs => p_lease_seconds)
+        WHERE d.id IN (
+            SELECT due.id
+            FROM webhook_deliveries due
+            WHERE due.status = 'pending' AND due.next_attempt_at <= NOW()
+            ORDER BY due.next_attempt_at
+            LIMIT p_limit
+            FOR UPDATE SKIP LOCKED
+        )
+        RETURNING d.id, d.attempts, d.event_id, d.endpoint_id
+    )
+    SELECT c.id, c.attempts, e.id, e.type, e.account_id, e.data, e.created_at, w.url, w.secret, w.enabled
+    FROM claimed c
+    JOIN webhook_events e ON e.id = c.event_id
+    JOIN webhook_endpoints w ON w.id = c.endpoint_id;
+$$;
+
+DROP TRIGGER IF EXISTS webhook_endpoints_updated_at ON webhook_endpoints;
+CREATE TRIGGER webhook_endpoints_updated_at
+    BEFORE UPDATE ON webhook_endpoints
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at();
+
+-- Webhook events
+DROP TRIGGER IF EXISTS list_analyses_webhook ON list_analyses;
+CREATE TRIGGER list_analyses_webhook
+    AFTER INSERT ON list_analyses
+    FOR EACH ROW
+    EXECUTE FUNCTION list_analyses_webhook();
+
+DROP TRIGGER IF EXISTS business_accounts_webhook ON business_accounts;
+CREATE TRIGGER business_accounts_webhook
+    AFTER UPDATE OF subscription_status, subscription_expires_at ON business_accounts
+    FOR EACH ROW
+    EXECUTE FUNCTION business_accounts_webhook();
+
+ALTER TABLE webhook_endpoints ENABLE ROW LEVEL SECURITY;
+ALTER TABLE webhook_events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE webhook_deliveries ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Service role full access webhook_endpoints" ON webhook_endpoints;
+CREATE POLICY "Service role full access webhook_endpoints" ON webhook_endpoints
+    FOR ALL USING (auth.role() = 'service_role');
+
+DROP POLICY IF EXISTS "Service role full access webhook_events" ON webhook_events;
+CREATE POLICY "Service role full access webhook_events" ON webhook_events
+    FOR ALL USING (auth.role() = 'service_role');
+
+DROP POLICY IF EXISTS "Service role full access webhook_deliveries" ON webhook_deliveries;
+CREATE POLICY "Service role full access webhook_deliveries" ON webhook_deliveries
+    FOR ALL USING (auth.role() = 'service_role');
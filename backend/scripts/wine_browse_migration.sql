@@ -0,0 +1,151 @@
+-- Migration: Faceted catalog browse (GET /api/wines)
+-- Run this in Supabase SQL Editor
+
+CREATE INDEX IF NOT EXISTS idx_wines_top100 ON wines(top100_year, top100_rank) WHERE top100_rank IS NOT NULL;
+
+-- Same rule as drinkWindowStatus() in lib/list-analysis.ts
+CREATE OR REPLACE FUNCTION drink_window_status(p_start INTEGER, p_end INTEGER, p_year INTEGER)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+    SELECT CASE
+        WHEN p_start IS NULL AND p_end IS NULL THEN 'unknown'
+        WHEN p_start IS NOT NULL AND p_year < p_start THEN 'too_young'
+        WHEN p_end IS NOT NULL AND p_year > p_end THEN 'past_window'
+        WHEN p_end IS NOT NULL AND p_year = p_end THEN 'drink_soon'
+        ELSE 'ready'
+    END;
+$$;
+
+-- Reviewed wines flattened with their headline review (latest, as in lib/reviews.ts), for the
+-- catalog browse. grape_names and drink_window_status make those filterable.
+CREATE OR REPLACE VIEW wine_catalog WITH (security_invoker = true) AS
+SELECT
+    w.id,
+    w.producer,
+    w.name,
+    w.vintage,
+    w.region,
+    w.sub_region,
+    w.appellation,
+    w.country,
+    w.color,
+    w.grape_varieties,
+    ARRAY(SELECT g->>'name' FROM jsonb_array_elements(COALESCE(w.grape_varieties, '[]'::jsonb)) AS g) AS grape_names,
+    w.alcohol,
+    w.label_url,
+    w.top100_rank,
+    w.top100_year,
+    r.score,
+    r.tasting_note,
+    r.reviewer_initials,
+    r.reviewer_name,
+    r.review_date,
+    r.drink_window_start,
+    r.drink_window_end,
+    r.release_price,
+    drink_window_status(r.drink_window_start, r.drink_window_end, EXTRACT(YEAR FROM CURRENT_DATE)::INTEGER) AS drink_window_status
+FROM wines w
+JOIN LATERAL (
+    SELECT *
+    FROM reviews
+    WHERE reviews.wine_id = w.id
+    ORDER BY reviews.review_date DESC, reviews.score DESC
+    LIMIT 1
+) r ON true;
+
+-- Lower-cased values of a JSON array filter, NULL when the filter isn't set
+CREATE OR REPLACE FUNCTION catalog_filter_values(p_values JSONB)
+RETURNS TEXT[]
+LANGUAGE sql
+IMMUTABLE
+AS $$
+    SELECT CASE WHEN p_values IS NULL THEN NULL
+        ELSE ARRAY(SELECT lower(v) FROM jsonb_array_elements_text(p_values) AS v)
+    END;
+$$;
+
+-- The catalog narrowed by p_filters (lib/wine-browse.ts builds it): lists of region,
+-- sub_region, appellation, country, color, grape, drink_window_status and top100_year
+-- (any value matches, ignoring case), and min_/max_ bounds on score, price and vintage plus
+-- max_top100_rank. Callers sort and page the result.
+CREATE OR REPLACE FUNCTION browse_wine_catalog(p_filters JSONB DEFAULT '{}')
+RETURNS SETOF wine_catalog
+LANGUAGE sql
+STABLE
+AS $$
+    SELECT c.*
+    FROM wine_catalog c
+    WHERE (NOT p_filters ? 'region' OR lower(c.region) = ANY (catalog_filter_values(p_filters->'region')))
+      AND (NOT p_filters ? 'sub_region' OR lower(c.sub_region) = ANY (catalog_filter_values(p_filters->'sub_region')))
+      AND (NOT p_filters ? 'appellation' OR lower(c.appellation) = ANY (catalog_filter_values(p_filters->'appellation')))
+      AND (NOT p_filters ? 'country' OR lower(c.country) = ANY (catalog_filter_values(p_filters->'country')))
+      AND (NOT p_filters ? 'color' OR c.color = ANY (catalog_filter_values(p_filters->'color')))
+      AND (NOT p_filters ? 'grape' OR EXISTS (
+          SELECT 1 FROM unnest(c.grape_names) AS g WHERE lower(g) = ANY (catalog_filter_values(p_filters->'grape'))
+      ))
+      AND (NOT p_filters ? 'drink_window_status' OR c.drink_window_status = ANY (catalog_filter_values(p_filters->'drink_window_status')))
+      AND (NOT p_filters ? 'top100_year' OR c.top100_year::TEXT = ANY (catalog_filter_values(p_filters->'top100_year')))
+      AND (NOT p_filters ? 'max_top100_rank' OR c.top100_rank <= (p_filters->>'max_top100_rank')::INTEGER)
+      AND (NOT p_filters ? 'min_score' OR c.score >= (p_filters->>'min_score')::INTEGER)
+      AND (NOT p_filters ? 'max_score' OR c.score <= (p_filters->>'max_score')::INTEGER)
+      AND (NOT p_filters ? 'min_price' OR c.release_price >= (p_filters->>'min_price')::NUMERIC)
+      AND (NOT p_filters ? 'max_price' OR c.release_price <= (p_filters->>'max_price')::NUMERIC)
+      AND (NOT p_filters ? 'min_vintage' OR c.vintage >= (p_filters->>'min_vintage')::INTEGER)
+      AND (NOT p_filters ? 'max_vintage' OR c.vintage <= (p_filters->>'max_vintage')::INTEGER);
+$$;
+
+-- Wines per value of each facet. Each facet is counted without its own filter, so a filter UI
+-- still shows the other values of a dimension once one is picked. Score and price are counted
+-- in buckets (see lib/wine-browse.ts); the 'total' row counts the catalog with every filter.
+CREATE OR REPLACE FUNCTION wine_catalog_facets(p_filters JSONB DEFAULT '{}')
+RETURNS TABLE (facet TEXT, value TEXT, wines BIGINT)
+LANGUAGE sql
+STABLE
+AS $$
+    SELECT 'total', NULL, COUNT(*) FROM browse_wine_catalog(p_filters)
+    UNION ALL
+    SELECT 'region', c.region, COUNT(*) FROM browse_wine_catalog(p_filters - 'region') c GROUP BY c.region
+    UNION ALL
+    SELECT 'sub_region', c.sub_region, COUNT(*) FROM browse_wine_catalog(p_filters - 'sub_region') c
+    WHERE c.sub_region IS NOT NULL GROUP BY c.sub_region
+    UNION ALL
+    SELECT 'appellation', c.appellation, COUNT(*) FROM browse_wine_catalog(p_filters - 'appellation') c
+    WHERE c.appellation IS NOT NULL GROUP BY c.appellation
+    UNION ALL
+    SELECT 'country', c.country, COUNT(*) FROM browse_wine_catalog(p_filters - 'country') c GROUP BY c.country
+    UNION ALL
+    SELECT 'color', c.color, COUNT(*) FROM browse_wine_catalog(p_filters - 'color') c GROUP BY c.color
+    UNION ALL
+    SELECT 'grape', g, COUNT(DISTINCT c.id) FROM browse_wine_catalog(p_filters - 'grape') c
+    CROSS JOIN unnest(c.grape_names) AS g GROUP BY g
+    UNION ALL
+    SELECT 'vintage', c.vintage::TEXT, COUNT(*) FROM browse_wine_catalog(p_filters - 'min_vintage' - 'max_vintage') c
+    WHERE c.vintage IS NOT NULL GROUP BY c.vintage
+    UNION ALL
+    SELECT 'score', b.bucket, COUNT(*) FROM browse_wine_catalog(p_filters - 'min_score' - 'max_score') c
+    CROSS JOIN LATERAL (SELECT CASE
+        WHEN c.score >= 95 THEN '95-100'
+        WHEN c.score >= 90 THEN '90-94'
+        WHEN c.score >= 85 THEN '85-89'
+        WHEN c.score >= 80 THEN '80-84'
+        ELSE 'below_80'
+    END AS bucket) b GROUP BY b.bucket
+    UNION ALL
+    SELECT 'price', b.bucket, COUNT(*) FROM browse_wine_catalog(p_filters - 'min_price' - 'max_price') c
+    CROSS JOIN LATERAL (SELECT CASE
+        WHEN c.release_price IS NULL THEN 'unknown'
+        WHEN c.release_price < 25 THEN 'under_25'
+        WHEN c.release_price < 50 THEN '25-50'
+        WHEN c.release_price < 100 THEN '50-100'
+        WHEN c.release_price < 200 THEN '100-200'
+        ELSE '200_plus'
+    END AS bucket) b GROUP BY b.bucket
+    UNION ALL
+    SELECT 'drink_window_status', c.drink_window_status, COUNT(*) FROM browse_wine_catalog(p_filters - 'drink_window_status') c
+    GROUP BY c.drink_window_status
+    UNION ALL
+    SELECT 'top100_year', c.top100_year::TEXT, COUNT(*) FROM browse_wine_catalog(p_filters - 'top100_year') c
+    WHERE c.top100_year IS NOT NULL GROUP BY c.top100_year;
+$$;
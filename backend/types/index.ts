@@ -42,6 +42,44 @@ export interface WineWithReview extends Wine {
   release_price: number | null;
 }
 
+// A wine with every review field, as the wine detail route returns it
+export interface WineDetail extends WineWithReview {
+  issue_date: string | null;
+  release_price_currency: string;
+}
+
+// Which review a wine with several shows: the latest (default) or the highest scored
+export type HeadlineReviewRule = 'latest' | 'highest';
+
+// A review with its wine's vintage, as the reviews route lists them
+export interface WineReview extends Review {
+  vintage: number | null;
+}
+
+export interface ReviewerSummary {
+  reviewer_initials: string;
+  reviewer_name: string | null;
+  reviews: number;
+}
+
+export interface ReviewTasting {
+  review_date: string;
+  score: number;
+  reviewer_initials: string;
+}
+
+// Every review of a wine at a glance; tastings are oldest first
+export interface ReviewHistory {
+  review_count: number;
+  score_min: number | null;
+  score_max: number | null;
+  score_average: number | null;
+  first_review_date: string | null;
+  latest_review_date: string | null;
+  reviewers: ReviewerSummary[];
+  tastings: ReviewTasting[];
+}
+
 export type WineColor = 'red' | 'white' | 'rose' | 'sparkling' | 'dessert' | 'fortified';
 
 export interface GrapeVariety {
@@ -54,21 +92,66 @@ export interface SearchResult {
   wine: WineWithReview;
   match_confidence: number;
   match_type: 'exact' | 'fuzzy' | 'semantic';
+  match_breakdown?: MatchBreakdown;
+}
+
+export type VintageMatchStatus = 'match' | 'mismatch' | 'missing_in_query' | 'non_vintage';
+
+// Per-field similarity (0-1) behind a match_confidence
+export interface MatchBreakdown {
+  producer: number;
+  name: number;
+  appellation: number;
+  query_coverage: number;
+  vintage: {
+    query: number | null;
+    wine: number | null;
+    status: VintageMatchStatus;
+  };
 }
 
 export interface BatchMatchRequest {
-  queries: string[];
+  queries: BatchMatchQuery[];
   options?: {
     fuzzy?: boolean;
     confidence_threshold?: number;
+    max_candidates?: number;
+    ambiguity_margin?: number;
+    // Stream results as they're matched instead of one JSON response
+    stream?: 'ndjson' | 'sse';
   };
 }
 
+// A plain list line, or a line with context that constrains the search
+export type BatchMatchQuery = string | { query: string; hints?: MatchHints };
+
+export interface MatchHints {
+  vintage?: number;
+  color?: WineColor;
+  section?: string;
+}
+
+export interface BatchMatchCandidate {
+  wine: WineWithReview;
+  confidence: number;
+  match_type: SearchResult['match_type'];
+  match_breakdown?: MatchBreakdown;
+}
+
 export interface BatchMatchResult {
   query: string;
   matched: boolean;
   wine: WineWithReview | null;
   confidence: number;
+  match_type?: SearchResult['match_type'];
+  match_breakdown?: MatchBreakdown;
+  // Ranked by confidence, best first; only present when max_candidates is requested
+  candidates?: BatchMatchCandidate[];
+  // Top two candidates are too close to call
+  ambiguous?: boolean;
+  // Round trip of the search request that answered this query
+  latency_ms?: number;
+  error?: 'SEARCH_UNAVAILABLE';
 }
 
 // User Types
@@ -86,6 +169,30 @@ export interface User {
 export type SubscriptionTier = 'free' | 'premium' | 'business';
 export type SubscriptionStatus = 'active' | 'expired' | 'cancelled' | 'pending';
 
+export type PurchaseStore = 'app_store' | 'play_store' | 'web';
+
+// The subscription behind a user's tier, as verified with the store
+export interface Subscription {
+  tier: SubscriptionTier;
+  status: SubscriptionStatus;
+  expires_at: string | null;
+  auto_renew: boolean;
+  store: PurchaseStore | null;
+  product_id: string | null;
+}
+
+// Wine list scans used in the current calendar month (UTC). limit and remaining are null
+// for tiers without a quota.
+export interface ScanUsage {
+  tier: SubscriptionTier;
+  unlimited: boolean;
+  used: number;
+  limit: number | null;
+  remaining: number | null;
+  period_start: string;
+  resets_at: string;
+}
+
 // Saved Wine Types
 export interface SavedWine {
   id: string;
@@ -99,6 +206,361 @@ export interface SavedWine {
   created_at: string;
 }
 
+// Where and how a saved wine was enjoyed; every field is editable after saving
+export interface SaveContext {
+  restaurant: string | null;
+  price_paid: number | null;
+  date: string | null;
+  rating: number | null;
+}
+
+// Saved wine as returned by /users/me/wines (shape the iOS SavedWine model decodes)
+export interface SavedWineEntry {
+  id: string;
+  wine: WineWithReview;
+  added_at: string;
+  notes: string | null;
+  context: SaveContext;
+}
+
+// API Key Types
+export type ApiKeyEnvironment = 'live' | 'test';
+export type ApiKeyScope = 'search' | 'batch-match' | 'business';
+
+export interface ApiKey {
+  id: string;
+  name: string;
+  // First characters of the key, safe to display ("wla_pk_live_Ab3dEf")
+  prefix: string;
+  environment: ApiKeyEnvironment;
+  scopes: ApiKeyScope[];
+  tier: SubscriptionTier;
+  owner_id: string | null;
+  owner_name: string | null;
+  // Business account the key acts for on /business routes
+  account_id: string | null;
+  last_used_at: string | null;
+  expires_at: string | null;
+  revoked_at: string | null;
+  rotated_from: string | null;
+  created_at: string;
+}
+
+// Who is calling: resolved once per request from a Bearer JWT, an X-API-Key or neither
+export type Caller =
+  | { type: 'user'; id: string; tier: SubscriptionTier; email: string }
+  | {
+      type: 'api_key';
+      id: string;
+      tier: SubscriptionTier;
+      scopes: ApiKeyScope[];
+      environment: ApiKeyEnvironment;
+      owner_id: string | null;
+      account_id: string | null;
+    }
+  | { type: 'anonymous'; ip: string };
+
+// Business Account Types
+export type BusinessPlan = 'pro' | 'enterprise';
+// owner: everything, including roles; manager: adds and removes staff; staff: business features only
+export type BusinessRole = 'owner' | 'manager' | 'staff';
+
+// Effective limits: the account's own where set, else its plan's
+export interface BusinessAccountLimits {
+  seats: number;
+  requests_per_minute: number;
+  requests_per_day: number;
+}
+
+export interface BusinessAccount {
+  id: string;
+  name: string;
+  plan: BusinessPlan;
+  subscription_status: SubscriptionStatus;
+  subscription_expires_at: string | null;
+  limits: BusinessAccountLimits;
+  created_at: string;
+}
+
+export interface BusinessAccountMember {
+  user_id: string;
+  email: string;
+  first_name: string | null;
+  last_name: string | null;
+  role: BusinessRole;
+  added_at: string;
+}
+
+export interface BusinessMembership {
+  account: BusinessAccount;
+  role: BusinessRole;
+}
+
+// Webhook Types (business)
+export type WebhookEventType = 'list.analyzed' | 'subscription.renewed' | 'subscription.cancelled';
+export type WebhookDeliveryStatus = 'pending' | 'succeeded' | 'failed';
+
+export interface WebhookEndpoint {
+  id: string;
+  url: string;
+  description: string | null;
+  events: WebhookEventType[];
+  enabled: boolean;
+  created_at: string;
+}
+
+// One event sent to one endpoint, with the outcome of its latest attempt
+export interface WebhookDelivery {
+  id: string;
+  endpoint_id: string;
+  event_id: string;
+  event: WebhookEventType;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  // When the next attempt is due; null once the delivery succeeded or failed for good
+  next_attempt_at: string | null;
+  last_attempt_at: string | null;
+  response_status: number | null;
+  response_body: string | null;
+  error: string | null;
+  redelivery_of: string | null;
+  created_at: string;
+}
+
+// List Analysis Types (business)
+export type MarkupStatus = 'below_range' | 'in_range' | 'above_range';
+export type DrinkWindowStatus = 'too_young' | 'ready' | 'drink_soon' | 'past_window' | 'unknown';
+
+export interface AnalyzedWineRef {
+  id: string;
+  producer: string;
+  name: string;
+  vintage: number | null;
+  score: number;
+}
+
+export interface AnalyzedListWine {
+  line: number;
+  original_text: string;
+  matched_wine: AnalyzedWineRef | null;
+  confidence: number;
+  list_price: number | null;
+  release_price: number | null;
+  markup_ratio: number | null;
+  markup_status: MarkupStatus | null;
+  drink_window_start: number | null;
+  drink_window_end: number | null;
+  drink_window_status: DrinkWindowStatus;
+  // 0-10; critic score weighed against markup
+  value_score: number | null;
+}
+
+export interface ListAnalysisSummary {
+  total_wines: number;
+  matched_wines: number;
+  match_rate: number;
+  average_score: number | null;
+  average_markup_ratio: number | null;
+  score_distribution: Record<'95-100' | '90-94' | '85-89' | '80-84' | 'below_80', number>;
+}
+
+export interface DrinkWindowAlert {
+  line: number;
+  wine: AnalyzedWineRef;
+  drink_window_end: number;
+  severity: 'low' | 'medium' | 'high';
+}
+
+export interface MarkupOutlier {
+  line: number;
+  wine: AnalyzedWineRef;
+  list_price: number;
+  release_price: number;
+  markup_ratio: number;
+  status: Exclude<MarkupStatus, 'in_range'>;
+  // List prices that would fall inside markup_range
+  suggested_range: [number, number];
+}
+
+export interface ListAnalysisOptions {
+  include_markup_analysis: boolean;
+  markup_range: [number, number];
+  include_drink_window_alerts: boolean;
+}
+
+export interface ListAnalysis {
+  analysis_id: string;
+  restaurant_name: string | null;
+  options: ListAnalysisOptions;
+  summary: ListAnalysisSummary;
+  alerts: {
+    past_drink_window: DrinkWindowAlert[];
+    markup_outliers: MarkupOutlier[];
+  };
+  wines: AnalyzedListWine[];
+  created_at: string;
+}
+
+// Replacement Types (business)
+export interface ReplacementSuggestion {
+  wine: WineDetail;
+  reason: string;
+  // 0-1; other vintages of the same wine rank 0.8-0.95
+  similarity_score: number;
+}
+
+// Scan Analytics Types (internal)
+export type ScanEventType = 'scan_completed';
+export type ScanReportDimension = 'app_version' | 'device_model' | 'platform';
+
+export interface LatencyPercentiles {
+  p50: number;
+  p90: number;
+  p99: number;
+}
+
+// match_rate is wines_matched / wines_detected over the scans; latency is estimated from
+// the rollup histograms and is null without scans
+export interface ScanStats {
+  scans: number;
+  wines_detected: number;
+  wines_matched: number;
+  match_rate: number | null;
+  latency_ms: LatencyPercentiles | null;
+}
+
+export interface ScanTrendPoint extends ScanStats {
+  day: string;
+}
+
+export interface ScanGroupReport extends ScanStats {
+  key: string;
+  trend: ScanTrendPoint[];
+}
+
+export interface FilterUsage {
+  filter: string;
+  scans: number;
+  // Share of all scans in the range that used the filter
+  share: number;
+  trend: { day: string; scans: number; share: number }[];
+}
+
+export interface ScanReport {
+  from: string;
+  to: string;
+  group_by: ScanReportDimension;
+  summary: ScanStats;
+  trend: ScanTrendPoint[];
+  groups: ScanGroupReport[];
+  filters: FilterUsage[];
+}
+
+// Unmatched Query Types (internal)
+export type UnmatchedQueryStatus = 'open' | 'resolved' | 'ignored';
+
+// A batch-match query that found no match or only a low-confidence one
+export interface UnmatchedQuery {
+  id: string;
+  query: string;
+  normalized_query: string;
+  occurrences: number;
+  // Best search candidate at the last miss
+  best_confidence: number;
+  best_wine_id: string | null;
+  status: UnmatchedQueryStatus;
+  first_seen_at: string;
+  last_seen_at: string;
+}
+
+// Similar unmatched queries, likely spellings of one wine; id is the most frequent query's
+export interface UnmatchedQueryCluster {
+  id: string;
+  query: string;
+  occurrences: number;
+  best_confidence: number;
+  best_wine_id: string | null;
+  last_seen_at: string;
+  queries: UnmatchedQuery[];
+}
+
+export interface WineAlias {
+  id: string;
+  alias: string;
+  normalized_alias: string;
+  wine_id: string;
+  created_at: string;
+}
+
+// Search Synonym Types (internal)
+export type SearchSynonymType = 'synonym' | 'one_way';
+export type SearchSynonymCategory = 'general' | 'grape' | 'region' | 'producer';
+
+// A synonym group from search_synonyms; a one_way group has an input
+export interface SearchSynonym {
+  id: string;
+  type: SearchSynonymType;
+  input: string | null;
+  synonyms: string[];
+  category: SearchSynonymCategory;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface SynonymSyncResult {
+  provider: string;
+  synonyms: number;
+  // False when the provider has no synonyms to configure
+  applied: boolean;
+  synced_at: string;
+}
+
+// Browse Types
+export type BrowseSort = 'score' | 'price' | 'vintage' | 'rank';
+export type BrowseFacet =
+  | 'region'
+  | 'sub_region'
+  | 'appellation'
+  | 'country'
+  | 'color'
+  | 'grape'
+  | 'vintage'
+  | 'score'
+  | 'price'
+  | 'drink_window_status'
+  | 'top100_year';
+
+// Catalog browse filters; list filters match any of their values
+export interface BrowseFilters {
+  region?: string[];
+  sub_region?: string[];
+  appellation?: string[];
+  country?: string[];
+  color?: WineColor[];
+  grape?: string[];
+  drink_window_status?: DrinkWindowStatus[];
+  top100_year?: number[];
+  max_top100_rank?: number;
+  min_score?: number;
+  max_score?: number;
+  min_price?: number;
+  max_price?: number;
+  min_vintage?: number;
+  max_vintage?: number;
+}
+
+export interface BrowseWine extends WineWithReview {
+  drink_window_status: DrinkWindowStatus;
+}
+
+// Score and price facets count buckets, e.g. "90-94" or "under_25"
+export interface FacetCount {
+  value: string;
+  count: number;
+}
+
+export type BrowseFacets = Record<BrowseFacet, FacetCount[]>;
+
 // API Response Types
 export interface ApiResponse<T> {
   success: boolean;
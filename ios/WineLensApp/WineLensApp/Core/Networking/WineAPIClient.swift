@@ -195,7 +195,7 @@ final class WineAPIClient {
 
     // MARK: - Subscription
 
-    func verifySubscription(receiptData: String, transactionId: String) async throws -> Subscription {
+    func verifySubscription(signedTransaction: String, transactionId: String) async throws -> Subscription {
         let url = baseURL.appendingPathComponent("subscriptions/verify")
 
         var request = try await authorizedRequest(url: url, requiresAuth: true)
@@ -204,7 +204,7 @@ final class WineAPIClient {
 
         let body = VerifySubscriptionRequest(
             store: "app_store",
-            receiptData: receiptData,
+            signedTransaction: signedTransaction,
             transactionId: transactionId
         )
         request.httpBody = try encoder.encode(body)
@@ -376,12 +376,12 @@ private struct SaveWineResponse: Codable {
 
 private struct VerifySubscriptionRequest: Codable {
     let store: String
-    let receiptData: String
+    let signedTransaction: String
     let transactionId: String
     
     enum CodingKeys: String, CodingKey {
         case store
-        case receiptData = "receipt_data"
+        case signedTransaction = "signed_transaction"
         case transactionId = "transaction_id"
     }
 }
@@ -102,7 +102,7 @@ final class SubscriptionService: ObservableObject {
                 await transaction.finish()
 
                 // Verify with our backend
-                await verifyWithBackend(transaction)
+                await verifyWithBackend(transaction, signedTransaction: verification.jwsRepresentation)
 
                 return true
 
@@ -265,18 +265,10 @@ final class SubscriptionService: ObservableObject {
         }
     }
 
-    private func verifyWithBackend(_ transaction: Transaction) async {
-        // Get the receipt data
-        guard let appStoreReceiptURL = Bundle.main.appStoreReceiptURL,
-              let receiptData = try? Data(contentsOf: appStoreReceiptURL) else {
-            return
-        }
-
-        let receiptString = receiptData.base64EncodedString()
-
+    private func verifyWithBackend(_ transaction: Transaction, signedTransaction: String) async {
         do {
             _ = try await WineAPIClient.shared.verifySubscription(
-                receiptData: receiptString,
+                signedTransaction: signedTransaction,
                 transactionId: String(transaction.id)
             )
         } catch {